@@ -7,6 +7,7 @@ import { BrowserRouter, Routes, Route } from "react-router-dom";
 import { ModelProvider } from "@/context/ModelContext";
 import { ThemeProvider } from "@/context/ThemeContext";
 import Index from "./pages/Index";
+import ApiKeys from "./pages/ApiKeys";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -21,6 +22,7 @@ const App = () => (
           <BrowserRouter>
             <Routes>
               <Route path="/" element={<Index />} />
+              <Route path="/api-keys" element={<ApiKeys />} />
               <Route path="*" element={<NotFound />} />
             </Routes>
           </BrowserRouter>
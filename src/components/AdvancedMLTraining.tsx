@@ -72,7 +72,11 @@ export function AdvancedMLTraining({
         features, 
         target, 
         selectedAlgorithm, 
-        algorithmParams
+        algorithmParams,
+        undefined,
+        undefined,
+        undefined,
+        datasetName
       );
       
       setTrainedModel(result);
@@ -63,7 +63,7 @@ export function AnomalyDetectionTraining({
       }, 300);
       
       // Train all anomaly detection models
-      const results = await trainAnomalyDetectionModels(data, features);
+      const results = await trainAnomalyDetectionModels(data, features, datasetName);
       
       // Sort results by accuracy (descending)
       const sortedResults = [...results].sort((a, b) => b.accuracy - a.accuracy);
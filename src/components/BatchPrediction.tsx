@@ -0,0 +1,243 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Model, useModels } from "@/context/ModelContext";
+import { DATASET_EXTENSIONS, DatasetFormat, DatasetReadResult, detectDatasetFormat, readDataset } from "@/utils/datasetReaders";
+import {
+  appendPredictionColumns,
+  BACKGROUND_ROW_THRESHOLD,
+  BatchOutput,
+  BatchPredictions,
+  ColumnMapping,
+  matchColumns,
+  predictInChunks,
+  serializeBatchOutput,
+  toBatchInputRows,
+  unmappedFeatures,
+} from "@/utils/batchPrediction";
+import { submitPredictionJob, waitForPredictionJob } from "@/utils/predictionJobs";
+import type { InferenceLocation } from "@/utils/onnxInference";
+import { AlertCircle, Download, FileSpreadsheet, RefreshCw } from "lucide-react";
+import { toast } from "sonner";
+
+// Sentinel for an unmapped feature; Select items can't have an empty value
+const UNMAPPED = "__unmapped__";
+
+interface BatchPredictionProps {
+  model: Model;
+  features: string[];
+  textFeatures: string[];
+  inference: InferenceLocation;
+}
+
+// Predict every row of an uploaded file and download it with the predictions appended
+export function BatchPrediction({ model, features, textFeatures, inference }: BatchPredictionProps) {
+  const { predictWithModel } = useModels();
+  const [file, setFile] = useState<File | null>(null);
+  const [format, setFormat] = useState<DatasetFormat | null>(null);
+  const [dataset, setDataset] = useState<DatasetReadResult | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [reading, setReading] = useState(false);
+  const [running, setRunning] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [jobId, setJobId] = useState<string | null>(null);
+  const [output, setOutput] = useState<BatchOutput | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Browser-trained models and forecasters are evaluated client-side by predictWithModel
+  const runsOnServer = inference === "server" &&
+    model.type !== "Forecasting" && model.parameters?.trainingMethod !== "browser";
+  const runInBackground = runsOnServer && (dataset?.rows.length ?? 0) > BACKGROUND_ROW_THRESHOLD;
+  const missing = unmappedFeatures(mapping);
+
+  const handleFile = async (selected: File | undefined) => {
+    setDataset(null);
+    setOutput(null);
+    setError(null);
+    setProgress(0);
+    setJobId(null);
+    if (!selected) return;
+
+    const detected = detectDatasetFormat(selected.name);
+    if (!detected) {
+      toast.error(`Please upload one of: ${DATASET_EXTENSIONS.map(ext => `.${ext}`).join(", ")}`);
+      return;
+    }
+
+    setFile(selected);
+    setFormat(detected);
+    setReading(true);
+    try {
+      const result = await readDataset(selected, detected);
+      if (result.rows.length === 0) {
+        throw new Error("The file has no rows");
+      }
+      setDataset(result);
+      setMapping(matchColumns(features, result.headers));
+    } catch (err) {
+      console.error("Error reading batch file:", err);
+      setError(err instanceof Error ? err.message : "Could not read the file");
+    } finally {
+      setReading(false);
+    }
+  };
+
+  const run = async () => {
+    if (!dataset) return;
+    try {
+      setRunning(true);
+      setError(null);
+      setOutput(null);
+      setProgress(0);
+      setJobId(null);
+
+      const inputData = toBatchInputRows(dataset.rows, features, mapping, textFeatures);
+      let result: BatchPredictions;
+      if (runInBackground) {
+        const id = await submitPredictionJob(model.id, inputData);
+        setJobId(id);
+        const job = await waitForPredictionJob(id, update => setProgress(update.progress));
+        result = { predictions: job.result?.predictions ?? [], probabilities: job.result?.probabilities ?? [] };
+      } else {
+        result = await predictInChunks(inputData, async (chunk) => {
+          const response = await predictWithModel(model.id, chunk, { inference });
+          if (!response.success) {
+            throw new Error("Prediction failed. Please try again.");
+          }
+          return { predictions: response.predictions, probabilities: response.probabilities ?? [] };
+        }, setProgress);
+      }
+
+      const classNames = Array.isArray(model.parameters?.class_names) ? model.parameters.class_names : null;
+      setOutput(appendPredictionColumns(dataset.headers, dataset.rows, result, model.targets || ["Target"], classNames));
+      setProgress(100);
+      toast.success(`Predicted ${dataset.rows.length} rows`);
+    } catch (err) {
+      console.error("Batch prediction error:", err);
+      setError(err instanceof Error ? err.message : "An unknown error occurred");
+      toast.error("Batch prediction failed");
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const download = () => {
+    if (!output || !file || !format) return;
+    const { blob, fileName } = serializeBatchOutput(output, format, file.name, dataset?.delimiter);
+    const url = URL.createObjectURL(blob);
+
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = fileName;
+    document.body.appendChild(a);
+    a.click();
+
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="space-y-3 p-3 border rounded-md">
+      <div className="flex items-center gap-2">
+        <FileSpreadsheet className="h-4 w-4 text-primary" />
+        <Label htmlFor="batch-file">Batch prediction from a file</Label>
+      </div>
+      <Input
+        id="batch-file"
+        type="file"
+        accept={DATASET_EXTENSIONS.map(ext => `.${ext}`).join(",")}
+        onChange={(e) => handleFile(e.target.files?.[0])}
+        disabled={reading || running}
+      />
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {dataset && (
+        <>
+          <div className="text-xs text-muted-foreground">
+            {dataset.rows.length} rows, {dataset.headers.length} columns
+            {dataset.errorCount > 0 && `, ${dataset.errorCount} unreadable row(s) skipped`}
+          </div>
+
+          <div className="space-y-2">
+            <Label className="text-xs">Column mapping</Label>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+              {features.map(feature => (
+                <div key={feature} className="flex items-center gap-2">
+                  <span className="text-xs font-medium w-1/3 truncate" title={feature}>{feature}</span>
+                  <Select
+                    value={mapping[feature] ?? UNMAPPED}
+                    onValueChange={(value) => setMapping({ ...mapping, [feature]: value === UNMAPPED ? null : value })}
+                    disabled={running}
+                  >
+                    <SelectTrigger className={`h-8 flex-1 ${mapping[feature] ? "" : "border-destructive"}`}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={UNMAPPED}>Not mapped</SelectItem>
+                      {dataset.headers.map(header => (
+                        <SelectItem key={header} value={header}>{header}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+            {missing.length > 0 && (
+              <p className="text-xs text-destructive">Map a column to every feature: {missing.join(", ")}</p>
+            )}
+          </div>
+
+          {runInBackground && (
+            <p className="text-xs text-muted-foreground">
+              More than {BACKGROUND_ROW_THRESHOLD} rows: the batch runs as a background job on the server.
+            </p>
+          )}
+
+          {(running || progress > 0) && (
+            <div className="space-y-1">
+              <Progress value={progress} className="h-2" />
+              <div className="flex justify-between text-xs text-muted-foreground">
+                <span>{jobId ? `Job ${jobId.slice(0, 8)}` : "Predicting in chunks"}</span>
+                <span>{progress.toFixed(0)}%</span>
+              </div>
+            </div>
+          )}
+
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={run}
+              disabled={running || missing.length > 0}
+            >
+              {running && <RefreshCw className="h-4 w-4 mr-1 animate-spin" />}
+              Predict {dataset.rows.length} Rows
+            </Button>
+            {output && (
+              <Button size="sm" onClick={download}>
+                <Download className="h-4 w-4 mr-1" />
+                Download Results
+              </Button>
+            )}
+            {output && (
+              <Badge variant="secondary" className="self-center">
+                {output.headers.length - dataset.headers.length} column(s) added
+              </Badge>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
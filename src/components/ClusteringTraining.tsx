@@ -63,7 +63,7 @@ export function ClusteringTraining({
       }, 300);
       
       // Train all clustering models
-      const results = await trainClusteringModels(data, features);
+      const results = await trainClusteringModels(data, features, datasetName);
       
       // Sort results by accuracy (descending)
       const sortedResults = [...results].sort((a, b) => b.accuracy - a.accuracy);
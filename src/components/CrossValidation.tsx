@@ -1,5 +1,6 @@
 import { useState } from "react";
 import { useTheme } from "@/context/ThemeContext";
+import { Algorithm, useModels } from "@/context/ModelContext";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Button } from "@/components/ui/button";
@@ -7,60 +8,146 @@ import { Slider } from "@/components/ui/slider";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Checkbox } from "@/components/ui/checkbox";
+import { Progress } from "@/components/ui/progress";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { SplitSquareVertical, BarChart4, Play, Layers } from "lucide-react";
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend, AreaChart, Area } from "recharts";
+import { toast } from "sonner";
+import {
+  CrossValidationReport,
+  DEFAULT_CROSS_VALIDATION_OPTIONS,
+  FoldResult,
+  MAX_LOOCV_ROWS,
+  ValidationMethod,
+  runCrossValidation,
+} from "@/utils/crossValidation";
+import { FeatureValue } from "@/utils/browserModels";
+import { PreprocessingInput } from "@/utils/preprocessing";
 
-interface ValidationResult {
-  fold: number;
-  trainAccuracy: number;
-  validationAccuracy: number;
-  trainLoss: number;
-  validationLoss: number;
+interface CrossValidationProps {
+  data: Record<string, FeatureValue>[];
+  features: string[];
+  target: string;
+  preprocessing: PreprocessingInput;
 }
 
-export function CrossValidation() {
+const VALIDATION_ALGORITHMS: Algorithm[] = [
+  "Random Forest",
+  "Decision Tree",
+  "Linear Regression",
+  "Logistic Regression",
+  "SVM",
+  "XGBoost",
+  "Gradient Boosting",
+  "AdaBoost",
+  "KNN",
+  "Naive Bayes",
+  "LightGBM",
+  "CatBoost"
+];
+
+const NO_MODEL = "none";
+
+export function CrossValidation({ data, features, target, preprocessing }: CrossValidationProps) {
   const { theme } = useTheme();
-  const [folds, setFolds] = useState<number>(5);
-  const [validationMethod, setValidationMethod] = useState<string>("kfold");
-  const [isStratified, setIsStratified] = useState<boolean>(true);
+  const { models, updateModel } = useModels();
+  const [folds, setFolds] = useState<number>(DEFAULT_CROSS_VALIDATION_OPTIONS.folds);
+  const [repeats, setRepeats] = useState<number>(DEFAULT_CROSS_VALIDATION_OPTIONS.repeats);
+  const [holdoutSize, setHoldoutSize] = useState<number>(DEFAULT_CROSS_VALIDATION_OPTIONS.holdoutSize);
+  const [validationMethod, setValidationMethod] = useState<ValidationMethod>(DEFAULT_CROSS_VALIDATION_OPTIONS.method);
+  const [isStratified, setIsStratified] = useState<boolean>(DEFAULT_CROSS_VALIDATION_OPTIONS.stratified);
+  const [algorithm, setAlgorithm] = useState<Algorithm>("Random Forest");
+  const [modelId, setModelId] = useState<string>(NO_MODEL);
   const [isRunning, setIsRunning] = useState<boolean>(false);
+  const [progress, setProgress] = useState<number>(0);
+  const [validationResults, setValidationResults] = useState<FoldResult[]>([]);
+  const [report, setReport] = useState<CrossValidationReport | null>(null);
   
-  const [validationResults, setValidationResults] = useState<ValidationResult[]>([
-    { fold: 1, trainAccuracy: 0.91, validationAccuracy: 0.85, trainLoss: 0.21, validationLoss: 0.35 },
-    { fold: 2, trainAccuracy: 0.92, validationAccuracy: 0.84, trainLoss: 0.19, validationLoss: 0.37 },
-    { fold: 3, trainAccuracy: 0.90, validationAccuracy: 0.87, trainLoss: 0.23, validationLoss: 0.32 },
-    { fold: 4, trainAccuracy: 0.93, validationAccuracy: 0.82, trainLoss: 0.17, validationLoss: 0.39 },
-    { fold: 5, trainAccuracy: 0.89, validationAccuracy: 0.86, trainLoss: 0.24, validationLoss: 0.33 },
-  ]);
+  // Only supervised models trained on this target can carry the results
+  const attachableModels = models.filter(model =>
+    VALIDATION_ALGORITHMS.includes(model.algorithm) &&
+    (model.targets?.includes(target) ?? true)
+  );
   
-  const runValidation = () => {
+  const handleModelChange = (id: string) => {
+    setModelId(id);
+    const model = models.find(m => m.id === id);
+    if (model) setAlgorithm(model.algorithm);
+  };
+  
+  const runValidation = async () => {
     setIsRunning(true);
+    setProgress(0);
+    setValidationResults([]);
+    setReport(null);
+    
+    const options = {
+      ...DEFAULT_CROSS_VALIDATION_OPTIONS,
+      method: validationMethod,
+      folds,
+      repeats,
+      holdoutSize,
+      stratified: isStratified,
+    };
     
-    setTimeout(() => {
-      const newResults: ValidationResult[] = Array.from({ length: folds }, (_, i) => ({
-        fold: i + 1,
-        trainAccuracy: 0.88 + Math.random() * 0.07,
-        validationAccuracy: 0.8 + Math.random() * 0.1,
-        trainLoss: 0.15 + Math.random() * 0.15,
-        validationLoss: 0.25 + Math.random() * 0.2,
-      }));
+    try {
+      const result = await runCrossValidation(
+        data, features, target, algorithm, options, {}, preprocessing,
+        (fold, completed, total) => {
+          setValidationResults(previous => [...previous, fold]);
+          setProgress((completed / total) * 100);
+        }
+      );
+      setReport(result);
+      
+      // Keep the results with the saved model so they can be audited later
+      const model = models.find(m => m.id === modelId);
+      if (model) {
+        await updateModel(model.id, {
+          parameters: { ...model.parameters, crossValidation: result },
+        });
+      }
       
-      setValidationResults(newResults);
+      toast.success(`Cross-validation complete: ${(result.summary.validation.mean * 100).toFixed(2)}% ± ${(result.summary.validation.std * 100).toFixed(2)}%`);
+    } catch (error) {
+      console.error("Cross-validation failed:", error);
+      toast.error(`Cross-validation failed: ${error instanceof Error ? error.message : "Unknown error"}`);
+    } finally {
       setIsRunning(false);
-    }, 2000);
+    }
   };
   
-  const avgTrainAccuracy = validationResults.reduce((sum, result) => sum + result.trainAccuracy, 0) / validationResults.length;
-  const avgValAccuracy = validationResults.reduce((sum, result) => sum + result.validationAccuracy, 0) / validationResults.length;
-  const stdDevValAccuracy = Math.sqrt(
-    validationResults.reduce((sum, result) => sum + Math.pow(result.validationAccuracy - avgValAccuracy, 2), 0) / validationResults.length
-  );
+  const scores = validationResults.map(result => result.validationScore);
+  const trainScores = validationResults
+    .map(result => result.trainScore)
+    .filter((score): score is number => score !== null);
+  const avgValAccuracy = scores.length ? scores.reduce((sum, score) => sum + score, 0) / scores.length : 0;
+  const avgTrainAccuracy = trainScores.length
+    ? trainScores.reduce((sum, score) => sum + score, 0) / trainScores.length
+    : avgValAccuracy;
+  const stdDevValAccuracy = scores.length ? Math.sqrt(
+    scores.reduce((sum, score) => sum + Math.pow(score - avgValAccuracy, 2), 0) / scores.length
+  ) : 0;
+  const scoreLabel = report?.scoreName === "r2_score" ? "R² Score" : "Accuracy";
+  
+  const chartData = validationResults.map(result => ({
+    fold: validationMethod === "repeated" ? `${result.repeat}.${result.fold}` : result.fold,
+    trainAccuracy: result.trainScore,
+    validationAccuracy: result.validationScore,
+  }));
+  // R² can go negative, so only pin the axis at 50% when every score is above it
+  const lowestScore = Math.min(0.5, ...scores, ...trainScores);
+  const yDomain: [number, number] = [Math.floor(lowestScore * 10) / 10, 1];
   
   const distributionData = [
     { name: 'Train Accuracy', value: avgTrainAccuracy },
     { name: 'Validation Accuracy', value: avgValAccuracy },
   ];
   
+  const methodName = validationMethod === "kfold" ? "K-Fold" : 
+    validationMethod === "repeated" ? "Repeated K-Fold" :
+    validationMethod === "loocv" ? "Leave-One-Out" : "Holdout";
+  
   return (
     <Card className={`w-full ${
       theme === "light" ? "card-container-light" : "card-container-dark"
@@ -88,11 +175,48 @@ export function CrossValidation() {
           
           <TabsContent value="setup">
             <div className="space-y-6">
+              <div className="space-y-2">
+                <Label htmlFor="validation-model">Attach Results To</Label>
+                <Select value={modelId} onValueChange={handleModelChange}>
+                  <SelectTrigger id="validation-model">
+                    <SelectValue placeholder="Select a saved model" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_MODEL}>Don't save results</SelectItem>
+                    {attachableModels.map(model => (
+                      <SelectItem key={model.id} value={model.id}>
+                        {model.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              
+              <div className="space-y-2">
+                <Label htmlFor="validation-algorithm">Algorithm</Label>
+                <Select
+                  value={algorithm}
+                  onValueChange={(value) => setAlgorithm(value as Algorithm)}
+                  disabled={modelId !== NO_MODEL}
+                >
+                  <SelectTrigger id="validation-algorithm">
+                    <SelectValue placeholder="Select algorithm" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {VALIDATION_ALGORITHMS.map(alg => (
+                      <SelectItem key={alg} value={alg}>
+                        {alg}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              
               <div className="space-y-2">
                 <Label htmlFor="validation-method">Validation Method</Label>
                 <Select
                   value={validationMethod}
-                  onValueChange={setValidationMethod}
+                  onValueChange={(value) => setValidationMethod(value as ValidationMethod)}
                 >
                   <SelectTrigger id="validation-method">
                     <SelectValue placeholder="Select validation method" />
@@ -106,7 +230,7 @@ export function CrossValidation() {
                 </Select>
               </div>
               
-              {validationMethod !== "loocv" && (
+              {(validationMethod === "kfold" || validationMethod === "repeated") && (
                 <div className="space-y-2">
                   <div className="flex justify-between">
                     <Label htmlFor="folds-slider">Number of Folds</Label>
@@ -123,6 +247,40 @@ export function CrossValidation() {
                 </div>
               )}
               
+              {validationMethod === "repeated" && (
+                <div className="space-y-2">
+                  <div className="flex justify-between">
+                    <Label htmlFor="repeats-slider">Repetitions</Label>
+                    <span className="text-sm text-muted-foreground">{repeats}</span>
+                  </div>
+                  <Slider
+                    id="repeats-slider"
+                    min={2}
+                    max={10}
+                    step={1}
+                    value={[repeats]}
+                    onValueChange={(value) => setRepeats(value[0])}
+                  />
+                </div>
+              )}
+              
+              {validationMethod === "holdout" && (
+                <div className="space-y-2">
+                  <div className="flex justify-between">
+                    <Label htmlFor="holdout-slider">Validation Size</Label>
+                    <span className="text-sm text-muted-foreground">{Math.round(holdoutSize * 100)}%</span>
+                  </div>
+                  <Slider
+                    id="holdout-slider"
+                    min={0.1}
+                    max={0.5}
+                    step={0.05}
+                    value={[holdoutSize]}
+                    onValueChange={(value) => setHoldoutSize(value[0])}
+                  />
+                </div>
+              )}
+              
               <div className="flex items-center space-x-2">
                 <Checkbox
                   id="stratified"
@@ -130,16 +288,14 @@ export function CrossValidation() {
                   onCheckedChange={(checked) => setIsStratified(checked === true)}
                 />
                 <Label htmlFor="stratified">
-                  Use stratified sampling
+                  Use stratified sampling (classification targets)
                 </Label>
               </div>
               
               <div className={`p-4 rounded-lg text-sm ${
                 theme === "light" ? "bg-secondary/80" : "bg-secondary/30"
               }`}>
-                <h3 className="font-medium mb-2">About {validationMethod === "kfold" ? "K-Fold" : 
-                  validationMethod === "repeated" ? "Repeated K-Fold" :
-                  validationMethod === "loocv" ? "Leave-One-Out" : "Holdout"} Validation</h3>
+                <h3 className="font-medium mb-2">About {methodName} Validation</h3>
                 <p className="text-muted-foreground">
                   {validationMethod === "kfold" && (
                     "K-Fold cross-validation splits the data into K equal parts, training the model K times, each time using a different fold as validation data and the rest for training."
@@ -148,7 +304,7 @@ export function CrossValidation() {
                     "Repeated K-Fold performs standard K-Fold validation multiple times with different randomizations to get more reliable performance estimates."
                   )}
                   {validationMethod === "loocv" && (
-                    "Leave-One-Out cross-validation uses a single observation as validation data and the remaining observations as training data, repeated for each observation."
+                    `Leave-One-Out cross-validation uses a single observation as validation data and the remaining observations as training data, repeated for each observation. It is available for datasets of up to ${MAX_LOOCV_ROWS} rows.`
                   )}
                   {validationMethod === "holdout" && (
                     "Holdout validation involves splitting the data into two sets: a training set and a validation set, with a single evaluation."
@@ -156,10 +312,20 @@ export function CrossValidation() {
                 </p>
               </div>
               
+              {isRunning && (
+                <div className="space-y-1">
+                  <div className="flex justify-between text-sm">
+                    <span>Training folds...</span>
+                    <span>{validationResults.length} completed</span>
+                  </div>
+                  <Progress value={progress} className="h-2" />
+                </div>
+              )}
+              
               <div className="flex justify-end">
                 <Button
                   onClick={runValidation}
-                  disabled={isRunning}
+                  disabled={isRunning || data.length === 0}
                   className="flex items-center gap-1"
                 >
                   {isRunning ? (
@@ -179,11 +345,16 @@ export function CrossValidation() {
           </TabsContent>
           
           <TabsContent value="results">
+            {validationResults.length === 0 ? (
+              <div className="text-sm text-muted-foreground text-center py-8">
+                Run a validation to see per-fold results
+              </div>
+            ) : (
             <div className="space-y-6">
               <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
                 <Card className="shadow-sm">
                   <CardHeader className="p-4 pb-2">
-                    <CardTitle className="text-lg">Average Accuracy</CardTitle>
+                    <CardTitle className="text-lg">Average {scoreLabel}</CardTitle>
                   </CardHeader>
                   <CardContent className="p-4 pt-2">
                     <div className="text-3xl font-bold">
@@ -218,9 +389,7 @@ export function CrossValidation() {
                       {validationResults.length}
                     </div>
                     <div className="text-xs text-muted-foreground mt-1">
-                      {validationMethod === "kfold" ? "K-Fold" : 
-                        validationMethod === "repeated" ? "Repeated K-Fold" :
-                        validationMethod === "loocv" ? "Leave-One-Out" : "Holdout"}
+                      {methodName}
                     </div>
                   </CardContent>
                 </Card>
@@ -231,7 +400,7 @@ export function CrossValidation() {
                 <div className="h-64">
                   <ResponsiveContainer width="100%" height="100%">
                     <LineChart
-                      data={validationResults}
+                      data={chartData}
                       margin={{ top: 20, right: 30, left: 20, bottom: 5 }}
                     >
                       <CartesianGrid 
@@ -249,10 +418,10 @@ export function CrossValidation() {
                         stroke={theme === "light" ? "#6b7280" : "#9ca3af"}
                       />
                       <YAxis 
-                        domain={[0.5, 1]}
+                        domain={yDomain}
                         tickFormatter={(value) => `${(value * 100).toFixed(0)}%`}
                         label={{ 
-                          value: "Accuracy", 
+                          value: scoreLabel, 
                           angle: -90, 
                           position: "insideLeft",
                           style: { fill: theme === "light" ? "#6b7280" : "#9ca3af" }
@@ -271,7 +440,7 @@ export function CrossValidation() {
                       <Line 
                         type="monotone" 
                         dataKey="trainAccuracy" 
-                        name="Training Accuracy" 
+                        name={`Training ${scoreLabel}`} 
                         stroke={theme === "light" ? "#3b82f6" : "#60a5fa"} 
                         strokeWidth={2}
                         dot={{ r: 4 }}
@@ -280,7 +449,7 @@ export function CrossValidation() {
                       <Line 
                         type="monotone" 
                         dataKey="validationAccuracy" 
-                        name="Validation Accuracy" 
+                        name={`Validation ${scoreLabel}`} 
                         stroke={theme === "light" ? "#10b981" : "#34d399"} 
                         strokeWidth={2}
                         dot={{ r: 4 }}
@@ -293,7 +462,7 @@ export function CrossValidation() {
               
               <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
                 <div>
-                  <h3 className="text-sm font-medium mb-2">Accuracy Distribution</h3>
+                  <h3 className="text-sm font-medium mb-2">{scoreLabel} Distribution</h3>
                   <div className="h-48">
                     <ResponsiveContainer width="100%" height="100%">
                       <AreaChart
@@ -309,7 +478,7 @@ export function CrossValidation() {
                           stroke={theme === "light" ? "#6b7280" : "#9ca3af"}
                         />
                         <YAxis 
-                          domain={[0.5, 1]}
+                          domain={yDomain}
                           tickFormatter={(value) => `${(value * 100).toFixed(0)}%`}
                           stroke={theme === "light" ? "#6b7280" : "#9ca3af"}
                         />
@@ -361,7 +530,32 @@ export function CrossValidation() {
                   </div>
                 </div>
               </div>
+              
+              {report && (
+                <div className="space-y-1">
+                  <h3 className="text-sm font-medium">Metrics Across Folds</h3>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Metric</TableHead>
+                        <TableHead className="text-right">Mean ± Std</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {Object.entries(report.summary).map(([name, { mean, std }]) => (
+                        <TableRow key={name}>
+                          <TableCell className="font-medium">{name}</TableCell>
+                          <TableCell className="text-right">
+                            {mean.toFixed(4)} ± {std.toFixed(4)}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
             </div>
+            )}
           </TabsContent>
         </Tabs>
       </CardContent>
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useRef } from "react";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
@@ -9,21 +9,42 @@ import { Progress } from "@/components/ui/progress";
 import { Slider } from "@/components/ui/slider";
 import { Switch } from "@/components/ui/switch";
 import { Label } from "@/components/ui/label";
-import { trainNeuralNetwork, optimizeNeuralNetwork } from "@/utils/dlNetworks";
-import { NeuralNetworkLayer, useModels } from "@/context/ModelContext";
-import { Check, Info, Plus, X, ExternalLink } from "lucide-react";
+import { trainNeuralNetwork, optimizeNeuralNetwork, trainImageClassifier, DEFAULT_CNN_ARCHITECTURE } from "@/utils/dlNetworks";
+import { DEFAULT_IMAGE_INPUT, IMAGE_TARGET, ImageDataset, ImageInputConfig, imageRows } from "@/utils/imageDatasets";
+import { PreprocessingInput } from "@/utils/preprocessing";
+import { DatasetSchema } from "@/utils/schema";
+import { DEFAULT_SAMPLING_OPTIONS, sampleDataset, SamplingOptions, SamplingReport } from "@/utils/sampling";
+import { resolveSplit, SplitSpec } from "@/utils/splitting";
+import { TrainingJob, TrainingJobCancelledError, TrainingJobListener } from "@/utils/trainingJobs";
+import { EpochMetrics } from "@/utils/learningCurves";
+import { LayerType, NeuralNetworkLayer, useModels } from "@/context/ModelContext";
+import { Check, Info, Plus, X, ExternalLink, Database } from "lucide-react";
 import { toast } from "sonner";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { ModelDisclaimer } from "./ModelDisclaimer";
+import { LearningCurves } from "./LearningCurves";
+import { SamplingSettings } from "./SamplingSettings";
+import { ImageDatasetSettings } from "./ImageDatasetSettings";
+
+// Layers that only make sense on image inputs
+const IMAGE_LAYER_TYPES: LayerType[] = ["Conv2D", "MaxPooling2D", "AveragePooling2D", "BatchNormalization", "Flatten"];
 
 interface DLTrainingProps {
   data: any[];
   features: string[];
   target: string;
   datasetName: string;
+  // Column types the dataset was loaded with, saved alongside each model
+  schema?: DatasetSchema;
+  // Registered dataset version the models are trained on
+  datasetVersionId?: string;
+  // How rows are divided into training, validation and test sets
+  splitSpec?: SplitSpec;
+  preprocessing: PreprocessingInput;
   onTrainingComplete: () => void;
   onStartTraining: () => void;
+  onJobUpdate?: TrainingJobListener;
 }
 
 export function DLTraining({ 
@@ -31,22 +52,41 @@ export function DLTraining({
   features, 
   target, 
   datasetName, 
+  schema,
+  datasetVersionId,
+  splitSpec,
+  preprocessing,
   onTrainingComplete,
-  onStartTraining
+  onStartTraining,
+  onJobUpdate
 }: DLTrainingProps) {
   const { addModel } = useModels();
   const [isCustom, setIsCustom] = useState(false);
   const [isTraining, setIsTraining] = useState(false);
   const [trainingProgress, setTrainingProgress] = useState(0);
+  const [dataReductionEnabled, setDataReductionEnabled] = useState(true);
+  const [samplingOptions, setSamplingOptions] = useState<SamplingOptions>(DEFAULT_SAMPLING_OPTIONS);
+  const [samplingReport, setSamplingReport] = useState<SamplingReport | null>(null);
+  const targetJobsRef = useRef<Map<string, TrainingJob>>(new Map());
+  // The live chart follows the first network submitted for the current target
+  const [liveCurve, setLiveCurve] = useState<{ jobId: string; target: string; history: EpochMetrics[] } | null>(null);
   const [selectedTargets, setSelectedTargets] = useState<string[]>([target]);
   const [currentTarget, setCurrentTarget] = useState<string>("");
-  const [trainingResults, setTrainingResults] = useState<{target: string, accuracy: number, layers: number}[]>([]);
+  const [trainingResults, setTrainingResults] = useState<{target: string, accuracy: number, layers: number, history: EpochMetrics[]}[]>([]);
   
   // Neural network parameters
   const [networkArchitecture, setNetworkArchitecture] = useState<NeuralNetworkLayer[]>([
     { neurons: 64, activation: "ReLU", dropout: 0.2 },
     { neurons: 32, activation: "ReLU", dropout: 0.1 }
   ]);
+  // Image mode trains a CNN on an uploaded zip of class folders instead of the tabular dataset
+  const [dataSource, setDataSource] = useState<"tabular" | "images">("tabular");
+  const [imageInput, setImageInput] = useState<ImageInputConfig>(DEFAULT_IMAGE_INPUT);
+  const [imageDataset, setImageDataset] = useState<ImageDataset | null>(null);
+  const [imageArchitecture, setImageArchitecture] = useState<NeuralNetworkLayer[]>(DEFAULT_CNN_ARCHITECTURE);
+  const isImageMode = dataSource === "images";
+  const layers = isImageMode ? imageArchitecture : networkArchitecture;
+  const setLayers = isImageMode ? setImageArchitecture : setNetworkArchitecture;
   const [epochs, setEpochs] = useState(100);
   const [learningRate, setLearningRate] = useState(0.001);
 
@@ -94,20 +134,43 @@ export function DLTraining({
   };
 
   const addLayer = () => {
-    setNetworkArchitecture([...networkArchitecture, { neurons: 32, activation: "ReLU", dropout: 0.1 }]);
+    setLayers([...layers, { neurons: 32, activation: "ReLU", dropout: 0.1 }]);
   };
 
   const removeLayer = (index: number) => {
-    setNetworkArchitecture(networkArchitecture.filter((_, i) => i !== index));
+    setLayers(layers.filter((_, i) => i !== index));
   };
 
   const updateLayer = (index: number, field: keyof NeuralNetworkLayer, value: any) => {
-    const newArchitecture = [...networkArchitecture];
+    const newArchitecture = [...layers];
     newArchitecture[index] = {
       ...newArchitecture[index],
       [field]: value
     };
-    setNetworkArchitecture(newArchitecture);
+    setLayers(newArchitecture);
+  };
+
+  // Give a layer the settings its new type uses
+  const changeLayerType = (index: number, type: LayerType) => {
+    const newArchitecture = [...layers];
+    const layer = newArchitecture[index];
+    if (type === "Dense" || type === "Conv2D") {
+      newArchitecture[index] = {
+        ...layer,
+        type,
+        neurons: layer.neurons || 32,
+        activation: layer.activation === "Linear" ? "ReLU" : layer.activation,
+        kernelSize: type === "Conv2D" ? layer.kernelSize || 3 : undefined
+      };
+    } else {
+      newArchitecture[index] = {
+        type,
+        neurons: 0,
+        activation: "Linear",
+        poolSize: type.endsWith("Pooling2D") ? layer.poolSize || 2 : undefined
+      };
+    }
+    setLayers(newArchitecture);
   };
 
   const exportToColab = async () => {
@@ -202,7 +265,9 @@ export function DLTraining({
             { neurons: 64, activation: "ReLU", dropout: 0.2 },
             { neurons: 32, activation: "ReLU", dropout: 0.1 }
           ],
-          targets: selectedTargets
+          targets: selectedTargets,
+          schema,
+          datasetVersionId
         });
         
         toast.success("Model imported successfully!");
@@ -217,51 +282,149 @@ export function DLTraining({
     }
   };
 
+  const trainImageModel = async () => {
+    if (!imageDataset) {
+      toast.error("Upload a zip of class folders first");
+      return;
+    }
+
+    setIsTraining(true);
+    setTrainingProgress(0);
+    setTrainingResults([]);
+    setLiveCurve(null);
+    onStartTraining();
+
+    try {
+      // Pixels were packed at load time, so the dataset's size wins over unapplied edits
+      const input: ImageInputConfig = {
+        ...imageInput,
+        width: imageDataset.width,
+        height: imageDataset.height,
+        channels: imageDataset.channels
+      };
+      const architecture = isCustom ? imageArchitecture : DEFAULT_CNN_ARCHITECTURE;
+      // Grouping and time ordering refer to tabular columns; images split by class only
+      const split = splitSpec
+        ? resolveSplit(imageRows(imageDataset), IMAGE_TARGET, { ...splitSpec, groupColumn: undefined, timeColumn: undefined })
+        : undefined;
+      const jobListener = (job: TrainingJob) => {
+        setLiveCurve({ jobId: job.id, target: imageDataset.name, history: job.history });
+        setTrainingProgress(job.progress);
+        onJobUpdate?.(job);
+      };
+
+      const result = await trainImageClassifier(
+        imageDataset,
+        input,
+        architecture,
+        isCustom ? epochs : 30,
+        isCustom ? learningRate : 0.001,
+        split,
+        jobListener
+      );
+
+      await addModel({
+        name: `CNN - ${imageDataset.name}${isCustom ? ' (Custom)' : ' (Auto)'}`,
+        type: "DL",
+        algorithm: "Neural Network",
+        accuracy: result.accuracy,
+        datasetName: imageDataset.name,
+        parameters: result.parameters,
+        neuralNetworkArchitecture: result.neuralNetworkArchitecture,
+        targets: [IMAGE_TARGET],
+        splitSpec,
+        modelData: result.modelData
+      });
+
+      setTrainingResults([{
+        target: imageDataset.name,
+        accuracy: result.accuracy,
+        layers: architecture.length,
+        history: result.parameters.history ?? []
+      }]);
+      setTrainingProgress(100);
+      toast.success("Image classifier trained successfully");
+      onTrainingComplete();
+    } catch (error) {
+      if (error instanceof TrainingJobCancelledError) {
+        toast.info("Training cancelled");
+        return;
+      }
+      console.error("Training error:", error);
+      toast.error("Training failed. Please try again.");
+    } finally {
+      setIsTraining(false);
+    }
+  };
+
   const trainModel = async () => {
     setIsTraining(true);
     setTrainingProgress(0);
     setTrainingResults([]);
+    setLiveCurve(null);
     onStartTraining(); // Call the onStartTraining prop when training starts
     
-    const newResults: {target: string, accuracy: number, layers: number}[] = [];
+    const newResults: {target: string, accuracy: number, layers: number, history: EpochMetrics[]}[] = [];
 
     try {
-      // Simulate progress
-      const progressInterval = setInterval(() => {
-        setTrainingProgress(prev => {
-          const newProgress = prev + Math.random() * 5;
-          return newProgress >= 100 ? 100 : newProgress;
-        });
-      }, 500);
+      // Progress comes from the backend jobs of the target being trained
+      const targetCount = selectedTargets.length;
+      let liveJobId: string | null = null;
+      const handleJobUpdate = (targetIndex: number, targetFeature: string) => (job: TrainingJob) => {
+        if (targetJobsRef.current.size === 0 || liveJobId === job.id) {
+          liveJobId = job.id;
+          setLiveCurve({ jobId: job.id, target: targetFeature, history: job.history });
+        }
+        targetJobsRef.current.set(job.id, job);
+        const jobs = Array.from(targetJobsRef.current.values());
+        const targetProgress = jobs.reduce((sum, current) => sum + current.progress, 0) / jobs.length;
+        setTrainingProgress(((targetIndex + targetProgress / 100) / targetCount) * 100);
+        onJobUpdate?.(job);
+      };
 
       // Train model for each selected target
-      for (const targetFeature of selectedTargets) {
+      for (const [targetIndex, targetFeature] of selectedTargets.entries()) {
+        targetJobsRef.current = new Map();
+        const jobListener = handleJobUpdate(targetIndex, targetFeature);
+
+        // Without sampling every row goes to the backend job
+        const sample = dataReductionEnabled ? sampleDataset(data, targetFeature, samplingOptions) : null;
+        const rows = sample?.data ?? data;
+        const sampling = sample && sample.report.sampledRows < sample.report.originalRows ? sample.report : undefined;
+        setSamplingReport(sampling ?? null);
+        const split = splitSpec ? resolveSplit(rows, targetFeature, splitSpec) : undefined;
         let result;
         
         if (isCustom) {
           // Train with custom architecture
           result = await trainNeuralNetwork(
-            data, 
+            rows, 
             features, 
             targetFeature, 
             networkArchitecture,
             epochs,
-            learningRate
+            learningRate,
+            preprocessing,
+            split,
+            jobListener,
+            datasetName
           );
           
           newResults.push({
             target: targetFeature,
             accuracy: result.accuracy,
-            layers: networkArchitecture.length
+            layers: networkArchitecture.length,
+            history: result.parameters.history ?? []
           });
         } else {
           // Use auto-optimization
-          result = await optimizeNeuralNetwork(data, features, targetFeature);
+          result = await optimizeNeuralNetwork(rows, features, targetFeature, preprocessing, split, jobListener, datasetName);
           
           newResults.push({
             target: targetFeature,
             accuracy: result.accuracy,
-            layers: Array.isArray(result.neuralNetworkArchitecture) ? result.neuralNetworkArchitecture.length : 3
+            layers: Array.isArray(result.neuralNetworkArchitecture) ? result.neuralNetworkArchitecture.length : 3,
+            history: result.parameters.history ?? []
           });
         }
 
@@ -272,19 +435,27 @@ export function DLTraining({
           algorithm: "Neural Network",
           accuracy: result.accuracy,
           datasetName,
-          parameters: result.parameters,
+          parameters: { ...result.parameters, sampling },
           neuralNetworkArchitecture: result.neuralNetworkArchitecture,
-          targets: [targetFeature]
+          targets: [targetFeature],
+          schema,
+          datasetVersionId,
+          splitSpec,
+          modelData: result.modelData
         });
+
+        setTrainingProgress(((targetIndex + 1) / targetCount) * 100);
       }
 
       setTrainingResults(newResults);
-      clearInterval(progressInterval);
-      setTrainingProgress(100);
       
       toast.success(`${selectedTargets.length} neural network(s) trained successfully`);
       onTrainingComplete();
     } catch (error) {
+      if (error instanceof TrainingJobCancelledError) {
+        toast.info("Training cancelled");
+        return;
+      }
       console.error("Training error:", error);
       toast.error("Training failed. Please try again.");
     } finally {
@@ -313,6 +484,50 @@ export function DLTraining({
       <CardContent className="space-y-4">
         <ModelDisclaimer />
         
+        <div className="space-y-2">
+          <Label htmlFor="data-source" className="text-sm">Training Data</Label>
+          <Select
+            value={dataSource}
+            onValueChange={(value) => setDataSource(value as "tabular" | "images")}
+            disabled={isTraining}
+          >
+            <SelectTrigger id="data-source">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="tabular">Current dataset ({datasetName})</SelectItem>
+              <SelectItem value="images">Image folders (zip)</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        {isImageMode && (
+          <ImageDatasetSettings
+            input={imageInput}
+            dataset={imageDataset}
+            disabled={isTraining}
+            onInputChange={setImageInput}
+            onDatasetChange={setImageDataset}
+          />
+        )}
+        
+        {!isImageMode && data.length > DEFAULT_SAMPLING_OPTIONS.rowBudget && (
+          <Alert>
+            <Database className="h-4 w-4" />
+            <AlertDescription className="flex flex-col gap-2">
+              <div>Large dataset detected ({data.length.toLocaleString()} rows, {features.length} features).</div>
+              <SamplingSettings
+                enabled={dataReductionEnabled}
+                options={samplingOptions}
+                disabled={isTraining}
+                report={samplingReport}
+                onEnabledChange={setDataReductionEnabled}
+                onOptionsChange={setSamplingOptions}
+              />
+            </AlertDescription>
+          </Alert>
+        )}
+        
         <div className="flex items-center space-x-2">
           <Switch
             id="custom-mode"
@@ -325,73 +540,132 @@ export function DLTraining({
 
         {isCustom && (
           <div className="space-y-4 pt-2">
-            {networkArchitecture.map((layer, index) => (
-              <div key={index} className="flex flex-col gap-2 p-3 border rounded-md">
-                <div className="flex justify-between items-center">
-                  <h4 className="text-sm font-medium">Layer {index + 1}</h4>
-                  {networkArchitecture.length > 1 && (
-                    <Button
-                      variant="ghost"
-                      size="icon"
-                      className="h-6 w-6"
-                      onClick={() => removeLayer(index)}
-                      disabled={isTraining}
-                    >
-                      <X className="h-4 w-4" />
-                    </Button>
-                  )}
-                </div>
-                
-                <div className="grid grid-cols-2 gap-2">
-                  <div>
-                    <Label htmlFor={`neurons-${index}`} className="text-xs">Neurons</Label>
-                    <Input
-                      id={`neurons-${index}`}
-                      type="number"
-                      min={1}
-                      max={512}
-                      value={layer.neurons}
-                      onChange={(e) => updateLayer(index, "neurons", parseInt(e.target.value))}
-                      disabled={isTraining}
-                    />
-                  </div>
-                  
-                  <div>
-                    <Label htmlFor={`activation-${index}`} className="text-xs">Activation</Label>
-                    <Select
-                      value={layer.activation}
-                      onValueChange={(value) => updateLayer(index, "activation", value)}
-                      disabled={isTraining}
-                    >
-                      <SelectTrigger id={`activation-${index}`}>
-                        <SelectValue placeholder="Activation" />
-                      </SelectTrigger>
-                      <SelectContent>
-                        <SelectItem value="ReLU">ReLU</SelectItem>
-                        <SelectItem value="Sigmoid">Sigmoid</SelectItem>
-                        <SelectItem value="Tanh">Tanh</SelectItem>
-                        <SelectItem value="Linear">Linear</SelectItem>
-                      </SelectContent>
-                    </Select>
-                  </div>
-                </div>
-                
-                <div>
+            {layers.map((layer, index) => {
+              const layerType = layer.type ?? "Dense";
+              const hasUnits = layerType === "Dense" || layerType === "Conv2D";
+              return (
+                <div key={index} className="flex flex-col gap-2 p-3 border rounded-md">
                   <div className="flex justify-between items-center">
-                    <Label htmlFor={`dropout-${index}`} className="text-xs">Dropout: {layer.dropout?.toFixed(2)}</Label>
+                    <h4 className="text-sm font-medium">Layer {index + 1}</h4>
+                    {layers.length > 1 && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-6 w-6"
+                        onClick={() => removeLayer(index)}
+                        disabled={isTraining}
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    )}
                   </div>
-                  <Slider
-                    id={`dropout-${index}`}
-                    min={0}
-                    max={0.5}
-                    step={0.05}
-                    value={[layer.dropout || 0]}
-                    onValueChange={([value]) => updateLayer(index, "dropout", value)}
-                    disabled={isTraining}
-                  />
+                  
+                  {isImageMode && (
+                    <div>
+                      <Label htmlFor={`type-${index}`} className="text-xs">Layer Type</Label>
+                      <Select
+                        value={layerType}
+                        onValueChange={(value) => changeLayerType(index, value as LayerType)}
+                        disabled={isTraining}
+                      >
+                        <SelectTrigger id={`type-${index}`}>
+                          <SelectValue placeholder="Layer type" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="Dense">Dense</SelectItem>
+                          {IMAGE_LAYER_TYPES.map(type => (
+                            <SelectItem key={type} value={type}>{type}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  )}
+
+                  {layerType.endsWith("Pooling2D") && (
+                    <div>
+                      <Label htmlFor={`pool-${index}`} className="text-xs">Pool Size</Label>
+                      <Input
+                        id={`pool-${index}`}
+                        type="number"
+                        min={1}
+                        max={8}
+                        value={layer.poolSize ?? 2}
+                        onChange={(e) => updateLayer(index, "poolSize", parseInt(e.target.value))}
+                        disabled={isTraining}
+                      />
+                    </div>
+                  )}
+
+                  {hasUnits && (
+                    <div className={`grid gap-2 ${layerType === "Conv2D" ? "grid-cols-3" : "grid-cols-2"}`}>
+                      <div>
+                        <Label htmlFor={`neurons-${index}`} className="text-xs">{layerType === "Conv2D" ? "Filters" : "Neurons"}</Label>
+                        <Input
+                          id={`neurons-${index}`}
+                          type="number"
+                          min={1}
+                          max={512}
+                          value={layer.neurons}
+                          onChange={(e) => updateLayer(index, "neurons", parseInt(e.target.value))}
+                          disabled={isTraining}
+                        />
+                      </div>
+
+                      {layerType === "Conv2D" && (
+                        <div>
+                          <Label htmlFor={`kernel-${index}`} className="text-xs">Kernel Size</Label>
+                          <Input
+                            id={`kernel-${index}`}
+                            type="number"
+                            min={1}
+                            max={11}
+                            value={layer.kernelSize ?? 3}
+                            onChange={(e) => updateLayer(index, "kernelSize", parseInt(e.target.value))}
+                            disabled={isTraining}
+                          />
+                        </div>
+                      )}
+                      
+                      <div>
+                        <Label htmlFor={`activation-${index}`} className="text-xs">Activation</Label>
+                        <Select
+                          value={layer.activation}
+                          onValueChange={(value) => updateLayer(index, "activation", value)}
+                          disabled={isTraining}
+                        >
+                          <SelectTrigger id={`activation-${index}`}>
+                            <SelectValue placeholder="Activation" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="ReLU">ReLU</SelectItem>
+                            <SelectItem value="Sigmoid">Sigmoid</SelectItem>
+                            <SelectItem value="Tanh">Tanh</SelectItem>
+                            <SelectItem value="Linear">Linear</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    </div>
+                  )}
+                  
+                  {hasUnits && (
+                    <div>
+                      <div className="flex justify-between items-center">
+                        <Label htmlFor={`dropout-${index}`} className="text-xs">Dropout: {layer.dropout?.toFixed(2)}</Label>
+                      </div>
+                      <Slider
+                        id={`dropout-${index}`}
+                        min={0}
+                        max={0.5}
+                        step={0.05}
+                        value={[layer.dropout || 0]}
+                        onValueChange={([value]) => updateLayer(index, "dropout", value)}
+                        disabled={isTraining}
+                      />
+                    </div>
+                  )}
                 </div>
-              </div>
-            ))}
+              );
+            })}
             
             <Button
               variant="outline"
@@ -434,49 +708,51 @@ export function DLTraining({
           </div>
         )}
 
-        <div>
-          <h3 className="text-sm font-medium mb-2">Targets</h3>
-          <div className="flex flex-wrap gap-2 mb-2">
-            {selectedTargets.map(targetFeature => (
-              <Badge key={targetFeature} variant="secondary" className="flex items-center gap-1">
-                {targetFeature}
-                <button 
-                  onClick={() => removeTarget(targetFeature)}
-                  className="ml-1 focus:outline-none"
-                  disabled={isTraining || selectedTargets.length <= 1}
+        {!isImageMode && (
+          <div>
+            <h3 className="text-sm font-medium mb-2">Targets</h3>
+            <div className="flex flex-wrap gap-2 mb-2">
+              {selectedTargets.map(targetFeature => (
+                <Badge key={targetFeature} variant="secondary" className="flex items-center gap-1">
+                  {targetFeature}
+                  <button 
+                    onClick={() => removeTarget(targetFeature)}
+                    className="ml-1 focus:outline-none"
+                    disabled={isTraining || selectedTargets.length <= 1}
+                  >
+                    <X className="h-3 w-3" />
+                  </button>
+                </Badge>
+              ))}
+            </div>
+
+            {availableTargets.length > 0 && (
+              <div className="flex gap-2">
+                <Select 
+                  value={currentTarget} 
+                  onValueChange={setCurrentTarget}
+                  disabled={isTraining}
+                >
+                  <SelectTrigger className="flex-1">
+                    <SelectValue placeholder="Select target" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {availableTargets.map((feature) => (
+                      <SelectItem key={feature} value={feature}>{feature}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button 
+                  size="icon" 
+                  onClick={addTarget}
+                  disabled={isTraining || !currentTarget}
                 >
-                  <X className="h-3 w-3" />
-                </button>
-              </Badge>
-            ))}
+                  <Plus className="h-4 w-4" />
+                </Button>
+              </div>
+            )}
           </div>
-
-          {availableTargets.length > 0 && (
-            <div className="flex gap-2">
-              <Select 
-                value={currentTarget} 
-                onValueChange={setCurrentTarget}
-                disabled={isTraining}
-              >
-                <SelectTrigger className="flex-1">
-                  <SelectValue placeholder="Select target" />
-                </SelectTrigger>
-                <SelectContent>
-                  {availableTargets.map((feature) => (
-                    <SelectItem key={feature} value={feature}>{feature}</SelectItem>
-                  ))}
-                </SelectContent>
-              </Select>
-              <Button 
-                size="icon" 
-                onClick={addTarget}
-                disabled={isTraining || !currentTarget}
-              >
-                <Plus className="h-4 w-4" />
-              </Button>
-            </div>
-          )}
-        </div>
+        )}
 
         {isTraining && (
           <div className="space-y-2">
@@ -485,6 +761,15 @@ export function DLTraining({
               <span>{Math.round(trainingProgress)}%</span>
             </div>
             <Progress value={trainingProgress} />
+            {liveCurve && (
+              <div className="pt-2">
+                <LearningCurves
+                  history={liveCurve.history}
+                  live
+                  title={`Learning Curves - ${liveCurve.target}`}
+                />
+              </div>
+            )}
           </div>
         )}
 
@@ -515,6 +800,14 @@ export function DLTraining({
                   </div>
                 ))}
             </div>
+            {!isTraining && trainingResults[0].history.length > 0 && (
+              <div className="pt-2">
+                <LearningCurves
+                  history={trainingResults[0].history}
+                  title={`Learning Curves - ${trainingResults[0].target}`}
+                />
+              </div>
+            )}
           </div>
         )}
       </CardContent>
@@ -526,26 +819,26 @@ export function DLTraining({
               <Info className="h-4 w-4 mr-1" />
               <span>
                 {isCustom 
-                  ? `Custom network with ${networkArchitecture.length} layers` 
-                  : "Auto-optimized network architecture"}
+                  ? `Custom network with ${layers.length} layers` 
+                  : isImageMode ? "Default convolutional network" : "Auto-optimized network architecture"}
               </span>
             </div>
             <div className="flex gap-2 sm:w-auto w-full">
               <Button
                 variant="outline"
                 onClick={exportToColab}
-                disabled={isTraining || isExportingToColab}
+                disabled={isTraining || isExportingToColab || isImageMode}
                 className="sm:w-auto w-full"
               >
                 {isExportingToColab ? "Generating..." : "Use Google Colab"}
                 <ExternalLink className="ml-2 h-4 w-4" />
               </Button>
               <Button 
-                onClick={trainModel} 
-                disabled={isTraining}
+                onClick={isImageMode ? trainImageModel : trainModel} 
+                disabled={isTraining || (isImageMode && !imageDataset)}
                 className="sm:w-auto w-full"
               >
-                {isTraining ? "Training..." : "Train Neural Network"}
+                {isTraining ? "Training..." : isImageMode ? "Train Image Classifier" : "Train Neural Network"}
                 {!isTraining && <Check className="ml-2 h-4 w-4" />}
               </Button>
             </div>
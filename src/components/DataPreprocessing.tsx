@@ -1,5 +1,5 @@
 
-import { useState } from "react";
+import { useEffect, useMemo, useState } from "react";
 import { useTheme } from "@/context/ThemeContext";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
@@ -8,64 +8,200 @@ import { Label } from "@/components/ui/label";
 import { Button } from "@/components/ui/button";
 import { Slider } from "@/components/ui/slider";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { BarChart3, Database, FileSpreadsheet, Sparkles } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { BarChart3, Database, Eye, FileSpreadsheet, Loader2, Sparkles } from "lucide-react";
 import { Progress } from "@/components/ui/progress";
 import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { toast } from "sonner";
+import { FeatureValue } from "@/utils/browserModels";
+import {
+  AppliedPreprocessing,
+  EncodingMethod,
+  FeatureSelectionMethod,
+  fitPreprocessing,
+  ImputationMethod,
+  isMissingValue,
+  OutlierMethod,
+  PreprocessingConfig,
+  restrictPipeline,
+  ScalingMethod,
+  selectFeatures,
+} from "@/utils/preprocessing";
+import { ColumnType, DatasetSchema } from "@/utils/schema";
+import { resolveSplit, SplitSpec } from "@/utils/splitting";
+import { TextVectorizerMethod } from "@/utils/textFeatures";
 
 interface ColumnInfo {
   name: string;
-  type: "numeric" | "categorical" | "text" | "date" | "boolean";
+  type: ColumnType;
   missing: number; // % of missing values
   unique: number; // count of unique values
   selected: boolean; // for feature selection
 }
 
-export function DataPreprocessing() {
+interface DataPreprocessingProps {
+  data: Record<string, FeatureValue>[];
+  features: string[];
+  target: string;
+  schema: DatasetSchema;
+  config: PreprocessingConfig;
+  // Split training will use; the preview and feature selection only see its training rows
+  splitSpec: SplitSpec;
+  onConfigChange: (config: PreprocessingConfig) => void;
+  onApply: (applied: AppliedPreprocessing | null) => void;
+}
+
+interface PreviewState {
+  beforeColumns: string[];
+  beforeRows: Record<string, FeatureValue>[];
+  afterColumns: string[];
+  afterRows: Record<string, FeatureValue>[];
+  rowsBefore: number;
+  rowsAfter: number;
+  selectionScores: Record<string, number> | null;
+}
+
+const PREVIEW_ROWS = 5;
+
+const formatCell = (value: FeatureValue) => {
+  if (isMissingValue(value)) return "—";
+  return typeof value === "number" ? Number(value.toFixed(4)).toString() : String(value);
+};
+
+export function DataPreprocessing({
+  data,
+  features,
+  target,
+  schema,
+  config,
+  splitSpec,
+  onConfigChange,
+  onApply,
+}: DataPreprocessingProps) {
   const { theme } = useTheme();
-  const [preprocessing, setPreprocessing] = useState({
-    normalize: true,
-    impute: true,
-    encode: true,
-    outliers: false,
+  const [featureOptions, setFeatureOptions] = useState({
     featureSelection: false,
     featureEngineering: false,
   });
   
-  const [normalizationMethod, setNormalizationMethod] = useState("standard");
-  const [imputationMethod, setImputationMethod] = useState("mean");
-  const [encodingMethod, setEncodingMethod] = useState("onehot");
-  const [outlierMethod, setOutlierMethod] = useState("iqr");
-  const [selectionMethod, setSelectionMethod] = useState("importance");
+  // Cleaning choices are owned by the page so training can fit the same pipeline
+  const preprocessing = { ...config, ...featureOptions };
+  const { normalizationMethod, imputationMethod, encodingMethod, outlierMethod } = config;
+  const setNormalizationMethod = (value: string) => onConfigChange({ ...config, normalizationMethod: value as ScalingMethod });
+  const setImputationMethod = (value: string) => onConfigChange({ ...config, imputationMethod: value as ImputationMethod });
+  const setEncodingMethod = (value: string) => onConfigChange({ ...config, encodingMethod: value as EncodingMethod });
+  const setOutlierMethod = (value: string) => onConfigChange({ ...config, outlierMethod: value as OutlierMethod });
+  const setTextVectorizer = (value: string) => onConfigChange({ ...config, textVectorizer: value as TextVectorizerMethod });
+  const [selectionMethod, setSelectionMethod] = useState<FeatureSelectionMethod>("importance");
+  const [isApplying, setIsApplying] = useState(false);
+  const [preview, setPreview] = useState<PreviewState | null>(null);
+  
+  // Column statistics from the dataset schema (the target is never an input)
+  const columnStats = useMemo(() => {
+    return schema.filter(column => features.includes(column.name) && column.name !== target).map(column => ({
+      name: column.name,
+      type: column.type,
+      missing: data.length ? Number(((column.nullCount / data.length) * 100).toFixed(1)) : 0,
+      unique: column.cardinality,
+    }));
+  }, [data.length, schema, features, target]);
+  
+  const [columnSelection, setColumnSelection] = useState<Record<string, boolean>>({});
+  
+  // New dataset: default to every column except dates
+  useEffect(() => {
+    setColumnSelection(Object.fromEntries(
+      columnStats.map(col => [col.name, col.type !== "datetime"])
+    ));
+    setPreview(null);
+  }, [columnStats]);
   
-  const [columns, setColumns] = useState<ColumnInfo[]>([
-    { name: "age", type: "numeric", missing: 2.5, unique: 87, selected: true },
-    { name: "income", type: "numeric", missing: 4.8, unique: 453, selected: true },
-    { name: "gender", type: "categorical", missing: 0, unique: 2, selected: true },
-    { name: "education", type: "categorical", missing: 1.2, unique: 5, selected: true },
-    { name: "occupation", type: "categorical", missing: 3.5, unique: 12, selected: true },
-    { name: "marital_status", type: "categorical", missing: 0.8, unique: 4, selected: true },
-    { name: "has_children", type: "boolean", missing: 0, unique: 2, selected: true },
-    { name: "signup_date", type: "date", missing: 0, unique: 734, selected: false },
-    { name: "last_purchase", type: "date", missing: 15.3, unique: 402, selected: true },
-    { name: "comments", type: "text", missing: 68.2, unique: 927, selected: false },
-  ]);
+  const columns: ColumnInfo[] = columnStats.map(col => ({
+    ...col,
+    selected: columnSelection[col.name] ?? false,
+  }));
   
   const [selectionThreshold, setSelectionThreshold] = useState<number>(50);
+  const hasTextColumns = columns.some(col => col.type === "text" && col.selected);
   
   const handleColumnSelection = (name: string, selected: boolean) => {
-    setColumns(columns.map(col => 
-      col.name === name ? { ...col, selected } : col
-    ));
+    setColumnSelection({ ...columnSelection, [name]: selected });
   };
   
   // Calculate preprocessing summary
   const totalColumns = columns.length;
   const selectedColumns = columns.filter(c => c.selected).length;
-  const missingData = columns.reduce((sum, col) => sum + col.missing, 0) / columns.length;
+  const missingData = columns.length
+    ? columns.reduce((sum, col) => sum + col.missing, 0) / columns.length
+    : 0;
+  
+  const applyPreprocessing = async () => {
+    const inputColumns = columns.filter(c => c.selected).map(c => c.name);
+    if (inputColumns.length === 0) {
+      toast.error("Select at least one feature to include");
+      return;
+    }
+    
+    try {
+      setIsApplying(true);
+      
+      // Selected features are scored on the training rows only, or the held-out rows
+      // would help decide what the model is trained on
+      const trainRows = resolveSplit(data, target, splitSpec).trainIndices.map(i => data[i]);
+      const fitted = fitPreprocessing(trainRows, inputColumns, target, config);
+      let pipeline = fitted.pipeline;
+      let selectionScores: Record<string, number> | null = null;
+      
+      if (featureOptions.featureSelection) {
+        const selection = await selectFeatures(
+          fitted.data,
+          pipeline.outputFeatures,
+          target,
+          selectionMethod,
+          selectionThreshold
+        );
+        pipeline = restrictPipeline(pipeline, selection.selected);
+        selectionScores = selection.scores;
+      }
+      
+      const transformed = fitted.data.map(row => ({
+        ...Object.fromEntries(pipeline.outputFeatures.map(f => [f, row[f]])),
+        [target]: row[target],
+      }));
+      
+      setPreview({
+        beforeColumns: [...inputColumns, target],
+        beforeRows: trainRows.slice(0, PREVIEW_ROWS),
+        afterColumns: [...pipeline.outputFeatures, target],
+        afterRows: transformed.slice(0, PREVIEW_ROWS),
+        rowsBefore: trainRows.length,
+        rowsAfter: transformed.length,
+        selectionScores,
+      });
+      
+      // Training refits the same choices, and keeps the same selected features, on its training rows
+      onApply({
+        features: inputColumns,
+        config: selectionScores ? { ...config, selectedFeatures: pipeline.outputFeatures } : config,
+      });
+      
+      toast.success(`Preprocessing applied: ${transformed.length} rows, ${pipeline.outputFeatures.length} features`);
+    } catch (error) {
+      console.error("Error applying preprocessing:", error);
+      toast.error(`Preprocessing failed: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      setIsApplying(false);
+    }
+  };
   
   // Toggle preprocessing options
-  const togglePreprocessing = (key: keyof typeof preprocessing) => {
-    setPreprocessing({ ...preprocessing, [key]: !preprocessing[key] });
+  const togglePreprocessing = (key: "normalize" | "impute" | "encode" | "outliers" | keyof typeof featureOptions) => {
+    if (key === "featureSelection" || key === "featureEngineering") {
+      setFeatureOptions({ ...featureOptions, [key]: !featureOptions[key] });
+    } else {
+      onConfigChange({ ...config, [key]: !config[key] });
+    }
   };
   
   return (
@@ -95,6 +231,10 @@ export function DataPreprocessing() {
               <BarChart3 className="h-4 w-4" />
               Summary
             </TabsTrigger>
+            <TabsTrigger value="preview" className="flex items-center gap-1">
+              <Eye className="h-4 w-4" />
+              Preview
+            </TabsTrigger>
           </TabsList>
           
           <TabsContent value="cleaning">
@@ -208,6 +348,70 @@ export function DataPreprocessing() {
                     </Select>
                   )}
                 </div>
+                
+                {hasTextColumns && (
+                  <div className="space-y-3 border-t pt-4">
+                    <div className="flex items-center justify-between">
+                      <Label>Vectorize text columns</Label>
+                      <Select
+                        value={config.textVectorizer}
+                        onValueChange={setTextVectorizer}
+                      >
+                        <SelectTrigger className="w-[160px]">
+                          <SelectValue placeholder="Method" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="tfidf">TF-IDF</SelectItem>
+                          <SelectItem value="hashing">Hashing</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    
+                    <div className="flex items-center justify-between">
+                      <Label>N-grams</Label>
+                      <Select
+                        value={String(config.ngramMax)}
+                        onValueChange={(value) => onConfigChange({ ...config, ngramMax: parseInt(value) })}
+                      >
+                        <SelectTrigger className="w-[160px]">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="1">Words only</SelectItem>
+                          <SelectItem value="2">Words and pairs</SelectItem>
+                          <SelectItem value="3">Up to 3 words</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    
+                    <div className="flex items-center justify-between">
+                      <Label htmlFor="max-text-features">
+                        {config.textVectorizer === "hashing" ? "Hash buckets" : "Vocabulary size"}
+                      </Label>
+                      <Input
+                        id="max-text-features"
+                        type="number"
+                        min={10}
+                        max={5000}
+                        className="w-[160px]"
+                        value={config.maxTextFeatures}
+                        onChange={(e) => onConfigChange({
+                          ...config,
+                          maxTextFeatures: Math.min(5000, Math.max(10, parseInt(e.target.value) || 10)),
+                        })}
+                      />
+                    </div>
+                    
+                    <div className="flex items-center space-x-2">
+                      <Switch
+                        id="remove-stop-words"
+                        checked={config.removeStopWords}
+                        onCheckedChange={(checked) => onConfigChange({ ...config, removeStopWords: checked })}
+                      />
+                      <Label htmlFor="remove-stop-words">Remove English stop words</Label>
+                    </div>
+                  </div>
+                )}
               </div>
               
               <div className={`p-4 rounded-lg ${
@@ -256,7 +460,7 @@ export function DataPreprocessing() {
                   {preprocessing.featureSelection && (
                     <Select
                       value={selectionMethod}
-                      onValueChange={setSelectionMethod}
+                      onValueChange={(value) => setSelectionMethod(value as FeatureSelectionMethod)}
                     >
                       <SelectTrigger className="w-[160px]">
                         <SelectValue placeholder="Method" />
@@ -348,7 +552,14 @@ export function DataPreprocessing() {
                   </CardHeader>
                   <CardContent className="p-4 pt-2">
                     <div className="text-3xl font-bold">
-                      {Object.values(preprocessing).filter(Boolean).length}
+                      {[
+                        preprocessing.normalize,
+                        preprocessing.impute,
+                        preprocessing.encode,
+                        preprocessing.outliers,
+                        preprocessing.featureSelection,
+                        preprocessing.featureEngineering,
+                      ].filter(Boolean).length}
                     </div>
                     <div className="text-xs text-muted-foreground mt-1">
                       Data processing techniques applied
@@ -446,11 +657,66 @@ export function DataPreprocessing() {
               </div>
             </div>
           </TabsContent>
+          <TabsContent value="preview">
+            {preview ? (
+              <div className="space-y-4">
+                <div className="flex flex-wrap gap-2 text-sm">
+                  <Badge variant="secondary">{preview.rowsBefore} → {preview.rowsAfter} training rows</Badge>
+                  <Badge variant="secondary">
+                    {preview.beforeColumns.length - 1} → {preview.afterColumns.length - 1} features
+                  </Badge>
+                </div>
+                
+                {[
+                  { title: "Before", columns: preview.beforeColumns, rows: preview.beforeRows },
+                  { title: "After", columns: preview.afterColumns, rows: preview.afterRows },
+                ].map(section => (
+                  <div key={section.title} className="space-y-2">
+                    <h3 className="font-medium text-sm">{section.title}</h3>
+                    <div className="border rounded-md overflow-x-auto">
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            {section.columns.map(column => (
+                              <TableHead key={column} className="whitespace-nowrap">
+                                {column}
+                                {section.title === "After" && preview.selectionScores?.[column] !== undefined && (
+                                  <span className="ml-1 text-xs text-muted-foreground">
+                                    ({preview.selectionScores[column].toFixed(2)})
+                                  </span>
+                                )}
+                              </TableHead>
+                            ))}
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {section.rows.map((row, rowIndex) => (
+                            <TableRow key={rowIndex}>
+                              {section.columns.map(column => (
+                                <TableCell key={column} className="py-2 font-mono text-xs whitespace-nowrap">
+                                  {formatCell(row[column])}
+                                </TableCell>
+                              ))}
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <div className="text-sm text-muted-foreground py-8 text-center">
+                Apply preprocessing to see the transformed dataset
+              </div>
+            )}
+          </TabsContent>
         </Tabs>
       </CardContent>
       
       <CardFooter className="flex justify-end border-t pt-4">
-        <Button>
+        <Button onClick={applyPreprocessing} disabled={isApplying}>
+          {isApplying && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
           Apply Preprocessing
         </Button>
       </CardFooter>
@@ -0,0 +1,259 @@
+import { useMemo } from "react";
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { useTheme } from "@/context/ThemeContext";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
+import { AlertTriangle, Download, Info, ScanSearch } from "lucide-react";
+import { toast } from "sonner";
+import { FeatureValue } from "@/utils/browserModels";
+import { ColumnProfile, profileDataset, renderProfileHtml } from "@/utils/profiling";
+import { DatasetSchema } from "@/utils/schema";
+
+interface DataProfileProps {
+  data: Record<string, FeatureValue>[];
+  schema: DatasetSchema;
+  target: string;
+  datasetName: string;
+}
+
+const chartConfig = {
+  count: { label: "Rows", color: "hsl(var(--primary))" },
+} satisfies ChartConfig;
+
+function DistributionChart({ items }: { items: { label: string; count: number }[] }) {
+  return (
+    <ChartContainer config={chartConfig} className="h-40 w-full aspect-auto">
+      <BarChart data={items} margin={{ top: 5, right: 5, left: -20, bottom: 0 }}>
+        <CartesianGrid vertical={false} />
+        <XAxis dataKey="label" tickLine={false} axisLine={false} interval="preserveStartEnd" minTickGap={12} />
+        <YAxis tickLine={false} axisLine={false} allowDecimals={false} />
+        <ChartTooltip content={<ChartTooltipContent />} />
+        <Bar dataKey="count" fill="var(--color-count)" radius={2} />
+      </BarChart>
+    </ChartContainer>
+  );
+}
+
+const columnChartItems = (column: ColumnProfile) => {
+  return column.stats
+    ? column.histogram
+    : column.topCategories.map(category => ({ label: category.value, count: category.count }));
+};
+
+// Diverging blue/red scale for correlation coefficients
+const correlationColor = (r: number) => {
+  const alpha = Math.min(1, Math.abs(r)).toFixed(2);
+  return r >= 0 ? `rgba(59, 130, 246, ${alpha})` : `rgba(239, 68, 68, ${alpha})`;
+};
+
+export function DataProfile({ data, schema, target, datasetName }: DataProfileProps) {
+  const { theme } = useTheme();
+  const profile = useMemo(() => profileDataset(data, schema, target), [data, schema, target]);
+
+  const exportHtml = () => {
+    try {
+      const blob = new Blob([renderProfileHtml(profile, datasetName)], { type: "text/html" });
+      const url = URL.createObjectURL(blob);
+
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = `${datasetName.replace(/\s+/g, "_")}_profile.html`;
+      document.body.appendChild(a);
+      a.click();
+
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+
+      toast.success("Profile report downloaded");
+    } catch (error) {
+      console.error("Error exporting profile:", error);
+      toast.error("Failed to export the profile report");
+    }
+  };
+
+  const heatmapBlocks = profile.missingHeatmap.rates[profile.columns[0]?.name]?.length ?? 0;
+
+  return (
+    <Card className={`w-full ${
+      theme === "light" ? "card-container-light" : "card-container-dark"
+    }`}>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <CardTitle className="text-xl font-bold flex items-center gap-2">
+              <ScanSearch className="h-5 w-5" />
+              Data Profile
+            </CardTitle>
+            <CardDescription>Distributions, missing values and correlations of the loaded dataset</CardDescription>
+          </div>
+          <Button variant="outline" size="sm" onClick={exportHtml} className="flex items-center gap-1">
+            <Download className="h-4 w-4" />
+            Export HTML
+          </Button>
+        </div>
+      </CardHeader>
+
+      <CardContent>
+        <Tabs defaultValue="overview">
+          <TabsList className="mb-4">
+            <TabsTrigger value="overview">Overview</TabsTrigger>
+            <TabsTrigger value="columns">Columns</TabsTrigger>
+            <TabsTrigger value="missing">Missing Values</TabsTrigger>
+            <TabsTrigger value="correlations">Correlations</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="overview" className="space-y-4">
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+              {[
+                { label: "Rows", value: profile.rowCount },
+                { label: "Columns", value: profile.columnCount },
+                { label: "Missing cells", value: profile.missingCells },
+                { label: "Duplicate rows", value: profile.duplicateRows },
+              ].map(item => (
+                <div key={item.label} className="rounded-lg border p-3">
+                  <p className="text-xs text-muted-foreground">{item.label}</p>
+                  <p className="text-xl font-semibold">{item.value.toLocaleString()}</p>
+                </div>
+              ))}
+            </div>
+
+            {profile.warnings.length > 0 ? (
+              <ul className="space-y-1 text-sm">
+                {profile.warnings.map((warning, i) => (
+                  <li key={i} className="flex items-start gap-2">
+                    {warning.severity === "warning"
+                      ? <AlertTriangle className="h-4 w-4 mt-0.5 text-amber-500 shrink-0" />
+                      : <Info className="h-4 w-4 mt-0.5 text-blue-500 shrink-0" />}
+                    <span>{warning.message}</span>
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-sm text-muted-foreground">No issues found.</p>
+            )}
+
+            {profile.target && (
+              <div>
+                <h3 className="text-sm font-medium mb-2 flex items-center gap-2">
+                  Target distribution: {profile.target.name}
+                  <Badge variant="outline">{profile.target.kind}</Badge>
+                </h3>
+                <DistributionChart
+                  items={profile.target.kind === "classification"
+                    ? profile.target.classes.map(c => ({ label: c.value, count: c.count }))
+                    : profile.target.histogram}
+                />
+              </div>
+            )}
+          </TabsContent>
+
+          <TabsContent value="columns">
+            <ScrollArea className="h-[480px] pr-4">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {profile.columns.map(column => (
+                  <div key={column.name} className="rounded-lg border p-3 space-y-2">
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="font-medium truncate" title={column.name}>{column.name}</span>
+                      <div className="flex items-center gap-1">
+                        {(column.constant || column.nearConstant) && (
+                          <Badge variant="destructive">{column.constant ? "constant" : "near-constant"}</Badge>
+                        )}
+                        <Badge variant="outline">{column.type}</Badge>
+                      </div>
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      {column.missing.toLocaleString()} missing ({(column.missingRate * 100).toFixed(1)}%)
+                      {" · "}{column.distinct.toLocaleString()} distinct
+                      {column.stats && ` · mean ${column.stats.mean.toPrecision(4)} · std ${column.stats.std.toPrecision(4)}`}
+                    </p>
+                    {columnChartItems(column).length > 0 && (
+                      <DistributionChart items={columnChartItems(column)} />
+                    )}
+                  </div>
+                ))}
+              </div>
+            </ScrollArea>
+          </TabsContent>
+
+          <TabsContent value="missing">
+            <p className="text-xs text-muted-foreground mb-2">
+              Each row of the grid covers {profile.missingHeatmap.rowsPerBlock.toLocaleString()} rows of the dataset; darker cells have more missing values.
+            </p>
+            <ScrollArea className="h-[420px]">
+              <div
+                className="grid gap-px text-xs"
+                style={{ gridTemplateColumns: `64px repeat(${profile.columns.length}, minmax(24px, 1fr))` }}
+              >
+                <div />
+                {profile.columns.map(column => (
+                  <div key={column.name} className="truncate text-muted-foreground" title={column.name}>
+                    {column.name}
+                  </div>
+                ))}
+                {Array.from({ length: heatmapBlocks }, (_, block) => [
+                  <div key={`row-${block}`} className="text-muted-foreground">
+                    {(block * profile.missingHeatmap.rowsPerBlock + 1).toLocaleString()}
+                  </div>,
+                  ...profile.columns.map(column => {
+                    const rate = profile.missingHeatmap.rates[column.name][block];
+                    return (
+                      <div
+                        key={`${column.name}-${block}`}
+                        className="h-3 bg-muted"
+                        style={rate > 0 ? { backgroundColor: `rgba(239, 68, 68, ${Math.max(rate, 0.1).toFixed(2)})` } : undefined}
+                        title={`${column.name}: ${(rate * 100).toFixed(1)}% missing`}
+                      />
+                    );
+                  }),
+                ])}
+              </div>
+            </ScrollArea>
+          </TabsContent>
+
+          <TabsContent value="correlations">
+            {profile.correlation.columns.length > 1 ? (
+              <ScrollArea className="h-[420px]">
+                <table className="text-xs border-collapse">
+                  <thead>
+                    <tr>
+                      <th />
+                      {profile.correlation.columns.map(column => (
+                        <th key={column} className="px-1 font-normal text-muted-foreground truncate max-w-[64px]" title={column}>
+                          {column}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {profile.correlation.matrix.map((row, i) => (
+                      <tr key={profile.correlation.columns[i]}>
+                        <th className="pr-2 font-normal text-left text-muted-foreground truncate max-w-[120px]">
+                          {profile.correlation.columns[i]}
+                        </th>
+                        {row.map((r, j) => (
+                          <td
+                            key={j}
+                            className="w-12 h-8 text-center border border-background"
+                            style={{ backgroundColor: correlationColor(r) }}
+                          >
+                            {r.toFixed(2)}
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </ScrollArea>
+            ) : (
+              <p className="text-sm text-muted-foreground">At least two numeric columns are needed for a correlation matrix.</p>
+            )}
+          </TabsContent>
+        </Tabs>
+      </CardContent>
+    </Card>
+  );
+}
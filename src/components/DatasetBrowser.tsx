@@ -0,0 +1,143 @@
+import { useEffect, useState } from "react";
+import { useTheme } from "@/context/ThemeContext";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Database, Loader2, RefreshCw } from "lucide-react";
+import { toast } from "sonner";
+import { FeatureValue } from "@/utils/browserModels";
+import { DatasetEntry, DatasetVersion, listDatasets, loadDatasetVersion } from "@/utils/datasetRegistry";
+
+interface DatasetBrowserProps {
+  // Version currently shown on the page
+  currentVersionId?: string;
+  // Changes whenever a new version has been registered
+  refreshKey: number;
+  onLoad: (version: DatasetVersion, data: Record<string, FeatureValue>[]) => void;
+}
+
+export function DatasetBrowser({ currentVersionId, refreshKey, onLoad }: DatasetBrowserProps) {
+  const { theme } = useTheme();
+  const [datasets, setDatasets] = useState<DatasetEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedVersions, setSelectedVersions] = useState<Record<string, string>>({});
+  const [loadingVersionId, setLoadingVersionId] = useState<string | null>(null);
+
+  const fetchDatasets = async () => {
+    setIsLoading(true);
+    try {
+      setDatasets(await listDatasets());
+      setError(null);
+    } catch (err) {
+      console.error("Error fetching datasets:", err);
+      setError("Saved datasets could not be loaded");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchDatasets();
+  }, [refreshKey]);
+
+  const selectedVersion = (dataset: DatasetEntry): DatasetVersion | undefined => {
+    const id = selectedVersions[dataset.id];
+    return dataset.versions.find(version => version.id === id) ?? dataset.versions[0];
+  };
+
+  const handleLoad = async (version: DatasetVersion) => {
+    setLoadingVersionId(version.id);
+    try {
+      const rows = await loadDatasetVersion(version);
+      onLoad(version, rows);
+      toast.success(`Loaded ${version.datasetName} v${version.version}`);
+    } catch (err) {
+      console.error("Error loading dataset version:", err);
+      toast.error(`Failed to load ${version.datasetName} v${version.version}`);
+    } finally {
+      setLoadingVersionId(null);
+    }
+  };
+
+  return (
+    <Card className={`w-full ${
+      theme === "light" ? "card-container-light" : "card-container-dark"
+    }`}>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <CardTitle className="text-xl font-bold flex items-center gap-2">
+              <Database className="h-5 w-5" />
+              Saved Datasets
+            </CardTitle>
+            <CardDescription>Every upload is stored as a new version; load any version again to retrain on it</CardDescription>
+          </div>
+          <Button variant="outline" size="sm" onClick={fetchDatasets} disabled={isLoading} className="flex items-center gap-1">
+            <RefreshCw className={`h-4 w-4 ${isLoading ? "animate-spin" : ""}`} />
+            Refresh
+          </Button>
+        </div>
+      </CardHeader>
+
+      <CardContent>
+        {error ? (
+          <p className="text-sm text-muted-foreground">{error}</p>
+        ) : datasets.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            {isLoading ? "Loading saved datasets..." : "No datasets saved yet. Uploaded datasets appear here."}
+          </p>
+        ) : (
+          <ScrollArea className="max-h-[320px] pr-4">
+            <div className="space-y-3">
+              {datasets.map(dataset => {
+                const version = selectedVersion(dataset);
+                if (!version) return null;
+                return (
+                  <div key={dataset.id} className="rounded-lg border p-3 flex flex-wrap items-center justify-between gap-3">
+                    <div className="min-w-0">
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium truncate" title={dataset.name}>{dataset.name}</span>
+                        {version.id === currentVersionId && <Badge>Loaded</Badge>}
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        {version.rowCount.toLocaleString()} rows · {version.columnCount} columns · target {version.target}
+                        {" · "}{version.created.toLocaleString()}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Select
+                        value={version.id}
+                        onValueChange={id => setSelectedVersions(prev => ({ ...prev, [dataset.id]: id }))}
+                      >
+                        <SelectTrigger className="w-[110px]">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {dataset.versions.map(v => (
+                            <SelectItem key={v.id} value={v.id}>v{v.version}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Button
+                        size="sm"
+                        onClick={() => handleLoad(version)}
+                        disabled={loadingVersionId !== null}
+                        className="flex items-center gap-1"
+                      >
+                        {loadingVersionId === version.id && <Loader2 className="h-4 w-4 animate-spin" />}
+                        Load
+                      </Button>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </ScrollArea>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -3,14 +3,27 @@ import { useTheme } from "@/context/ThemeContext";
 import { Upload, FileType, X, Check, AlertCircle } from "lucide-react";
 import { useState, useRef, DragEvent, ChangeEvent } from "react";
 import { toast } from "sonner";
-import * as XLSX from 'xlsx';
+import { Progress } from "@/components/ui/progress";
+import { CsvRowError } from "@/utils/csvParser";
+import {
+  DATASET_EXTENSIONS,
+  DatasetFormat,
+  DatasetReadOptions,
+  DatasetReadResult,
+  detectDatasetFormat,
+  HEADER_ROW_FORMATS,
+  listSheets,
+  readDataset,
+} from "@/utils/datasetReaders";
+import { DatasetUpload } from "@/utils/datasetRegistry";
 
 interface DatasetUploaderProps {
   onDatasetLoad: (
     data: any[],
     features: string[],
     target: string,
-    name: string
+    name: string,
+    upload?: DatasetUpload
   ) => void;
 }
 
@@ -21,6 +34,16 @@ export function DatasetUploader({ onDatasetLoad }: DatasetUploaderProps) {
   const [isProcessing, setIsProcessing] = useState(false);
   const [targetColumn, setTargetColumn] = useState<string>("");
   const [columns, setColumns] = useState<string[]>([]);
+  // CSV files are parsed in a worker that reports how far it has read
+  const [parseProgress, setParseProgress] = useState<number | null>(null);
+  const [csvDelimiter, setCsvDelimiter] = useState<string | undefined>(undefined);
+  const [parseErrors, setParseErrors] = useState<{ errors: CsvRowError[]; count: number } | null>(null);
+  const [fileFormat, setFileFormat] = useState<DatasetFormat | null>(null);
+  // Workbooks with several sheets get a sheet picker
+  const [sheetNames, setSheetNames] = useState<string[]>([]);
+  const [selectedSheet, setSelectedSheet] = useState<string | undefined>(undefined);
+  const [headerRow, setHeaderRow] = useState(1);
+  const previewRef = useRef<DatasetReadResult | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const handleDragOver = (e: DragEvent<HTMLDivElement>) => {
@@ -48,326 +71,132 @@ export function DatasetUploader({ onDatasetLoad }: DatasetUploaderProps) {
     }
   };
 
-  const isValidFileType = (file: File) => {
-    const validTypes = [
-      'text/csv', 
-      'application/json',
-      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
-      'application/vnd.ms-excel'
-    ];
-    const fileName = file.name.toLowerCase();
-    
-    return validTypes.includes(file.type) || 
-           fileName.endsWith('.csv') || 
-           fileName.endsWith('.json') || 
-           fileName.endsWith('.xlsx') || 
-           fileName.endsWith('.xls');
-  };
-
-  const getFileExtension = (fileName: string): string => {
-    return fileName.split('.').pop()?.toLowerCase() || '';
+  const resetFile = () => {
+    setFile(null);
+    setColumns([]);
+    setParseErrors(null);
+    setSheetNames([]);
+    previewRef.current = null;
   };
 
-  const handleFile = (file: File) => {
-    if (!isValidFileType(file)) {
-      toast.error("Please upload a CSV, Excel, or JSON file");
-      return;
-    }
-
-    setFile(file);
+  // Read the column names for the picked sheet and header row. Only CSV is read
+  // lazily; other formats are loaded whole once and reused by processDataset.
+  const loadColumns = async (file: File, format: DatasetFormat, options: DatasetReadOptions) => {
     setIsProcessing(true);
-
-    const fileExtension = getFileExtension(file.name);
     
-    if (fileExtension === 'csv') {
-      processCSVFile(file);
-    } else if (fileExtension === 'json') {
-      processJSONFile(file);
-    } else if (['xlsx', 'xls'].includes(fileExtension)) {
-      processExcelFile(file);
-    } else {
-      toast.error("Unsupported file format");
-      setFile(null);
+    try {
+      const streamed = format === "csv" || format === "tsv";
+      const result = await readDataset(file, format, { ...options, headerOnly: streamed });
+      
+      if (result.headers.length === 0) {
+        throw new Error("The file has no columns");
+      }
+      
+      previewRef.current = streamed ? null : result;
+      setColumns(result.headers);
+      setTargetColumn(result.headers[result.headers.length - 1]); // Default to last column
+      setCsvDelimiter(result.delimiter);
+    } catch (error) {
+      console.error("Error reading file:", error);
+      toast.error(error instanceof Error ? error.message : "Error reading the file");
+      resetFile();
+    } finally {
       setIsProcessing(false);
     }
   };
 
-  const processCSVFile = (file: File) => {
-    const reader = new FileReader();
-    
-    reader.onload = (e) => {
-      try {
-        const csv = e.target?.result as string;
-        const lines = csv.split('\n');
-        const headers = lines[0].split(',').map(h => h.trim());
-        
-        setColumns(headers);
-        setTargetColumn(headers[headers.length - 1]); // Default to last column
-        setIsProcessing(false);
-      } catch (error) {
-        console.error("Error processing CSV:", error);
-        toast.error("Error processing the CSV file");
-        setFile(null);
-        setIsProcessing(false);
-      }
-    };
-
-    reader.readAsText(file);
-  };
+  const handleFile = async (file: File) => {
+    const format = detectDatasetFormat(file.name);
+    if (!format) {
+      toast.error(`Please upload one of: ${DATASET_EXTENSIONS.map(ext => `.${ext}`).join(", ")}`);
+      return;
+    }
 
-  const processJSONFile = (file: File) => {
-    const reader = new FileReader();
+    setFile(file);
+    setFileFormat(format);
+    setCsvDelimiter(undefined);
+    setParseErrors(null);
+    setHeaderRow(1);
     
-    reader.onload = (e) => {
+    let sheet: string | undefined;
+    if (format === "excel") {
       try {
-        const jsonData = JSON.parse(e.target?.result as string);
-        
-        // Check if it's an array of objects
-        if (!Array.isArray(jsonData) || jsonData.length === 0) {
-          throw new Error("JSON file must contain an array of objects");
-        }
-        
-        // Extract headers from the first object
-        const headers = Object.keys(jsonData[0]);
-        
-        if (headers.length === 0) {
-          throw new Error("JSON file contains empty objects");
-        }
-        
-        setColumns(headers);
-        setTargetColumn(headers[headers.length - 1]); // Default to last column
-        setIsProcessing(false);
+        const sheets = await listSheets(file);
+        setSheetNames(sheets);
+        sheet = sheets[0];
       } catch (error) {
-        console.error("Error processing JSON:", error);
-        toast.error(error instanceof Error ? error.message : "Error processing the JSON file");
-        setFile(null);
-        setIsProcessing(false);
+        console.error("Error reading workbook:", error);
+        toast.error("Error reading the Excel workbook");
+        resetFile();
+        return;
       }
-    };
-
-    reader.readAsText(file);
+    } else {
+      setSheetNames([]);
+    }
+    setSelectedSheet(sheet);
+    
+    await loadColumns(file, format, { sheet, headerRow: 1 });
   };
 
-  const processExcelFile = (file: File) => {
-    const reader = new FileReader();
-    
-    reader.onload = (e) => {
-      try {
-        const data = new Uint8Array(e.target?.result as ArrayBuffer);
-        const workbook = XLSX.read(data, { type: 'array' });
-        
-        // Get the first worksheet
-        const worksheetName = workbook.SheetNames[0];
-        const worksheet = workbook.Sheets[worksheetName];
-        
-        // Convert the worksheet to JSON
-        const jsonData = XLSX.utils.sheet_to_json(worksheet, { header: 1 });
-        
-        // First row contains headers
-        if (jsonData.length === 0 || !Array.isArray(jsonData[0])) {
-          throw new Error("Excel file has no data or invalid format");
-        }
-        
-        const headers = jsonData[0] as string[];
-        
-        if (headers.length === 0) {
-          throw new Error("Excel file has no columns");
-        }
-        
-        setColumns(headers);
-        setTargetColumn(headers[headers.length - 1]); // Default to last column
-        setIsProcessing(false);
-      } catch (error) {
-        console.error("Error processing Excel:", error);
-        toast.error(error instanceof Error ? error.message : "Error processing the Excel file");
-        setFile(null);
-        setIsProcessing(false);
-      }
-    };
+  const handleSheetChange = (sheet: string) => {
+    if (!file || !fileFormat) return;
+    setSelectedSheet(sheet);
+    loadColumns(file, fileFormat, { sheet, headerRow });
+  };
 
-    reader.readAsArrayBuffer(file);
+  const handleHeaderRowChange = (value: number) => {
+    if (!file || !fileFormat || !Number.isInteger(value) || value < 1) return;
+    setHeaderRow(value);
+    loadColumns(file, fileFormat, { sheet: selectedSheet, headerRow: value });
   };
 
-  const processDataset = () => {
-    if (!file || !targetColumn) return;
+  const processDataset = async () => {
+    if (!file || !fileFormat || !targetColumn) return;
     
     setIsProcessing(true);
+    setParseProgress(0);
     
-    const fileExtension = getFileExtension(file.name);
-    
-    if (fileExtension === 'csv') {
-      processCSVDataset(file);
-    } else if (fileExtension === 'json') {
-      processJSONDataset(file);
-    } else if (['xlsx', 'xls'].includes(fileExtension)) {
-      processExcelDataset(file);
-    } else {
-      toast.error("Unsupported file format");
-      setIsProcessing(false);
-    }
-  };
-
-  const processCSVDataset = (file: File) => {
-    const reader = new FileReader();
-    
-    reader.onload = (e) => {
-      try {
-        const csv = e.target?.result as string;
-        const lines = csv.split('\n');
-        const headers = lines[0].split(',').map(h => h.trim());
-        const targetIndex = headers.indexOf(targetColumn);
-        
-        if (targetIndex === -1) {
-          throw new Error("Target column not found");
-        }
-        
-        const data = [];
-        
-        // Skip header row, process data rows
-        for (let i = 1; i < lines.length; i++) {
-          if (!lines[i].trim()) continue; // Skip empty lines
-          
-          const values = lines[i].split(',').map(v => v.trim());
-          
-          if (values.length !== headers.length) {
-            console.warn(`Skipping row ${i}: incorrect number of columns`);
-            continue;
-          }
-          
-          const row: Record<string, any> = {};
-          
-          for (let j = 0; j < headers.length; j++) {
-            // Convert numeric values to numbers
-            const value = values[j];
-            const numValue = parseFloat(value);
-            row[headers[j]] = isNaN(numValue) ? value : numValue;
-          }
-          
-          data.push(row);
-        }
-        
-        // All columns except target are features
-        const features = headers.filter(h => h !== targetColumn);
-        
-        onDatasetLoad(data, features, targetColumn, file.name);
-        toast.success("Dataset loaded successfully");
-        setIsProcessing(false);
-      } catch (error) {
-        console.error("Error processing dataset:", error);
-        toast.error("Error processing the dataset");
-        setIsProcessing(false);
+    try {
+      const { headers, rows, errors, errorCount } = previewRef.current ?? await readDataset(
+        file,
+        fileFormat,
+        { delimiter: csvDelimiter, sheet: selectedSheet, headerRow },
+        setParseProgress
+      );
+      
+      if (!headers.includes(targetColumn)) {
+        throw new Error("Target column not found");
       }
-    };
-    
-    reader.readAsText(file);
-  };
-
-  const processJSONDataset = (file: File) => {
-    const reader = new FileReader();
-    
-    reader.onload = (e) => {
-      try {
-        const jsonData = JSON.parse(e.target?.result as string);
-        
-        if (!Array.isArray(jsonData) || jsonData.length === 0) {
-          throw new Error("JSON file must contain an array of objects");
-        }
-        
-        // Convert string values that look like numbers to actual numbers
-        const data = jsonData.map(row => {
-          const processedRow: Record<string, any> = {};
-          
-          for (const [key, value] of Object.entries(row)) {
-            if (typeof value === 'string') {
-              const numValue = parseFloat(value);
-              processedRow[key] = !isNaN(numValue) ? numValue : value;
-            } else {
-              processedRow[key] = value;
-            }
-          }
-          
-          return processedRow;
-        });
-        
-        // Get all possible columns
-        const headers = Object.keys(data[0]);
-        
-        if (!headers.includes(targetColumn)) {
-          throw new Error("Target column not found in JSON data");
-        }
-        
-        // All columns except target are features
-        const features = headers.filter(h => h !== targetColumn);
-        
-        onDatasetLoad(data, features, targetColumn, file.name);
-        toast.success("Dataset loaded successfully");
-        setIsProcessing(false);
-      } catch (error) {
-        console.error("Error processing JSON dataset:", error);
-        toast.error(error instanceof Error ? error.message : "Error processing the dataset");
-        setIsProcessing(false);
+      
+      if (rows.length === 0) {
+        throw new Error("The file has no valid data rows");
       }
-    };
-    
-    reader.readAsText(file);
-  };
-
-  const processExcelDataset = (file: File) => {
-    const reader = new FileReader();
-    
-    reader.onload = (e) => {
-      try {
-        const data = new Uint8Array(e.target?.result as ArrayBuffer);
-        const workbook = XLSX.read(data, { type: 'array' });
-        
-        // Get the first worksheet
-        const worksheetName = workbook.SheetNames[0];
-        const worksheet = workbook.Sheets[worksheetName];
-        
-        // Convert to JSON with headers
-        const jsonData = XLSX.utils.sheet_to_json(worksheet);
-        
-        if (jsonData.length === 0) {
-          throw new Error("Excel file has no data");
-        }
-        
-        // Check if target column exists
-        const headers = Object.keys(jsonData[0]);
-        
-        if (!headers.includes(targetColumn)) {
-          throw new Error("Target column not found in Excel data");
-        }
-        
-        // Convert string values that look like numbers to actual numbers
-        const processedData = jsonData.map(row => {
-          const processedRow: Record<string, any> = {};
-          
-          for (const [key, value] of Object.entries(row)) {
-            if (typeof value === 'string') {
-              const numValue = parseFloat(value as string);
-              processedRow[key] = !isNaN(numValue) ? numValue : value;
-            } else {
-              processedRow[key] = value;
-            }
-          }
-          
-          return processedRow;
+      
+      // Malformed rows were skipped; say which ones instead of loading them misaligned
+      setParseErrors(errorCount > 0 ? { errors, count: errorCount } : null);
+      if (errorCount > 0) {
+        toast.warning(`Skipped ${errorCount} malformed row${errorCount === 1 ? "" : "s"}`, {
+          description: `Line ${errors[0].line}: ${errors[0].message}`
         });
-        
-        // All columns except target are features
-        const features = headers.filter(h => h !== targetColumn);
-        
-        onDatasetLoad(processedData, features, targetColumn, file.name);
-        toast.success("Dataset loaded successfully");
-        setIsProcessing(false);
-      } catch (error) {
-        console.error("Error processing Excel dataset:", error);
-        toast.error(error instanceof Error ? error.message : "Error processing the dataset");
-        setIsProcessing(false);
       }
-    };
-    
-    reader.readAsArrayBuffer(file);
+      
+      // All columns except target are features
+      const features = headers.filter(h => h !== targetColumn);
+      
+      const name = selectedSheet && sheetNames.length > 1 ? `${file.name} (${selectedSheet})` : file.name;
+      onDatasetLoad(rows, features, targetColumn, name, {
+        file,
+        format: fileFormat,
+        options: { sheet: selectedSheet, headerRow },
+      });
+      toast.success("Dataset loaded successfully");
+    } catch (error) {
+      console.error("Error processing dataset:", error);
+      toast.error(error instanceof Error ? error.message : "Error processing the dataset");
+    } finally {
+      setParseProgress(null);
+      setIsProcessing(false);
+    }
   };
 
   return (
@@ -411,7 +240,7 @@ export function DatasetUploader({ onDatasetLoad }: DatasetUploaderProps) {
               </div>
               <div className="flex items-center gap-2 text-xs text-muted-foreground">
                 <FileType className="h-4 w-4" />
-                <span>Accepted formats: CSV, Excel (.xlsx, .xls), JSON</span>
+                <span>Accepted formats: CSV, TSV, Excel (.xlsx, .xls), JSON, NDJSON, Parquet, Arrow/Feather</span>
               </div>
             </div>
           </div>
@@ -420,7 +249,7 @@ export function DatasetUploader({ onDatasetLoad }: DatasetUploaderProps) {
             type="file"
             ref={fileInputRef}
             onChange={handleFileChange}
-            accept=".csv,.json,.xlsx,.xls"
+            accept={DATASET_EXTENSIONS.map(ext => `.${ext}`).join(",")}
             className="hidden"
           />
         </>
@@ -440,7 +269,7 @@ export function DatasetUploader({ onDatasetLoad }: DatasetUploaderProps) {
               </p>
             </div>
             <button
-              onClick={() => setFile(null)}
+              onClick={resetFile}
               className={`
                 p-2 rounded-full
                 ${theme === "light" 
@@ -453,6 +282,55 @@ export function DatasetUploader({ onDatasetLoad }: DatasetUploaderProps) {
             </button>
           </div>
           
+          {(sheetNames.length > 1 || (fileFormat && HEADER_ROW_FORMATS.includes(fileFormat))) && (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-6">
+              {sheetNames.length > 1 && (
+                <div className="flex flex-col gap-2">
+                  <label className="text-sm font-medium">
+                    Sheet:
+                  </label>
+                  <select
+                    value={selectedSheet}
+                    onChange={(e) => handleSheetChange(e.target.value)}
+                    disabled={isProcessing}
+                    className={`
+                      input-field
+                      ${theme === "light" 
+                        ? "input-field-light" 
+                        : "input-field-dark"}
+                    `}
+                  >
+                    {sheetNames.map((sheet) => (
+                      <option key={sheet} value={sheet}>
+                        {sheet}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
+              {fileFormat && HEADER_ROW_FORMATS.includes(fileFormat) && (
+                <div className="flex flex-col gap-2">
+                  <label className="text-sm font-medium">
+                    Header row:
+                  </label>
+                  <input
+                    type="number"
+                    min={1}
+                    value={headerRow}
+                    onChange={(e) => handleHeaderRowChange(Number(e.target.value))}
+                    disabled={isProcessing}
+                    className={`
+                      input-field
+                      ${theme === "light" 
+                        ? "input-field-light" 
+                        : "input-field-dark"}
+                    `}
+                  />
+                </div>
+              )}
+            </div>
+          )}
+          
           {columns.length > 0 && (
             <div className="space-y-3 mt-6">
               <div className="flex flex-col gap-2">
@@ -486,6 +364,29 @@ export function DatasetUploader({ onDatasetLoad }: DatasetUploaderProps) {
             </div>
           )}
           
+          {parseProgress !== null && (
+            <div className="space-y-1">
+              <Progress value={parseProgress} className="h-2" />
+              <p className="text-xs text-muted-foreground">Reading file... {parseProgress}%</p>
+            </div>
+          )}
+          
+          {parseErrors && (
+            <div className="rounded-lg border border-destructive/50 p-3 text-sm">
+              <p className="font-medium text-destructive">
+                {parseErrors.count} row{parseErrors.count === 1 ? " was" : "s were"} skipped
+              </p>
+              <ul className="mt-1 space-y-0.5 text-xs text-muted-foreground">
+                {parseErrors.errors.slice(0, 5).map(error => (
+                  <li key={error.line}>Line {error.line}: {error.message}</li>
+                ))}
+              </ul>
+              {parseErrors.count > 5 && (
+                <p className="mt-1 text-xs text-muted-foreground">...and {parseErrors.count - 5} more</p>
+              )}
+            </div>
+          )}
+          
           <div className="flex justify-end mt-6">
             <button
               onClick={processDataset}
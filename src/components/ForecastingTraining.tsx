@@ -0,0 +1,465 @@
+import { useMemo, useState } from "react";
+import { Area, CartesianGrid, ComposedChart, Legend, Line, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { CalendarClock, Info } from "lucide-react";
+import { toast } from "sonner";
+import { useTheme } from "@/context/ThemeContext";
+import { useModels } from "@/context/ModelContext";
+import { FeatureValue } from "@/utils/browserModels";
+import { DatasetSchema } from "@/utils/schema";
+import { FORECAST_ALGORITHMS, ForecastAlgorithm, ForecastFrequency } from "@/utils/forecastModels";
+import {
+  buildTimeSeries,
+  DEFAULT_FORECAST_SETTINGS,
+  FORECAST_FREQUENCIES,
+  ForecastAggregation,
+  forecastAccuracy,
+  ForecastConfig,
+  ForecastOutput,
+  TimeSeries,
+} from "@/utils/forecasting";
+import { trainForecastInBrowser } from "@/utils/forecastTraining";
+
+interface ForecastingTrainingProps {
+  data: Record<string, FeatureValue>[];
+  schema: DatasetSchema;
+  // Dataset target, used as the default series to forecast
+  target: string;
+  datasetName: string;
+  // Registered dataset version the models are trained on
+  datasetVersionId?: string;
+}
+
+const ALL_ALGORITHMS = "__all__";
+// History shown before the forecast, in horizons
+const HISTORY_HORIZONS = 4;
+
+const formatMetric = (value: number, suffix = "") =>
+  Number.isFinite(value) ? `${value.toFixed(2)}${suffix}` : "—";
+
+const formatPeriod = (timestamp: number, frequency: ForecastFrequency) => {
+  const iso = new Date(timestamp).toISOString();
+  if (frequency === "hourly") return iso.slice(0, 13).replace("T", " ") + ":00";
+  if (frequency === "monthly") return iso.slice(0, 7);
+  return iso.slice(0, 10);
+};
+
+// Lower MASE wins; sMAPE breaks ties and covers series where MASE is undefined
+const bestResult = (results: ForecastOutput[]) =>
+  [...results].sort((a, b) =>
+    (Number.isFinite(a.metrics.mase) ? a.metrics.mase : Infinity) -
+      (Number.isFinite(b.metrics.mase) ? b.metrics.mase : Infinity) ||
+    a.metrics.smape - b.metrics.smape
+  )[0];
+
+export function ForecastingTraining({
+  data,
+  schema,
+  target,
+  datasetName,
+  datasetVersionId,
+}: ForecastingTrainingProps) {
+  const { theme } = useTheme();
+  const { addModel } = useModels();
+
+  const timeColumns = schema.filter(column => column.type === "datetime").map(column => column.name);
+  const valueColumns = schema
+    .filter(column => column.type === "numeric" || column.type === "integer")
+    .map(column => column.name);
+
+  const [timeColumn, setTimeColumn] = useState(timeColumns[0] ?? "");
+  const [valueColumn, setValueColumn] = useState(valueColumns.includes(target) ? target : valueColumns[0] ?? "");
+  const [settings, setSettings] = useState(DEFAULT_FORECAST_SETTINGS);
+  const [algorithm, setAlgorithm] = useState<string>(ALL_ALGORITHMS);
+  const [isTraining, setIsTraining] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [progressMessage, setProgressMessage] = useState("");
+  const [series, setSeries] = useState<TimeSeries | null>(null);
+  const [results, setResults] = useState<ForecastOutput[]>([]);
+  const [shownAlgorithm, setShownAlgorithm] = useState<ForecastAlgorithm | null>(null);
+
+  const update = (changes: Partial<typeof settings>) => setSettings(prev => ({ ...prev, ...changes }));
+
+  const handleFrequencyChange = (frequency: ForecastFrequency) => {
+    const option = FORECAST_FREQUENCIES.find(f => f.value === frequency);
+    update({ frequency, seasonLength: option?.seasonLength ?? settings.seasonLength });
+  };
+
+  const handleTrain = async () => {
+    if (!timeColumn || !valueColumn) {
+      toast.error("Choose a datetime column and a numeric column to forecast");
+      return;
+    }
+
+    const config: ForecastConfig = { ...settings, timeColumn, target: valueColumn };
+    let timeSeries: TimeSeries;
+    try {
+      timeSeries = buildTimeSeries(data, config);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : String(error));
+      return;
+    }
+
+    const algorithms = algorithm === ALL_ALGORITHMS ? FORECAST_ALGORITHMS : [algorithm as ForecastAlgorithm];
+    setIsTraining(true);
+    setProgress(0);
+    setSeries(timeSeries);
+    setResults([]);
+    setShownAlgorithm(null);
+
+    const trained: ForecastOutput[] = [];
+    try {
+      for (let i = 0; i < algorithms.length; i++) {
+        const result = await trainForecastInBrowser(
+          { algorithm: algorithms[i], config, series: timeSeries },
+          (value, message) => {
+            setProgress(((i + value / 100) / algorithms.length) * 100);
+            setProgressMessage(`${algorithms[i]}: ${message}`);
+          }
+        );
+        trained.push(result);
+        setResults([...trained]);
+
+        await addModel({
+          name: `${result.algorithm} Forecast - ${valueColumn}`,
+          type: "Forecasting",
+          algorithm: result.algorithm,
+          accuracy: forecastAccuracy(result.metrics),
+          datasetName,
+          parameters: {
+            trainingMethod: "browser",
+            forecast: {
+              timeColumn,
+              frequency: config.frequency,
+              aggregation: config.aggregation,
+              horizon: config.horizon,
+              seasonLength: config.seasonLength,
+              folds: result.folds.length,
+            },
+            metrics: result.metrics,
+            forecastPoints: result.forecast,
+            filledGaps: timeSeries.filledGaps,
+          },
+          targets: [valueColumn],
+          modelData: JSON.stringify(result.model),
+          schema,
+          datasetVersionId,
+        });
+      }
+
+      const best = bestResult(trained);
+      setShownAlgorithm(best.algorithm);
+      toast.success(`Forecasting complete. Best model: ${best.algorithm} (MASE ${formatMetric(best.metrics.mase)})`);
+    } catch (error) {
+      console.error("Forecasting error:", error);
+      toast.error(`Forecasting failed: ${error instanceof Error ? error.message : String(error)}`);
+      if (trained.length) setShownAlgorithm(bestResult(trained).algorithm);
+    } finally {
+      setIsTraining(false);
+    }
+  };
+
+  const best = results.length ? bestResult(results) : null;
+  const shown = results.find(result => result.algorithm === shownAlgorithm) ?? best;
+
+  // History and forecast on one axis; the last observed point also starts the forecast line
+  const chartData = useMemo(() => {
+    if (!series || !shown) return [];
+    const { frequency, horizon } = shown.model.config;
+    const start = Math.max(0, series.values.length - HISTORY_HORIZONS * horizon);
+    const history = series.values.slice(start).map((value, i) => ({
+      period: formatPeriod(series.timestamps[start + i], frequency),
+      actual: value,
+    }));
+    const last = history[history.length - 1];
+    return [
+      ...history.slice(0, -1),
+      { ...last, forecast: last.actual, band80: [last.actual, last.actual], band95: [last.actual, last.actual] },
+      ...shown.forecast.map(point => ({
+        period: formatPeriod(point.timestamp, frequency),
+        forecast: point.forecast,
+        band80: [point.lower80, point.upper80],
+        band95: [point.lower95, point.upper95],
+      })),
+    ];
+  }, [series, shown]);
+
+  const axisColor = theme === "light" ? "#6b7280" : "#9ca3af";
+  const forecastColor = theme === "light" ? "#8b5cf6" : "#a78bfa";
+
+  return (
+    <Card className={`w-full ${
+      theme === "light" ? "card-container-light" : "card-container-dark"
+    }`}>
+      <CardHeader>
+        <CardTitle className="text-xl font-bold flex items-center gap-2">
+          <CalendarClock className="h-5 w-5" />
+          Time-Series Forecasting
+        </CardTitle>
+        <CardDescription>
+          Forecast a numeric column over time and compare models with walk-forward backtests
+        </CardDescription>
+      </CardHeader>
+
+      <CardContent className="space-y-6">
+        {timeColumns.length === 0 ? (
+          <Alert>
+            <Info className="h-4 w-4" />
+            <AlertDescription>
+              No datetime column found. Set a column's type to datetime in the schema panel to forecast it.
+            </AlertDescription>
+          </Alert>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div className="space-y-4">
+              <div className="flex items-center justify-between gap-4">
+                <Label>Time column</Label>
+                <Select value={timeColumn} onValueChange={setTimeColumn} disabled={isTraining}>
+                  <SelectTrigger className="w-[180px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {timeColumns.map(column => (
+                      <SelectItem key={column} value={column}>{column}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="flex items-center justify-between gap-4">
+                <Label>Value to forecast</Label>
+                <Select value={valueColumn} onValueChange={setValueColumn} disabled={isTraining}>
+                  <SelectTrigger className="w-[180px]">
+                    <SelectValue placeholder="Numeric column" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {valueColumns.map(column => (
+                      <SelectItem key={column} value={column}>{column}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="flex items-center justify-between gap-4">
+                <Label>Frequency</Label>
+                <Select
+                  value={settings.frequency}
+                  onValueChange={(value) => handleFrequencyChange(value as ForecastFrequency)}
+                  disabled={isTraining}
+                >
+                  <SelectTrigger className="w-[180px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {FORECAST_FREQUENCIES.map(f => (
+                      <SelectItem key={f.value} value={f.value}>{f.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="flex items-center justify-between gap-4">
+                <Label>Rows per period</Label>
+                <Select
+                  value={settings.aggregation}
+                  onValueChange={(value) => update({ aggregation: value as ForecastAggregation })}
+                  disabled={isTraining}
+                >
+                  <SelectTrigger className="w-[180px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="sum">Sum</SelectItem>
+                    <SelectItem value="mean">Mean</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="space-y-4">
+              <div className="flex items-center justify-between gap-4">
+                <Label htmlFor="forecast-horizon">Horizon (periods)</Label>
+                <Input
+                  id="forecast-horizon"
+                  type="number"
+                  min={1}
+                  className="w-[180px]"
+                  value={settings.horizon}
+                  onChange={(e) => update({ horizon: Math.max(1, parseInt(e.target.value) || 1) })}
+                  disabled={isTraining}
+                />
+              </div>
+
+              <div className="flex items-center justify-between gap-4">
+                <Label htmlFor="forecast-season">Season length</Label>
+                <Input
+                  id="forecast-season"
+                  type="number"
+                  min={1}
+                  className="w-[180px]"
+                  value={settings.seasonLength}
+                  onChange={(e) => update({ seasonLength: Math.max(1, parseInt(e.target.value) || 1) })}
+                  disabled={isTraining}
+                />
+              </div>
+
+              <div className="flex items-center justify-between gap-4">
+                <Label htmlFor="forecast-folds">Backtest windows</Label>
+                <Input
+                  id="forecast-folds"
+                  type="number"
+                  min={1}
+                  max={10}
+                  className="w-[180px]"
+                  value={settings.folds}
+                  onChange={(e) => update({ folds: Math.min(10, Math.max(1, parseInt(e.target.value) || 1)) })}
+                  disabled={isTraining}
+                />
+              </div>
+
+              <div className="flex items-center justify-between gap-4">
+                <Label>Model</Label>
+                <Select value={algorithm} onValueChange={setAlgorithm} disabled={isTraining}>
+                  <SelectTrigger className="w-[180px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL_ALGORITHMS}>Compare all</SelectItem>
+                    {FORECAST_ALGORITHMS.map(a => (
+                      <SelectItem key={a} value={a}>{a}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {isTraining && (
+          <div className="space-y-2">
+            <div className="flex justify-between text-sm">
+              <span>{progressMessage}</span>
+              <span>{Math.round(progress)}%</span>
+            </div>
+            <Progress value={progress} />
+          </div>
+        )}
+
+        {series && series.filledGaps > 0 && (
+          <p className="text-xs text-muted-foreground">
+            {series.filledGaps} of {series.values.length} periods had no rows and were interpolated.
+          </p>
+        )}
+
+        {results.length > 0 && (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Model</TableHead>
+                <TableHead className="text-right">MAPE</TableHead>
+                <TableHead className="text-right">sMAPE</TableHead>
+                <TableHead className="text-right">MASE</TableHead>
+                <TableHead className="text-right">RMSE</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {results.map(result => (
+                <TableRow
+                  key={result.algorithm}
+                  className={`cursor-pointer ${result.algorithm === shown?.algorithm ? "bg-muted/50" : ""}`}
+                  onClick={() => setShownAlgorithm(result.algorithm)}
+                >
+                  <TableCell className="flex items-center gap-2">
+                    {result.algorithm}
+                    {!isTraining && result === best && <Badge variant="outline">Best</Badge>}
+                  </TableCell>
+                  <TableCell className="text-right">{formatMetric(result.metrics.mape, "%")}</TableCell>
+                  <TableCell className="text-right">{formatMetric(result.metrics.smape, "%")}</TableCell>
+                  <TableCell className="text-right">{formatMetric(result.metrics.mase)}</TableCell>
+                  <TableCell className="text-right">{formatMetric(result.metrics.rmse)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+
+        {shown && chartData.length > 0 && (
+          <div className="space-y-2">
+            <h3 className="text-sm font-medium">
+              {shown.algorithm} forecast with 80% and 95% intervals
+            </h3>
+            <div className="h-72">
+              <ResponsiveContainer width="100%" height="100%">
+                <ComposedChart data={chartData} margin={{ top: 10, right: 20, left: 0, bottom: 5 }}>
+                  <CartesianGrid strokeDasharray="3 3" stroke={theme === "light" ? "#e5e7eb" : "#374151"} />
+                  <XAxis dataKey="period" stroke={axisColor} minTickGap={24} />
+                  <YAxis stroke={axisColor} tickFormatter={(value: number) => value.toFixed(0)} />
+                  <Tooltip
+                    formatter={(value: number | number[]) =>
+                      Array.isArray(value) ? `${value[0].toFixed(2)} – ${value[1].toFixed(2)}` : value.toFixed(2)
+                    }
+                    contentStyle={{
+                      backgroundColor: theme === "light" ? "#fff" : "#1f2937",
+                      borderColor: theme === "light" ? "#e5e7eb" : "#374151",
+                      color: theme === "light" ? "#111827" : "#f3f4f6",
+                    }}
+                  />
+                  <Legend />
+                  <Area
+                    dataKey="band95"
+                    name="95% interval"
+                    stroke="none"
+                    fill={forecastColor}
+                    fillOpacity={0.15}
+                    isAnimationActive={false}
+                  />
+                  <Area
+                    dataKey="band80"
+                    name="80% interval"
+                    stroke="none"
+                    fill={forecastColor}
+                    fillOpacity={0.3}
+                    isAnimationActive={false}
+                  />
+                  <Line
+                    dataKey="actual"
+                    name="Actual"
+                    stroke={theme === "light" ? "#3b82f6" : "#60a5fa"}
+                    strokeWidth={2}
+                    dot={false}
+                  />
+                  <Line
+                    dataKey="forecast"
+                    name="Forecast"
+                    stroke={forecastColor}
+                    strokeWidth={2}
+                    strokeDasharray="5 3"
+                    dot={false}
+                  />
+                </ComposedChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+        )}
+      </CardContent>
+
+      <CardFooter>
+        <Button
+          onClick={handleTrain}
+          disabled={isTraining || !timeColumn || !valueColumn}
+          className="w-full"
+        >
+          {isTraining ? "Backtesting..." : "Train Forecasting Models"}
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+}
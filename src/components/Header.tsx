@@ -1,8 +1,9 @@
 
 import { ThemeToggle } from "@/components/ThemeToggle";
 import { useTheme } from "@/context/ThemeContext";
-import { Brain, Play } from "lucide-react";
+import { Brain, KeyRound, Play } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { Link } from "react-router-dom";
 
 export function Header() {
   const { theme } = useTheme();
@@ -16,7 +17,7 @@ export function Header() {
         : "bg-background/80 shadow-md border-b border-border/20"}
     `}>
       <div className="max-w-7xl mx-auto flex justify-between items-center">
-        <div className="flex items-center gap-3">
+        <Link to="/" className="flex items-center gap-3">
           <div className={`
             p-2 rounded-lg transition-all duration-300
             ${theme === "light" 
@@ -29,9 +30,15 @@ export function Header() {
             <h1 className="text-xl font-semibold tracking-tight">ModelMagic</h1>
             <p className="text-xs text-muted-foreground hidden sm:block">ML & DL Training Tool</p>
           </div>
-        </div>
+        </Link>
         
         <div className="flex items-center gap-4">
+          <Button variant="ghost" size="sm" className="flex items-center gap-1" asChild>
+            <Link to="/api-keys">
+              <KeyRound className="h-4 w-4" />
+              API Keys
+            </Link>
+          </Button>
           <Button 
             size="sm" 
             className="flex items-center gap-1 hidden sm:flex"
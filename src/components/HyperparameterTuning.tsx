@@ -1,5 +1,6 @@
 import { useState } from "react";
 import { useTheme } from "@/context/ThemeContext";
+import { NeuralNetworkLayer, useModels } from "@/context/ModelContext";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Slider } from "@/components/ui/slider";
@@ -8,90 +9,183 @@ import { Label } from "@/components/ui/label";
 import { Button } from "@/components/ui/button";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Switch } from "@/components/ui/switch";
-import { Settings2, BarChart4, Cpu, Play, RotateCcw } from "lucide-react";
+import { Progress } from "@/components/ui/progress";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Settings2, BarChart4, Cpu, Play, RotateCcw, ArrowUpDown, Save } from "lucide-react";
 import { ScatterChart, Scatter, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ZAxis } from "recharts";
+import { toast } from "sonner";
+import { FeatureValue } from "@/utils/browserModels";
+import {
+  DEFAULT_TUNING_OPTIONS,
+  HYPERPARAMETER_SPACES,
+  HyperparamOption,
+  HyperparamValue,
+  TunableAlgorithm,
+  TuningMethod,
+  TuningTrial,
+  evaluateConfiguration,
+  runTuning,
+  toTrainingParams,
+} from "@/utils/hyperparameterTuning";
+import { getModelTypeForAlgorithm, trainMLModel } from "@/utils/mlAlgorithms";
+import { PreprocessingInput } from "@/utils/preprocessing";
+import { DatasetSchema } from "@/utils/schema";
+import { resolveSplit, SplitSpec } from "@/utils/splitting";
 
-interface HyperparamOption {
-  name: string;
-  label: string;
-  type: "range" | "number" | "select" | "boolean";
-  min?: number;
-  max?: number;
-  step?: number;
-  options?: string[];
-  value: any;
+interface HyperparameterTuningProps {
+  data: Record<string, FeatureValue>[];
+  features: string[];
+  target: string;
+  datasetName: string;
+  // Column types the dataset was loaded with, saved alongside each model
+  schema?: DatasetSchema;
+  // Registered dataset version the models are trained on
+  datasetVersionId?: string;
+  // How rows are divided into training, validation and test sets
+  splitSpec?: SplitSpec;
+  preprocessing: PreprocessingInput;
 }
 
-interface TuningResult {
-  id: number;
-  params: Record<string, any>;
-  accuracy: number;
-  loss: number;
-  trainingTime: number;
-}
+type SortKey = "id" | "score" | "trainingTime";
+
+const TUNING_METHOD_NAMES: Record<TuningMethod, string> = {
+  grid: "Grid Search",
+  random: "Random Search",
+  bayesian: "Bayesian Optimization",
+};
 
-export function HyperparameterTuning() {
+export function HyperparameterTuning({ data, features, target, datasetName, schema, datasetVersionId, splitSpec, preprocessing }: HyperparameterTuningProps) {
   const { theme } = useTheme();
-  const [algorithm, setAlgorithm] = useState("RandomForest");
-  const [tuningMethod, setTuningMethod] = useState("grid");
+  const { addModel } = useModels();
+  const [algorithm, setAlgorithm] = useState<TunableAlgorithm>("Random Forest");
+  const [tuningMethod, setTuningMethod] = useState<TuningMethod>("grid");
   const [isAutomatic, setIsAutomatic] = useState(true);
   const [isTuning, setIsTuning] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [maxTrials, setMaxTrials] = useState(DEFAULT_TUNING_OPTIONS.maxTrials);
+  const [sortKey, setSortKey] = useState<SortKey>("score");
+  const [sortAscending, setSortAscending] = useState(false);
   
-  const [hyperparams, setHyperparams] = useState<HyperparamOption[]>([
-    { name: "n_estimators", label: "Number of Estimators", type: "range", min: 10, max: 500, step: 10, value: 100 },
-    { name: "max_depth", label: "Max Depth", type: "range", min: 1, max: 50, step: 1, value: 10 },
-    { name: "min_samples_split", label: "Min Samples Split", type: "range", min: 2, max: 20, step: 1, value: 2 },
-    { name: "criterion", label: "Split Criterion", type: "select", options: ["gini", "entropy"], value: "gini" },
-    { name: "bootstrap", label: "Bootstrap", type: "boolean", value: true },
-  ]);
+  const [hyperparams, setHyperparams] = useState<HyperparamOption[]>(HYPERPARAMETER_SPACES["Random Forest"]);
+  const [tuningResults, setTuningResults] = useState<TuningTrial[]>([]);
   
-  const [tuningResults, setTuningResults] = useState<TuningResult[]>([
-    { id: 1, params: { n_estimators: 100, max_depth: 10 }, accuracy: 0.82, loss: 0.35, trainingTime: 5.2 },
-    { id: 2, params: { n_estimators: 200, max_depth: 15 }, accuracy: 0.85, loss: 0.31, trainingTime: 8.4 },
-    { id: 3, params: { n_estimators: 150, max_depth: 20 }, accuracy: 0.87, loss: 0.28, trainingTime: 7.1 },
-    { id: 4, params: { n_estimators: 300, max_depth: 25 }, accuracy: 0.86, loss: 0.29, trainingTime: 12.5 },
-    { id: 5, params: { n_estimators: 250, max_depth: 15 }, accuracy: 0.88, loss: 0.25, trainingTime: 10.8 },
-  ]);
+  const tuningOptions = { ...DEFAULT_TUNING_OPTIONS, method: tuningMethod, maxTrials };
   
-  const startTuning = () => {
+  const startTuning = async () => {
     setIsTuning(true);
+    setProgress(0);
+    setTuningResults([]);
     
-    setTimeout(() => {
+    try {
+      if (isAutomatic) {
+        const trials = await runTuning(
+          data, features, target, algorithm, hyperparams, tuningOptions, preprocessing,
+          (trial, completed, total) => {
+            setTuningResults(previous => [...previous, trial]);
+            setProgress((completed / total) * 100);
+          }
+        );
+        setProgress(100);
+        toast.success(`Evaluated ${trials.length} configurations with ${TUNING_METHOD_NAMES[tuningMethod]}`);
+      } else {
+        // Manual mode scores exactly the values on the sliders
+        const params = Object.fromEntries(hyperparams.map(param => [param.name, param.value]));
+        const result = await evaluateConfiguration(data, features, target, algorithm, params, tuningOptions, preprocessing);
+        setTuningResults([{ id: 1, ...result }]);
+        setProgress(100);
+      }
+    } catch (error) {
+      console.error("Hyperparameter tuning failed:", error);
+      toast.error(`Tuning failed: ${error instanceof Error ? error.message : "Unknown error"}`);
+    } finally {
       setIsTuning(false);
-      
-      const newResult: TuningResult = {
-        id: tuningResults.length + 1,
-        params: {
-          n_estimators: hyperparams.find(p => p.name === "n_estimators")?.value,
-          max_depth: hyperparams.find(p => p.name === "max_depth")?.value,
-        },
-        accuracy: 0.8 + Math.random() * 0.15,
-        loss: 0.4 - Math.random() * 0.2,
-        trainingTime: 5 + Math.random() * 10,
-      };
-      
-      setTuningResults([...tuningResults, newResult]);
-    }, 3000);
+    }
   };
   
   const resetTuning = () => {
-    setHyperparams([
-      { name: "n_estimators", label: "Number of Estimators", type: "range", min: 10, max: 500, step: 10, value: 100 },
-      { name: "max_depth", label: "Max Depth", type: "range", min: 1, max: 50, step: 1, value: 10 },
-      { name: "min_samples_split", label: "Min Samples Split", type: "range", min: 2, max: 20, step: 1, value: 2 },
-      { name: "criterion", label: "Split Criterion", type: "select", options: ["gini", "entropy"], value: "gini" },
-      { name: "bootstrap", label: "Bootstrap", type: "boolean", value: true },
-    ]);
+    setHyperparams(HYPERPARAMETER_SPACES[algorithm]);
+  };
+  
+  const handleAlgorithmChange = (value: string) => {
+    setAlgorithm(value as TunableAlgorithm);
+    setHyperparams(HYPERPARAMETER_SPACES[value as TunableAlgorithm]);
+    setTuningResults([]);
   };
   
-  const updateHyperparam = (name: string, value: any) => {
+  const updateHyperparam = (name: string, value: HyperparamValue) => {
     setHyperparams(hyperparams.map(param => 
       param.name === name ? { ...param, value } : param
     ));
   };
   
-  const bestResult = tuningResults.reduce((best, current) => 
-    current.accuracy > best.accuracy ? current : best, tuningResults[0]);
+  const toggleSort = (key: SortKey) => {
+    if (key === sortKey) {
+      setSortAscending(!sortAscending);
+    } else {
+      setSortKey(key);
+      setSortAscending(key !== "score");
+    }
+  };
+  
+  const bestResult = tuningResults.length
+    ? tuningResults.reduce((best, current) => current.score > best.score ? current : best, tuningResults[0])
+    : null;
+  
+  // Retrain the best configuration on the chosen split and store it
+  const saveBestModel = async () => {
+    if (!bestResult) return;
+    setIsSaving(true);
+    
+    try {
+      const trainingParams = toTrainingParams(algorithm, bestResult.params);
+      const split = splitSpec ? resolveSplit(data, target, splitSpec) : undefined;
+      const result = await trainMLModel(data, features, target, algorithm, trainingParams, preprocessing, split, undefined, datasetName);
+      
+      await addModel({
+        name: `${algorithm} (tuned) - ${target}`,
+        type: getModelTypeForAlgorithm(algorithm),
+        algorithm,
+        accuracy: result.accuracy,
+        datasetName,
+        schema,
+        datasetVersionId,
+        splitSpec,
+        parameters: {
+          ...result.parameters,
+          tuning: {
+            method: tuningMethod,
+            folds: tuningOptions.folds,
+            trials: tuningResults.length,
+            bestParams: bestResult.params,
+            cvScore: bestResult.score,
+            cvStd: bestResult.std,
+          },
+        },
+        neuralNetworkArchitecture: algorithm === "Neural Network"
+          ? trainingParams.architecture as NeuralNetworkLayer[]
+          : undefined,
+        targets: [target],
+        modelData: result.modelData,
+      });
+      
+      toast.success(`Saved tuned ${algorithm} with ${(result.accuracy * 100).toFixed(2)}% accuracy`);
+    } catch (error) {
+      console.error("Error saving tuned model:", error);
+      toast.error(`Failed to save model: ${error instanceof Error ? error.message : "Unknown error"}`);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+  
+  const sortedResults = [...tuningResults].sort((a, b) =>
+    (sortAscending ? 1 : -1) * (a[sortKey] - b[sortKey])
+  );
+  
+  // Plot the first two numeric hyperparameters against each other
+  const numericParams = hyperparams.filter(param => param.type === "range" || param.type === "number");
+  const xParam = numericParams[0];
+  const yParam = numericParams[1] ?? numericParams[0];
   
   return (
     <Card className={`w-full ${
@@ -107,15 +201,15 @@ export function HyperparameterTuning() {
             <CardDescription>Optimize model performance by tuning hyperparameters</CardDescription>
           </div>
           
-          <Select value={algorithm} onValueChange={setAlgorithm}>
+          <Select value={algorithm} onValueChange={handleAlgorithmChange}>
             <SelectTrigger className="w-[180px]">
               <SelectValue placeholder="Select algorithm" />
             </SelectTrigger>
             <SelectContent>
-              <SelectItem value="RandomForest">Random Forest</SelectItem>
-              <SelectItem value="GradientBoosting">Gradient Boosting</SelectItem>
+              <SelectItem value="Random Forest">Random Forest</SelectItem>
+              <SelectItem value="Gradient Boosting">Gradient Boosting</SelectItem>
               <SelectItem value="SVM">SVM</SelectItem>
-              <SelectItem value="NeuralNetwork">Neural Network</SelectItem>
+              <SelectItem value="Neural Network">Neural Network</SelectItem>
             </SelectContent>
           </Select>
         </div>
@@ -147,7 +241,7 @@ export function HyperparameterTuning() {
                 </div>
                 
                 {isAutomatic && (
-                  <Select value={tuningMethod} onValueChange={setTuningMethod}>
+                  <Select value={tuningMethod} onValueChange={(value) => setTuningMethod(value as TuningMethod)}>
                     <SelectTrigger className="w-[180px]">
                       <SelectValue placeholder="Tuning method" />
                     </SelectTrigger>
@@ -160,6 +254,27 @@ export function HyperparameterTuning() {
                 )}
               </div>
               
+              {isAutomatic && (
+                <div className="space-y-2">
+                  <div className="flex justify-between">
+                    <Label htmlFor="max-trials">Trial Budget</Label>
+                    <span className="text-sm text-muted-foreground">{maxTrials}</span>
+                  </div>
+                  <Slider
+                    id="max-trials"
+                    min={5}
+                    max={100}
+                    step={5}
+                    value={[maxTrials]}
+                    onValueChange={(value) => setMaxTrials(value[0])}
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Automatic tuning searches the full range of each hyperparameter and scores every
+                    configuration with {tuningOptions.folds}-fold cross-validation.
+                  </p>
+                </div>
+              )}
+              
               <div className="space-y-4">
                 {hyperparams.map((param) => (
                   <div key={param.name} className="space-y-2">
@@ -178,7 +293,7 @@ export function HyperparameterTuning() {
                         min={param.min}
                         max={param.max}
                         step={param.step}
-                        value={[param.value]}
+                        value={[Number(param.value)]}
                         onValueChange={(value) => updateHyperparam(param.name, value[0])}
                       />
                     )}
@@ -187,7 +302,7 @@ export function HyperparameterTuning() {
                       <Input
                         id={param.name}
                         type="number"
-                        value={param.value}
+                        value={Number(param.value)}
                         onChange={(e) => updateHyperparam(param.name, Number(e.target.value))}
                         min={param.min}
                         max={param.max}
@@ -197,7 +312,7 @@ export function HyperparameterTuning() {
                     
                     {param.type === "select" && (
                       <Select
-                        value={param.value}
+                        value={String(param.value)}
                         onValueChange={(value) => updateHyperparam(param.name, value)}
                       >
                         <SelectTrigger id={param.name}>
@@ -216,7 +331,7 @@ export function HyperparameterTuning() {
                     {param.type === "boolean" && (
                       <Switch
                         id={param.name}
-                        checked={param.value}
+                        checked={param.value === true}
                         onCheckedChange={(checked) => updateHyperparam(param.name, checked)}
                       />
                     )}
@@ -225,6 +340,16 @@ export function HyperparameterTuning() {
               </div>
             </div>
             
+            {isTuning && (
+              <div className="space-y-1 mb-4">
+                <div className="flex justify-between text-sm">
+                  <span>Evaluating configurations...</span>
+                  <span>{tuningResults.length} trials</span>
+                </div>
+                <Progress value={progress} className="h-2" />
+              </div>
+            )}
+            
             <div className="flex justify-between">
               <Button 
                 variant="outline" 
@@ -237,7 +362,7 @@ export function HyperparameterTuning() {
               
               <Button 
                 onClick={startTuning}
-                disabled={isTuning}
+                disabled={isTuning || data.length === 0}
                 className="flex items-center gap-1"
               >
                 {isTuning ? (
@@ -256,7 +381,13 @@ export function HyperparameterTuning() {
           </TabsContent>
           
           <TabsContent value="results">
+            {!bestResult ? (
+              <div className="text-sm text-muted-foreground text-center py-8">
+                Start tuning to see trial results
+              </div>
+            ) : (
             <div className="space-y-6">
+              {xParam && (
               <div className="h-64 w-full">
                 <ResponsiveContainer width="100%" height="100%">
                   <ScatterChart
@@ -268,12 +399,12 @@ export function HyperparameterTuning() {
                     />
                     <XAxis 
                       type="number" 
-                      dataKey="params.n_estimators" 
-                      name="Estimators" 
+                      dataKey={`params.${xParam.name}`} 
+                      name={xParam.label} 
                       unit="" 
                       domain={['auto', 'auto']}
                       label={{ 
-                        value: "Number of Estimators",
+                        value: xParam.label,
                         position: "bottom", 
                         style: { fill: theme === "light" ? "#6b7280" : "#9ca3af" } 
                       }}
@@ -281,11 +412,11 @@ export function HyperparameterTuning() {
                     />
                     <YAxis 
                       type="number" 
-                      dataKey="params.max_depth" 
-                      name="Max Depth" 
+                      dataKey={`params.${yParam.name}`} 
+                      name={yParam.label} 
                       unit=""
                       label={{ 
-                        value: "Max Depth", 
+                        value: yParam.label, 
                         angle: -90, 
                         position: "insideLeft",
                         style: { fill: theme === "light" ? "#6b7280" : "#9ca3af" }
@@ -294,14 +425,14 @@ export function HyperparameterTuning() {
                     />
                     <ZAxis 
                       type="number" 
-                      dataKey="accuracy" 
+                      dataKey="score" 
                       range={[60, 400]} 
-                      name="Accuracy" 
+                      name="Score" 
                       unit=""
                     />
                     <Tooltip 
-                      formatter={(value: any, name: any) => {
-                        if (name === "Accuracy") return [`${(Number(value) * 100).toFixed(2)}%`, name];
+                      formatter={(value: number | string, name: string) => {
+                        if (name === "Score") return [`${(Number(value) * 100).toFixed(2)}%`, name];
                         return [value, name];
                       }}
                       contentStyle={{
@@ -320,18 +451,69 @@ export function HyperparameterTuning() {
                   </ScatterChart>
                 </ResponsiveContainer>
               </div>
+              )}
+              
+              <div className="max-h-64 overflow-y-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>
+                        <Button variant="ghost" size="sm" className="px-0" onClick={() => toggleSort("id")}>
+                          Trial <ArrowUpDown className="h-3 w-3 ml-1" />
+                        </Button>
+                      </TableHead>
+                      <TableHead>Parameters</TableHead>
+                      <TableHead>
+                        <Button variant="ghost" size="sm" className="px-0" onClick={() => toggleSort("score")}>
+                          CV Score <ArrowUpDown className="h-3 w-3 ml-1" />
+                        </Button>
+                      </TableHead>
+                      <TableHead>
+                        <Button variant="ghost" size="sm" className="px-0" onClick={() => toggleSort("trainingTime")}>
+                          Time <ArrowUpDown className="h-3 w-3 ml-1" />
+                        </Button>
+                      </TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {sortedResults.map(trial => (
+                      <TableRow key={trial.id} className={trial.id === bestResult.id ? "font-medium" : ""}>
+                        <TableCell>{trial.id}</TableCell>
+                        <TableCell className="text-xs">
+                          {Object.entries(trial.params).map(([key, value]) => `${key}=${value}`).join(", ")}
+                        </TableCell>
+                        <TableCell>
+                          {(trial.score * 100).toFixed(2)}% ± {(trial.std * 100).toFixed(2)}
+                        </TableCell>
+                        <TableCell>{trial.trainingTime.toFixed(1)}s</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
               
               <div className={`p-4 rounded-lg ${
                 theme === "light" ? "bg-secondary/80" : "bg-secondary/30"
               }`}>
-                <h3 className="text-base font-medium mb-2">Best Hyperparameters</h3>
+                <div className="flex items-center justify-between mb-2">
+                  <h3 className="text-base font-medium">Best Hyperparameters</h3>
+                  <Button
+                    size="sm"
+                    onClick={saveBestModel}
+                    disabled={isSaving || isTuning}
+                    className="flex items-center gap-1"
+                  >
+                    <Save className="h-4 w-4" />
+                    {isSaving ? "Saving..." : "Save as Model"}
+                  </Button>
+                </div>
                 <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
                   <div>
                     <div className="space-y-2 text-sm">
                       {Object.entries(bestResult.params).map(([key, value]) => (
                         <div key={key} className="flex justify-between">
                           <span className="text-muted-foreground">{key}:</span>
-                          <span>{value}</span>
+                          <span>{String(value)}</span>
                         </div>
                       ))}
                     </div>
@@ -339,12 +521,12 @@ export function HyperparameterTuning() {
                   <div>
                     <div className="space-y-2 text-sm">
                       <div className="flex justify-between">
-                        <span className="text-muted-foreground">Accuracy:</span>
-                        <span className="font-medium">{(bestResult.accuracy * 100).toFixed(2)}%</span>
+                        <span className="text-muted-foreground">CV Score:</span>
+                        <span className="font-medium">{(bestResult.score * 100).toFixed(2)}%</span>
                       </div>
                       <div className="flex justify-between">
-                        <span className="text-muted-foreground">Loss:</span>
-                        <span>{bestResult.loss.toFixed(4)}</span>
+                        <span className="text-muted-foreground">Std. Deviation:</span>
+                        <span>±{(bestResult.std * 100).toFixed(2)}%</span>
                       </div>
                       <div className="flex justify-between">
                         <span className="text-muted-foreground">Training Time:</span>
@@ -355,6 +537,7 @@ export function HyperparameterTuning() {
                 </div>
               </div>
             </div>
+            )}
           </TabsContent>
         </Tabs>
       </CardContent>
@@ -364,8 +547,7 @@ export function HyperparameterTuning() {
         <div className="flex items-center gap-1">
           <Settings2 className="h-3 w-3" />
           <span>
-            Using {tuningMethod === "grid" ? "Grid Search" : 
-                  tuningMethod === "random" ? "Random Search" : "Bayesian Optimization"}
+            Using {isAutomatic ? TUNING_METHOD_NAMES[tuningMethod] : "manual values"}
           </span>
         </div>
       </CardFooter>
@@ -0,0 +1,223 @@
+import { ChangeEvent, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import { ImageDataset, ImageInputConfig, loadImageZip } from "@/utils/imageDatasets";
+import { Images, RefreshCw, Upload } from "lucide-react";
+import { toast } from "sonner";
+
+interface ImageDatasetSettingsProps {
+  input: ImageInputConfig;
+  dataset: ImageDataset | null;
+  disabled?: boolean;
+  onInputChange: (input: ImageInputConfig) => void;
+  onDatasetChange: (dataset: ImageDataset | null) => void;
+}
+
+// Upload a zip of class folders and choose how images are resized and augmented
+export function ImageDatasetSettings({
+  input,
+  dataset,
+  disabled,
+  onInputChange,
+  onDatasetChange
+}: ImageDatasetSettingsProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [file, setFile] = useState<File | null>(null);
+  const [loadProgress, setLoadProgress] = useState<number | null>(null);
+
+  // Images are resized while the archive is read, so a new size needs a reload
+  const sizeChanged = !!dataset && (
+    dataset.width !== input.width || dataset.height !== input.height || dataset.channels !== input.channels
+  );
+
+  const load = async (archive: File) => {
+    setLoadProgress(0);
+    try {
+      const loaded = await loadImageZip(archive, input, setLoadProgress);
+      onDatasetChange(loaded);
+      if (loaded.skipped.length > 0) {
+        toast.warning(`Skipped ${loaded.skipped.length} file(s) that could not be decoded`);
+      }
+    } catch (error) {
+      console.error("Error reading image archive:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to read image archive");
+      onDatasetChange(null);
+    } finally {
+      setLoadProgress(null);
+    }
+  };
+
+  const handleFileChange = (e: ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0];
+    e.target.value = "";
+    if (!selected) return;
+    setFile(selected);
+    load(selected);
+  };
+
+  const updateSize = (field: "width" | "height", value: string) => {
+    const size = parseInt(value);
+    if (!isNaN(size)) onInputChange({ ...input, [field]: Math.min(Math.max(size, 8), 256) });
+  };
+
+  const updateAugmentation = (field: keyof ImageInputConfig["augmentation"], value: boolean | number) => {
+    onInputChange({ ...input, augmentation: { ...input.augmentation, [field]: value } });
+  };
+
+  const isLoading = loadProgress !== null;
+  const counts = dataset
+    ? dataset.classNames.map((name, label) => ({
+        name,
+        count: dataset.images.filter(image => image.label === label).length
+      }))
+    : [];
+
+  return (
+    <div className="space-y-4 p-3 border rounded-md">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <Images className="h-4 w-4" />
+          <h3 className="text-sm font-medium">Image Dataset</h3>
+        </div>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".zip,application/zip"
+          className="hidden"
+          onChange={handleFileChange}
+        />
+        <div className="flex gap-2">
+          {sizeChanged && file && (
+            <Button variant="outline" size="sm" onClick={() => load(file)} disabled={disabled || isLoading}>
+              <RefreshCw className="mr-2 h-4 w-4" />
+              Apply New Size
+            </Button>
+          )}
+          <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()} disabled={disabled || isLoading}>
+            <Upload className="mr-2 h-4 w-4" />
+            {dataset ? "Replace Zip" : "Upload Zip"}
+          </Button>
+        </div>
+      </div>
+
+      <p className="text-xs text-muted-foreground">
+        One folder per class, e.g. cats/001.jpg and dogs/002.png. PNG, JPEG, GIF, BMP and WebP images are read.
+      </p>
+
+      {isLoading && (
+        <div className="space-y-1">
+          <div className="flex justify-between text-xs">
+            <span>Reading images</span>
+            <span>{Math.round(loadProgress)}%</span>
+          </div>
+          <Progress value={loadProgress} />
+        </div>
+      )}
+
+      {dataset && !isLoading && (
+        <div className="space-y-2">
+          <div className="text-sm">
+            <span className="font-medium">{dataset.name}</span>: {dataset.images.length} images at{" "}
+            {dataset.width}×{dataset.height} {dataset.channels === 1 ? "grayscale" : "RGB"}
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {counts.map(({ name, count }) => (
+              <Badge key={name} variant="secondary">{name}: {count}</Badge>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="grid grid-cols-3 gap-2">
+        <div>
+          <Label htmlFor="image-width" className="text-xs">Width</Label>
+          <Input
+            id="image-width"
+            type="number"
+            min={8}
+            max={256}
+            value={input.width}
+            onChange={(e) => updateSize("width", e.target.value)}
+            disabled={disabled || isLoading}
+          />
+        </div>
+        <div>
+          <Label htmlFor="image-height" className="text-xs">Height</Label>
+          <Input
+            id="image-height"
+            type="number"
+            min={8}
+            max={256}
+            value={input.height}
+            onChange={(e) => updateSize("height", e.target.value)}
+            disabled={disabled || isLoading}
+          />
+        </div>
+        <div>
+          <Label htmlFor="image-channels" className="text-xs">Color</Label>
+          <Select
+            value={String(input.channels)}
+            onValueChange={(value) => onInputChange({ ...input, channels: value === "1" ? 1 : 3 })}
+            disabled={disabled || isLoading}
+          >
+            <SelectTrigger id="image-channels">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="3">RGB</SelectItem>
+              <SelectItem value="1">Grayscale</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="space-y-3">
+        <div className="flex items-center space-x-2">
+          <Switch
+            id="augment-flip"
+            checked={input.augmentation.flipHorizontal}
+            onCheckedChange={(checked) => updateAugmentation("flipHorizontal", checked)}
+            disabled={disabled}
+          />
+          <Label htmlFor="augment-flip" className="text-sm">Random horizontal flips</Label>
+        </div>
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="augment-rotation" className="text-xs">
+              Random rotation: ±{Math.round(input.augmentation.rotation * 360)}°
+            </Label>
+            <Slider
+              id="augment-rotation"
+              min={0}
+              max={0.25}
+              step={0.01}
+              value={[input.augmentation.rotation]}
+              onValueChange={([value]) => updateAugmentation("rotation", value)}
+              disabled={disabled}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="augment-zoom" className="text-xs">
+              Random zoom: ±{Math.round(input.augmentation.zoom * 100)}%
+            </Label>
+            <Slider
+              id="augment-zoom"
+              min={0}
+              max={0.5}
+              step={0.05}
+              value={[input.augmentation.zoom]}
+              onValueChange={([value]) => updateAugmentation("zoom", value)}
+              disabled={disabled}
+            />
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,112 @@
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend, ReferenceLine } from "recharts";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { AlertTriangle } from "lucide-react";
+import { useTheme } from "@/context/ThemeContext";
+import { detectOverfitting, EpochMetrics, getCurvePairs } from "@/utils/learningCurves";
+
+interface LearningCurvesProps {
+  history: EpochMetrics[];
+  // Draws the curves of a job that is still training
+  live?: boolean;
+  title?: string;
+}
+
+export function LearningCurves({ history, live = false, title = "Learning Curves" }: LearningCurvesProps) {
+  const { theme } = useTheme();
+
+  if (history.length === 0) {
+    return (
+      <p className="text-muted-foreground text-sm">
+        {live ? "Waiting for the first epoch..." : "No training history available."}
+      </p>
+    );
+  }
+
+  const pairs = getCurvePairs(history);
+  const report = detectOverfitting(history);
+  const axisColor = theme === "light" ? "#6b7280" : "#9ca3af";
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-medium">{title}</h3>
+        <div className="flex items-center gap-2">
+          <span className="text-xs text-muted-foreground">{history.length} epochs</span>
+          {live && (
+            <Badge variant="outline" className="animate-pulse">Live</Badge>
+          )}
+        </div>
+      </div>
+
+      {report?.overfitting && (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>Possible overfitting</AlertTitle>
+          <AlertDescription>
+            Validation loss was lowest at epoch {report.bestEpoch} and has risen{" "}
+            {(report.increase * 100).toFixed(0)}% since, while training loss kept falling.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {pairs.map(pair => (
+          <div key={pair.metric} className="h-56">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={history} margin={{ top: 10, right: 20, left: 0, bottom: 5 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke={theme === "light" ? "#e5e7eb" : "#374151"} />
+                <XAxis dataKey="epoch" stroke={axisColor} />
+                <YAxis
+                  stroke={axisColor}
+                  tickFormatter={(value: number) => value.toFixed(2)}
+                  label={{
+                    value: pair.label,
+                    angle: -90,
+                    position: "insideLeft",
+                    style: { fill: axisColor }
+                  }}
+                />
+                <Tooltip
+                  formatter={(value: number) => value.toFixed(4)}
+                  labelFormatter={(label) => `Epoch ${label}`}
+                  contentStyle={{
+                    backgroundColor: theme === "light" ? "#fff" : "#1f2937",
+                    borderColor: theme === "light" ? "#e5e7eb" : "#374151",
+                    color: theme === "light" ? "#111827" : "#f3f4f6",
+                  }}
+                />
+                <Legend />
+                {pair.metric === "loss" && report?.overfitting && (
+                  <ReferenceLine x={report.bestEpoch} stroke="#ef4444" strokeDasharray="4 4" />
+                )}
+                {pair.hasTraining && (
+                  <Line
+                    type="monotone"
+                    dataKey={pair.metric}
+                    name={`Training ${pair.label}`}
+                    stroke={theme === "light" ? "#3b82f6" : "#60a5fa"}
+                    strokeWidth={2}
+                    dot={false}
+                    isAnimationActive={!live}
+                  />
+                )}
+                {pair.hasValidation && (
+                  <Line
+                    type="monotone"
+                    dataKey={`val_${pair.metric}`}
+                    name={`Validation ${pair.label}`}
+                    stroke={theme === "light" ? "#10b981" : "#34d399"}
+                    strokeWidth={2}
+                    dot={false}
+                    isAnimationActive={!live}
+                  />
+                )}
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
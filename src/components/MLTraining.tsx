@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useRef } from "react";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
@@ -17,19 +17,33 @@ import {
   getModelTypeForAlgorithm,
   generateColabNotebook
 } from "@/utils/mlAlgorithms";
+import { PreprocessingInput } from "@/utils/preprocessing";
+import { DatasetSchema } from "@/utils/schema";
+import { DEFAULT_SAMPLING_OPTIONS, sampleDataset, SamplingOptions, SamplingReport } from "@/utils/sampling";
+import { resolveSplit, SplitSpec } from "@/utils/splitting";
+import { TrainingJob, TrainingJobCancelledError, TrainingJobListener } from "@/utils/trainingJobs";
 import { Check, Info, Sparkles, Plus, X, Database, AlertTriangle, ExternalLink, Download } from "lucide-react";
 import { toast } from "sonner";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { ModelDisclaimer } from "./ModelDisclaimer";
+import { SamplingSettings } from "./SamplingSettings";
 
 interface MLTrainingProps {
   data: any[];
   features: string[];
   target: string;
   datasetName: string;
+  // Column types the dataset was loaded with, saved alongside each model
+  schema?: DatasetSchema;
+  // Registered dataset version the models are trained on
+  datasetVersionId?: string;
+  // How rows are divided into training, validation and test sets
+  splitSpec?: SplitSpec;
+  preprocessing: PreprocessingInput;
   onTrainingComplete: () => void;
   onStartTraining: () => void;
+  onJobUpdate?: TrainingJobListener;
 }
 
 export function MLTraining({
@@ -37,8 +51,13 @@ export function MLTraining({
   features,
   target,
   datasetName,
+  schema,
+  datasetVersionId,
+  splitSpec,
+  preprocessing,
   onTrainingComplete,
   onStartTraining,
+  onJobUpdate,
 }: MLTrainingProps) {
   const { addModel } = useModels();
   const [isTraining, setIsTraining] = useState(false);
@@ -54,11 +73,14 @@ export function MLTraining({
   const [currentTarget, setCurrentTarget] = useState<string>("");
   const [isLargeDataset, setIsLargeDataset] = useState(false);
   const [dataReductionEnabled, setDataReductionEnabled] = useState(true);
+  const [samplingOptions, setSamplingOptions] = useState<SamplingOptions>(DEFAULT_SAMPLING_OPTIONS);
+  const [samplingReport, setSamplingReport] = useState<SamplingReport | null>(null);
   const [showColabDialog, setShowColabDialog] = useState(false);
   const [colabNotebookUrl, setColabNotebookUrl] = useState<string | null>(null);
   const [colabModelId, setColabModelId] = useState<string | null>(null);
   const [isExportingToColab, setIsExportingToColab] = useState(false);
   const [colabNotebookContent, setColabNotebookContent] = useState<string | null>(null);
+  const targetJobsRef = useRef<Map<string, TrainingJob>>(new Map());
 
   useEffect(() => {
     const LARGE_DATASET_THRESHOLD = 10000;
@@ -122,16 +144,29 @@ export function MLTraining({
       setTrainingResults([]);
       onStartTraining(); // Call the onStartTraining prop when training starts
 
-      const progressInterval = setInterval(() => {
-        setTrainingProgress((prev) => {
-          const newProgress = prev + Math.random() * 5;
-          return newProgress >= 100 ? 100 : newProgress;
-        });
-      }, 300);
+      // Progress comes from the backend jobs of the target being trained
+      const targetCount = selectedTargets.length;
+      const handleJobUpdate = (targetIndex: number) => (job: TrainingJob) => {
+        targetJobsRef.current.set(job.id, job);
+        const jobs = Array.from(targetJobsRef.current.values());
+        const targetProgress = jobs.reduce((sum, current) => sum + current.progress, 0) / jobs.length;
+        setTrainingProgress(((targetIndex + targetProgress / 100) / targetCount) * 100);
+        onJobUpdate?.(job);
+      };
+
+      for (const [targetIndex, targetFeature] of selectedTargets.entries()) {
+        targetJobsRef.current = new Map();
+        const jobListener = handleJobUpdate(targetIndex);
+
+        // Without sampling every row goes to the backend job
+        const sample = dataReductionEnabled ? sampleDataset(data, targetFeature, samplingOptions) : null;
+        const rows = sample?.data ?? data;
+        const sampling = sample && sample.report.sampledRows < sample.report.originalRows ? sample.report : undefined;
+        setSamplingReport(sampling ?? null);
+        const split = splitSpec ? resolveSplit(rows, targetFeature, splitSpec) : undefined;
 
-      for (const targetFeature of selectedTargets) {
         if (autoMode) {
-          const allResults = await trainAllMLModels(data, features, targetFeature);
+          const allResults = await trainAllMLModels(rows, features, targetFeature, preprocessing, split, jobListener, datasetName);
           const bestResult = allResults.reduce(
             (best, current) => (current.accuracy > best.accuracy ? current : best),
             allResults[0]
@@ -152,17 +187,19 @@ export function MLTraining({
             algorithm: bestResult.algorithm,
             accuracy: bestResult.accuracy,
             datasetName,
-            parameters: bestResult.parameters,
-            targets: [targetFeature]
+            parameters: { ...bestResult.parameters, sampling },
+            targets: [targetFeature],
+            schema,
+            datasetVersionId,
+            splitSpec,
+            modelData: bestResult.modelData
           });
 
-          const reductionMessage = bestResult.parameters.usedDataReduction 
-            ? ` (using data sampling)` 
-            : '';
+          const reductionMessage = sampling ? ` (using data sampling)` : '';
           
           toast.success(`Best model for ${targetFeature}: ${bestResult.algorithm} with ${(bestResult.accuracy * 100).toFixed(2)}% accuracy${reductionMessage}`);
         } else {
-          const result = await trainMLModel(data, features, targetFeature, algorithm);
+          const result = await trainMLModel(rows, features, targetFeature, algorithm, {}, preprocessing, split, jobListener, datasetName);
           
           setTrainingResults(prev => [
             ...prev,
@@ -179,22 +216,28 @@ export function MLTraining({
             algorithm: result.algorithm,
             accuracy: result.accuracy,
             datasetName,
-            parameters: result.parameters,
-            targets: [targetFeature]
+            parameters: { ...result.parameters, sampling },
+            targets: [targetFeature],
+            schema,
+            datasetVersionId,
+            splitSpec,
+            modelData: result.modelData
           });
 
-          const reductionMessage = result.parameters.usedDataReduction 
-            ? ` (using data sampling)` 
-            : '';
+          const reductionMessage = sampling ? ` (using data sampling)` : '';
           
           toast.success(`Model trained for ${targetFeature}: ${(result.accuracy * 100).toFixed(2)}% accuracy${reductionMessage}`);
         }
+
+        setTrainingProgress(((targetIndex + 1) / targetCount) * 100);
       }
 
-      clearInterval(progressInterval);
-      setTrainingProgress(100);
       onTrainingComplete();
     } catch (error) {
+      if (error instanceof TrainingJobCancelledError) {
+        toast.info("Training cancelled");
+        return;
+      }
       console.error("Error training model:", error);
       toast.error("Training failed. Please try again.");
     } finally {
@@ -347,14 +390,15 @@ export function MLTraining({
               <div>
                 Large dataset detected ({data.length.toLocaleString()} rows, {features.length} features). Estimated memory: {estimateMemoryUsage()}
               </div>
-              <div className="flex items-center gap-2 mt-1">
-                <Switch
-                  id="data-reduction"
-                  checked={dataReductionEnabled}
-                  onCheckedChange={setDataReductionEnabled}
+              <div className="mt-1">
+                <SamplingSettings
+                  enabled={dataReductionEnabled}
+                  options={samplingOptions}
                   disabled={isTraining}
+                  report={samplingReport}
+                  onEnabledChange={setDataReductionEnabled}
+                  onOptionsChange={setSamplingOptions}
                 />
-                <Label htmlFor="data-reduction">Enable automatic data sampling for better performance</Label>
               </div>
             </AlertDescription>
           </Alert>
@@ -9,6 +9,7 @@ import { Label } from "@/components/ui/label";
 import { Model, useModels } from "@/context/ModelContext";
 import { ModelExportDialog } from "@/components/ModelExportDialog";
 import { getRecommendedExtensions } from "@/utils/modelExportFormats";
+import { modelFeatures } from "@/utils/modelInputs";
 import { Download, BarChart, Trash, FileCode, Settings, Database, Brain } from "lucide-react";
 import { toast } from "sonner";
 import { formatDate } from "@/lib/utils";
@@ -31,6 +32,8 @@ export function ModelCard({ model }: ModelCardProps) {
   const [predictionResult, setPredictionResult] = useState<any>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
 
+  const features = modelFeatures(model);
+
   const handleDelete = async () => {
     try {
       await deleteModel(model.id);
@@ -66,13 +69,21 @@ export function ModelCard({ model }: ModelCardProps) {
     try {
       setIsSubmitting(true);
       
-      // Parse input data (assuming comma-separated values for simplicity)
+      // Comma-separated values, named after the model's features in training order
       const inputValues = predictionInput.split(',').map(val => {
         const parsed = parseFloat(val.trim());
         return isNaN(parsed) ? val.trim() : parsed;
       });
       
-      const result = await predictWithModel(model.id, [inputValues]);
+      if (!features) {
+        throw new Error("The model was trained before feature names were stored; retrain it to make predictions");
+      }
+      if (inputValues.length !== features.length) {
+        throw new Error(`Expected ${features.length} values (${features.join(", ")}), got ${inputValues.length}`);
+      }
+      
+      const row = Object.fromEntries(features.map((feature, i) => [feature, inputValues[i]]));
+      const result = await predictWithModel(model.id, [row]);
       
       if (result.success) {
         setPredictionResult(result.predictions);
@@ -261,7 +272,8 @@ export function ModelCard({ model }: ModelCardProps) {
           <DialogHeader>
             <DialogTitle>Make Prediction</DialogTitle>
             <DialogDescription>
-              Enter input values separated by commas to make a prediction.
+              Enter input values separated by commas to make a prediction
+              {features ? `, in the order ${features.join(", ")}.` : "."}
             </DialogDescription>
           </DialogHeader>
           
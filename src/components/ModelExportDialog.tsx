@@ -18,7 +18,7 @@ import {
 } from "@/components/ui/select";
 import { Label } from "@/components/ui/label";
 import { Model } from "@/context/ModelContext";
-import { getRecommendedExtensions } from "@/utils/modelExportFormats";
+import { getExportFormats } from "@/utils/modelExportFormats";
 
 interface ModelExportDialogProps {
   open: boolean;
@@ -33,8 +33,11 @@ export function ModelExportDialog({
   model,
   onExport,
 }: ModelExportDialogProps) {
-  const recommendedExtensions = getRecommendedExtensions(model);
-  const [selectedExtension, setSelectedExtension] = useState(recommendedExtensions[0] || 'json');
+  const formats = getExportFormats(model);
+  const [selectedExtension, setSelectedExtension] = useState<string>(
+    formats.find(format => format.supported)?.extension || 'json'
+  );
+  const selectedFormat = formats.find(format => format.extension === selectedExtension);
 
   const handleExport = () => {
     onExport(selectedExtension);
@@ -47,8 +50,8 @@ export function ModelExportDialog({
         <DialogHeader>
           <DialogTitle>Export Model: {model.name}</DialogTitle>
           <DialogDescription>
-            Choose a file format to export this simulated model. Note that this is a demonstration
-            model and won't have actual prediction capabilities.
+            Choose a file format for the trained model. The download is a zip holding the model file
+            and a manifest of its input features, preprocessing and class labels.
           </DialogDescription>
         </DialogHeader>
 
@@ -65,21 +68,28 @@ export function ModelExportDialog({
                 <SelectValue placeholder="Select a format" />
               </SelectTrigger>
               <SelectContent>
-                {recommendedExtensions.map((ext) => (
-                  <SelectItem key={ext} value={ext}>
-                    .{ext}
+                {formats.map((format) => (
+                  <SelectItem key={format.extension} value={format.extension} disabled={!format.supported}>
+                    .{format.extension} ({format.label})
                   </SelectItem>
                 ))}
               </SelectContent>
             </Select>
           </div>
+          {formats.some(format => !format.supported) && (
+            <ul className="text-xs text-muted-foreground space-y-1">
+              {formats.filter(format => !format.supported).map(format => (
+                <li key={format.extension}>.{format.extension}: {format.reason}</li>
+              ))}
+            </ul>
+          )}
         </div>
         
         <DialogFooter>
           <Button variant="outline" onClick={() => onOpenChange(false)}>
             Cancel
           </Button>
-          <Button onClick={handleExport}>Export</Button>
+          <Button onClick={handleExport} disabled={!selectedFormat?.supported}>Export</Button>
         </DialogFooter>
       </DialogContent>
     </Dialog>
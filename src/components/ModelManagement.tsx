@@ -15,6 +15,7 @@ import {
   Brain,
   LayoutGrid,
   Layers,
+  CalendarClock,
   ChevronDown
 } from "lucide-react";
 import { formatDate } from "@/utils/dateUtils";
@@ -91,6 +92,8 @@ export function ModelManagement({ datasetName, enableFilters = true }: ModelMana
         return <Brain className="h-4 w-4" />;
       case "Clustering":
         return <Layers className="h-4 w-4" />;
+      case "Forecasting":
+        return <CalendarClock className="h-4 w-4" />;
       default:
         return <SlidersHorizontal className="h-4 w-4" />;
     }
@@ -158,6 +161,7 @@ export function ModelManagement({ datasetName, enableFilters = true }: ModelMana
                   <SelectItem value="Clustering">Clustering</SelectItem>
                   <SelectItem value="Dimensionality Reduction">Dimensionality Reduction</SelectItem>
                   <SelectItem value="Anomaly Detection">Anomaly Detection</SelectItem>
+                  <SelectItem value="Forecasting">Forecasting</SelectItem>
                 </SelectContent>
               </Select>
             </div>
@@ -7,6 +7,8 @@ import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContaine
 import { Badge } from "@/components/ui/badge";
 import { Brain, BarChart3, TrendingUp, Activity, Layers } from "lucide-react";
 import { formatDate } from "@/utils/dateUtils";
+import { EpochMetrics } from "@/utils/learningCurves";
+import { LearningCurves } from "./LearningCurves";
 
 interface ModelMetricsProps {
   model: Model;
@@ -19,6 +21,7 @@ export function ModelMetrics({ model }: ModelMetricsProps) {
   const metrics = model.parameters?.metrics || {};
   const featureImportance = model.parameters?.feature_importance || {};
   const confusionMatrix = model.parameters?.confusion_matrix || null;
+  const history: EpochMetrics[] = Array.isArray(model.parameters?.history) ? model.parameters.history : [];
   
   // Format feature importance data for chart
   const featureImportanceData = Object.entries(featureImportance).map(([feature, value]) => ({
@@ -342,6 +345,8 @@ export function ModelMetrics({ model }: ModelMetricsProps) {
             <div className="space-y-4">
               {isClassificationModel() && renderConfusionMatrix()}
               
+              {history.length > 0 && <LearningCurves history={history} />}
+              
               {/* Additional performance metrics can be added here */}
               <div>
                 <h3 className="text-sm font-medium mb-2">Performance Metrics</h3>
@@ -8,11 +8,18 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@
 import { Separator } from "@/components/ui/separator";
 import { Badge } from "@/components/ui/badge";
 import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Switch } from "@/components/ui/switch";
 import { Model, useModels } from "@/context/ModelContext";
 import { BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer } from "recharts";
-import { PlusCircle, UploadCloud, AlertCircle, CheckCircle2, RefreshCw, ChevronDown, ChevronUp } from "lucide-react";
+import { PlusCircle, UploadCloud, AlertCircle, CheckCircle2, RefreshCw, ChevronDown, ChevronUp, ImageIcon } from "lucide-react";
 import { toast } from "sonner";
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { PreprocessingPipeline, TokenContribution, topTextTokens } from "@/utils/preprocessing";
+import { encodeImage, ImageInputConfig } from "@/utils/imageDatasets";
+import { getExportFormats } from "@/utils/modelExportFormats";
+import { BatchPrediction } from "@/components/BatchPrediction";
+import { InputRecord, modelFeatures } from "@/utils/modelInputs";
+import type { InferenceLocation, InferenceParity } from "@/utils/onnxInference";
 
 interface ModelPredictionProps {
   model: Model;
@@ -29,11 +36,28 @@ export function ModelPrediction({ model, isClusteringModel = false }: ModelPredi
   const [explanationOpen, setExplanationOpen] = useState(false);
   const [explanation, setExplanation] = useState<any>(null);
   const [probabilities, setProbabilities] = useState<any[] | null>(null);
+  const [tokenContributions, setTokenContributions] = useState<TokenContribution[][] | null>(null);
+  const [imageFiles, setImageFiles] = useState<File[]>([]);
+  const [inference, setInference] = useState<InferenceLocation>("server");
+  const [parity, setParity] = useState<InferenceParity | null>(null);
+  const [checkingParity, setCheckingParity] = useState(false);
+  
+  // Models that convert to ONNX can also run in the browser, offline once loaded
+  const canRunLocally = getExportFormats(model).some(format => format.extension === "onnx" && format.supported);
+  
+  // Image classifiers take uploaded pictures, resized the way their training set was
+  const imageInput: ImageInputConfig | undefined = model.parameters?.image;
+  
+  // Text columns are vectorized by the stored pipeline, so they are sent as raw strings
+  const pipeline: PreprocessingPipeline | undefined = model.parameters?.preprocessing;
+  const textFeatures = pipeline?.columns.filter(column => column.kind === "text").map(column => column.name) ?? [];
   
   useEffect(() => {
-    if (model && model.parameters && model.parameters.availableFeatures) {
-      setFeatures(model.parameters.availableFeatures);
+    const trainedFeatures = model ? modelFeatures(model) : null;
+    if (trainedFeatures) {
+      setFeatures(trainedFeatures);
     } else if (model && model.parameters && model.parameters.feature_importance) {
+      // Older models only list their features here, in no reliable order; predicting asks for a retrain
       setFeatures(Object.keys(model.parameters.feature_importance));
     } else {
       setFeatures([]);
@@ -54,7 +78,7 @@ export function ModelPrediction({ model, isClusteringModel = false }: ModelPredi
   const handleInputChange = (rowIndex: number, feature: string, value: string) => {
     const newRows = [...inputRows];
     
-    const parsedValue = !isNaN(parseFloat(value)) ? parseFloat(value) : value;
+    const parsedValue = !textFeatures.includes(feature) && !isNaN(parseFloat(value)) ? parseFloat(value) : value;
     
     newRows[rowIndex] = {
       ...newRows[rowIndex],
@@ -81,6 +105,33 @@ export function ModelPrediction({ model, isClusteringModel = false }: ModelPredi
     }
   };
   
+  // Rows keyed by feature name, as predictWithModel takes them, from the uploaded images or the input table
+  const collectInputData = async (): Promise<InputRecord[]> => {
+    if (imageInput) {
+      if (imageFiles.length === 0) {
+        throw new Error("Please choose at least one image to classify");
+      }
+      const images = await Promise.all(imageFiles.map(file => encodeImage(file, imageInput)));
+      return images.map(pixels => ({ image: pixels }));
+    }
+    
+    const missingValues = inputRows.some(row => 
+      features.some(feature => row[feature] === undefined || row[feature] === '')
+    );
+    
+    if (missingValues) {
+      throw new Error("Please fill in all input values before making predictions");
+    }
+    
+    return inputRows.map(row => {
+      return Object.fromEntries(features.map(feature => {
+        const value = row[feature];
+        return [feature, typeof value === 'string' && !textFeatures.includes(feature) && !isNaN(parseFloat(value)) ? 
+          parseFloat(value) : value];
+      }));
+    });
+  };
+  
   const predict = async () => {
     try {
       setLoading(true);
@@ -88,24 +139,10 @@ export function ModelPrediction({ model, isClusteringModel = false }: ModelPredi
       setResults(null);
       setProbabilities(null);
       setExplanation(null);
+      setTokenContributions(null);
       
-      const missingValues = inputRows.some(row => 
-        features.some(feature => row[feature] === undefined || row[feature] === '')
-      );
-      
-      if (missingValues) {
-        throw new Error("Please fill in all input values before making predictions");
-      }
-      
-      const inputData = inputRows.map(row => {
-        return features.map(feature => {
-          const value = row[feature];
-          return typeof value === 'string' && !isNaN(parseFloat(value)) ? 
-            parseFloat(value) : value;
-        });
-      });
-      
-      const result = await predictWithModel(model.id, inputData);
+      const inputData = await collectInputData();
+      const result = await predictWithModel(model.id, inputData, { inference });
       
       if (!result.success) {
         throw new Error("Prediction failed. Please try again.");
@@ -118,6 +155,10 @@ export function ModelPrediction({ model, isClusteringModel = false }: ModelPredi
       if (result.explanation) {
         setExplanation(result.explanation);
       }
+      if (!imageInput && pipeline && textFeatures.length > 0) {
+        const importance = result.explanation?.feature_importance ?? model.parameters?.feature_importance;
+        setTokenContributions(inputRows.map(row => topTextTokens(pipeline, row, importance)));
+      }
       
       toast.success("Prediction completed successfully");
     } catch (err) {
@@ -129,6 +170,30 @@ export function ModelPrediction({ model, isClusteringModel = false }: ModelPredi
     }
   };
   
+  // Run the current inputs on the server and in the browser and compare the outputs
+  const checkParity = async () => {
+    try {
+      setCheckingParity(true);
+      setParity(null);
+      setError(null);
+      
+      const inputData = await collectInputData();
+      const [server, local] = await Promise.all([
+        predictWithModel(model.id, inputData, { inference: "server" }),
+        predictWithModel(model.id, inputData, { inference: "local" })
+      ]);
+      const { compareInference } = await import("@/utils/onnxInference");
+      const classifier = !!server.probabilities?.length || Array.isArray(model.parameters?.class_names);
+      setParity(compareInference(server, local, classifier));
+    } catch (err) {
+      console.error("Parity check error:", err);
+      setError(err instanceof Error ? err.message : "An unknown error occurred");
+      toast.error("Parity check failed");
+    } finally {
+      setCheckingParity(false);
+    }
+  };
+  
   const formatPredictionResult = (prediction: any, index: number) => {
     if (prediction === null || prediction === undefined) return "N/A";
     
@@ -178,7 +243,7 @@ export function ModelPrediction({ model, isClusteringModel = false }: ModelPredi
       <CardHeader>
         <CardTitle className="text-lg">Make Predictions</CardTitle>
         <CardDescription>
-          Enter input values to make predictions with the {model.algorithm} model
+          {imageInput ? "Upload images to classify" : "Enter input values to make predictions"} with the {model.algorithm} model
         </CardDescription>
       </CardHeader>
       
@@ -190,66 +255,148 @@ export function ModelPrediction({ model, isClusteringModel = false }: ModelPredi
           </Alert>
         )}
         
-        <div className="space-y-2">
-          <div className="flex items-center justify-between">
-            <Label>Input Features</Label>
-            <div className="flex gap-2">
-              <Button 
-                variant="outline" 
-                size="sm" 
-                onClick={addRow}
-                disabled={loading}
+        {canRunLocally && (
+          <div className="space-y-2 p-3 border rounded-md">
+            <div className="flex items-center justify-between gap-2">
+              <div className="flex items-center space-x-2">
+                <Switch
+                  id="local-inference"
+                  checked={inference === "local"}
+                  onCheckedChange={(checked) => setInference(checked ? "local" : "server")}
+                  disabled={loading || checkingParity}
+                />
+                <Label htmlFor="local-inference">Run in browser (ONNX)</Label>
+              </div>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={checkParity}
+                disabled={loading || checkingParity}
               >
-                <PlusCircle className="h-4 w-4 mr-1" />
-                Add Row
+                {checkingParity && <RefreshCw className="h-4 w-4 mr-1 animate-spin" />}
+                Check Parity
               </Button>
             </div>
+            <p className="text-xs text-muted-foreground">
+              {inference === "local"
+                ? "The converted model is downloaded once and evaluated in this tab."
+                : "Each prediction is sent to the server."}
+            </p>
+            {parity && (
+              <div className="text-xs space-y-1">
+                <div>
+                  Compared {parity.rows} row(s): max prediction deviation{" "}
+                  <span className="font-mono">{parity.maxPredictionDeviation.toExponential(2)}</span>
+                  {parity.maxProbabilityDeviation !== null && (
+                    <>, max probability deviation{" "}
+                      <span className="font-mono">{parity.maxProbabilityDeviation.toExponential(2)}</span>
+                    </>
+                  )}
+                </div>
+                {parity.labelMismatches > 0 && (
+                  <div className="text-destructive">{parity.labelMismatches} row(s) got a different label locally</div>
+                )}
+              </div>
+            )}
           </div>
-          
-          <div className="border rounded-md">
-            <Table>
-              <TableHeader>
-                <TableRow>
-                  {features.map(feature => (
-                    <TableHead key={feature} className="whitespace-nowrap">
-                      {feature}
-                    </TableHead>
-                  ))}
-                  <TableHead className="w-[50px]"></TableHead>
-                </TableRow>
-              </TableHeader>
-              <TableBody>
-                {inputRows.map((row, rowIndex) => (
-                  <TableRow key={rowIndex}>
+        )}
+        
+        {imageInput ? (
+          <div className="space-y-2">
+            <Label htmlFor="prediction-images">
+              Images ({imageInput.width}×{imageInput.height} {imageInput.channels === 1 ? "grayscale" : "RGB"} after resizing)
+            </Label>
+            <Input
+              id="prediction-images"
+              type="file"
+              accept="image/*"
+              multiple
+              onChange={(e) => setImageFiles(Array.from(e.target.files ?? []))}
+              disabled={loading}
+            />
+            {imageFiles.length > 0 && (
+              <div className="space-y-1">
+                {imageFiles.map((file, index) => (
+                  <div key={`${file.name}-${index}`} className="flex items-center gap-2 text-xs">
+                    <ImageIcon className="h-3 w-3" />
+                    <span className="font-medium w-12">Row {index + 1}</span>
+                    <span className="truncate">{file.name}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        ) : (
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>Input Features</Label>
+              <div className="flex gap-2">
+                <Button 
+                  variant="outline" 
+                  size="sm" 
+                  onClick={addRow}
+                  disabled={loading}
+                >
+                  <PlusCircle className="h-4 w-4 mr-1" />
+                  Add Row
+                </Button>
+              </div>
+            </div>
+            
+            <div className="border rounded-md">
+              <Table>
+                <TableHeader>
+                  <TableRow>
                     {features.map(feature => (
-                      <TableCell key={feature} className="py-2">
-                        <Input 
-                          value={row[feature] !== undefined ? String(row[feature]) : ''} 
-                          onChange={(e) => handleInputChange(rowIndex, feature, e.target.value)}
-                          placeholder="Enter value"
-                          className="w-full"
-                          disabled={loading}
-                        />
-                      </TableCell>
+                      <TableHead key={feature} className="whitespace-nowrap">
+                        {feature}
+                      </TableHead>
                     ))}
-                    <TableCell className="py-2">
-                      {inputRows.length > 1 && (
-                        <Button 
-                          variant="ghost" 
-                          size="icon" 
-                          onClick={() => removeRow(rowIndex)}
-                          disabled={loading}
-                        >
-                          <AlertCircle className="h-4 w-4 text-destructive" />
-                        </Button>
-                      )}
-                    </TableCell>
+                    <TableHead className="w-[50px]"></TableHead>
                   </TableRow>
-                ))}
-              </TableBody>
-            </Table>
+                </TableHeader>
+                <TableBody>
+                  {inputRows.map((row, rowIndex) => (
+                    <TableRow key={rowIndex}>
+                      {features.map(feature => (
+                        <TableCell key={feature} className="py-2">
+                          <Input 
+                            value={row[feature] !== undefined ? String(row[feature]) : ''} 
+                            onChange={(e) => handleInputChange(rowIndex, feature, e.target.value)}
+                            placeholder="Enter value"
+                            className="w-full"
+                            disabled={loading}
+                          />
+                        </TableCell>
+                      ))}
+                      <TableCell className="py-2">
+                        {inputRows.length > 1 && (
+                          <Button 
+                            variant="ghost" 
+                            size="icon" 
+                            onClick={() => removeRow(rowIndex)}
+                            disabled={loading}
+                          >
+                            <AlertCircle className="h-4 w-4 text-destructive" />
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
           </div>
-        </div>
+        )}
+        
+        {!imageInput && features.length > 0 && (
+          <BatchPrediction
+            model={model}
+            features={features}
+            textFeatures={textFeatures}
+            inference={inference}
+          />
+        )}
         
         {results && (
           <div className="space-y-4 pt-4">
@@ -339,6 +486,27 @@ export function ModelPrediction({ model, isClusteringModel = false }: ModelPredi
               </div>
             )}
             
+            {tokenContributions && (
+              <div className="pt-2">
+                <h3 className="text-sm font-medium mb-3">Top Contributing Tokens</h3>
+                <div className="space-y-2">
+                  {tokenContributions.map((tokens, rowIndex) => (
+                    <div key={rowIndex} className="flex flex-wrap items-center gap-2 text-xs">
+                      <span className="font-medium w-12">Row {rowIndex + 1}</span>
+                      {tokens.length === 0 ? (
+                        <span className="text-muted-foreground">No known tokens in the text</span>
+                      ) : tokens.map(token => (
+                        <Badge key={`${token.column}:${token.token}`} variant="secondary" className="font-mono">
+                          {textFeatures.length > 1 && `${token.column}: `}{token.token}
+                          <span className="ml-1 opacity-70">{token.score.toFixed(3)}</span>
+                        </Badge>
+                      ))}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+            
             {hasFeatureImportanceExplanation() && (
               <Collapsible open={explanationOpen} onOpenChange={setExplanationOpen}>
                 <div className="flex justify-between items-center">
@@ -397,7 +565,7 @@ export function ModelPrediction({ model, isClusteringModel = false }: ModelPredi
       <CardFooter>
         <Button 
           onClick={predict} 
-          disabled={loading || features.length === 0}
+          disabled={loading || (imageInput ? imageFiles.length === 0 : features.length === 0)}
           className="w-full"
         >
           {loading ? (
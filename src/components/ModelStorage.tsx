@@ -252,6 +252,7 @@ export function ModelStorage() {
                   <SelectItem value="Clustering">Clustering</SelectItem>
                   <SelectItem value="Dimensionality Reduction">Dim. Reduction</SelectItem>
                   <SelectItem value="Anomaly Detection">Anomaly Detection</SelectItem>
+                  <SelectItem value="Forecasting">Forecasting</SelectItem>
                 </SelectContent>
               </Select>
             </div>
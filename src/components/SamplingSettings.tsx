@@ -0,0 +1,106 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { SAMPLING_STRATEGIES, SamplingOptions, SamplingReport, SamplingStrategy } from "@/utils/sampling";
+
+interface SamplingSettingsProps {
+  enabled: boolean;
+  options: SamplingOptions;
+  disabled?: boolean;
+  // Class distribution of the last sample drawn
+  report?: SamplingReport | null;
+  onEnabledChange: (enabled: boolean) => void;
+  onOptionsChange: (options: SamplingOptions) => void;
+}
+
+const percent = (share: number) => `${(share * 100).toFixed(1)}%`;
+
+export function SamplingSettings({
+  enabled,
+  options,
+  disabled,
+  report,
+  onEnabledChange,
+  onOptionsChange,
+}: SamplingSettingsProps) {
+  const strategy = SAMPLING_STRATEGIES.find(s => s.value === options.strategy);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <Switch
+          id="data-reduction"
+          checked={enabled}
+          onCheckedChange={onEnabledChange}
+          disabled={disabled}
+        />
+        <Label htmlFor="data-reduction">
+          {enabled ? "Train on a sample of the rows" : "Train on the full dataset (backend only)"}
+        </Label>
+      </div>
+
+      {enabled && (
+        <div className="flex flex-wrap items-center gap-3">
+          <Select
+            value={options.strategy}
+            onValueChange={(value) => onOptionsChange({ ...options, strategy: value as SamplingStrategy })}
+            disabled={disabled}
+          >
+            <SelectTrigger className="w-[180px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {SAMPLING_STRATEGIES.map(s => (
+                <SelectItem key={s.value} value={s.value}>{s.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <div className="flex items-center gap-2">
+            <Label htmlFor="row-budget" className="whitespace-nowrap">Row budget</Label>
+            <Input
+              id="row-budget"
+              type="number"
+              min={100}
+              step={1000}
+              className="w-[120px]"
+              value={options.rowBudget}
+              onChange={(e) => onOptionsChange({ ...options, rowBudget: Math.max(100, parseInt(e.target.value) || 0) })}
+              disabled={disabled}
+            />
+          </div>
+          {strategy && <span className="text-xs text-muted-foreground">{strategy.description}</span>}
+        </div>
+      )}
+
+      {enabled && report && report.sampledRows < report.originalRows && (
+        <div className="space-y-1">
+          <p className="text-xs text-muted-foreground">
+            Last sample: {report.sampledRows.toLocaleString()} of {report.originalRows.toLocaleString()} rows;
+            target shares differ by at most {percent(report.maxShareDifference)}
+            {report.droppedLabels.length > 0 && `; missing ${report.droppedLabels.join(", ")}`}
+          </p>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Target</TableHead>
+                <TableHead className="text-right">Full data</TableHead>
+                <TableHead className="text-right">Sample</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {report.shares.slice(0, 10).map(share => (
+                <TableRow key={share.label}>
+                  <TableCell className="py-1">{share.label}</TableCell>
+                  <TableCell className="py-1 text-right">{percent(share.fullShare)}</TableCell>
+                  <TableCell className="py-1 text-right">{percent(share.sampleShare)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </div>
+  );
+}
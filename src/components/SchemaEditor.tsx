@@ -0,0 +1,127 @@
+import { useTheme } from "@/context/ThemeContext";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { ListChecks, RotateCcw } from "lucide-react";
+import { COLUMN_TYPES, ColumnType, DatasetSchema } from "@/utils/schema";
+
+interface SchemaEditorProps {
+  schema: DatasetSchema;
+  rowCount: number;
+  target: string;
+  onChange: (schema: DatasetSchema) => void;
+}
+
+const TYPE_DESCRIPTIONS: Record<ColumnType, string> = {
+  numeric: "Continuous number",
+  integer: "Whole number",
+  categorical: "Fixed set of categories",
+  boolean: "True / false",
+  datetime: "Date or timestamp",
+  text: "Free text",
+  identifier: "Row identifier (not used for training)",
+};
+
+export function SchemaEditor({ schema, rowCount, target, onChange }: SchemaEditorProps) {
+  const { theme } = useTheme();
+  const edited = schema.filter(column => column.type !== column.inferredType).length;
+
+  const setColumnType = (name: string, type: ColumnType) => {
+    onChange(schema.map(column => column.name === name ? { ...column, type } : column));
+  };
+
+  const resetTypes = () => {
+    onChange(schema.map(column => ({ ...column, type: column.inferredType })));
+  };
+
+  return (
+    <Card className={`w-full ${
+      theme === "light" ? "card-container-light" : "card-container-dark"
+    }`}>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <CardTitle className="text-xl font-bold flex items-center gap-2">
+              <ListChecks className="h-5 w-5" />
+              Dataset Schema
+            </CardTitle>
+            <CardDescription>
+              Column types inferred from {rowCount.toLocaleString()} rows. Change a type to override it before training.
+            </CardDescription>
+          </div>
+          {edited > 0 && (
+            <Button variant="outline" size="sm" onClick={resetTypes} className="flex items-center gap-1">
+              <RotateCcw className="h-3 w-3" />
+              Reset {edited}
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+
+      <CardContent>
+        <ScrollArea className="h-[320px] pr-4">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Column</TableHead>
+                <TableHead>Type</TableHead>
+                <TableHead className="text-right">Nulls</TableHead>
+                <TableHead className="text-right">Distinct</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {schema.map(column => (
+                <TableRow key={column.name}>
+                  <TableCell className="font-medium">
+                    <div className="flex items-center gap-2">
+                      <span className="truncate max-w-[160px]" title={column.name}>{column.name}</span>
+                      {column.name === target && <Badge variant="secondary">target</Badge>}
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex items-center gap-2">
+                      <Select
+                        value={column.type}
+                        onValueChange={(value) => setColumnType(column.name, value as ColumnType)}
+                      >
+                        <SelectTrigger className="h-8 w-[140px]">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {COLUMN_TYPES.map(type => (
+                            <SelectItem key={type} value={type} title={TYPE_DESCRIPTIONS[type]}>
+                              {type}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      {column.type !== column.inferredType && (
+                        <span className="text-xs text-muted-foreground">was {column.inferredType}</span>
+                      )}
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {column.nullCount > 0 ? (
+                      <span>
+                        {column.nullCount.toLocaleString()}
+                        <span className="text-xs text-muted-foreground ml-1">
+                          ({((column.nullCount / Math.max(rowCount, 1)) * 100).toFixed(1)}%)
+                        </span>
+                      </span>
+                    ) : (
+                      <span className="text-muted-foreground">0</span>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right">{column.cardinality.toLocaleString()}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </ScrollArea>
+      </CardContent>
+    </Card>
+  );
+}
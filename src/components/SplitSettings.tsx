@@ -0,0 +1,145 @@
+import { useTheme } from "@/context/ThemeContext";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { RotateCcw, Split } from "lucide-react";
+import { DEFAULT_SPLIT_SPEC, SplitSpec } from "@/utils/splitting";
+
+interface SplitSettingsProps {
+  spec: SplitSpec;
+  // Columns that can hold groups or timestamps
+  columns: string[];
+  onChange: (spec: SplitSpec) => void;
+}
+
+const NO_COLUMN = "__none__";
+
+export function SplitSettings({ spec, columns, onChange }: SplitSettingsProps) {
+  const { theme } = useTheme();
+  const trainShare = Math.max(0, 1 - spec.testSize - spec.validationSize);
+
+  const update = (changes: Partial<SplitSpec>) => onChange({ ...spec, ...changes });
+
+  return (
+    <Card className={`w-full ${
+      theme === "light" ? "card-container-light" : "card-container-dark"
+    }`}>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <CardTitle className="text-xl font-bold flex items-center gap-2">
+              <Split className="h-5 w-5" />
+              Train/Test Split
+            </CardTitle>
+            <CardDescription>
+              The same seed and settings always select the same rows; they are saved with every model
+            </CardDescription>
+          </div>
+          <Button variant="outline" size="sm" onClick={() => onChange(DEFAULT_SPLIT_SPEC)} className="flex items-center gap-1">
+            <RotateCcw className="h-3 w-3" />
+            Reset
+          </Button>
+        </div>
+      </CardHeader>
+
+      <CardContent className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <div className="flex justify-between text-sm">
+              <Label>Test size</Label>
+              <span>{Math.round(spec.testSize * 100)}%</span>
+            </div>
+            <Slider
+              value={[spec.testSize * 100]}
+              min={5}
+              max={50}
+              step={5}
+              onValueChange={(value) => update({ testSize: value[0] / 100 })}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex justify-between text-sm">
+              <Label>Validation size</Label>
+              <span>{Math.round(spec.validationSize * 100)}%</span>
+            </div>
+            <Slider
+              value={[spec.validationSize * 100]}
+              min={0}
+              max={30}
+              step={5}
+              onValueChange={(value) => update({ validationSize: value[0] / 100 })}
+            />
+          </div>
+
+          <p className="text-xs text-muted-foreground">
+            {Math.round(trainShare * 100)}% of the rows are used for training.
+          </p>
+        </div>
+
+        <div className="space-y-4">
+          <div className="flex items-center justify-between gap-4">
+            <Label htmlFor="split-seed">Random seed</Label>
+            <Input
+              id="split-seed"
+              type="number"
+              className="w-[160px]"
+              value={spec.seed}
+              onChange={(e) => update({ seed: parseInt(e.target.value) || 0 })}
+            />
+          </div>
+
+          <div className="flex items-center space-x-2">
+            <Switch
+              id="split-stratify"
+              checked={spec.stratify}
+              disabled={!!spec.groupColumn || !!spec.timeColumn}
+              onCheckedChange={(checked) => update({ stratify: checked })}
+            />
+            <Label htmlFor="split-stratify">Stratify by target</Label>
+          </div>
+
+          <div className="flex items-center justify-between gap-4">
+            <Label>Group column</Label>
+            <Select
+              value={spec.groupColumn ?? NO_COLUMN}
+              onValueChange={(value) => update({ groupColumn: value === NO_COLUMN ? undefined : value })}
+            >
+              <SelectTrigger className="w-[160px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_COLUMN}>None</SelectItem>
+                {columns.map(column => (
+                  <SelectItem key={column} value={column}>{column}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="flex items-center justify-between gap-4">
+            <Label>Time column</Label>
+            <Select
+              value={spec.timeColumn ?? NO_COLUMN}
+              onValueChange={(value) => update({ timeColumn: value === NO_COLUMN ? undefined : value })}
+            >
+              <SelectTrigger className="w-[160px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_COLUMN}>None (shuffle)</SelectItem>
+                {columns.map(column => (
+                  <SelectItem key={column} value={column}>{column}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
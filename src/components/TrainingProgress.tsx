@@ -7,18 +7,33 @@ import { Alert, AlertDescription } from "@/components/ui/alert";
 import { AlertCircle, CheckCircle2, ChevronDown, Play, Square, Loader2, Terminal } from "lucide-react";
 import { useTheme } from "@/context/ThemeContext";
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { TrainingJobStatus } from "@/utils/trainingJobs";
+
+type ProgressStatus = "idle" | "training" | "paused" | "completed" | "error" | "cancelled";
+
+const JOB_STATUS_TO_PROGRESS: Record<TrainingJobStatus, ProgressStatus> = {
+  queued: "training",
+  running: "training",
+  paused: "paused",
+  succeeded: "completed",
+  failed: "error",
+  cancelled: "cancelled"
+};
 
 interface TrainingProgressProps {
   modelName: string;
   isTraining?: boolean;
   estimatedTime?: number; // in seconds
-  onPause?: () => void;
-  onResume?: () => void;
-  onCancel?: () => void;
+  onPause?: () => void | Promise<void>;
+  onResume?: () => void | Promise<void>;
+  onCancel?: () => void | Promise<void>;
   logs?: string[];
   progress?: number;
   error?: string | null;
   algorithmType?: string;
+  // State of the backend training jobs; when set it replaces the local training flag
+  jobStatus?: TrainingJobStatus | null;
+  canPause?: boolean;
 }
 
 export function TrainingProgress({ 
@@ -31,16 +46,19 @@ export function TrainingProgress({
   logs: externalLogs,
   progress: externalProgress,
   error: externalError,
-  algorithmType
+  algorithmType,
+  jobStatus,
+  canPause = true
 }: TrainingProgressProps) {
   const { theme } = useTheme();
   const [progress, setProgress] = useState(0);
-  const [status, setStatus] = useState<"idle" | "training" | "paused" | "completed" | "error">("idle");
+  const [status, setStatus] = useState<ProgressStatus>("idle");
   const [logs, setLogs] = useState<string[]>([]);
   const [open, setOpen] = useState(false);
   const [trainingTime, setTrainingTime] = useState<number | null>(null);
   const [startTime, setStartTime] = useState<number | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [pendingAction, setPendingAction] = useState<"pause" | "resume" | "cancel" | null>(null);
   
   useEffect(() => {
     if (externalLogs && externalLogs.length > 0) {
@@ -71,6 +89,23 @@ export function TrainingProgress({
   }, [externalError]);
   
   useEffect(() => {
+    if (!jobStatus) return;
+    
+    const nextStatus = JOB_STATUS_TO_PROGRESS[jobStatus];
+    if (nextStatus === "training" && status !== "training" && status !== "paused") {
+      setStartTime(Date.now());
+      setTrainingTime(null);
+    } else if (nextStatus === "completed" && status !== "completed" && startTime) {
+      setTrainingTime(Math.floor((Date.now() - startTime) / 1000));
+    }
+    setStatus(nextStatus);
+    setPendingAction(null);
+  }, [jobStatus, status, startTime]);
+  
+  useEffect(() => {
+    // Backend jobs report their own state
+    if (jobStatus) return;
+    
     if (isTraining && (status === "idle" || status === "paused")) {
       setStatus("training");
       if (status === "idle") {
@@ -83,19 +118,41 @@ export function TrainingProgress({
         setStatus("paused");
       }
     }
-  }, [isTraining, status, progress, externalError]);
+  }, [isTraining, status, progress, externalError, jobStatus]);
+  
+  // With backend jobs the buttons only send the request; the job status confirms it
+  const requestJobAction = async (action: "pause" | "resume" | "cancel", callback?: () => void | Promise<void>) => {
+    setPendingAction(action);
+    try {
+      await callback?.();
+    } catch {
+      setPendingAction(null);
+    }
+  };
   
   const handlePause = () => {
+    if (jobStatus) {
+      requestJobAction("pause", onPause);
+      return;
+    }
     setStatus("paused");
     if (onPause) onPause();
   };
   
   const handleResume = () => {
+    if (jobStatus) {
+      requestJobAction("resume", onResume);
+      return;
+    }
     setStatus("training");
     if (onResume) onResume();
   };
   
   const handleCancel = () => {
+    if (jobStatus) {
+      requestJobAction("cancel", onCancel);
+      return;
+    }
     setStatus("idle");
     setProgress(0);
     setLogs([]);
@@ -108,7 +165,8 @@ export function TrainingProgress({
     training: "bg-blue-500",
     paused: "bg-amber-500",
     completed: "bg-green-500",
-    error: "bg-red-500"
+    error: "bg-red-500",
+    cancelled: "bg-muted-foreground"
   };
   
   const statusLabels = {
@@ -116,7 +174,14 @@ export function TrainingProgress({
     training: "Training...",
     paused: "Paused",
     completed: "Completed",
-    error: "Error"
+    error: "Error",
+    cancelled: "Cancelled"
+  };
+  
+  const pendingLabels = {
+    pause: "Pausing after the current epoch...",
+    resume: "Resuming...",
+    cancel: "Cancelling..."
   };
   
   const statusIcons = {
@@ -124,7 +189,8 @@ export function TrainingProgress({
     training: <Loader2 className="h-4 w-4 animate-spin" />,
     paused: <Play className="h-4 w-4" />,
     completed: <CheckCircle2 className="h-4 w-4" />,
-    error: <AlertCircle className="h-4 w-4" />
+    error: <AlertCircle className="h-4 w-4" />,
+    cancelled: <Square className="h-4 w-4" />
   };
 
   const formatTrainingTime = (seconds: number) => {
@@ -174,7 +240,7 @@ export function TrainingProgress({
           <div className="flex justify-between text-sm">
             <div className="flex items-center gap-2">
               <span className={`h-2 w-2 rounded-full ${statusColors[status]}`}></span>
-              <span>{statusLabels[status]}</span>
+              <span>{pendingAction ? pendingLabels[pendingAction] : statusLabels[status]}</span>
             </div>
             <span>{Math.round(progress)}%</span>
           </div>
@@ -183,22 +249,22 @@ export function TrainingProgress({
         </div>
         
         <div className="flex gap-2 justify-end">
-          {status === "training" && (
-            <Button variant="outline" size="sm" onClick={handlePause}>
+          {status === "training" && canPause && (
+            <Button variant="outline" size="sm" onClick={handlePause} disabled={pendingAction !== null}>
               <Square className="h-4 w-4 mr-1" />
               Pause
             </Button>
           )}
           
           {status === "paused" && (
-            <Button variant="outline" size="sm" onClick={handleResume}>
+            <Button variant="outline" size="sm" onClick={handleResume} disabled={pendingAction !== null}>
               <Play className="h-4 w-4 mr-1" />
               Resume
             </Button>
           )}
           
           {(status === "training" || status === "paused") && (
-            <Button variant="destructive" size="sm" onClick={handleCancel}>
+            <Button variant="destructive" size="sm" onClick={handleCancel} disabled={pendingAction === "cancel"}>
               Cancel
             </Button>
           )}
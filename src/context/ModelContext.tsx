@@ -2,6 +2,14 @@ import React, { createContext, useContext, useState, useEffect } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "sonner";
 import { Json } from "@/integrations/supabase/types";
+import { FeatureValue, predictWithBrowserModel } from "@/utils/browserModels";
+import { ForecastAlgorithm } from "@/utils/forecastModels";
+import { predictForecast } from "@/utils/forecasting";
+import { InputRecord, prepareInputRows } from "@/utils/modelInputs";
+import type { InferenceLocation } from "@/utils/onnxInference";
+import { PreprocessingPipeline, toInputRecords, transformRows } from "@/utils/preprocessing";
+import { DatasetSchema } from "@/utils/schema";
+import { SplitSpec } from "@/utils/splitting";
 
 export type Algorithm = 
   | "Linear Regression" 
@@ -22,9 +30,10 @@ export type Algorithm =
   | "Gaussian Process"
   | "Isolation Forest"
   | "LightGBM"
-  | "CatBoost";
+  | "CatBoost"
+  | ForecastAlgorithm;
 
-export type ModelType = "ML" | "DL" | "Clustering" | "Dimensionality Reduction" | "Anomaly Detection";
+export type ModelType = "ML" | "DL" | "Clustering" | "Dimensionality Reduction" | "Anomaly Detection" | "Forecasting";
 
 // Neural network activation function types
 export type ActivationFunction = 
@@ -34,11 +43,23 @@ export type ActivationFunction =
   | "Linear" 
   | "Softmax";
 
+// Neural network layer kinds; a layer without a type is Dense
+export type LayerType =
+  | "Dense"
+  | "Conv2D"
+  | "MaxPooling2D"
+  | "AveragePooling2D"
+  | "BatchNormalization"
+  | "Flatten";
+
 // Neural network layer type
 export interface NeuralNetworkLayer {
-  neurons: number;
+  type?: LayerType;
+  neurons: number; // Units of a Dense layer, filters of a Conv2D layer; unused by other layers
   activation: ActivationFunction;
   dropout?: number;
+  kernelSize?: number; // Conv2D window
+  poolSize?: number; // Pooling window
 }
 
 export interface Model {
@@ -52,6 +73,11 @@ export interface Model {
   parameters?: Record<string, any>;
   neuralNetworkArchitecture?: number[] | NeuralNetworkLayer[];
   targets?: string[]; // Added targets field to support multiple targets
+  modelData?: string; // Serialized trained model (base64 pickle or browser model JSON)
+  schema?: DatasetSchema; // Column types of the dataset the model was trained on
+  datasetVersionId?: string; // Registered dataset version the model was trained on
+  splitSpec?: SplitSpec; // Train/validation/test split the model was trained and scored on
+  project?: string; // Project whose API keys may call the model; set through the api-keys function only
 }
 
 interface ModelContextType {
@@ -68,7 +94,12 @@ interface ModelContextType {
   refreshModels: () => Promise<void>;
   fineTuneModel: (id: string, options: FineTuneOptions) => Promise<void>;
   downloadModel: (id: string, fileExtension?: string) => Promise<void>;
-  predictWithModel: (id: string, inputData: any[]) => Promise<{ predictions: any; success: boolean; explanation?: any; probabilities?: any[] }>;
+  predictWithModel: (id: string, inputData: InputRecord[], options?: PredictOptions) => Promise<{ predictions: any; success: boolean; explanation?: any; probabilities?: any[] }>;
+}
+
+// Where backend-trained models are evaluated: predict-with-model, or their ONNX graph in the browser
+export interface PredictOptions {
+  inference?: InferenceLocation;
 }
 
 // Options for fine-tuning a model
@@ -172,6 +203,18 @@ export const ModelProvider: React.FC<{ children: React.ReactNode }> = ({
             JSON.parse(item.targets) : 
             item.targets) : 
           undefined,
+        schema: item.schema ? 
+          (typeof item.schema === 'string' ? 
+            JSON.parse(item.schema) : 
+            item.schema) : 
+          undefined,
+        datasetVersionId: item.dataset_version_id ?? undefined,
+        splitSpec: item.split_spec ? 
+          (typeof item.split_spec === 'string' ? 
+            JSON.parse(item.split_spec) : 
+            item.split_spec) : 
+          undefined,
+        project: item.project ?? undefined,
       }));
       
       setModels(transformedModels);
@@ -303,6 +346,12 @@ export const ModelProvider: React.FC<{ children: React.ReactNode }> = ({
           JSON.stringify(modelData.neuralNetworkArchitecture) : null,
         targets: modelData.targets ? 
           JSON.stringify(modelData.targets) : null,
+        schema: modelData.schema ? 
+          JSON.stringify(modelData.schema) : null,
+        dataset_version_id: modelData.datasetVersionId ?? null,
+        split_spec: modelData.splitSpec ? 
+          JSON.stringify(modelData.splitSpec) : null,
+        model_data: modelData.modelData ?? null,
         is_trained: true
       };
       
@@ -334,6 +383,18 @@ export const ModelProvider: React.FC<{ children: React.ReactNode }> = ({
             JSON.parse(data.targets) : 
             data.targets) : 
           undefined,
+        schema: data.schema ? 
+          (typeof data.schema === 'string' ? 
+            JSON.parse(data.schema) : 
+            data.schema) : 
+          undefined,
+        datasetVersionId: data.dataset_version_id ?? undefined,
+        splitSpec: data.split_spec ? 
+          (typeof data.split_spec === 'string' ? 
+            JSON.parse(data.split_spec) : 
+            data.split_spec) : 
+          undefined,
+        project: data.project ?? undefined,
       };
       
       setModels(prevModels => [newModel, ...prevModels]);
@@ -431,6 +492,12 @@ export const ModelProvider: React.FC<{ children: React.ReactNode }> = ({
           JSON.stringify(updates.neuralNetworkArchitecture) : null;
       if (updates.targets !== undefined)
         supabaseUpdates.targets = updates.targets ? JSON.stringify(updates.targets) : null;
+      if (updates.schema !== undefined)
+        supabaseUpdates.schema = updates.schema ? JSON.stringify(updates.schema) : null;
+      if (updates.datasetVersionId !== undefined)
+        supabaseUpdates.dataset_version_id = updates.datasetVersionId || null;
+      if (updates.splitSpec !== undefined)
+        supabaseUpdates.split_spec = updates.splitSpec ? JSON.stringify(updates.splitSpec) : null;
       
       const { data, error } = await supabase
         .from('models')
@@ -461,6 +528,18 @@ export const ModelProvider: React.FC<{ children: React.ReactNode }> = ({
             JSON.parse(data.targets) : 
             data.targets) : 
           undefined,
+        schema: data.schema ? 
+          (typeof data.schema === 'string' ? 
+            JSON.parse(data.schema) : 
+            data.schema) : 
+          undefined,
+        datasetVersionId: data.dataset_version_id ?? undefined,
+        splitSpec: data.split_spec ? 
+          (typeof data.split_spec === 'string' ? 
+            JSON.parse(data.split_spec) : 
+            data.split_spec) : 
+          undefined,
+        project: data.project ?? undefined,
       };
       
       setModels(prevModels => 
@@ -555,25 +634,39 @@ export const ModelProvider: React.FC<{ children: React.ReactNode }> = ({
       }
       
       // Import the model export utilities
-      const { createModelExportData } = await import('@/utils/modelExportFormats');
-      
-      // Create the appropriate model data for the chosen format
-      const modelData = createModelExportData(model, fileExtension);
-      
-      // Determine the appropriate MIME type
-      let mimeType = "application/json";
-      if (['pkl', 'pickle', 'joblib'].includes(fileExtension)) {
-        mimeType = "application/octet-stream";
-      } else if (['h5', 'hdf5', 'pb', 'keras'].includes(fileExtension)) {
-        mimeType = "application/octet-stream";
-      } else if (['pt', 'pth'].includes(fileExtension)) {
-        mimeType = "application/octet-stream";
-      } else if (fileExtension === 'onnx') {
-        mimeType = "application/octet-stream";
+      const {
+        base64ToBytes,
+        createExportArchive,
+        createJsonArtifact,
+        fetchConvertedModel,
+        getExportFormats,
+        SERVER_EXPORT_FORMATS
+      } = await import('@/utils/modelExportFormats');
+      
+      const format = getExportFormats(model).find(option => option.extension === fileExtension);
+      if (!format) {
+        throw new Error(`Unknown export format: .${fileExtension}`);
+      }
+      if (!format.supported) {
+        throw new Error(format.reason);
+      }
+      
+      // Pickles and JSON come straight from the stored model; other formats are converted server-side
+      let artifact: Uint8Array | string;
+      if (format.extension === "json") {
+        artifact = createJsonArtifact(model, await loadModelData(model));
+      } else if (SERVER_EXPORT_FORMATS.includes(format.extension)) {
+        artifact = await fetchConvertedModel(id, format.extension);
+      } else {
+        const modelData = await loadModelData(model);
+        if (!modelData) {
+          throw new Error("No model data available");
+        }
+        artifact = base64ToBytes(modelData);
       }
       
-      // Create a blob from the model data
-      const blob = new Blob([modelData], { type: mimeType });
+      // The artifact is zipped with a manifest of its inputs, preprocessing and labels
+      const blob = await createExportArchive(model, format.extension, artifact);
       
       // Create a URL for the blob
       const url = URL.createObjectURL(blob);
@@ -584,7 +677,7 @@ export const ModelProvider: React.FC<{ children: React.ReactNode }> = ({
       
       // Format the filename with the chosen extension
       const filename = model.name.replace(/\s+/g, "_");
-      link.download = `${filename}_${model.id.slice(0, 8)}.${fileExtension}`;
+      link.download = `${filename}_${model.id.slice(0, 8)}_${fileExtension}.zip`;
       
       // Append to the document and trigger the download
       document.body.appendChild(link);
@@ -599,7 +692,7 @@ export const ModelProvider: React.FC<{ children: React.ReactNode }> = ({
     } catch (err) {
       console.error("Error downloading model:", err);
       setError(err instanceof Error ? err : new Error(String(err)));
-      toast.error("Failed to download model");
+      toast.error(err instanceof Error ? err.message : "Failed to download model");
     }
   };
 
@@ -642,7 +735,22 @@ export const ModelProvider: React.FC<{ children: React.ReactNode }> = ({
   };
 
   // Add the new predictWithModel function
-  const predictWithModel = async (id: string, inputData: any[]): Promise<{ predictions: any; success: boolean; explanation?: any; probabilities?: any[] }> => {
+  // Serialized models are only kept in memory for local models, so fetch on demand
+  const loadModelData = async (model: Model): Promise<string | null> => {
+    if (model.modelData) return model.modelData;
+    
+    const { data, error } = await supabase
+      .from('models')
+      .select('model_data')
+      .eq('id', model.id)
+      .single();
+    
+    if (error) throw error;
+    return data?.model_data ?? null;
+  };
+
+  // Rows are keyed by feature name; the server, and the browser paths below, put them in training order
+  const predictWithModel = async (id: string, inputData: InputRecord[], options: PredictOptions = {}): Promise<{ predictions: any; success: boolean; explanation?: any; probabilities?: any[] }> => {
     try {
       const model = getModelById(id);
       
@@ -650,6 +758,64 @@ export const ModelProvider: React.FC<{ children: React.ReactNode }> = ({
         throw new Error("Model not found");
       }
       
+      // Forecasters predict the periods of the timestamps in each row's time column
+      if (model.type === "Forecasting") {
+        const modelData = await loadModelData(model);
+        if (!modelData) {
+          throw new Error("No model data available");
+        }
+        
+        const timeColumn: string = model.parameters?.forecast?.timeColumn;
+        const forecast = predictForecast(
+          JSON.parse(modelData),
+          inputData.map(row => row[timeColumn])
+        );
+        return {
+          predictions: forecast.map(point => point.forecast),
+          explanation: { intervals: forecast },
+          success: true
+        };
+      }
+      
+      // Browser-trained models are served client-side
+      if (model.parameters?.trainingMethod === "browser") {
+        const modelData = await loadModelData(model);
+        if (!modelData) {
+          throw new Error("No model data available");
+        }
+        
+        // Replay the training pipeline so inputs match what the model saw
+        const pipeline: PreprocessingPipeline | undefined = model.parameters.preprocessing;
+        const ordered: FeatureValue[][] = prepareInputRows(model, inputData);
+        const rows = pipeline
+          ? transformRows(pipeline, toInputRecords(pipeline, ordered))
+              .map(row => pipeline.outputFeatures.map(feature => row[feature]))
+          : ordered;
+        
+        const result = predictWithBrowserModel(JSON.parse(modelData), rows);
+        return {
+          predictions: result.predictions,
+          probabilities: result.probabilities.length ? result.probabilities : undefined,
+          explanation: model.parameters.feature_importance && Object.keys(model.parameters.feature_importance).length
+            ? { feature_importance: model.parameters.feature_importance }
+            : undefined,
+          success: true
+        };
+      }
+      
+      if (options.inference === "local") {
+        // Loaded on demand so the runtime stays out of the main bundle
+        const { predictWithOnnx } = await import('@/utils/onnxInference');
+        const result = await predictWithOnnx(model, prepareInputRows(model, inputData));
+        return {
+          ...result,
+          explanation: model.parameters?.feature_importance && Object.keys(model.parameters.feature_importance).length
+            ? { feature_importance: model.parameters.feature_importance }
+            : undefined,
+          success: true
+        };
+      }
+      
       // Call the Supabase Edge Function for prediction
       const response = await fetch(
         "https://uysdqwhyhqhamwvzsolw.supabase.co/functions/v1/predict-with-model",
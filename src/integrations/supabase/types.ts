@@ -9,6 +9,42 @@ export type Json =
 export type Database = {
   public: {
     Tables: {
+      api_keys: {
+        Row: {
+          created_at: string
+          id: string
+          key_hash: string
+          key_prefix: string
+          last_used_at: string | null
+          name: string
+          project: string
+          rate_limit_per_minute: number
+          revoked_at: string | null
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          key_hash: string
+          key_prefix: string
+          last_used_at?: string | null
+          name: string
+          project: string
+          rate_limit_per_minute?: number
+          revoked_at?: string | null
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          key_hash?: string
+          key_prefix?: string
+          last_used_at?: string | null
+          name?: string
+          project?: string
+          rate_limit_per_minute?: number
+          revoked_at?: string | null
+        }
+        Relationships: []
+      }
       applications: {
         Row: {
           created_at: string | null
@@ -109,6 +145,86 @@ export type Database = {
         }
         Relationships: []
       }
+      dataset_versions: {
+        Row: {
+          column_count: number
+          content_hash: string
+          created_at: string
+          dataset_id: string
+          features: Json
+          file_name: string
+          file_path: string
+          fingerprint: string
+          format: string
+          id: string
+          read_options: Json
+          row_count: number
+          schema: Json
+          target: string
+          version: number
+        }
+        Insert: {
+          column_count: number
+          content_hash: string
+          created_at?: string
+          dataset_id: string
+          features: Json
+          file_name: string
+          file_path: string
+          fingerprint: string
+          format: string
+          id?: string
+          read_options?: Json
+          row_count: number
+          schema: Json
+          target: string
+          version: number
+        }
+        Update: {
+          column_count?: number
+          content_hash?: string
+          created_at?: string
+          dataset_id?: string
+          features?: Json
+          file_name?: string
+          file_path?: string
+          fingerprint?: string
+          format?: string
+          id?: string
+          read_options?: Json
+          row_count?: number
+          schema?: Json
+          target?: string
+          version?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "dataset_versions_dataset_id_fkey"
+            columns: ["dataset_id"]
+            isOneToOne: false
+            referencedRelation: "datasets"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      datasets: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+        }
+        Relationships: []
+      }
       events: {
         Row: {
           created_at: string | null
@@ -199,6 +315,7 @@ export type Database = {
           algorithm: string
           created_at: string
           dataset_name: string
+          dataset_version_id: string | null
           id: string
           is_trained: boolean | null
           model_data: string | null
@@ -206,6 +323,9 @@ export type Database = {
           name: string
           neural_network_architecture: Json | null
           parameters: Json | null
+          project: string | null
+          schema: Json | null
+          split_spec: Json | null
           targets: Json | null
           type: string
         }
@@ -214,6 +334,7 @@ export type Database = {
           algorithm: string
           created_at?: string
           dataset_name: string
+          dataset_version_id?: string | null
           id?: string
           is_trained?: boolean | null
           model_data?: string | null
@@ -221,6 +342,9 @@ export type Database = {
           name: string
           neural_network_architecture?: Json | null
           parameters?: Json | null
+          project?: string | null
+          schema?: Json | null
+          split_spec?: Json | null
           targets?: Json | null
           type: string
         }
@@ -229,6 +353,7 @@ export type Database = {
           algorithm?: string
           created_at?: string
           dataset_name?: string
+          dataset_version_id?: string | null
           id?: string
           is_trained?: boolean | null
           model_data?: string | null
@@ -236,10 +361,21 @@ export type Database = {
           name?: string
           neural_network_architecture?: Json | null
           parameters?: Json | null
+          project?: string | null
+          schema?: Json | null
+          split_spec?: Json | null
           targets?: Json | null
           type?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "models_dataset_version_id_fkey"
+            columns: ["dataset_version_id"]
+            isOneToOne: false
+            referencedRelation: "dataset_versions"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       payments: {
         Row: {
@@ -282,6 +418,92 @@ export type Database = {
           },
         ]
       }
+      prediction_jobs: {
+        Row: {
+          created_at: string
+          error: string | null
+          finished_at: string | null
+          id: string
+          model_id: string
+          processed_rows: number
+          progress: number
+          result: Json | null
+          started_at: string | null
+          status: string
+          total_rows: number
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          error?: string | null
+          finished_at?: string | null
+          id?: string
+          model_id: string
+          processed_rows?: number
+          progress?: number
+          result?: Json | null
+          started_at?: string | null
+          status?: string
+          total_rows: number
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          error?: string | null
+          finished_at?: string | null
+          id?: string
+          model_id?: string
+          processed_rows?: number
+          progress?: number
+          result?: Json | null
+          started_at?: string | null
+          status?: string
+          total_rows?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      prediction_requests: {
+        Row: {
+          api_key_id: string | null
+          created_at: string
+          error: string | null
+          id: string
+          latency_ms: number
+          model_id: string | null
+          row_count: number
+          status_code: number
+        }
+        Insert: {
+          api_key_id?: string | null
+          created_at?: string
+          error?: string | null
+          id?: string
+          latency_ms?: number
+          model_id?: string | null
+          row_count?: number
+          status_code: number
+        }
+        Update: {
+          api_key_id?: string | null
+          created_at?: string
+          error?: string | null
+          id?: string
+          latency_ms?: number
+          model_id?: string | null
+          row_count?: number
+          status_code?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "prediction_requests_api_key_id_fkey"
+            columns: ["api_key_id"]
+            isOneToOne: false
+            referencedRelation: "api_keys"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       profiles: {
         Row: {
           created_at: string | null
@@ -401,6 +623,63 @@ export type Database = {
           },
         ]
       }
+      training_jobs: {
+        Row: {
+          algorithm: string
+          checkpoint: Json | null
+          control: string | null
+          created_at: string
+          data_path: string | null
+          dataset_name: string | null
+          error: string | null
+          finished_at: string | null
+          id: string
+          logs: Json
+          progress: number
+          request: Json | null
+          result: Json | null
+          started_at: string | null
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          algorithm: string
+          checkpoint?: Json | null
+          control?: string | null
+          created_at?: string
+          data_path?: string | null
+          dataset_name?: string | null
+          error?: string | null
+          finished_at?: string | null
+          id?: string
+          logs?: Json
+          progress?: number
+          request?: Json | null
+          result?: Json | null
+          started_at?: string | null
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          algorithm?: string
+          checkpoint?: Json | null
+          control?: string | null
+          created_at?: string
+          data_path?: string | null
+          dataset_name?: string | null
+          error?: string | null
+          finished_at?: string | null
+          id?: string
+          logs?: Json
+          progress?: number
+          request?: Json | null
+          result?: Json | null
+          started_at?: string | null
+          status?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
     }
     Views: {
       [_ in never]: never
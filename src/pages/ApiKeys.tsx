@@ -0,0 +1,363 @@
+import { useEffect, useState } from "react";
+import { Header } from "@/components/Header";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Model, useModels } from "@/context/ModelContext";
+import { useTheme } from "@/context/ThemeContext";
+import {
+  ApiKey,
+  createApiKey,
+  CreatedApiKey,
+  listApiKeys,
+  listPredictionRequests,
+  PREDICTION_API_URL,
+  PredictionRequest,
+  revokeApiKey,
+  serveModel,
+} from "@/utils/apiKeys";
+import { formatDate } from "@/lib/utils";
+import { Copy, KeyRound, RefreshCw, ShieldOff } from "lucide-react";
+import { toast } from "sonner";
+
+// Sentinel for a model no project may call; Select items can't have an empty value
+const NOT_SERVED = "__not_served__";
+
+const ApiKeys = () => {
+  const { theme } = useTheme();
+  const { models, refreshModels } = useModels();
+  const [keys, setKeys] = useState<ApiKey[]>([]);
+  const [requests, setRequests] = useState<PredictionRequest[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  // Required by every change to keys or served models; kept for this visit only
+  const [adminSecret, setAdminSecret] = useState("");
+  const [project, setProject] = useState("");
+  const [name, setName] = useState("");
+  const [rateLimit, setRateLimit] = useState(60);
+  const [isCreating, setIsCreating] = useState(false);
+  const [created, setCreated] = useState<CreatedApiKey | null>(null);
+
+  const refresh = async () => {
+    setIsLoading(true);
+    try {
+      const [keyList, requestList] = await Promise.all([listApiKeys(), listPredictionRequests()]);
+      setKeys(keyList);
+      setRequests(requestList);
+    } catch (error) {
+      console.error("Error loading API keys:", error);
+      toast.error("Failed to load API keys");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  // The admin secret is checked by the api-keys function; this only spares a round trip
+  const requireAdminSecret = () => {
+    if (!adminSecret) toast.error("Enter the admin secret first");
+    return Boolean(adminSecret);
+  };
+
+  const errorMessage = (error: unknown) => (error instanceof Error ? error.message : "Unknown error");
+
+  const handleCreate = async () => {
+    if (!requireAdminSecret()) return;
+    if (!project.trim() || !name.trim()) {
+      toast.error("Enter a project and a key name");
+      return;
+    }
+    setIsCreating(true);
+    try {
+      const result = await createApiKey(adminSecret, project.trim(), name.trim(), rateLimit);
+      setCreated(result);
+      setKeys([result.key, ...keys]);
+      setName("");
+      toast.success("API key created");
+    } catch (error) {
+      console.error("Error creating API key:", error);
+      toast.error(`Failed to create API key: ${errorMessage(error)}`);
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleRevoke = async (key: ApiKey) => {
+    if (!requireAdminSecret()) return;
+    try {
+      const revoked = await revokeApiKey(adminSecret, key.id);
+      setKeys(keys.map(k => (k.id === key.id ? revoked : k)));
+      toast.success(`Revoked ${key.name}`);
+    } catch (error) {
+      console.error("Error revoking API key:", error);
+      toast.error(`Failed to revoke API key: ${errorMessage(error)}`);
+    }
+  };
+
+  const copySecret = async () => {
+    if (!created) return;
+    await navigator.clipboard.writeText(created.secret);
+    toast.success("Key copied to clipboard");
+  };
+
+  const handleServe = async (model: Model, value: string) => {
+    if (!requireAdminSecret()) return;
+    try {
+      await serveModel(adminSecret, model.id, value === NOT_SERVED ? null : value);
+      await refreshModels();
+      toast.success(value === NOT_SERVED ? `${model.name} is no longer served` : `${model.name} is served to ${value}`);
+    } catch (error) {
+      console.error("Error updating model project:", error);
+      toast.error(`Failed to update the model project: ${errorMessage(error)}`);
+    }
+  };
+
+  const keyNames = new Map(keys.map(key => [key.id, `${key.project} / ${key.name}`]));
+  const projects = [...new Set(keys.map(key => key.project))].sort();
+
+  return (
+    <div className={`min-h-screen pb-20 transition-colors duration-300 ${
+      theme === "dark" ? "bg-gradient-to-b from-background to-background/80" : ""
+    }`}>
+      <Header />
+
+      <main className="max-w-7xl mx-auto pt-24 px-4">
+        <div className="grid gap-8">
+          <Card className={theme === "light" ? "card-container-light" : "card-container-dark"}>
+            <CardHeader>
+              <div className="flex items-center gap-2">
+                <KeyRound className="h-5 w-5 text-primary" />
+                <CardTitle>Prediction API Keys</CardTitle>
+              </div>
+              <CardDescription>
+                Other services call models through the prediction API with a key issued to their project.
+                Keys are stored hashed and shown only once.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <div className="space-y-2 max-w-sm">
+                <Label htmlFor="admin-secret">Admin secret</Label>
+                <Input
+                  id="admin-secret"
+                  type="password"
+                  autoComplete="off"
+                  value={adminSecret}
+                  onChange={(e) => setAdminSecret(e.target.value)}
+                  placeholder="Needed to create or revoke keys and serve models"
+                />
+              </div>
+
+              <div className="grid gap-4 md:grid-cols-4 items-end">
+                <div className="space-y-2">
+                  <Label htmlFor="key-project">Project</Label>
+                  <Input id="key-project" value={project} onChange={(e) => setProject(e.target.value)} placeholder="billing-service" />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="key-name">Key name</Label>
+                  <Input id="key-name" value={name} onChange={(e) => setName(e.target.value)} placeholder="production" />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="key-rate-limit">Requests per minute</Label>
+                  <Input
+                    id="key-rate-limit"
+                    type="number"
+                    min={1}
+                    value={rateLimit}
+                    onChange={(e) => setRateLimit(Math.max(1, parseInt(e.target.value) || 1))}
+                  />
+                </div>
+                <Button onClick={handleCreate} disabled={isCreating}>
+                  {isCreating ? "Creating..." : "Create Key"}
+                </Button>
+              </div>
+
+              {created && (
+                <Alert>
+                  <KeyRound className="h-4 w-4" />
+                  <AlertDescription className="space-y-2">
+                    <div>Copy the key for <span className="font-medium">{created.key.name}</span> now; it will not be shown again.</div>
+                    <div className="flex gap-2">
+                      <Input readOnly value={created.secret} className="font-mono text-xs" />
+                      <Button variant="outline" size="icon" onClick={copySecret}>
+                        <Copy className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </AlertDescription>
+                </Alert>
+              )}
+
+              <div className="border rounded-md">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Project</TableHead>
+                      <TableHead>Name</TableHead>
+                      <TableHead>Key</TableHead>
+                      <TableHead>Limit</TableHead>
+                      <TableHead>Created</TableHead>
+                      <TableHead>Last used</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead className="w-[100px]"></TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {keys.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={8} className="text-center text-muted-foreground">
+                          {isLoading ? "Loading keys..." : "No API keys yet"}
+                        </TableCell>
+                      </TableRow>
+                    ) : keys.map(key => (
+                      <TableRow key={key.id}>
+                        <TableCell>{key.project}</TableCell>
+                        <TableCell>{key.name}</TableCell>
+                        <TableCell className="font-mono text-xs">{key.prefix}…</TableCell>
+                        <TableCell>{key.rateLimitPerMinute}/min</TableCell>
+                        <TableCell>{formatDate(key.created)}</TableCell>
+                        <TableCell>{key.lastUsed ? formatDate(key.lastUsed) : "Never"}</TableCell>
+                        <TableCell>
+                          {key.revoked
+                            ? <Badge variant="outline">Revoked</Badge>
+                            : <Badge variant="secondary">Active</Badge>}
+                        </TableCell>
+                        <TableCell>
+                          {!key.revoked && (
+                            <Button variant="ghost" size="sm" onClick={() => handleRevoke(key)}>
+                              <ShieldOff className="h-4 w-4 mr-1" />
+                              Revoke
+                            </Button>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card className={theme === "light" ? "card-container-light" : "card-container-dark"}>
+            <CardHeader>
+              <CardTitle>Served Models</CardTitle>
+              <CardDescription>
+                A key only reaches the models served to its project; models without a project are not served.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="border rounded-md">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Model</TableHead>
+                      <TableHead>ID</TableHead>
+                      <TableHead>Dataset</TableHead>
+                      <TableHead className="w-[240px]">Project</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {models.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={4} className="text-center text-muted-foreground">
+                          No models yet
+                        </TableCell>
+                      </TableRow>
+                    ) : models.map(model => (
+                      <TableRow key={model.id}>
+                        <TableCell>{model.name}</TableCell>
+                        <TableCell className="font-mono text-xs">{model.id.slice(0, 8)}</TableCell>
+                        <TableCell>{model.datasetName}</TableCell>
+                        <TableCell>
+                          <Select value={model.project ?? NOT_SERVED} onValueChange={(value) => handleServe(model, value)}>
+                            <SelectTrigger className="h-8">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value={NOT_SERVED}>Not served</SelectItem>
+                              {/* Keep a project whose keys are gone selectable */}
+                              {[...new Set([...projects, ...(model.project ? [model.project] : [])])].map(project => (
+                                <SelectItem key={project} value={project}>{project}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card className={theme === "light" ? "card-container-light" : "card-container-dark"}>
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <CardTitle>Usage</CardTitle>
+                <Button variant="outline" size="sm" onClick={refresh} disabled={isLoading}>
+                  <RefreshCw className={`h-4 w-4 mr-1 ${isLoading ? "animate-spin" : ""}`} />
+                  Refresh
+                </Button>
+              </div>
+              <CardDescription>
+                Rows are objects keyed by the model's feature names; values are checked against the schema the model was trained with.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <pre className="text-xs bg-muted rounded-md p-3 overflow-x-auto">{`curl -X POST "${PREDICTION_API_URL}/models/<model id>:predict" \\
+  -H "X-API-Key: <key>" -H "Content-Type: application/json" \\
+  -d '{"instances": [{"feature_a": 1.5, "feature_b": "red"}]}'
+
+# Feature names and types of a model
+curl "${PREDICTION_API_URL}/models/<model id>" -H "X-API-Key: <key>"`}</pre>
+
+              <div className="border rounded-md">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Time</TableHead>
+                      <TableHead>Key</TableHead>
+                      <TableHead>Model</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead>Rows</TableHead>
+                      <TableHead>Latency</TableHead>
+                      <TableHead>Error</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {requests.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={7} className="text-center text-muted-foreground">
+                          No requests logged yet
+                        </TableCell>
+                      </TableRow>
+                    ) : requests.map(request => (
+                      <TableRow key={request.id}>
+                        <TableCell className="whitespace-nowrap">{request.created.toLocaleString()}</TableCell>
+                        <TableCell>{(request.apiKeyId && keyNames.get(request.apiKeyId)) ?? "—"}</TableCell>
+                        <TableCell className="font-mono text-xs">{request.modelId?.slice(0, 8) ?? "—"}</TableCell>
+                        <TableCell>
+                          <Badge variant={request.statusCode < 400 ? "secondary" : "destructive"}>{request.statusCode}</Badge>
+                        </TableCell>
+                        <TableCell>{request.rowCount}</TableCell>
+                        <TableCell>{request.latencyMs} ms</TableCell>
+                        <TableCell className="text-xs text-muted-foreground max-w-[300px] truncate">{request.error ?? ""}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default ApiKeys;
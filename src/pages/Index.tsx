@@ -1,9 +1,10 @@
 
-import { useState } from "react";
+import { useMemo, useState } from "react";
 import { Header } from "@/components/Header";
 import { DatasetUploader } from "@/components/DatasetUploader";
 import { MLTraining } from "@/components/MLTraining";
 import { DLTraining } from "@/components/DLTraining";
+import { ForecastingTraining } from "@/components/ForecastingTraining";
 import { ModelStorage } from "@/components/ModelStorage";
 import { AnimatedTransition } from "@/components/AnimatedTransition";
 import { Button } from "@/components/ui/button";
@@ -16,7 +17,24 @@ import { HyperparameterTuning } from "@/components/HyperparameterTuning";
 import { ModelVersioning } from "@/components/ModelVersioning";
 import { CrossValidation } from "@/components/CrossValidation";
 import { DataPreprocessing } from "@/components/DataPreprocessing";
+import { SchemaEditor } from "@/components/SchemaEditor";
+import { DataProfile } from "@/components/DataProfile";
+import { DatasetBrowser } from "@/components/DatasetBrowser";
+import { SplitSettings } from "@/components/SplitSettings";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { AppliedPreprocessing, DEFAULT_PREPROCESSING_CONFIG, PreprocessingConfig } from "@/utils/preprocessing";
+import {
+  controlTrainingJob,
+  isTerminalStatus,
+  summarizeTrainingJobs,
+  TrainingJob,
+  TrainingJobAction
+} from "@/utils/trainingJobs";
+import { FeatureValue } from "@/utils/browserModels";
+import { DatasetUpload, DatasetVersion, registerDatasetVersion } from "@/utils/datasetRegistry";
+import { DEFAULT_SPLIT_SPEC, SplitSpec } from "@/utils/splitting";
+import { applySchema, DatasetSchema, inferSchema, schemaFeatures, withSchemaColumns } from "@/utils/schema";
+import { toast } from "sonner";
 
 const Index = () => {
   const { theme } = useTheme();
@@ -26,22 +44,68 @@ const Index = () => {
     features: string[];
     target: string;
     name: string;
+    schema: DatasetSchema;
+    // Registered version the data came from, once it has been stored
+    versionId?: string;
   } | null>(null);
+  const [registryRefreshKey, setRegistryRefreshKey] = useState(0);
   
   const [mlTrainingComplete, setMlTrainingComplete] = useState(false);
   const [dlTrainingComplete, setDlTrainingComplete] = useState(false);
   const [isTraining, setIsTraining] = useState(false);
+  const [preprocessingConfig, setPreprocessingConfig] = useState<PreprocessingConfig>(DEFAULT_PREPROCESSING_CONFIG);
+  const [appliedPreprocessing, setAppliedPreprocessing] = useState<AppliedPreprocessing | null>(null);
+  const [splitSpec, setSplitSpec] = useState<SplitSpec>(DEFAULT_SPLIT_SPEC);
+  const [trainingJobs, setTrainingJobs] = useState<Record<string, TrainingJob>>({});
 
-  const handleDatasetLoad = (
+  const showDataset = (info: typeof datasetInfo) => {
+    setDatasetInfo(info);
+    setAppliedPreprocessing(null);
+    setDatasetLoaded(true);
+    setMlTrainingComplete(false);
+    setDlTrainingComplete(false);
+  };
+
+  const handleDatasetLoad = async (
     data: any[],
     features: string[],
     target: string,
-    name: string
+    name: string,
+    upload?: DatasetUpload
   ) => {
-    setDatasetInfo({ data, features, target, name });
-    setDatasetLoaded(true);
-    setMlTrainingComplete(false);
-    setDlTrainingComplete(false);
+    // Every column gets a type up front; the schema panel can override it
+    const schema = inferSchema(data, [...features, target]);
+    showDataset({ data, features, target, name, schema });
+    if (!upload) return;
+
+    // The dataset stays usable when it can't be stored
+    try {
+      const version = await registerDatasetVersion({
+        name,
+        upload,
+        schema,
+        rowCount: data.length,
+        target,
+        features,
+      });
+      setDatasetInfo(prev => prev?.data === data ? { ...prev, versionId: version.id } : prev);
+      setRegistryRefreshKey(key => key + 1);
+      toast.success(`Saved as ${name} v${version.version}`);
+    } catch (error) {
+      console.error("Error registering dataset version:", error);
+      toast.warning("Dataset loaded but could not be saved to the registry");
+    }
+  };
+
+  const handleVersionLoad = (version: DatasetVersion, data: Record<string, FeatureValue>[]) => {
+    showDataset({
+      data,
+      features: version.features,
+      target: version.target,
+      name: version.datasetName,
+      schema: version.schema,
+      versionId: version.id,
+    });
   };
 
   const handleMLTrainingComplete = () => {
@@ -55,9 +119,89 @@ const Index = () => {
   };
   
   const handleStartTraining = () => {
+    setTrainingJobs({});
     setIsTraining(true);
   };
   
+  const handleJobUpdate = (job: TrainingJob) => {
+    setTrainingJobs(prev => ({ ...prev, [job.id]: job }));
+  };
+  
+  const jobSummary = summarizeTrainingJobs(Object.values(trainingJobs));
+  
+  // Forward a pause, resume or cancel request to every job of the run it applies to
+  const controlJobs = async (action: TrainingJobAction) => {
+    const jobs = Object.values(trainingJobs).filter(job => {
+      if (action === "pause") return job.status === "running";
+      if (action === "resume") return job.status === "paused";
+      return !isTerminalStatus(job.status);
+    });
+    
+    try {
+      await Promise.all(jobs.map(job => controlTrainingJob(job.id, action)));
+    } catch (error) {
+      console.error(`Error trying to ${action} training:`, error);
+      toast.error(error instanceof Error ? error.message : `Could not ${action} training`);
+      throw error;
+    }
+  };
+  
+  const handlePauseTraining = async () => {
+    if (jobSummary.status) {
+      await controlJobs("pause");
+    } else {
+      setIsTraining(false);
+    }
+  };
+  
+  const handleResumeTraining = async () => {
+    if (jobSummary.status) {
+      await controlJobs("resume");
+    } else {
+      setIsTraining(true);
+    }
+  };
+  
+  const handleCancelTraining = async () => {
+    if (jobSummary.status) {
+      await controlJobs("cancel");
+    }
+    setIsTraining(false);
+  };
+  
+  // Changing a column type invalidates the applied transformation too
+  const handleSchemaChange = (schema: DatasetSchema) => {
+    setDatasetInfo(prev => prev ? { ...prev, schema } : prev);
+    setAppliedPreprocessing(null);
+  };
+  
+  // Changing a cleaning option invalidates the applied transformation
+  const handlePreprocessingConfigChange = (config: PreprocessingConfig) => {
+    setPreprocessingConfig(config);
+    setAppliedPreprocessing(null);
+  };
+  
+  // Features were selected on the old training rows, so a new split needs them chosen again
+  const handleSplitChange = (spec: SplitSpec) => {
+    setSplitSpec(spec);
+    setAppliedPreprocessing(null);
+  };
+  
+  // Values converted to the schema's types; identifier columns are dropped from the features
+  const schema = datasetInfo?.schema;
+  const typedData = useMemo(
+    () => datasetInfo ? applySchema(datasetInfo.data, datasetInfo.schema) : [],
+    [datasetInfo]
+  );
+  const typedFeatures = datasetInfo ? schemaFeatures(datasetInfo.schema, datasetInfo.target) : [];
+  const schemaConfig = schema ? withSchemaColumns(preprocessingConfig, schema) : preprocessingConfig;
+  
+  // Training gets the typed rows and the applied choices, and fits the pipeline on its
+  // training split only so no statistics leak in from the held-out rows
+  const trainingFeatures = appliedPreprocessing?.features ?? typedFeatures;
+  const trainingPreprocessing = appliedPreprocessing?.config ?? schemaConfig;
+  const splitColumns = Object.keys(typedData[0] ?? {}).filter(column => column !== datasetInfo?.target);
+  
   // Sample feature importance data
   const featureImportanceData = [
     { name: "age", importance: 0.82 },
@@ -113,56 +257,134 @@ const Index = () => {
             <DatasetUploader onDatasetLoad={handleDatasetLoad} />
           </AnimatedTransition>
           
+          <AnimatedTransition>
+            <DatasetBrowser
+              currentVersionId={datasetInfo?.versionId}
+              refreshKey={registryRefreshKey}
+              onLoad={handleVersionLoad}
+            />
+          </AnimatedTransition>
+          
           {datasetLoaded && datasetInfo && (
             <>
+              <AnimatedTransition>
+                <SchemaEditor
+                  schema={datasetInfo.schema}
+                  rowCount={datasetInfo.data.length}
+                  target={datasetInfo.target}
+                  onChange={handleSchemaChange}
+                />
+              </AnimatedTransition>
+              
+              <AnimatedTransition>
+                <DataProfile
+                  data={typedData}
+                  schema={datasetInfo.schema}
+                  target={datasetInfo.target}
+                  datasetName={datasetInfo.name}
+                />
+              </AnimatedTransition>
+              
               <AnimatedTransition>
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                  <DataPreprocessing />
+                  <DataPreprocessing
+                    data={typedData}
+                    features={typedFeatures}
+                    target={datasetInfo.target}
+                    schema={datasetInfo.schema}
+                    config={schemaConfig}
+                    splitSpec={splitSpec}
+                    onConfigChange={handlePreprocessingConfigChange}
+                    onApply={setAppliedPreprocessing}
+                  />
                   <TrainingProgress 
                     modelName={datasetInfo.name}
                     isTraining={isTraining}
-                    onPause={() => setIsTraining(false)}
-                    onResume={() => setIsTraining(true)}
-                    onCancel={() => setIsTraining(false)}
+                    onPause={handlePauseTraining}
+                    onResume={handleResumeTraining}
+                    onCancel={handleCancelTraining}
+                    progress={jobSummary.progress}
+                    logs={jobSummary.logs}
+                    error={jobSummary.error}
+                    jobStatus={jobSummary.status}
+                    canPause={!jobSummary.status || jobSummary.canPause}
                   />
                 </div>
               </AnimatedTransition>
               
+              <AnimatedTransition>
+                <SplitSettings spec={splitSpec} columns={splitColumns} onChange={handleSplitChange} />
+              </AnimatedTransition>
+              
               <AnimatedTransition>
                 <Tabs defaultValue="ml" className="mt-2">
                   <TabsList className="mb-4">
                     <TabsTrigger value="ml">Machine Learning</TabsTrigger>
                     <TabsTrigger value="dl">Deep Learning</TabsTrigger>
+                    <TabsTrigger value="forecasting">Forecasting</TabsTrigger>
                   </TabsList>
                   <TabsContent value="ml">
                     <div className="grid gap-6">
                       <MLTraining
-                        data={datasetInfo.data}
-                        features={datasetInfo.features}
+                        data={typedData}
+                        features={trainingFeatures}
                         target={datasetInfo.target}
                         datasetName={datasetInfo.name}
+                        schema={datasetInfo.schema}
+                        datasetVersionId={datasetInfo.versionId}
+                        splitSpec={splitSpec}
+                        preprocessing={trainingPreprocessing}
                         onTrainingComplete={handleMLTrainingComplete}
                         onStartTraining={handleStartTraining}
+                        onJobUpdate={handleJobUpdate}
                       />
                       
                       <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                        <HyperparameterTuning />
-                        <CrossValidation />
+                        <HyperparameterTuning
+                          data={typedData}
+                          features={trainingFeatures}
+                          target={datasetInfo.target}
+                          datasetName={datasetInfo.name}
+                          schema={datasetInfo.schema}
+                          datasetVersionId={datasetInfo.versionId}
+                          splitSpec={splitSpec}
+                          preprocessing={trainingPreprocessing}
+                        />
+                        <CrossValidation
+                          data={typedData}
+                          features={trainingFeatures}
+                          target={datasetInfo.target}
+                          preprocessing={trainingPreprocessing}
+                        />
                       </div>
                     </div>
                   </TabsContent>
                   <TabsContent value="dl">
                     <div className="grid gap-6">
                       <DLTraining
-                        data={datasetInfo.data}
-                        features={datasetInfo.features}
+                        data={typedData}
+                        features={trainingFeatures}
                         target={datasetInfo.target}
                         datasetName={datasetInfo.name}
+                        schema={datasetInfo.schema}
+                        datasetVersionId={datasetInfo.versionId}
+                        splitSpec={splitSpec}
+                        preprocessing={trainingPreprocessing}
                         onTrainingComplete={handleDLTrainingComplete}
                         onStartTraining={handleStartTraining}
+                        onJobUpdate={handleJobUpdate}
                       />
                     </div>
                   </TabsContent>
+                  <TabsContent value="forecasting">
+                    <ForecastingTraining
+                      data={typedData}
+                      schema={datasetInfo.schema}
+                      target={datasetInfo.target}
+                      datasetName={datasetInfo.name}
+                      datasetVersionId={datasetInfo.versionId}
+                    />
+                  </TabsContent>
                 </Tabs>
               </AnimatedTransition>
               
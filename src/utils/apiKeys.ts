@@ -0,0 +1,132 @@
+import { supabase } from "@/integrations/supabase/client";
+
+const FUNCTIONS_URL = "https://uysdqwhyhqhamwvzsolw.supabase.co/functions/v1";
+
+// Public prediction endpoint served by the predict-api edge function
+export const PREDICTION_API_URL = `${FUNCTIONS_URL}/predict-api/v1`;
+
+const DEFAULT_RATE_LIMIT = 60;
+
+export interface ApiKey {
+  id: string;
+  project: string;
+  name: string;
+  // Leading characters of the key, safe to display
+  prefix: string;
+  rateLimitPerMinute: number;
+  created: Date;
+  lastUsed: Date | null;
+  revoked: Date | null;
+}
+
+// A freshly created key; `secret` is never stored and cannot be shown again
+export interface CreatedApiKey {
+  key: ApiKey;
+  secret: string;
+}
+
+export interface PredictionRequest {
+  id: string;
+  apiKeyId: string | null;
+  modelId: string | null;
+  statusCode: number;
+  rowCount: number;
+  latencyMs: number;
+  error: string | null;
+  created: Date;
+}
+
+type ApiKeyRow = {
+  id: string;
+  project: string;
+  name: string;
+  key_prefix: string;
+  rate_limit_per_minute: number;
+  created_at: string;
+  last_used_at: string | null;
+  revoked_at: string | null;
+};
+
+const toApiKey = (row: ApiKeyRow): ApiKey => ({
+  id: row.id,
+  project: row.project,
+  name: row.name,
+  prefix: row.key_prefix,
+  rateLimitPerMinute: row.rate_limit_per_minute,
+  created: new Date(row.created_at),
+  lastUsed: row.last_used_at ? new Date(row.last_used_at) : null,
+  revoked: row.revoked_at ? new Date(row.revoked_at) : null,
+});
+
+const authHeaders = () => ({
+  "Content-Type": "application/json",
+  "Authorization": `Bearer ${import.meta.env.VITE_SUPABASE_ANON_KEY || ''}`
+});
+
+// Keys are issued and revoked, and models served to projects, by the api-keys function,
+// which requires the admin secret; the app can only read keys and projects
+const manageApiKeys = async (adminSecret: string, request: Record<string, unknown>) => {
+  const response = await fetch(`${FUNCTIONS_URL}/api-keys`, {
+    method: "POST",
+    headers: { ...authHeaders(), "X-Admin-Secret": adminSecret },
+    body: JSON.stringify(request)
+  });
+
+  const body = await response.json();
+  if (!response.ok) {
+    throw new Error(body.error || "Unknown error");
+  }
+  return body;
+};
+
+// The secret is generated and hashed on the server and returned only this once
+export const createApiKey = async (
+  adminSecret: string,
+  project: string,
+  name: string,
+  rateLimitPerMinute = DEFAULT_RATE_LIMIT
+): Promise<CreatedApiKey> => {
+  const { key, secret } = await manageApiKeys(adminSecret, { action: "create", project, name, rateLimitPerMinute });
+  return { key: toApiKey(key), secret };
+};
+
+// Newest first, revoked keys included
+export const listApiKeys = async (): Promise<ApiKey[]> => {
+  const { data, error } = await supabase
+    .from("api_keys")
+    .select("id, project, name, key_prefix, rate_limit_per_minute, created_at, last_used_at, revoked_at")
+    .order("created_at", { ascending: false });
+  if (error) throw error;
+
+  return data.map(toApiKey);
+};
+
+export const revokeApiKey = async (adminSecret: string, id: string): Promise<ApiKey> => {
+  const { key } = await manageApiKeys(adminSecret, { action: "revoke", id });
+  return toApiKey(key);
+};
+
+// Serve the model to the keys of a project; null serves it to none
+export const serveModel = async (adminSecret: string, modelId: string, project: string | null): Promise<void> => {
+  await manageApiKeys(adminSecret, { action: "serve", modelId, project });
+};
+
+export const listPredictionRequests = async (limit = 50): Promise<PredictionRequest[]> => {
+  const { data, error } = await supabase
+    .from("prediction_requests")
+    .select("*")
+    .order("created_at", { ascending: false })
+    .limit(limit);
+  if (error) throw error;
+
+  return data.map(row => ({
+    id: row.id,
+    apiKeyId: row.api_key_id,
+    modelId: row.model_id,
+    statusCode: row.status_code,
+    rowCount: row.row_count,
+    latencyMs: row.latency_ms,
+    error: row.error,
+    created: new Date(row.created_at),
+  }));
+};
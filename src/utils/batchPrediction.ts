@@ -0,0 +1,179 @@
+import * as XLSX from "xlsx";
+import { FeatureValue } from "@/utils/browserModels";
+import { DatasetFormat } from "@/utils/datasetReaders";
+import { InputRecord } from "@/utils/modelInputs";
+
+// Rows per predictWithModel call while a batch runs in the foreground
+export const BATCH_CHUNK_SIZE = 500;
+
+// Larger server-side batches are handed to a background prediction job
+export const BACKGROUND_ROW_THRESHOLD = 10000;
+
+// Model feature -> column of the uploaded file (null when unmapped)
+export type ColumnMapping = Record<string, string | null>;
+
+export interface BatchPredictions {
+  predictions: unknown[];
+  probabilities: number[][];
+}
+
+export interface BatchOutput {
+  headers: string[];
+  rows: Record<string, FeatureValue>[];
+}
+
+// Case, spaces and punctuation don't count when matching names: "Petal Width" ~ "petal_width"
+const normalizeName = (name: string) => name.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+// Match each feature to a column by exact name first, then by normalized name
+export const matchColumns = (features: string[], headers: string[]): ColumnMapping => {
+  return Object.fromEntries(features.map(feature => {
+    if (headers.includes(feature)) return [feature, feature];
+    const normalized = normalizeName(feature);
+    return [feature, headers.find(header => normalizeName(header) === normalized) ?? null];
+  }));
+};
+
+export const unmappedFeatures = (mapping: ColumnMapping): string[] => {
+  return Object.entries(mapping).filter(([, column]) => !column).map(([feature]) => feature);
+};
+
+// Rows keyed by feature name, as predictWithModel takes them. Text features stay strings
+// even when the reader parsed them as numbers.
+export const toBatchInputRows = (
+  rows: Record<string, FeatureValue>[],
+  features: string[],
+  mapping: ColumnMapping,
+  textFeatures: string[] = []
+): InputRecord[] => {
+  return rows.map(row => Object.fromEntries(features.map(feature => {
+    const value = row[mapping[feature] ?? ""] ?? null;
+    return [feature, textFeatures.includes(feature) && value !== null ? String(value) : value];
+  })));
+};
+
+// Predict the rows a chunk at a time, reporting the share done (0-100) after each chunk
+export const predictInChunks = async (
+  inputData: InputRecord[],
+  predictChunk: (chunk: InputRecord[]) => Promise<BatchPredictions>,
+  onProgress?: (progress: number) => void,
+  chunkSize = BATCH_CHUNK_SIZE
+): Promise<BatchPredictions> => {
+  const predictions: unknown[] = [];
+  const probabilities: number[][] = [];
+
+  for (let start = 0; start < inputData.length; start += chunkSize) {
+    const chunk = inputData.slice(start, start + chunkSize);
+    const result = await predictChunk(chunk);
+    predictions.push(...result.predictions);
+    probabilities.push(...result.probabilities);
+    onProgress?.(((start + chunk.length) / inputData.length) * 100);
+  }
+
+  return { predictions, probabilities };
+};
+
+// A column name not already taken by the file: "prediction", "prediction_1", ...
+const uniqueName = (name: string, taken: Set<string>) => {
+  let candidate = name;
+  for (let i = 1; taken.has(candidate); i++) {
+    candidate = `${name}_${i}`;
+  }
+  taken.add(candidate);
+  return candidate;
+};
+
+const outputValue = (value: unknown, classNames: string[] | null): FeatureValue => {
+  if (value === null || value === undefined) return null;
+  if (classNames && (typeof value === "number" || typeof value === "string") && classNames[Number(value)] !== undefined) {
+    return classNames[Number(value)];
+  }
+  return typeof value === "number" || typeof value === "string" || typeof value === "boolean" ? value : String(value);
+};
+
+// The uploaded rows with a prediction column per target and a probability column per class
+export const appendPredictionColumns = (
+  headers: string[],
+  rows: Record<string, FeatureValue>[],
+  result: BatchPredictions,
+  targets: string[],
+  classNames: string[] | null
+): BatchOutput => {
+  const taken = new Set(headers);
+  const multiOutput = result.predictions.some(Array.isArray);
+  const predictionColumns = multiOutput
+    ? targets.map(target => uniqueName(`prediction_${target}`, taken))
+    : [uniqueName("prediction", taken)];
+
+  const classCount = result.probabilities[0]?.length ?? 0;
+  const probabilityColumns = Array.from({ length: classCount }, (_, i) =>
+    uniqueName(`probability_${classNames?.[i] ?? i}`, taken)
+  );
+
+  const outputRows = rows.map((row, i) => {
+    const prediction = result.predictions[i];
+    const values = Array.isArray(prediction) ? prediction : [prediction];
+    const probabilities = result.probabilities[i] ?? [];
+    return {
+      ...row,
+      ...Object.fromEntries(predictionColumns.map((column, j) => [column, outputValue(values[j], classNames)])),
+      ...Object.fromEntries(probabilityColumns.map((column, j) => [column, probabilities[j] ?? null])),
+    };
+  });
+
+  return { headers: [...headers, ...predictionColumns, ...probabilityColumns], rows: outputRows };
+};
+
+const toDelimited = (output: BatchOutput, delimiter: string): string => {
+  const escape = (value: FeatureValue) => {
+    const text = value === null ? "" : String(value);
+    return /["\r\n]/.test(text) || text.includes(delimiter) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  const lines = [
+    output.headers.map(escape).join(delimiter),
+    ...output.rows.map(row => output.headers.map(header => escape(row[header] ?? null)).join(delimiter)),
+  ];
+  return lines.join("\n");
+};
+
+// Write the rows back in the uploaded file's format. Parquet and Arrow are written as CSV,
+// since there is no writer for them in the browser.
+export const serializeBatchOutput = (
+  output: BatchOutput,
+  format: DatasetFormat,
+  fileName: string,
+  delimiter = ","
+): { blob: Blob; fileName: string } => {
+  const baseName = fileName.replace(/\.[^.]+$/, "");
+
+  switch (format) {
+    case "csv":
+    case "tsv": {
+      const text = toDelimited(output, format === "tsv" ? "\t" : delimiter);
+      return { blob: new Blob([text], { type: "text/csv" }), fileName: `${baseName}_predictions.${format}` };
+    }
+    case "excel": {
+      const sheet = XLSX.utils.json_to_sheet(output.rows, { header: output.headers });
+      const workbook = XLSX.utils.book_new();
+      XLSX.utils.book_append_sheet(workbook, sheet, "Predictions");
+      const data = XLSX.write(workbook, { type: "array", bookType: "xlsx" });
+      return {
+        blob: new Blob([data], { type: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet" }),
+        fileName: `${baseName}_predictions.xlsx`,
+      };
+    }
+    case "json":
+      return {
+        blob: new Blob([JSON.stringify(output.rows, null, 2)], { type: "application/json" }),
+        fileName: `${baseName}_predictions.json`,
+      };
+    case "ndjson":
+      return {
+        blob: new Blob([output.rows.map(row => JSON.stringify(row)).join("\n")], { type: "application/x-ndjson" }),
+        fileName: `${baseName}_predictions.ndjson`,
+      };
+    case "parquet":
+    case "arrow":
+      return { blob: new Blob([toDelimited(output, ",")], { type: "text/csv" }), fileName: `${baseName}_predictions.csv` };
+  }
+};
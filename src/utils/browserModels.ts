@@ -0,0 +1,906 @@
+import { Algorithm, NeuralNetworkLayer } from "@/context/ModelContext";
+
+export type FeatureValue = string | number | boolean | null | undefined;
+export type ProblemKind = "classification" | "regression";
+
+// Algorithms the in-browser engine knows how to fit
+export const BROWSER_ALGORITHMS: Algorithm[] = [
+  "Linear Regression",
+  "Logistic Regression",
+  "Decision Tree",
+  "Random Forest",
+  "KNN",
+  "Naive Bayes",
+  "Neural Network",
+];
+
+export const isBrowserTrainable = (algorithm: Algorithm): boolean => {
+  return BROWSER_ALGORITHMS.includes(algorithm);
+};
+
+// Column encoder fitted on the training rows
+interface FeatureEncoder {
+  name: string;
+  kind: "numeric" | "categorical";
+  categories?: string[];
+  fill: number;
+  mean: number;
+  std: number;
+}
+
+// Leaves carry `value` (class distribution or [mean]); split nodes carry the rest
+interface TreeNode {
+  value?: number[];
+  feature?: number;
+  threshold?: number;
+  left?: TreeNode;
+  right?: TreeNode;
+}
+
+interface DenseLayer {
+  weights: number[][]; // [outputs][inputs]
+  biases: number[];
+  activation: string;
+  dropout: number;
+}
+
+type FittedModel =
+  | { kind: "linear"; weights: number[]; bias: number }
+  | { kind: "logistic"; weights: number[][]; biases: number[] }
+  | { kind: "tree"; root: TreeNode }
+  | { kind: "forest"; trees: TreeNode[] }
+  | { kind: "knn"; k: number; points: number[][]; labels: number[] }
+  | { kind: "naiveBayes"; priors: number[]; means: number[][]; variances: number[][] }
+  | { kind: "mlp"; layers: DenseLayer[]; targetMean: number; targetStd: number };
+
+// Everything needed to predict with a browser-trained model later on
+export interface SerializedBrowserModel {
+  format: "browser-model";
+  version: 1;
+  algorithm: Algorithm;
+  problemType: ProblemKind;
+  features: string[];
+  encoders: FeatureEncoder[];
+  classNames: string[] | null;
+  model: FittedModel;
+}
+
+export interface BrowserTrainingRequest {
+  algorithm: Algorithm;
+  features: string[];
+  trainFeatures: FeatureValue[][];
+  trainTarget: FeatureValue[];
+  testFeatures: FeatureValue[][];
+  testTarget: FeatureValue[];
+  params?: Record<string, unknown>;
+  architecture?: NeuralNetworkLayer[];
+  epochs?: number;
+  learningRate?: number;
+  seed?: number;
+}
+
+export interface BrowserTrainingOutput {
+  accuracy: number;
+  trainAccuracy: number;
+  problemType: ProblemKind;
+  metrics: Record<string, number>;
+  confusionMatrix: number[][] | null;
+  featureImportance: Record<string, number>;
+  classNames: string[] | null;
+  model: SerializedBrowserModel;
+}
+
+export type ProgressCallback = (progress: number, message: string) => void;
+
+// Small seeded PRNG (mulberry32) so browser runs are repeatable
+export const createRandom = (seed = 42): (() => number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const isMissing = (value: FeatureValue): boolean => {
+  return value === null || value === undefined || value === "" ||
+    (typeof value === "number" && isNaN(value));
+};
+
+const toNumber = (value: FeatureValue): number | null => {
+  if (typeof value === "number") return isFinite(value) ? value : null;
+  if (typeof value === "boolean") return value ? 1 : 0;
+  if (typeof value === "string" && value.trim() !== "" && !isNaN(Number(value))) {
+    return Number(value);
+  }
+  return null;
+};
+
+const getParam = (params: Record<string, unknown> | undefined, key: string, fallback: number): number => {
+  const value = params?.[key];
+  return typeof value === "number" && isFinite(value) ? value : fallback;
+};
+
+// Fit numeric/categorical encoders and standardisation stats on the training rows
+const fitEncoders = (features: string[], rows: FeatureValue[][]): FeatureEncoder[] => {
+  return features.map((name, column) => {
+    const values = rows.map(row => row[column]).filter(value => !isMissing(value));
+    const isNumeric = values.length > 0 && values.every(value => toNumber(value) !== null);
+
+    if (isNumeric) {
+      const numbers = values.map(value => toNumber(value) as number);
+      const mean = numbers.reduce((sum, v) => sum + v, 0) / numbers.length;
+      const variance = numbers.reduce((sum, v) => sum + (v - mean) ** 2, 0) / numbers.length;
+      return { name, kind: "numeric", fill: mean, mean, std: Math.sqrt(variance) || 1 };
+    }
+
+    const categories = Array.from(new Set(values.map(value => String(value)))).sort();
+    const codes = values.map(value => categories.indexOf(String(value)));
+    const mean = codes.length ? codes.reduce((sum, v) => sum + v, 0) / codes.length : 0;
+    const variance = codes.length ? codes.reduce((sum, v) => sum + (v - mean) ** 2, 0) / codes.length : 0;
+    return { name, kind: "categorical", categories, fill: mean, mean, std: Math.sqrt(variance) || 1 };
+  });
+};
+
+const encodeRow = (row: FeatureValue[], encoders: FeatureEncoder[]): number[] => {
+  return encoders.map((encoder, column) => {
+    const value = row[column];
+    let raw: number;
+
+    if (isMissing(value)) {
+      raw = encoder.fill;
+    } else if (encoder.kind === "numeric") {
+      raw = toNumber(value) ?? encoder.fill;
+    } else {
+      const code = encoder.categories?.indexOf(String(value)) ?? -1;
+      raw = code === -1 ? encoder.fill : code;
+    }
+
+    return (raw - encoder.mean) / encoder.std;
+  });
+};
+
+// Mirrors the server-side is_classification() heuristic
+export const detectProblemKind = (target: FeatureValue[]): ProblemKind => {
+  const present = target.filter(value => !isMissing(value));
+  const unique = new Set(present.map(value => String(value)));
+  const allNumeric = present.every(value => toNumber(value) !== null);
+  return unique.size < 10 || !allNumeric ? "classification" : "regression";
+};
+
+const sortClassNames = (names: string[]): string[] => {
+  const allNumeric = names.every(name => !isNaN(Number(name)));
+  return allNumeric ? names.sort((a, b) => Number(a) - Number(b)) : names.sort();
+};
+
+// ---------------------------------------------------------------------------
+// Metrics
+// ---------------------------------------------------------------------------
+
+export const classificationMetrics = (yTrue: number[], yPred: number[], nClasses: number) => {
+  const matrix = Array.from({ length: nClasses }, () => new Array(nClasses).fill(0));
+  yTrue.forEach((actual, i) => {
+    matrix[actual][yPred[i]] += 1;
+  });
+
+  let precision = 0;
+  let recall = 0;
+  let f1 = 0;
+  for (let c = 0; c < nClasses; c++) {
+    const support = matrix[c].reduce((sum, v) => sum + v, 0);
+    const predicted = matrix.reduce((sum, row) => sum + row[c], 0);
+    const p = predicted ? matrix[c][c] / predicted : 0;
+    const r = support ? matrix[c][c] / support : 0;
+    const weight = yTrue.length ? support / yTrue.length : 0;
+    precision += p * weight;
+    recall += r * weight;
+    f1 += (p + r ? (2 * p * r) / (p + r) : 0) * weight;
+  }
+
+  const correct = yTrue.filter((actual, i) => actual === yPred[i]).length;
+  return {
+    metrics: {
+      accuracy: yTrue.length ? correct / yTrue.length : 0,
+      precision,
+      recall,
+      f1_score: f1,
+    },
+    confusionMatrix: matrix,
+  };
+};
+
+export const regressionMetrics = (yTrue: number[], yPred: number[]) => {
+  const n = yTrue.length || 1;
+  const mean = yTrue.reduce((sum, v) => sum + v, 0) / n;
+  const ssRes = yTrue.reduce((sum, v, i) => sum + (v - yPred[i]) ** 2, 0);
+  const ssTot = yTrue.reduce((sum, v) => sum + (v - mean) ** 2, 0);
+  return {
+    r2_score: ssTot ? 1 - ssRes / ssTot : 0,
+    mse: ssRes / n,
+    mae: yTrue.reduce((sum, v, i) => sum + Math.abs(v - yPred[i]), 0) / n,
+  };
+};
+
+// ---------------------------------------------------------------------------
+// Linear algebra helpers
+// ---------------------------------------------------------------------------
+
+// Solve A x = b with Gaussian elimination and partial pivoting
+export const solveLinearSystem = (a: number[][], b: number[]): number[] => {
+  const n = b.length;
+  const m = a.map((row, i) => [...row, b[i]]);
+
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(m[row][col]) > Math.abs(m[pivot][col])) pivot = row;
+    }
+    [m[col], m[pivot]] = [m[pivot], m[col]];
+    const divisor = m[col][col] || 1e-12;
+    for (let row = col + 1; row < n; row++) {
+      const factor = m[row][col] / divisor;
+      for (let k = col; k <= n; k++) m[row][k] -= factor * m[col][k];
+    }
+  }
+
+  const x = new Array(n).fill(0);
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = m[row][n];
+    for (let k = row + 1; k < n; k++) sum -= m[row][k] * x[k];
+    x[row] = sum / (m[row][row] || 1e-12);
+  }
+  return x;
+};
+
+const softmax = (logits: number[]): number[] => {
+  const max = Math.max(...logits);
+  const exps = logits.map(v => Math.exp(v - max));
+  const total = exps.reduce((sum, v) => sum + v, 0);
+  return exps.map(v => v / total);
+};
+
+const argmax = (values: number[]): number => {
+  let best = 0;
+  for (let i = 1; i < values.length; i++) {
+    if (values[i] > values[best]) best = i;
+  }
+  return best;
+};
+
+// ---------------------------------------------------------------------------
+// Algorithms
+// ---------------------------------------------------------------------------
+
+const fitLinearRegression = (X: number[][], y: number[]) => {
+  const d = X[0]?.length ?? 0;
+  // Augment with an intercept column and add a tiny ridge term for stability
+  const xtx = Array.from({ length: d + 1 }, () => new Array(d + 1).fill(0));
+  const xty = new Array(d + 1).fill(0);
+
+  X.forEach((row, i) => {
+    const augmented = [...row, 1];
+    for (let a = 0; a <= d; a++) {
+      xty[a] += augmented[a] * y[i];
+      for (let b = 0; b <= d; b++) xtx[a][b] += augmented[a] * augmented[b];
+    }
+  });
+  for (let a = 0; a < d; a++) xtx[a][a] += 1e-8;
+
+  const solution = solveLinearSystem(xtx, xty);
+  return { kind: "linear" as const, weights: solution.slice(0, d), bias: solution[d] };
+};
+
+const fitLogisticRegression = (
+  X: number[][],
+  y: number[],
+  nClasses: number,
+  params: Record<string, unknown> | undefined,
+  onProgress?: ProgressCallback
+) => {
+  const d = X[0]?.length ?? 0;
+  const n = X.length;
+  const C = getParam(params, "C", 1.0);
+  const iterations = getParam(params, "maxIter", 300);
+  const learningRate = 0.5;
+  const weights = Array.from({ length: nClasses }, () => new Array(d).fill(0));
+  const biases = new Array(nClasses).fill(0);
+
+  for (let iter = 0; iter < iterations; iter++) {
+    const gradW = Array.from({ length: nClasses }, () => new Array(d).fill(0));
+    const gradB = new Array(nClasses).fill(0);
+
+    X.forEach((row, i) => {
+      const probs = softmax(weights.map((w, c) => biases[c] + w.reduce((sum, wj, j) => sum + wj * row[j], 0)));
+      for (let c = 0; c < nClasses; c++) {
+        const error = probs[c] - (y[i] === c ? 1 : 0);
+        gradB[c] += error;
+        for (let j = 0; j < d; j++) gradW[c][j] += error * row[j];
+      }
+    });
+
+    for (let c = 0; c < nClasses; c++) {
+      biases[c] -= (learningRate * gradB[c]) / n;
+      for (let j = 0; j < d; j++) {
+        weights[c][j] -= learningRate * (gradW[c][j] / n + weights[c][j] / (C * n));
+      }
+    }
+
+    if (onProgress && iter % 25 === 0) {
+      onProgress((iter / iterations) * 100, `Iteration ${iter}/${iterations}`);
+    }
+  }
+
+  return { kind: "logistic" as const, weights, biases };
+};
+
+interface TreeOptions {
+  classification: boolean;
+  nClasses: number;
+  maxDepth: number;
+  minSamplesSplit: number;
+  maxFeatures: number;
+  random: () => number;
+}
+
+const leafValue = (y: number[], indices: number[], options: TreeOptions): number[] => {
+  if (options.classification) {
+    const counts = new Array(options.nClasses).fill(0);
+    indices.forEach(i => { counts[y[i]] += 1; });
+    return counts.map(count => count / indices.length);
+  }
+  return [indices.reduce((sum, i) => sum + y[i], 0) / indices.length];
+};
+
+const impurity = (stats: number[], count: number, options: TreeOptions): number => {
+  if (count === 0) return 0;
+  if (options.classification) {
+    return 1 - stats.reduce((sum, c) => sum + (c / count) ** 2, 0);
+  }
+  // stats = [sum, sumOfSquares]
+  const mean = stats[0] / count;
+  return Math.max(0, stats[1] / count - mean * mean);
+};
+
+const nodeStats = (y: number[], indices: number[], options: TreeOptions): number[] => {
+  if (options.classification) {
+    const counts = new Array(options.nClasses).fill(0);
+    indices.forEach(i => { counts[y[i]] += 1; });
+    return counts;
+  }
+  return indices.reduce((acc, i) => [acc[0] + y[i], acc[1] + y[i] * y[i]], [0, 0]);
+};
+
+const buildTree = (
+  X: number[][],
+  y: number[],
+  indices: number[],
+  depth: number,
+  options: TreeOptions,
+  importance: number[]
+): TreeNode => {
+  const total = nodeStats(y, indices, options);
+  const parentImpurity = impurity(total, indices.length, options);
+
+  if (depth >= options.maxDepth || indices.length < options.minSamplesSplit || parentImpurity <= 1e-12) {
+    return { value: leafValue(y, indices, options) };
+  }
+
+  // Choose the candidate features for this node (random subset for forests)
+  const featureCount = X[0].length;
+  const candidates = Array.from({ length: featureCount }, (_, i) => i);
+  for (let i = candidates.length - 1; i > 0; i--) {
+    const j = Math.floor(options.random() * (i + 1));
+    [candidates[i], candidates[j]] = [candidates[j], candidates[i]];
+  }
+
+  let best = { gain: 1e-12, feature: -1, threshold: 0 };
+
+  for (const feature of candidates.slice(0, options.maxFeatures)) {
+    const sorted = [...indices].sort((a, b) => X[a][feature] - X[b][feature]);
+    const left = options.classification ? new Array(options.nClasses).fill(0) : [0, 0];
+
+    for (let k = 0; k < sorted.length - 1; k++) {
+      const i = sorted[k];
+      if (options.classification) {
+        left[y[i]] += 1;
+      } else {
+        left[0] += y[i];
+        left[1] += y[i] * y[i];
+      }
+
+      const current = X[i][feature];
+      const next = X[sorted[k + 1]][feature];
+      if (current === next) continue;
+
+      const nLeft = k + 1;
+      const nRight = sorted.length - nLeft;
+      const right = total.map((value, idx) => value - left[idx]);
+      const gain = parentImpurity * sorted.length -
+        impurity(left, nLeft, options) * nLeft -
+        impurity(right, nRight, options) * nRight;
+
+      if (gain > best.gain) {
+        best = { gain, feature, threshold: (current + next) / 2 };
+      }
+    }
+  }
+
+  if (best.feature === -1) {
+    return { value: leafValue(y, indices, options) };
+  }
+
+  importance[best.feature] += best.gain;
+  const leftIndices = indices.filter(i => X[i][best.feature] <= best.threshold);
+  const rightIndices = indices.filter(i => X[i][best.feature] > best.threshold);
+
+  return {
+    feature: best.feature,
+    threshold: best.threshold,
+    left: buildTree(X, y, leftIndices, depth + 1, options, importance),
+    right: buildTree(X, y, rightIndices, depth + 1, options, importance),
+  };
+};
+
+const predictTree = (node: TreeNode, row: number[]): number[] => {
+  let current = node;
+  while (!current.value) {
+    current = row[current.feature] <= current.threshold ? current.left : current.right;
+  }
+  return current.value;
+};
+
+const fitNaiveBayes = (X: number[][], y: number[], nClasses: number) => {
+  const d = X[0]?.length ?? 0;
+  const priors = new Array(nClasses).fill(0);
+  const means = Array.from({ length: nClasses }, () => new Array(d).fill(0));
+  const variances = Array.from({ length: nClasses }, () => new Array(d).fill(0));
+
+  X.forEach((row, i) => {
+    priors[y[i]] += 1;
+    row.forEach((value, j) => { means[y[i]][j] += value; });
+  });
+  for (let c = 0; c < nClasses; c++) {
+    for (let j = 0; j < d; j++) means[c][j] /= priors[c] || 1;
+  }
+  X.forEach((row, i) => {
+    row.forEach((value, j) => { variances[y[i]][j] += (value - means[y[i]][j]) ** 2; });
+  });
+
+  // Same variance smoothing idea as sklearn's GaussianNB
+  const maxVariance = Math.max(1e-12, ...variances.flat().map((v, idx) => v / (priors[Math.floor(idx / d)] || 1)));
+  for (let c = 0; c < nClasses; c++) {
+    for (let j = 0; j < d; j++) {
+      variances[c][j] = variances[c][j] / (priors[c] || 1) + 1e-9 * maxVariance;
+    }
+  }
+
+  return {
+    kind: "naiveBayes" as const,
+    priors: priors.map(count => count / X.length),
+    means,
+    variances,
+  };
+};
+
+const activate = (value: number, activation: string): number => {
+  switch (activation) {
+    case "relu": return value > 0 ? value : 0;
+    case "sigmoid": return 1 / (1 + Math.exp(-value));
+    case "tanh": return Math.tanh(value);
+    default: return value;
+  }
+};
+
+// Derivative expressed in terms of the activated output
+const activationGradient = (output: number, activation: string): number => {
+  switch (activation) {
+    case "relu": return output > 0 ? 1 : 0;
+    case "sigmoid": return output * (1 - output);
+    case "tanh": return 1 - output * output;
+    default: return 1;
+  }
+};
+
+const forwardMlp = (layers: DenseLayer[], input: number[], random?: () => number): number[][] => {
+  const outputs = [input];
+  layers.forEach((layer, index) => {
+    const previous = outputs[outputs.length - 1];
+    const isOutput = index === layers.length - 1;
+    let values = layer.weights.map((w, o) => layer.biases[o] + w.reduce((sum, wj, j) => sum + wj * previous[j], 0));
+
+    if (isOutput && layer.activation === "softmax") {
+      values = softmax(values);
+    } else {
+      values = values.map(v => activate(v, layer.activation));
+    }
+
+    // Inverted dropout, only while training
+    if (random && !isOutput && layer.dropout > 0) {
+      values = values.map(v => (random() < layer.dropout ? 0 : v / (1 - layer.dropout)));
+    }
+    outputs.push(values);
+  });
+  return outputs;
+};
+
+const fitMlp = (
+  X: number[][],
+  y: number[],
+  problemType: ProblemKind,
+  nClasses: number,
+  architecture: NeuralNetworkLayer[],
+  epochs: number,
+  learningRate: number,
+  random: () => number,
+  onProgress?: ProgressCallback
+) => {
+  const inputSize = X[0]?.length ?? 0;
+  const outputSize = problemType === "regression" || nClasses <= 2 ? 1 : nClasses;
+  const outputActivation = problemType === "regression" ? "linear" : nClasses <= 2 ? "sigmoid" : "softmax";
+
+  // Standardise regression targets so the default learning rates behave
+  const targetMean = problemType === "regression" ? y.reduce((s, v) => s + v, 0) / y.length : 0;
+  const targetStd = problemType === "regression"
+    ? Math.sqrt(y.reduce((s, v) => s + (v - targetMean) ** 2, 0) / y.length) || 1
+    : 1;
+
+  const gaussian = () => {
+    const u = Math.max(random(), 1e-12);
+    return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * random());
+  };
+
+  const specs = [
+    ...architecture.map(layer => ({
+      size: layer.neurons,
+      activation: layer.activation.toLowerCase(),
+      dropout: layer.dropout || 0,
+    })),
+    { size: outputSize, activation: outputActivation, dropout: 0 },
+  ];
+
+  let fanIn = inputSize;
+  const layers: DenseLayer[] = specs.map(spec => {
+    const scale = Math.sqrt(2 / Math.max(1, fanIn));
+    const layer = {
+      weights: Array.from({ length: spec.size }, () => Array.from({ length: fanIn }, () => gaussian() * scale)),
+      biases: new Array(spec.size).fill(0),
+      activation: spec.activation,
+      dropout: spec.dropout,
+    };
+    fanIn = spec.size;
+    return layer;
+  });
+
+  // Adam optimiser state
+  const beta1 = 0.9;
+  const beta2 = 0.999;
+  const mW = layers.map(l => l.weights.map(row => row.map(() => 0)));
+  const vW = layers.map(l => l.weights.map(row => row.map(() => 0)));
+  const mB = layers.map(l => l.biases.map(() => 0));
+  const vB = layers.map(l => l.biases.map(() => 0));
+  let step = 0;
+
+  const batchSize = 32;
+  const order = X.map((_, i) => i);
+
+  for (let epoch = 0; epoch < epochs; epoch++) {
+    for (let i = order.length - 1; i > 0; i--) {
+      const j = Math.floor(random() * (i + 1));
+      [order[i], order[j]] = [order[j], order[i]];
+    }
+
+    let epochLoss = 0;
+    for (let start = 0; start < order.length; start += batchSize) {
+      const batch = order.slice(start, start + batchSize);
+      const gradW = layers.map(l => l.weights.map(row => row.map(() => 0)));
+      const gradB = layers.map(l => l.biases.map(() => 0));
+
+      batch.forEach(index => {
+        const outputs = forwardMlp(layers, X[index], random);
+        const prediction = outputs[outputs.length - 1];
+
+        // Output delta for (binary/categorical) cross-entropy or MSE
+        let delta: number[];
+        if (problemType === "regression") {
+          const target = (y[index] - targetMean) / targetStd;
+          delta = [prediction[0] - target];
+          epochLoss += delta[0] ** 2;
+        } else if (outputSize === 1) {
+          delta = [prediction[0] - y[index]];
+          epochLoss -= Math.log(Math.max(1e-12, y[index] === 1 ? prediction[0] : 1 - prediction[0]));
+        } else {
+          delta = prediction.map((p, c) => p - (y[index] === c ? 1 : 0));
+          epochLoss -= Math.log(Math.max(1e-12, prediction[y[index]]));
+        }
+
+        for (let l = layers.length - 1; l >= 0; l--) {
+          const input = outputs[l];
+          for (let o = 0; o < delta.length; o++) {
+            gradB[l][o] += delta[o];
+            for (let j = 0; j < input.length; j++) gradW[l][o][j] += delta[o] * input[j];
+          }
+          if (l > 0) {
+            const previousActivation = layers[l - 1].activation;
+            delta = input.map((value, j) => {
+              let sum = 0;
+              for (let o = 0; o < delta.length; o++) sum += layers[l].weights[o][j] * delta[o];
+              return sum * activationGradient(value, previousActivation);
+            });
+          }
+        }
+      });
+
+      step += 1;
+      const correction1 = 1 - beta1 ** step;
+      const correction2 = 1 - beta2 ** step;
+      layers.forEach((layer, l) => {
+        layer.weights.forEach((row, o) => {
+          row.forEach((_, j) => {
+            const g = gradW[l][o][j] / batch.length;
+            mW[l][o][j] = beta1 * mW[l][o][j] + (1 - beta1) * g;
+            vW[l][o][j] = beta2 * vW[l][o][j] + (1 - beta2) * g * g;
+            row[j] -= learningRate * (mW[l][o][j] / correction1) / (Math.sqrt(vW[l][o][j] / correction2) + 1e-8);
+          });
+          const gb = gradB[l][o] / batch.length;
+          mB[l][o] = beta1 * mB[l][o] + (1 - beta1) * gb;
+          vB[l][o] = beta2 * vB[l][o] + (1 - beta2) * gb * gb;
+          layer.biases[o] -= learningRate * (mB[l][o] / correction1) / (Math.sqrt(vB[l][o] / correction2) + 1e-8);
+        });
+      });
+    }
+
+    if (onProgress) {
+      onProgress(((epoch + 1) / epochs) * 100, `Epoch ${epoch + 1}/${epochs} - loss: ${(epochLoss / X.length).toFixed(4)}`);
+    }
+  }
+
+  return { kind: "mlp" as const, layers, targetMean, targetStd };
+};
+
+// ---------------------------------------------------------------------------
+// Prediction
+// ---------------------------------------------------------------------------
+
+// Returns class probabilities for classifiers, or a single value for regressors
+const scoreRow = (model: FittedModel, row: number[], problemType: ProblemKind, nClasses: number): number[] => {
+  switch (model.kind) {
+    case "linear":
+      return [model.bias + model.weights.reduce((sum, w, j) => sum + w * row[j], 0)];
+    case "logistic":
+      return softmax(model.weights.map((w, c) => model.biases[c] + w.reduce((sum, wj, j) => sum + wj * row[j], 0)));
+    case "tree":
+      return predictTree(model.root, row);
+    case "forest": {
+      const totals = predictTree(model.trees[0], row).map(() => 0);
+      model.trees.forEach(tree => {
+        predictTree(tree, row).forEach((value, i) => { totals[i] += value; });
+      });
+      return totals.map(value => value / model.trees.length);
+    }
+    case "knn": {
+      const distances = model.points.map((point, i) => ({
+        label: model.labels[i],
+        distance: point.reduce((sum, value, j) => sum + (value - row[j]) ** 2, 0),
+      }));
+      const nearest = distances.sort((a, b) => a.distance - b.distance).slice(0, model.k);
+      if (problemType === "regression") {
+        return [nearest.reduce((sum, n) => sum + n.label, 0) / nearest.length];
+      }
+      const votes = new Array(nClasses).fill(0);
+      nearest.forEach(n => { votes[n.label] += 1 / nearest.length; });
+      return votes;
+    }
+    case "naiveBayes": {
+      const logLikelihoods = model.priors.map((prior, c) => {
+        let total = Math.log(Math.max(prior, 1e-12));
+        row.forEach((value, j) => {
+          const variance = model.variances[c][j];
+          total -= 0.5 * Math.log(2 * Math.PI * variance) + (value - model.means[c][j]) ** 2 / (2 * variance);
+        });
+        return total;
+      });
+      return softmax(logLikelihoods);
+    }
+    case "mlp": {
+      const outputs = forwardMlp(model.layers, row);
+      const output = outputs[outputs.length - 1];
+      if (problemType === "regression") return [output[0] * model.targetStd + model.targetMean];
+      return output.length === 1 ? [1 - output[0], output[0]] : output;
+    }
+  }
+};
+
+export const predictWithBrowserModel = (
+  serialized: SerializedBrowserModel,
+  rows: FeatureValue[][]
+): { predictions: (number | string)[]; probabilities: number[][] } => {
+  const nClasses = serialized.classNames?.length ?? 0;
+  const scores = rows.map(row =>
+    scoreRow(serialized.model, encodeRow(row, serialized.encoders), serialized.problemType, nClasses)
+  );
+
+  if (serialized.problemType === "regression") {
+    return { predictions: scores.map(score => score[0]), probabilities: [] };
+  }
+
+  return {
+    predictions: scores.map(score => serialized.classNames?.[argmax(score)] ?? argmax(score)),
+    probabilities: scores,
+  };
+};
+
+// ---------------------------------------------------------------------------
+// Training entry point (runs inside the training worker)
+// ---------------------------------------------------------------------------
+
+export const trainBrowserModel = (
+  request: BrowserTrainingRequest,
+  onProgress?: ProgressCallback
+): BrowserTrainingOutput => {
+  const { algorithm, features, params } = request;
+
+  if (!isBrowserTrainable(algorithm)) {
+    throw new Error(`${algorithm} is not available for in-browser training`);
+  }
+  if (request.trainFeatures.length === 0) {
+    throw new Error("No training rows available");
+  }
+
+  const random = createRandom(request.seed ?? 42);
+  const encoders = fitEncoders(features, request.trainFeatures);
+  const XTrain = request.trainFeatures.map(row => encodeRow(row, encoders));
+  const XTest = request.testFeatures.map(row => encodeRow(row, encoders));
+
+  const allTargets = [...request.trainTarget, ...request.testTarget];
+  let problemType = detectProblemKind(allTargets);
+  if ((algorithm === "Logistic Regression" || algorithm === "Naive Bayes") && problemType === "regression") {
+    throw new Error(`${algorithm} requires a categorical target`);
+  }
+  if (algorithm === "Linear Regression" && allTargets.some(v => !isMissing(v) && toNumber(v) === null)) {
+    throw new Error(`${algorithm} requires a numeric target`);
+  }
+  if (algorithm === "Linear Regression") problemType = "regression";
+
+  const classNames = problemType === "classification"
+    ? sortClassNames(Array.from(new Set(allTargets.filter(v => !isMissing(v)).map(v => String(v)))))
+    : null;
+  const nClasses = classNames?.length ?? 0;
+
+  const encodeTarget = (value: FeatureValue): number =>
+    problemType === "classification" ? classNames!.indexOf(String(value)) : toNumber(value) ?? 0;
+
+  // Drop rows whose target is missing
+  const trainIdx = request.trainTarget.map((v, i) => i).filter(i => !isMissing(request.trainTarget[i]));
+  const testIdx = request.testTarget.map((v, i) => i).filter(i => !isMissing(request.testTarget[i]));
+  const X = trainIdx.map(i => XTrain[i]);
+  const y = trainIdx.map(i => encodeTarget(request.trainTarget[i]));
+  const Xt = testIdx.map(i => XTest[i]);
+  const yt = testIdx.map(i => encodeTarget(request.testTarget[i]));
+
+  onProgress?.(0, `Training ${algorithm} on ${X.length} rows`);
+
+  const importance = new Array(features.length).fill(0);
+  let model: FittedModel;
+
+  switch (algorithm) {
+    case "Linear Regression": {
+      model = fitLinearRegression(X, y);
+      model.weights.forEach((w, j) => { importance[j] = Math.abs(w); });
+      break;
+    }
+    case "Logistic Regression": {
+      model = fitLogisticRegression(X, y, nClasses, params, onProgress);
+      model.weights.forEach(w => w.forEach((value, j) => { importance[j] += Math.abs(value) / nClasses; }));
+      break;
+    }
+    case "Decision Tree": {
+      const options: TreeOptions = {
+        classification: problemType === "classification",
+        nClasses,
+        maxDepth: getParam(params, "maxDepth", 10),
+        minSamplesSplit: getParam(params, "minSamplesSplit", 2),
+        maxFeatures: features.length,
+        random,
+      };
+      model = { kind: "tree", root: buildTree(X, y, X.map((_, i) => i), 0, options, importance) };
+      break;
+    }
+    case "Random Forest": {
+      const nEstimators = getParam(params, "nEstimators", 100);
+      const options: TreeOptions = {
+        classification: problemType === "classification",
+        nClasses,
+        maxDepth: getParam(params, "maxDepth", 12),
+        minSamplesSplit: getParam(params, "minSamplesSplit", 2),
+        maxFeatures: problemType === "classification"
+          ? Math.max(1, Math.round(Math.sqrt(features.length)))
+          : features.length,
+        random,
+      };
+      const trees: TreeNode[] = [];
+      for (let t = 0; t < nEstimators; t++) {
+        const sample = X.map(() => Math.floor(random() * X.length));
+        trees.push(buildTree(X, y, sample, 0, options, importance));
+        if (t % 5 === 0) onProgress?.((t / nEstimators) * 100, `Tree ${t + 1}/${nEstimators}`);
+      }
+      model = { kind: "forest", trees };
+      break;
+    }
+    case "KNN": {
+      model = { kind: "knn", k: Math.min(getParam(params, "nNeighbors", 5), X.length), points: X, labels: y };
+      break;
+    }
+    case "Naive Bayes": {
+      model = fitNaiveBayes(X, y, nClasses);
+      break;
+    }
+    case "Neural Network": {
+      const architecture = request.architecture?.length ? request.architecture : [
+        { neurons: 64, activation: "ReLU" as const, dropout: 0.2 },
+        { neurons: 32, activation: "ReLU" as const, dropout: 0.1 },
+      ];
+      model = fitMlp(
+        X, y, problemType, nClasses, architecture,
+        request.epochs ?? 100, request.learningRate ?? 0.001, random, onProgress
+      );
+      break;
+    }
+    default:
+      throw new Error(`${algorithm} is not available for in-browser training`);
+  }
+
+  const serialized: SerializedBrowserModel = {
+    format: "browser-model",
+    version: 1,
+    algorithm,
+    problemType,
+    features,
+    encoders,
+    classNames,
+    model,
+  };
+
+  // Evaluate on the held-out rows (fall back to the training rows if there are none)
+  const evalX = Xt.length ? Xt : X;
+  const evalY = Xt.length ? yt : y;
+  const scores = evalX.map(row => scoreRow(model, row, problemType, nClasses));
+  const trainScores = X.map(row => scoreRow(model, row, problemType, nClasses));
+
+  const importanceTotal = importance.reduce((sum, v) => sum + v, 0) || 1;
+  const featureImportance = importance.some(v => v > 0)
+    ? Object.fromEntries(features.map((f, j) => [
+        f,
+        algorithm === "Linear Regression" || algorithm === "Logistic Regression" ? importance[j] : importance[j] / importanceTotal,
+      ]))
+    : {};
+
+  onProgress?.(100, "Training complete");
+
+  if (problemType === "classification") {
+    const { metrics, confusionMatrix } = classificationMetrics(evalY, scores.map(argmax), nClasses);
+    return {
+      accuracy: metrics.accuracy,
+      trainAccuracy: classificationMetrics(y, trainScores.map(argmax), nClasses).metrics.accuracy,
+      problemType,
+      metrics,
+      confusionMatrix,
+      featureImportance,
+      classNames,
+      model: serialized,
+    };
+  }
+
+  const metrics = regressionMetrics(evalY, scores.map(score => score[0]));
+  return {
+    accuracy: metrics.r2_score,
+    trainAccuracy: regressionMetrics(y, trainScores.map(score => score[0])).r2_score,
+    problemType,
+    metrics,
+    confusionMatrix: null,
+    featureImportance,
+    classNames: null,
+    model: serialized,
+  };
+};
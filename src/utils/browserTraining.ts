@@ -0,0 +1,55 @@
+import {
+  BrowserTrainingOutput,
+  BrowserTrainingRequest,
+  ProgressCallback,
+  trainBrowserModel,
+} from "@/utils/browserModels";
+
+type WorkerMessage =
+  | { type: "progress"; progress: number; message: string }
+  | { type: "result"; result: BrowserTrainingOutput }
+  | { type: "error"; error: string };
+
+// Train a model client-side in a Web Worker (or inline where workers are unavailable)
+export const trainInBrowser = (
+  request: BrowserTrainingRequest,
+  onProgress?: ProgressCallback
+): Promise<BrowserTrainingOutput> => {
+  if (typeof Worker === "undefined") {
+    return new Promise((resolve, reject) => {
+      try {
+        resolve(trainBrowserModel(request, onProgress));
+      } catch (error) {
+        reject(error);
+      }
+    });
+  }
+
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL("../workers/trainingWorker.ts", import.meta.url), {
+      type: "module",
+    });
+
+    worker.onmessage = (event: MessageEvent<WorkerMessage>) => {
+      const message = event.data;
+      if (message.type === "progress") {
+        onProgress?.(message.progress, message.message);
+        return;
+      }
+
+      worker.terminate();
+      if (message.type === "result") {
+        resolve(message.result);
+      } else {
+        reject(new Error(message.error));
+      }
+    };
+
+    worker.onerror = (event) => {
+      worker.terminate();
+      reject(new Error(event.message || "Training worker failed"));
+    };
+
+    worker.postMessage(request);
+  });
+};
@@ -0,0 +1,165 @@
+import { Algorithm } from "@/context/ModelContext";
+import { detectProblemKind, FeatureValue, ProblemKind } from "@/utils/browserModels";
+import { trainMLModel } from "@/utils/mlAlgorithms";
+import { DEFAULT_PREPROCESSING_CONFIG, isMissingValue, PreprocessingInput } from "@/utils/preprocessing";
+import { DataSplit, holdoutSplit, kFoldSplits } from "@/utils/splitting";
+
+export type ValidationMethod = "kfold" | "repeated" | "loocv" | "holdout";
+
+export interface CrossValidationOptions {
+  method: ValidationMethod;
+  folds: number;
+  repeats: number;
+  holdoutSize: number;
+  stratified: boolean;
+  seed: number;
+}
+
+export const DEFAULT_CROSS_VALIDATION_OPTIONS: CrossValidationOptions = {
+  method: "kfold",
+  folds: 5,
+  repeats: 3,
+  holdoutSize: 0.2,
+  stratified: true,
+  seed: 42,
+};
+
+// Every row becomes its own fold, so LOOCV is only offered on small datasets
+export const MAX_LOOCV_ROWS = 500;
+
+export interface FoldResult {
+  fold: number;
+  repeat: number;
+  trainSize: number;
+  validationSize: number;
+  trainScore: number | null;
+  validationScore: number;
+  metrics: Record<string, number>;
+}
+
+export interface MetricSummary {
+  mean: number;
+  std: number;
+}
+
+export interface CrossValidationReport {
+  algorithm: Algorithm;
+  target: string;
+  options: CrossValidationOptions;
+  problemType: ProblemKind;
+  scoreName: "accuracy" | "r2_score";
+  folds: FoldResult[];
+  summary: Record<string, MetricSummary>;
+  completedAt: string;
+}
+
+export type FoldCallback = (result: FoldResult, completed: number, total: number) => void;
+
+// Build the train/validation partitions for the chosen method
+export const buildValidationSplits = (
+  labels: FeatureValue[],
+  options: CrossValidationOptions,
+  problemType: ProblemKind = detectProblemKind(labels)
+): { split: DataSplit; fold: number; repeat: number }[] => {
+  // Stratifying a continuous target would put every row in its own class
+  const stratify = options.stratified && problemType === "classification";
+
+  switch (options.method) {
+    case "kfold":
+      return kFoldSplits(labels, options.folds, stratify, options.seed)
+        .map((split, i) => ({ split, fold: i + 1, repeat: 1 }));
+    case "repeated":
+      return Array.from({ length: options.repeats }, (_, r) =>
+        kFoldSplits(labels, options.folds, stratify, options.seed + r)
+          .map((split, i) => ({ split, fold: i + 1, repeat: r + 1 }))
+      ).flat();
+    case "loocv":
+      if (labels.length > MAX_LOOCV_ROWS) {
+        throw new Error(`Leave-one-out is limited to ${MAX_LOOCV_ROWS} rows; use k-fold for this dataset`);
+      }
+      return labels.map((_, i) => ({
+        split: {
+          trainIndices: labels.map((_, j) => j).filter(j => j !== i),
+          testIndices: [i],
+        },
+        fold: i + 1,
+        repeat: 1,
+      }));
+    case "holdout":
+      return [{ split: holdoutSplit(labels, options.holdoutSize, stratify, options.seed), fold: 1, repeat: 1 }];
+    default:
+      throw new Error(`Unknown validation method: ${options.method}`);
+  }
+};
+
+const summarize = (values: number[]): MetricSummary => {
+  const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+  const variance = values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / values.length;
+  return { mean, std: Math.sqrt(variance) };
+};
+
+// Mean ± std for the scores and every numeric metric reported by all folds
+export const summarizeFolds = (folds: FoldResult[]): Record<string, MetricSummary> => {
+  if (folds.length === 0) return {};
+
+  const summary: Record<string, MetricSummary> = {
+    validation: summarize(folds.map(f => f.validationScore)),
+  };
+  if (folds.every(f => f.trainScore !== null)) {
+    summary.train = summarize(folds.map(f => f.trainScore as number));
+  }
+  Object.keys(folds[0].metrics)
+    .filter(name => folds.every(f => typeof f.metrics[name] === "number"))
+    .forEach(name => {
+      summary[name] = summarize(folds.map(f => f.metrics[name]));
+    });
+  return summary;
+};
+
+// Train and score the algorithm once per fold through the regular training path
+export const runCrossValidation = async (
+  data: Record<string, FeatureValue>[],
+  features: string[],
+  target: string,
+  algorithm: Algorithm,
+  options: CrossValidationOptions = DEFAULT_CROSS_VALIDATION_OPTIONS,
+  params: Record<string, unknown> = {},
+  preprocessing: PreprocessingInput = DEFAULT_PREPROCESSING_CONFIG,
+  onFold?: FoldCallback
+): Promise<CrossValidationReport> => {
+  const rows = data.filter(row => !isMissingValue(row[target]));
+  const labels = rows.map(row => row[target]);
+  const problemType = detectProblemKind(labels);
+  const splits = buildValidationSplits(labels, options, problemType);
+
+  const folds: FoldResult[] = [];
+  for (const { split, fold, repeat } of splits) {
+    const result = await trainMLModel(rows, features, target, algorithm, params, preprocessing, split);
+    const metrics = Object.fromEntries(
+      Object.entries(result.parameters.metrics ?? {}).filter(([, value]) => typeof value === "number")
+    ) as Record<string, number>;
+
+    const foldResult: FoldResult = {
+      fold,
+      repeat,
+      trainSize: split.trainIndices.length,
+      validationSize: split.testIndices.length,
+      trainScore: typeof result.parameters.train_accuracy === "number" ? result.parameters.train_accuracy : null,
+      validationScore: result.accuracy,
+      metrics,
+    };
+    folds.push(foldResult);
+    onFold?.(foldResult, folds.length, splits.length);
+  }
+
+  return {
+    algorithm,
+    target,
+    options,
+    problemType,
+    scoreName: problemType === "classification" && algorithm !== "Linear Regression" ? "accuracy" : "r2_score",
+    folds,
+    summary: summarizeFolds(folds),
+    completedAt: new Date().toISOString(),
+  };
+};
@@ -0,0 +1,45 @@
+import { CsvParseOptions, CsvParseResult, CsvProgressCallback, parseCsvFile } from "@/utils/csvParser";
+
+type WorkerMessage =
+  | { type: "progress"; progress: number }
+  | { type: "result"; result: CsvParseResult }
+  | { type: "error"; error: string };
+
+// Parse a CSV file in a Web Worker (or inline where workers are unavailable)
+export const loadCsvFile = (
+  file: File,
+  options: CsvParseOptions = {},
+  onProgress?: CsvProgressCallback
+): Promise<CsvParseResult> => {
+  if (typeof Worker === "undefined") {
+    return parseCsvFile(file, options, onProgress);
+  }
+
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL("../workers/csvWorker.ts", import.meta.url), {
+      type: "module",
+    });
+
+    worker.onmessage = (event: MessageEvent<WorkerMessage>) => {
+      const message = event.data;
+      if (message.type === "progress") {
+        onProgress?.(message.progress);
+        return;
+      }
+
+      worker.terminate();
+      if (message.type === "result") {
+        resolve(message.result);
+      } else {
+        reject(new Error(message.error));
+      }
+    };
+
+    worker.onerror = (event) => {
+      worker.terminate();
+      reject(new Error(event.message || "CSV worker failed"));
+    };
+
+    worker.postMessage({ file, options });
+  });
+};
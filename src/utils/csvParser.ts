@@ -0,0 +1,295 @@
+// RFC 4180 CSV parsing that works on a file in chunks. Fields may be quoted,
+// contain delimiters, doubled quotes and line breaks; CRLF, LF and CR line
+// endings and a leading byte order mark are all accepted.
+export const CSV_DELIMITERS = [",", ";", "\t", "|"];
+
+// Bytes read before the delimiter is guessed
+const DETECTION_SAMPLE_BYTES = 64 * 1024;
+
+// Row errors kept for display; the rest are only counted
+const MAX_REPORTED_ERRORS = 100;
+
+export interface CsvRecord {
+  // Line of the file the record starts on (1-based)
+  line: number;
+  values: string[];
+  error?: string;
+}
+
+export interface CsvRowError {
+  line: number;
+  message: string;
+}
+
+export interface CsvParseOptions {
+  // Forced delimiter; detected from the start of the file when missing
+  delimiter?: string;
+  // Stop after the header row
+  headerOnly?: boolean;
+  // Record holding the column names (1-based); records above it are skipped
+  headerRow?: number;
+}
+
+export interface CsvParseResult {
+  headers: string[];
+  rows: Record<string, string | number>[];
+  delimiter: string;
+  errors: CsvRowError[];
+  errorCount: number;
+}
+
+export type CsvProgressCallback = (progress: number) => void;
+
+export interface CsvParser {
+  // Parse the next chunk of text; returns the records it completed
+  push: (text: string) => CsvRecord[];
+  // Flush the last record once the input has ended
+  finish: () => CsvRecord[];
+}
+
+export const createCsvParser = (delimiter: string): CsvParser => {
+  let field = "";
+  let record: string[] = [];
+  let fieldQuoted = false;
+  let inQuotes = false;
+  // A quote inside a quoted field is either an escaped quote or the closing one
+  let quotePending = false;
+  let skipLineFeed = false;
+  let started = false;
+  let line = 1;
+  let recordLine = 1;
+
+  const endField = () => {
+    record.push(field);
+    field = "";
+    fieldQuoted = false;
+  };
+
+  const endRecord = (records: CsvRecord[]) => {
+    const blank = record.length === 0 && field === "" && !fieldQuoted;
+    endField();
+    if (!blank) {
+      records.push({ line: recordLine, values: record });
+    }
+    record = [];
+  };
+
+  const push = (text: string): CsvRecord[] => {
+    const records: CsvRecord[] = [];
+    let start = 0;
+    if (!started) {
+      started = true;
+      if (text.charCodeAt(0) === 0xfeff) start = 1;
+    }
+
+    for (let i = start; i < text.length; i++) {
+      const ch = text[i];
+
+      if (skipLineFeed) {
+        skipLineFeed = false;
+        if (ch === "\n") continue;
+      }
+
+      if (quotePending) {
+        quotePending = false;
+        if (ch === '"') {
+          field += '"';
+          continue;
+        }
+        inQuotes = false;
+      }
+
+      if (inQuotes) {
+        if (ch === '"') {
+          quotePending = true;
+        } else {
+          if (ch === "\n") line++;
+          field += ch;
+        }
+        continue;
+      }
+
+      if (ch === delimiter) {
+        endField();
+      } else if (ch === "\n" || ch === "\r") {
+        endRecord(records);
+        line++;
+        recordLine = line;
+        skipLineFeed = ch === "\r";
+      } else if (ch === '"' && field === "" && !fieldQuoted) {
+        inQuotes = true;
+        fieldQuoted = true;
+      } else {
+        field += ch;
+      }
+    }
+
+    return records;
+  };
+
+  const finish = (): CsvRecord[] => {
+    const records: CsvRecord[] = [];
+    const unterminated = inQuotes && !quotePending;
+    endRecord(records);
+    if (unterminated && records.length > 0) {
+      records[0].error = "Quoted field is never closed";
+    }
+    inQuotes = false;
+    quotePending = false;
+    return records;
+  };
+
+  return { push, finish };
+};
+
+// Pick the delimiter that splits the sample into the most consistent columns
+export const detectDelimiter = (sample: string, complete = false): string => {
+  let best = ",";
+  let bestConsistency = 0;
+  let bestWidth = 1;
+
+  for (const delimiter of CSV_DELIMITERS) {
+    const parser = createCsvParser(delimiter);
+    const records = [...parser.push(sample), ...(complete ? parser.finish() : [])].slice(0, 50);
+    if (records.length === 0) continue;
+
+    const width = records[0].values.length;
+    if (width < 2) continue;
+
+    const consistency = records.filter(record => record.values.length === width).length / records.length;
+    if (consistency > bestConsistency || (consistency === bestConsistency && width > bestWidth)) {
+      best = delimiter;
+      bestConsistency = consistency;
+      bestWidth = width;
+    }
+  }
+
+  return best;
+};
+
+// Numbers become numbers; everything else stays text
+export const parseCsvValue = (value: string): string | number => {
+  const trimmed = value.trim();
+  if (trimmed === "") return trimmed;
+  const numValue = Number(trimmed);
+  return Number.isFinite(numValue) ? numValue : trimmed;
+};
+
+// Stream a CSV file through the parser. Rows whose field count does not match
+// the header are reported and skipped rather than loaded misaligned.
+export const parseCsvFile = async (
+  file: Blob,
+  options: CsvParseOptions = {},
+  onProgress?: CsvProgressCallback
+): Promise<CsvParseResult> => {
+  const reader = file.stream().getReader();
+  const decoder = new TextDecoder();
+
+  let parser: CsvParser | null = null;
+  let delimiter = options.delimiter ?? "";
+  let sample = "";
+  let bytesRead = 0;
+  let lastProgress = -1;
+  let headers: string[] | null = null;
+  let recordCount = 0;
+  const rows: Record<string, string | number>[] = [];
+  const errors: CsvRowError[] = [];
+  let errorCount = 0;
+
+  const reportError = (line: number, message: string) => {
+    errorCount++;
+    if (errors.length < MAX_REPORTED_ERRORS) {
+      errors.push({ line, message });
+    }
+  };
+
+  // Returns true once the caller has everything it asked for
+  const handleRecords = (records: CsvRecord[]): boolean => {
+    for (const record of records) {
+      recordCount++;
+      if (!headers && recordCount < (options.headerRow ?? 1)) continue;
+
+      if (record.error) {
+        reportError(record.line, record.error);
+        continue;
+      }
+
+      if (!headers) {
+        headers = record.values.map(header => header.trim());
+        if (options.headerOnly) return true;
+        continue;
+      }
+
+      if (record.values.length !== headers.length) {
+        reportError(record.line, `Expected ${headers.length} fields but found ${record.values.length}`);
+        continue;
+      }
+
+      const row: Record<string, string | number> = {};
+      for (let j = 0; j < headers.length; j++) {
+        row[headers[j]] = parseCsvValue(record.values[j]);
+      }
+      rows.push(row);
+    }
+    return false;
+  };
+
+  const startParser = (complete: boolean) => {
+    delimiter = delimiter || detectDelimiter(sample, complete);
+    parser = createCsvParser(delimiter);
+    const text = sample;
+    sample = "";
+    return handleRecords(parser.push(text));
+  };
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      bytesRead += value.byteLength;
+      const text = decoder.decode(value, { stream: true });
+
+      let satisfied = false;
+      if (parser) {
+        satisfied = handleRecords(parser.push(text));
+      } else {
+        sample += text;
+        if (delimiter || sample.length >= DETECTION_SAMPLE_BYTES) {
+          satisfied = startParser(false);
+        }
+      }
+
+      if (satisfied) {
+        await reader.cancel();
+        break;
+      }
+
+      const progress = Math.floor((bytesRead / Math.max(file.size, 1)) * 100);
+      if (progress !== lastProgress) {
+        lastProgress = progress;
+        onProgress?.(progress);
+      }
+    }
+
+    if (!headers || !options.headerOnly) {
+      const tail = decoder.decode();
+      if (!parser) {
+        sample += tail;
+        startParser(true);
+      } else if (tail) {
+        handleRecords(parser.push(tail));
+      }
+      handleRecords(parser.finish());
+    }
+  } finally {
+    reader.releaseLock();
+  }
+
+  if (!headers) {
+    throw new Error("CSV file is empty");
+  }
+
+  onProgress?.(100);
+  return { headers, rows, delimiter, errors, errorCount };
+};
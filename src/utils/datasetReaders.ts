@@ -0,0 +1,220 @@
+import * as XLSX from "xlsx";
+import { FeatureValue } from "@/utils/browserModels";
+import { loadCsvFile } from "@/utils/csvLoader";
+import { CsvProgressCallback, CsvRowError, parseCsvValue } from "@/utils/csvParser";
+
+export type DatasetFormat = "csv" | "tsv" | "json" | "ndjson" | "excel" | "parquet" | "arrow";
+
+const FORMAT_BY_EXTENSION: Record<string, DatasetFormat> = {
+  csv: "csv",
+  tsv: "tsv",
+  tab: "tsv",
+  json: "json",
+  ndjson: "ndjson",
+  jsonl: "ndjson",
+  xlsx: "excel",
+  xls: "excel",
+  parquet: "parquet",
+  arrow: "arrow",
+  feather: "arrow",
+  ipc: "arrow",
+};
+
+export const DATASET_EXTENSIONS = Object.keys(FORMAT_BY_EXTENSION);
+
+// Formats whose column names sit on a row the user can pick
+export const HEADER_ROW_FORMATS: DatasetFormat[] = ["csv", "tsv", "excel"];
+
+// Row errors kept for display, as for CSV
+const MAX_REPORTED_ERRORS = 100;
+
+export interface DatasetReadOptions {
+  // Worksheet of an Excel workbook; the first one by default
+  sheet?: string;
+  // Row holding the column names (1-based)
+  headerRow?: number;
+  // Only the column names are needed
+  headerOnly?: boolean;
+  delimiter?: string;
+}
+
+export interface DatasetReadResult {
+  headers: string[];
+  rows: Record<string, FeatureValue>[];
+  errors: CsvRowError[];
+  errorCount: number;
+  delimiter?: string;
+}
+
+export const detectDatasetFormat = (fileName: string): DatasetFormat | null => {
+  const extension = fileName.split(".").pop()?.toLowerCase() || "";
+  return FORMAT_BY_EXTENSION[extension] ?? null;
+};
+
+// Scalars from any reader as dataset values; numeric strings become numbers
+const toFeatureValue = (value: unknown): FeatureValue => {
+  if (value === null || value === undefined) return null;
+  if (typeof value === "string") return parseCsvValue(value);
+  if (typeof value === "number" || typeof value === "boolean") return value;
+  if (typeof value === "bigint") return Number(value);
+  if (value instanceof Date) return isNaN(value.getTime()) ? null : value.toISOString();
+  return JSON.stringify(value, (_, v) => typeof v === "bigint" ? Number(v) : v);
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === "object" && value !== null && !Array.isArray(value) &&
+    !(value instanceof Date) && !ArrayBuffer.isView(value);
+};
+
+// Nested objects become dotted column names: {a: {b: 1}} -> {"a.b": 1}
+export const flattenRecord = (
+  record: Record<string, unknown>,
+  prefix = "",
+  flat: Record<string, FeatureValue> = {}
+): Record<string, FeatureValue> => {
+  for (const [key, value] of Object.entries(record)) {
+    const name = prefix ? `${prefix}.${key}` : key;
+    // Arrow rows and structs convert themselves to plain objects
+    const plain = isPlainObject(value) && typeof value.toJSON === "function" ? value.toJSON() : value;
+    if (isPlainObject(plain) && Object.keys(plain).length > 0) {
+      flattenRecord(plain, name, flat);
+    } else {
+      flat[name] = toFeatureValue(plain);
+    }
+  }
+  return flat;
+};
+
+// Column names in the order they first appear across the rows
+const collectHeaders = (rows: Record<string, FeatureValue>[]): string[] => {
+  const headers = new Set<string>();
+  rows.forEach(row => Object.keys(row).forEach(key => headers.add(key)));
+  return Array.from(headers);
+};
+
+const fromRecords = (records: unknown[]): DatasetReadResult => {
+  const rows = records.map(record => flattenRecord(isPlainObject(record) ? record : { value: record }));
+  return { headers: collectHeaders(rows), rows, errors: [], errorCount: 0 };
+};
+
+// An array of records, an object wrapping one (e.g. {"data": [...]}), or a single record
+const readJson = async (file: File): Promise<DatasetReadResult> => {
+  const json = JSON.parse(await file.text());
+
+  if (Array.isArray(json)) return fromRecords(json);
+
+  if (isPlainObject(json)) {
+    const wrapped = Object.values(json).filter(value => Array.isArray(value) && value.some(isPlainObject));
+    return fromRecords(wrapped.length === 1 ? wrapped[0] as unknown[] : [json]);
+  }
+
+  throw new Error("JSON file must contain an object or an array of objects");
+};
+
+// One JSON value per line; lines that don't parse are reported and skipped
+const readNdjson = async (file: File): Promise<DatasetReadResult> => {
+  const records: unknown[] = [];
+  const errors: CsvRowError[] = [];
+  let errorCount = 0;
+
+  (await file.text()).split(/\r?\n/).forEach((line, i) => {
+    if (!line.trim()) return;
+    try {
+      records.push(JSON.parse(line));
+    } catch (error) {
+      errorCount++;
+      if (errors.length < MAX_REPORTED_ERRORS) {
+        errors.push({ line: i + 1, message: error instanceof Error ? error.message : "Invalid JSON" });
+      }
+    }
+  });
+
+  return { ...fromRecords(records), errors, errorCount };
+};
+
+export const listSheets = async (file: File): Promise<string[]> => {
+  const workbook = XLSX.read(new Uint8Array(await file.arrayBuffer()), { type: "array", bookSheets: true });
+  return workbook.SheetNames;
+};
+
+const readExcel = async (file: File, options: DatasetReadOptions): Promise<DatasetReadResult> => {
+  const workbook = XLSX.read(new Uint8Array(await file.arrayBuffer()), {
+    type: "array",
+    cellDates: true,
+    sheets: options.sheet,
+  });
+  const sheetName = options.sheet ?? workbook.SheetNames[0];
+  const worksheet = workbook.Sheets[sheetName];
+  if (!worksheet) {
+    throw new Error(`Sheet "${sheetName}" not found`);
+  }
+
+  const table = XLSX.utils.sheet_to_json<unknown[]>(worksheet, { header: 1, defval: null, blankrows: false });
+  const headerIndex = (options.headerRow ?? 1) - 1;
+  if (table.length <= headerIndex) {
+    throw new Error("Excel sheet has no data at the selected header row");
+  }
+
+  // Blank header cells still need a name
+  const headers = table[headerIndex].map((cell, i) => {
+    const name = cell === null ? "" : String(cell).trim();
+    return name || `column_${i + 1}`;
+  });
+  if (headers.length === 0) {
+    throw new Error("Excel sheet has no columns");
+  }
+
+  const rows = options.headerOnly ? [] : table.slice(headerIndex + 1).map(cells => {
+    const row: Record<string, FeatureValue> = {};
+    headers.forEach((header, i) => {
+      row[header] = toFeatureValue(cells[i]);
+    });
+    return row;
+  });
+
+  return { headers, rows, errors: [], errorCount: 0 };
+};
+
+const readParquet = async (file: File): Promise<DatasetReadResult> => {
+  const [{ parquetReadObjects }, { compressors }] = await Promise.all([
+    import("hyparquet"),
+    import("hyparquet-compressors"),
+  ]);
+  const records = await parquetReadObjects({ file: await file.arrayBuffer(), compressors });
+  return fromRecords(records);
+};
+
+// Arrow IPC files and streams; Feather v2 files are Arrow IPC files
+const readArrow = async (file: File): Promise<DatasetReadResult> => {
+  const { tableFromIPC } = await import("apache-arrow");
+  const table = tableFromIPC(new Uint8Array(await file.arrayBuffer()));
+  return fromRecords(table.toArray().map(row => row.toJSON()));
+};
+
+// Read any supported dataset file into rows keyed by column name
+export const readDataset = async (
+  file: File,
+  format: DatasetFormat,
+  options: DatasetReadOptions = {},
+  onProgress?: CsvProgressCallback
+): Promise<DatasetReadResult> => {
+  switch (format) {
+    case "csv":
+    case "tsv":
+      return loadCsvFile(file, {
+        delimiter: format === "tsv" ? "\t" : options.delimiter,
+        headerOnly: options.headerOnly,
+        headerRow: options.headerRow,
+      }, onProgress);
+    case "json":
+      return readJson(file);
+    case "ndjson":
+      return readNdjson(file);
+    case "excel":
+      return readExcel(file, options);
+    case "parquet":
+      return readParquet(file);
+    case "arrow":
+      return readArrow(file);
+  }
+};
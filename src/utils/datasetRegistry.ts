@@ -0,0 +1,213 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Json } from "@/integrations/supabase/types";
+import { FeatureValue } from "@/utils/browserModels";
+import { DatasetFormat, DatasetReadOptions, readDataset } from "@/utils/datasetReaders";
+import { DatasetSchema } from "@/utils/schema";
+
+const DATASET_BUCKET = "datasets";
+
+// The file a dataset was read from and how it was read
+export interface DatasetUpload {
+  file: File;
+  format: DatasetFormat;
+  options: DatasetReadOptions;
+}
+
+export interface DatasetVersion {
+  id: string;
+  datasetId: string;
+  datasetName: string;
+  version: number;
+  fileName: string;
+  filePath: string;
+  format: DatasetFormat;
+  readOptions: DatasetReadOptions;
+  contentHash: string;
+  rowCount: number;
+  columnCount: number;
+  schema: DatasetSchema;
+  target: string;
+  features: string[];
+  created: Date;
+}
+
+export interface DatasetEntry {
+  id: string;
+  name: string;
+  created: Date;
+  // Newest first
+  versions: DatasetVersion[];
+}
+
+export interface DatasetVersionInput {
+  name: string;
+  upload: DatasetUpload;
+  schema: DatasetSchema;
+  rowCount: number;
+  target: string;
+  features: string[];
+}
+
+type DatasetVersionRow = {
+  id: string;
+  dataset_id: string;
+  version: number;
+  file_name: string;
+  file_path: string;
+  fingerprint: string;
+  format: string;
+  read_options: Json;
+  content_hash: string;
+  row_count: number;
+  column_count: number;
+  schema: Json;
+  target: string;
+  features: Json;
+  created_at: string;
+};
+
+const toDatasetVersion = (row: DatasetVersionRow, datasetName: string): DatasetVersion => ({
+  id: row.id,
+  datasetId: row.dataset_id,
+  datasetName,
+  version: row.version,
+  fileName: row.file_name,
+  filePath: row.file_path,
+  format: row.format as DatasetFormat,
+  readOptions: (row.read_options ?? {}) as DatasetReadOptions,
+  contentHash: row.content_hash,
+  rowCount: row.row_count,
+  columnCount: row.column_count,
+  schema: row.schema as unknown as DatasetSchema,
+  target: row.target,
+  features: row.features as string[],
+  created: new Date(row.created_at),
+});
+
+const sha256Hex = async (data: BufferSource): Promise<string> => {
+  const digest = await crypto.subtle.digest("SHA-256", data);
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, "0")).join("");
+};
+
+// SHA-256 of the file contents, hex encoded
+export const hashFile = async (file: Blob): Promise<string> => {
+  return sha256Hex(await file.arrayBuffer());
+};
+
+// Identifies a version by everything that shapes the rows it yields: the file, how it
+// was read, the schema applied to it and the chosen target and features. The same file
+// read with another sheet, header row or schema is a new version.
+const versionFingerprint = async (
+  contentHash: string,
+  readOptions: Json,
+  schema: DatasetSchema,
+  target: string,
+  features: string[]
+): Promise<string> => {
+  const key = JSON.stringify({ contentHash, readOptions, schema, target, features });
+  return sha256Hex(new TextEncoder().encode(key));
+};
+
+const findOrCreateDataset = async (name: string): Promise<string> => {
+  const { data: existing, error: selectError } = await supabase
+    .from("datasets")
+    .select("id")
+    .eq("name", name)
+    .maybeSingle();
+  if (selectError) throw selectError;
+  if (existing) return existing.id;
+
+  const { data, error } = await supabase
+    .from("datasets")
+    .insert({ name })
+    .select("id")
+    .single();
+  if (error) throw error;
+  return data.id;
+};
+
+// Store an uploaded file as the next version of the dataset with this name.
+// Registering the same file, read and typed the same way, returns the existing version.
+export const registerDatasetVersion = async (input: DatasetVersionInput): Promise<DatasetVersion> => {
+  const { name, upload, schema, rowCount, target, features } = input;
+  const contentHash = await hashFile(upload.file);
+  const readOptions = { sheet: upload.options.sheet ?? null, headerRow: upload.options.headerRow ?? 1 };
+  const fingerprint = await versionFingerprint(contentHash, readOptions, schema, target, features);
+  const datasetId = await findOrCreateDataset(name);
+
+  const { data: versions, error: versionsError } = await supabase
+    .from("dataset_versions")
+    .select("*")
+    .eq("dataset_id", datasetId)
+    .order("version", { ascending: false });
+  if (versionsError) throw versionsError;
+
+  const duplicate = versions.find(version => version.fingerprint === fingerprint);
+  if (duplicate) return toDatasetVersion(duplicate, name);
+
+  const version = (versions[0]?.version ?? 0) + 1;
+  const filePath = `${datasetId}/${version}/${upload.file.name}`;
+
+  const { error: uploadError } = await supabase.storage
+    .from(DATASET_BUCKET)
+    .upload(filePath, upload.file, { upsert: false });
+  if (uploadError) throw uploadError;
+
+  const { data, error } = await supabase
+    .from("dataset_versions")
+    .insert({
+      dataset_id: datasetId,
+      version,
+      file_name: upload.file.name,
+      file_path: filePath,
+      format: upload.format,
+      read_options: readOptions,
+      content_hash: contentHash,
+      fingerprint,
+      row_count: rowCount,
+      column_count: schema.length,
+      schema: schema as unknown as Json,
+      target,
+      features,
+    })
+    .select()
+    .single();
+  if (error) {
+    // Don't leave a file behind that no version points to
+    const { error: removeError } = await supabase.storage.from(DATASET_BUCKET).remove([filePath]);
+    if (removeError) console.error("Error removing unregistered dataset file:", removeError);
+    throw error;
+  }
+
+  return toDatasetVersion(data, name);
+};
+
+export const listDatasets = async (): Promise<DatasetEntry[]> => {
+  const { data, error } = await supabase
+    .from("datasets")
+    .select("*, dataset_versions(*)")
+    .order("created_at", { ascending: false });
+  if (error) throw error;
+
+  return data.map(dataset => ({
+    id: dataset.id,
+    name: dataset.name,
+    created: new Date(dataset.created_at),
+    versions: (dataset.dataset_versions as DatasetVersionRow[])
+      .map(row => toDatasetVersion(row, dataset.name))
+      .sort((a, b) => b.version - a.version),
+  }));
+};
+
+// Download a stored version and read it again the way it was first read
+export const loadDatasetVersion = async (version: DatasetVersion): Promise<Record<string, FeatureValue>[]> => {
+  const { data, error } = await supabase.storage.from(DATASET_BUCKET).download(version.filePath);
+  if (error) throw error;
+
+  const file = new File([data], version.fileName);
+  const { rows } = await readDataset(file, version.format, {
+    sheet: version.readOptions.sheet ?? undefined,
+    headerRow: version.readOptions.headerRow,
+  });
+  return rows;
+};
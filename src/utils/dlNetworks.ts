@@ -1,10 +1,18 @@
 import { Algorithm, ActivationFunction, NeuralNetworkLayer } from "@/context/ModelContext";
+import { createRandom, FeatureValue } from "@/utils/browserModels";
+import { trainInBrowser } from "@/utils/browserTraining";
+import { IMAGE_FEATURE, IMAGE_TARGET, ImageDataset, ImageInputConfig, imageRows } from "@/utils/imageDatasets";
+import { DEFAULT_PREPROCESSING_CONFIG, PreprocessingInput, preparePreprocessing } from "@/utils/preprocessing";
+import { DEFAULT_SAMPLING_OPTIONS, sampleDataset } from "@/utils/sampling";
+import { DataSplit, DEFAULT_SPLIT_SPEC, resolveSplit, shuffleIndices } from "@/utils/splitting";
+import { submitTrainingJob, TrainingJobCancelledError, TrainingJobListener, waitForTrainingJob } from "@/utils/trainingJobs";
 
 interface NeuralNetworkResult {
   algorithm: Algorithm;
   accuracy: number;
   parameters: Record<string, any>;
   neuralNetworkArchitecture: NeuralNetworkLayer[];
+  modelData?: string;
 }
 
 type ProblemType = "regression" | "classification" | "multiclass";
@@ -28,13 +36,8 @@ const detectProblemType = (target: any[]): ProblemType => {
   // Check if target values are all numbers in a continuous range
   const isNumeric = target.every(val => typeof val === 'number' || !isNaN(Number(val)));
   if (isNumeric) {
-    // For large datasets, sample a subset to determine unique values
-    const sampleSize = target.length > 10000 ? 1000 : target.length;
-    const sampledTarget = target.length > 10000 
-      ? target.filter((_, i) => i % Math.ceil(target.length / sampleSize) === 0)
-      : target;
-    
-    const uniqueValues = new Set(sampledTarget);
+    // Count distinct values over every row; a sample could miss rare classes
+    const uniqueValues = new Set(target);
     // If there are only a few unique values, it's likely classification
     if (uniqueValues.size <= 5) {
       return uniqueValues.size === 2 ? "classification" : "multiclass";
@@ -47,15 +50,13 @@ const detectProblemType = (target: any[]): ProblemType => {
 
 // Function to prepare data for training - with optimizations for large datasets
 const prepareTrainingData = (data: any[], features: string[], target: string) => {
-  const isLargeDataset = data.length > 10000;
+  const isLargeDataset = data.length > DEFAULT_SAMPLING_OPTIONS.rowBudget;
   
-  // For large datasets, use sampling
-  const sampledData = isLargeDataset
-    ? data.filter((_, i) => i % Math.ceil(data.length / 10000) === 0)
-    : data;
+  // For large datasets, train on a stratified sample
+  const sampledData = sampleDataset(data, target).data;
   
-  // Shuffle the data
-  const shuffled = [...sampledData].sort(() => 0.5 - Math.random());
+  // Shuffle the data with the default seed so repeated runs see the same split
+  const shuffled = shuffleIndices(sampledData.length, createRandom(DEFAULT_SPLIT_SPEC.seed)).map(i => sampledData[i]);
   
   return {
     processedData: shuffled,
@@ -65,8 +66,8 @@ const prepareTrainingData = (data: any[], features: string[], target: string) =>
   };
 };
 
-// Function to simulate training a neural network with large dataset optimizations
-export const trainNeuralNetwork = (
+// Function to train a neural network with large dataset optimizations
+export const trainNeuralNetwork = async (
   data: any[],
   features: string[],
   target: string,
@@ -75,16 +76,47 @@ export const trainNeuralNetwork = (
     { neurons: 32, activation: "ReLU", dropout: 0.1 }
   ],
   epochs = 100,
-  learningRate = 0.001
+  learningRate = 0.001,
+  preprocessing: PreprocessingInput = DEFAULT_PREPROCESSING_CONFIG,
+  split?: DataSplit,
+  onJobUpdate?: TrainingJobListener,
+  datasetName?: string
 ): Promise<NeuralNetworkResult> => {
   // Check if we should use real training
   const useRealTraining = true; // TODO: Make this configurable
   
-  if (useRealTraining) {
-    return trainNeuralNetworkWithBackend(data, features, target, architecture, epochs, learningRate);
-  } else {
-    return simulateNeuralNetworkTraining(data, features, target, architecture, epochs, learningRate);
-  }
+  // Never let the target leak into the inputs
+  features = features.filter(f => f !== target);
+  
+  // Without an explicit split, resolve the default spec here so the backend never
+  // falls back to a split of its own and the run can be repeated
+  split = split ?? resolveSplit(data, target);
+  
+  // Fit (or reuse) the preprocessing pipeline; it is stored with the model for prediction.
+  // With a fixed split the pipeline only sees the training rows.
+  const { pipeline, data: preparedData, split: preparedSplit } =
+    preparePreprocessing(data, features, target, preprocessing, split);
+  const modelFeatures = pipeline.outputFeatures;
+  
+  const result = useRealTraining
+    ? await trainNeuralNetworkWithBackend(preparedData, modelFeatures, target, architecture, epochs, learningRate, preparedSplit, onJobUpdate, datasetName)
+    : await trainNeuralNetworkInBrowser(preparedData, modelFeatures, target, architecture, epochs, learningRate, preparedSplit);
+  
+  return {
+    ...result,
+    parameters: {
+      ...result.parameters,
+      preprocessing: pipeline,
+      availableFeatures: features
+    }
+  };
+};
+
+// Convert a simple number array to ReLU layers without dropout, the same for every run
+const normalizeArchitecture = (architecture: NeuralNetworkLayer[] | number[]): NeuralNetworkLayer[] => {
+  return Array.isArray(architecture) && typeof architecture[0] === 'number'
+    ? (architecture as number[]).map(neurons => ({ neurons, activation: "ReLU" }))
+    : (architecture as NeuralNetworkLayer[]);
 };
 
 // Function to train neural networks using the backend service
@@ -94,53 +126,35 @@ const trainNeuralNetworkWithBackend = async (
   target: string,
   architecture: NeuralNetworkLayer[] | number[],
   epochs: number,
-  learningRate: number
+  learningRate: number,
+  split?: DataSplit,
+  onJobUpdate?: TrainingJobListener,
+  datasetName?: string
 ): Promise<NeuralNetworkResult> => {
   try {
     console.log("Training neural network using backend function");
     
-    // Convert simple number array to layer objects if needed
-    const normalizedArchitecture: NeuralNetworkLayer[] = Array.isArray(architecture) && typeof architecture[0] === 'number'
-      ? (architecture as number[]).map(neurons => ({ 
-          neurons, 
-          activation: "ReLU",
-          dropout: Math.random() < 0.5 ? undefined : Math.random() * 0.5 
-        }))
-      : (architecture as NeuralNetworkLayer[]);
+    const normalizedArchitecture = normalizeArchitecture(architecture);
     
     // Create temporary model entry to get an ID
     const tempModelResult = await createTemporaryModel(target);
     const modelId = tempModelResult.id;
     
-    // Call the Supabase Edge Function to train the model
-    const response = await fetch(
-      "https://uysdqwhyhqhamwvzsolw.supabase.co/functions/v1/train-model", 
-      {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          "Authorization": `Bearer ${import.meta.env.VITE_SUPABASE_ANON_KEY || ''}`
-        },
-        body: JSON.stringify({
-          data,
-          features,
-          target,
-          algorithm: "Neural Network",
-          modelId,
-          datasetName: "dataset", // TODO: Pass actual dataset name
-          neuralNetworkArchitecture: normalizedArchitecture,
-          epochs,
-          learningRate
-        })
-      }
-    );
-
-    if (!response.ok) {
-      const errorData = await response.json();
-      throw new Error(`Neural network training failed: ${errorData.error || 'Unknown error'}`);
-    }
-
-    const result = await response.json();
+    // Queue the training job; it checkpoints every epoch so it can be paused and resumed
+    const jobId = await submitTrainingJob({
+      data,
+      features,
+      target,
+      algorithm: "Neural Network",
+      modelId,
+      datasetName,
+      neuralNetworkArchitecture: normalizedArchitecture,
+      epochs,
+      learningRate,
+      preprocessed: true,
+      split
+    });
+    const { result } = await waitForTrainingJob(jobId, onJobUpdate);
     
     return {
       algorithm: "Neural Network",
@@ -154,17 +168,29 @@ const trainNeuralNetworkWithBackend = async (
         originalDataSize: data.length,
         trainingDataSize: Math.min(10000, data.length),
         batchSize: data.length > 10000 ? 128 : 32,
+        metrics: result.metrics,
+        feature_importance: result.feature_importance,
+        confusion_matrix: result.confusion_matrix,
         usedRealTraining: true,
-        trainingMethod: "edge-function"
+        trainingMethod: "edge-function",
+        trainingJobId: jobId,
+        history: result.history ?? [],
+        framework: result.framework ?? null
       },
       neuralNetworkArchitecture: normalizedArchitecture,
+      modelData: result.model,
     };
   } catch (error) {
     console.error("Error training neural network with backend:", error);
     
+    // A cancelled job stays cancelled
+    if (error instanceof TrainingJobCancelledError) {
+      throw error;
+    }
+    
     // Fall back to simulation if backend training fails
     console.log("Falling back to simulated neural network training");
-    return simulateNeuralNetworkTraining(data, features, target, architecture, epochs, learningRate);
+    return trainNeuralNetworkInBrowser(data, features, target, architecture, epochs, learningRate, split);
   }
 };
 
@@ -177,27 +203,19 @@ const createTemporaryModel = async (target: string) => {
   return { id: `temp-${Date.now()}` };
 };
 
-// Function to simulate training a neural network with large dataset optimizations
-const simulateNeuralNetworkTraining = (
+// Function to train a neural network client-side with large dataset optimizations
+const trainNeuralNetworkInBrowser = async (
   data: any[],
   features: string[],
   target: string,
   architecture: NeuralNetworkLayer[] | number[],
   epochs: number,
-  learningRate: number
+  learningRate: number,
+  split?: DataSplit
 ): Promise<NeuralNetworkResult> => {
-  // In a real implementation, this would use actual DL libraries
-  // Optimize for large datasets
   const isLargeDataset = data.length > 10000;
   
-  // Convert simple number array to layer objects if needed
-  const normalizedArchitecture: NeuralNetworkLayer[] = Array.isArray(architecture) && typeof architecture[0] === 'number'
-    ? (architecture as number[]).map(neurons => ({ 
-        neurons, 
-        activation: "ReLU",
-        dropout: Math.random() < 0.5 ? undefined : Math.random() * 0.5 
-      }))
-    : (architecture as NeuralNetworkLayer[]);
+  const normalizedArchitecture = normalizeArchitecture(architecture);
 
   // For large datasets, reduce the architecture complexity if it's too large
   const optimizedArchitecture = isLargeDataset && normalizedArchitecture.length > 3
@@ -205,83 +223,146 @@ const simulateNeuralNetworkTraining = (
     : normalizedArchitecture;
   
   // Prepare data - using sampling for large datasets
-  const { processedData, isReduced, originalSize, sampledSize } = prepareTrainingData(data, features, target);
-  
-  const problemType = detectProblemType(processedData.map(d => d[target]));
+  const { processedData, isReduced, originalSize, sampledSize } = split
+    ? { processedData: data, isReduced: false, originalSize: data.length, sampledSize: data.length }
+    : prepareTrainingData(data, features, target);
   
   // Adjusted epochs for large datasets
   const effectiveEpochs = isLargeDataset ? Math.min(50, epochs) : epochs;
 
-  return new Promise((resolve) => {
-    // Simulate processing time - longer for larger datasets
-    const processingTime = isLargeDataset 
-      ? 3000 + Math.random() * 4000 
-      : 2000 + Math.random() * 3000;
-    
-    if (isLargeDataset) {
-      console.log(`Processing large dataset for neural network. Original size: ${originalSize}, sampled: ${sampledSize}`);
-      console.log(`Using optimized architecture with ${optimizedArchitecture.length} layers`);
-    }
-    
-    setTimeout(() => {
-      // Base accuracy related to architecture complexity
-      const complexityFactor = optimizedArchitecture.reduce((sum, layer) => sum + layer.neurons, 0) / 100;
-      
-      // More complex models do better on more complex problems
-      const featureComplexity = Math.min(1, features.length / 20);
-      const dataSize = Math.min(1, processedData.length / 1000);
-      
-      // Calculate base accuracy with multiple factors
-      const baseAccuracy = 0.80 + 
-        Math.min(0.15, complexityFactor * 0.1) + 
-        Math.min(0.05, featureComplexity * 0.1) +
-        Math.min(0.05, dataSize * 0.1) +
-        Math.random() * 0.05;
-      
-      // Add a penalty for over-complex architectures on simple problems
-      const overComplexityPenalty = 
-        complexityFactor > 2 && features.length < 10 ? 
-        Math.random() * 0.1 : 0;
-      
-      // For large datasets with reduced epochs, add small penalty
-      const largeDatasetPenalty = isLargeDataset ? Math.random() * 0.05 : 0;
-      
-      // Final accuracy calculation
-      const finalAccuracy = Math.min(0.98, Math.max(0.6, baseAccuracy - overComplexityPenalty - largeDatasetPenalty));
-      
-      resolve({
-        algorithm: "Neural Network",
-        accuracy: Number(finalAccuracy.toFixed(4)),
-        parameters: { 
-          epochs: effectiveEpochs, 
-          learningRate,
-          problemType,
-          optimizer: "Adam",
-          usedDataReduction: isReduced,
-          originalDataSize: originalSize,
-          trainingDataSize: sampledSize,
-          batchSize: isLargeDataset ? 128 : 32, // Larger batch size for large datasets
-        },
-        neuralNetworkArchitecture: [
-          ...optimizedArchitecture,
-          // Add output layer based on problem type
-          { 
-            neurons: problemType === "multiclass" ? 
-              Math.max(3, new Set(processedData.map(d => d[target])).size) : 1, 
-            activation: getOutputActivation(problemType),
-            dropout: 0
-          }
-        ],
-      });
-    }, processingTime);
+  // A fixed split picks the rows; otherwise hold out 20% of the (already shuffled) rows
+  const trainCount = processedData.length - Math.round(processedData.length * 0.2);
+  const trainRows: Record<string, FeatureValue>[] = split
+    ? split.trainIndices.map(i => processedData[i])
+    : processedData.slice(0, trainCount);
+  const testRows: Record<string, FeatureValue>[] = split
+    ? split.testIndices.map(i => processedData[i])
+    : processedData.slice(trainCount);
+
+  const result = await trainInBrowser({
+    algorithm: "Neural Network",
+    features,
+    trainFeatures: trainRows.map(row => features.map(f => row[f])),
+    trainTarget: trainRows.map(row => row[target]),
+    testFeatures: testRows.map(row => features.map(f => row[f])),
+    testTarget: testRows.map(row => row[target]),
+    architecture: optimizedArchitecture,
+    epochs: effectiveEpochs,
+    learningRate,
+  });
+
+  const classCount = result.classNames?.length ?? 0;
+  const problemType: ProblemType = result.problemType === "regression"
+    ? "regression"
+    : classCount > 2 ? "multiclass" : "classification";
+
+  return {
+    algorithm: "Neural Network",
+    accuracy: Number(result.accuracy.toFixed(4)),
+    parameters: { 
+      epochs: effectiveEpochs, 
+      learningRate,
+      problemType,
+      optimizer: "Adam",
+      usedDataReduction: isReduced,
+      originalDataSize: originalSize,
+      trainingDataSize: sampledSize,
+      batchSize: 32,
+      metrics: result.metrics,
+      feature_importance: result.featureImportance,
+      confusion_matrix: result.confusionMatrix,
+      class_names: result.classNames,
+      usedRealTraining: true,
+      trainingMethod: "browser"
+    },
+    neuralNetworkArchitecture: [
+      ...optimizedArchitecture,
+      // Add output layer based on problem type
+      { 
+        neurons: problemType === "multiclass" ? classCount : 1, 
+        activation: getOutputActivation(problemType),
+        dropout: 0
+      }
+    ],
+    modelData: JSON.stringify(result.model),
+  };
+};
+
+// Small convolutional network for image classification
+export const DEFAULT_CNN_ARCHITECTURE: NeuralNetworkLayer[] = [
+  { type: "Conv2D", neurons: 32, kernelSize: 3, activation: "ReLU" },
+  { type: "MaxPooling2D", neurons: 0, poolSize: 2, activation: "Linear" },
+  { type: "Conv2D", neurons: 64, kernelSize: 3, activation: "ReLU" },
+  { type: "MaxPooling2D", neurons: 0, poolSize: 2, activation: "Linear" },
+  { type: "BatchNormalization", neurons: 0, activation: "Linear" },
+  { type: "Flatten", neurons: 0, activation: "Linear" },
+  { neurons: 64, activation: "ReLU", dropout: 0.3 }
+];
+
+// Train a network on a folder-labelled image dataset. Convolutions need the
+// backend (TensorFlow), so there is no in-browser fallback.
+export const trainImageClassifier = async (
+  dataset: ImageDataset,
+  input: ImageInputConfig,
+  architecture: NeuralNetworkLayer[] = DEFAULT_CNN_ARCHITECTURE,
+  epochs = 30,
+  learningRate = 0.001,
+  split?: DataSplit,
+  onJobUpdate?: TrainingJobListener
+): Promise<NeuralNetworkResult> => {
+  const data = imageRows(dataset);
+  const { id: modelId } = await createTemporaryModel(IMAGE_TARGET);
+  
+  const jobId = await submitTrainingJob({
+    data,
+    features: [IMAGE_FEATURE],
+    target: IMAGE_TARGET,
+    algorithm: "Neural Network",
+    modelId,
+    datasetName: dataset.name,
+    neuralNetworkArchitecture: architecture,
+    epochs,
+    learningRate,
+    preprocessed: true,
+    split: split ?? resolveSplit(data, IMAGE_TARGET),
+    image: input
   });
+  const { result } = await waitForTrainingJob(jobId, onJobUpdate);
+  
+  return {
+    algorithm: "Neural Network",
+    accuracy: result.accuracy,
+    parameters: {
+      epochs,
+      learningRate,
+      problemType: dataset.classNames.length > 2 ? "multiclass" : "classification",
+      optimizer: "Adam",
+      originalDataSize: data.length,
+      trainingDataSize: split?.trainIndices.length ?? data.length,
+      metrics: result.metrics,
+      confusion_matrix: result.confusion_matrix,
+      class_names: dataset.classNames,
+      image: input,
+      usedRealTraining: true,
+      trainingMethod: "edge-function",
+      trainingJobId: jobId,
+      history: result.history ?? [],
+      framework: result.framework ?? null
+    },
+    neuralNetworkArchitecture: architecture,
+    modelData: result.model,
+  };
 };
 
 // Function to optimize neural network architecture with large dataset awareness
 export const optimizeNeuralNetwork = async (
   data: any[],
   features: string[],
-  target: string
+  target: string,
+  preprocessing: PreprocessingInput = DEFAULT_PREPROCESSING_CONFIG,
+  split?: DataSplit,
+  onJobUpdate?: TrainingJobListener,
+  datasetName?: string
 ): Promise<NeuralNetworkResult> => {
   const isLargeDataset = data.length > 10000;
   const dataSize = data.length;
@@ -341,7 +422,7 @@ export const optimizeNeuralNetwork = async (
   if (isLargeDataset && data.length > 50000) {
     // Very limited search for extremely large datasets
     trainingPromises.push(
-      trainNeuralNetwork(data, features, target, architectures[0], 50, 0.001)
+      trainNeuralNetwork(data, features, target, architectures[0], 50, 0.001, preprocessing, split, onJobUpdate, datasetName)
     );
   } else {
     // Train networks with different architectures and learning rates
@@ -350,7 +431,7 @@ export const optimizeNeuralNetwork = async (
         // Reduce epochs for large datasets
         const epochs = isLargeDataset ? 50 : 100;
         trainingPromises.push(
-          trainNeuralNetwork(data, features, target, architecture, epochs, lr)
+          trainNeuralNetwork(data, features, target, architecture, epochs, lr, preprocessing, split, onJobUpdate, datasetName)
         );
       }
     }
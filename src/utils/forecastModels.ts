@@ -0,0 +1,602 @@
+import { createRandom, solveLinearSystem } from "@/utils/browserModels";
+import { shuffleIndices } from "@/utils/splitting";
+
+export type ForecastAlgorithm = "ARIMA" | "ETS" | "Lag Gradient Boosting" | "LSTM";
+
+export const FORECAST_ALGORITHMS: ForecastAlgorithm[] = ["ARIMA", "ETS", "Lag Gradient Boosting", "LSTM"];
+
+export type ForecastFrequency = "hourly" | "daily" | "weekly" | "monthly";
+
+export interface ForecastModelOptions {
+  // Steps in one seasonal cycle (e.g. 7 for daily data with a weekly pattern)
+  seasonLength: number;
+  frequency: ForecastFrequency;
+  seed: number;
+  onProgress?: (progress: number) => void;
+}
+
+interface EtsState {
+  kind: "ets";
+  level: number;
+  trend: number;
+  // Seasonal offsets, starting with the step right after the training data
+  seasonals: number[];
+  phi: number;
+}
+
+interface ArimaState {
+  kind: "arima";
+  d: number;
+  mean: number;
+  ar: number[];
+  ma: number[];
+  // Most recent differenced values and residuals, newest last
+  history: number[];
+  residuals: number[];
+  // Last value at each differencing level, used to undo the differencing
+  lastLevels: number[];
+}
+
+interface TreeNode {
+  value?: number;
+  feature?: number;
+  threshold?: number;
+  left?: TreeNode;
+  right?: TreeNode;
+}
+
+interface LagBoostState {
+  kind: "lagBoost";
+  lags: number;
+  base: number;
+  learningRate: number;
+  trees: TreeNode[];
+  // Last `lags` values of the series, oldest first
+  window: number[];
+  frequency: ForecastFrequency;
+}
+
+interface LstmState {
+  kind: "lstm";
+  hidden: number;
+  // Gate weights [4 * hidden][1 + hidden + 1] (input, recurrent, bias); gates ordered i, f, g, o
+  gates: number[][];
+  output: number[];
+  outputBias: number;
+  mean: number;
+  std: number;
+  window: number[];
+}
+
+export type FittedForecaster = EtsState | ArimaState | LagBoostState | LstmState;
+
+const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / Math.max(values.length, 1);
+
+const variance = (values: number[]) => {
+  const m = mean(values);
+  return values.reduce((sum, v) => sum + (v - m) ** 2, 0) / Math.max(values.length, 1);
+};
+
+const difference = (values: number[]) => values.slice(1).map((v, i) => v - values[i]);
+
+// Least squares with a small ridge term so collinear lags stay solvable
+const leastSquares = (X: number[][], y: number[]): number[] => {
+  const d = X[0]?.length ?? 0;
+  const xtx = Array.from({ length: d }, () => new Array(d).fill(0));
+  const xty = new Array(d).fill(0);
+  X.forEach((row, i) => {
+    for (let a = 0; a < d; a++) {
+      xty[a] += row[a] * y[i];
+      for (let b = 0; b < d; b++) xtx[a][b] += row[a] * row[b];
+    }
+  });
+  for (let a = 0; a < d; a++) xtx[a][a] += 1e-6;
+  return solveLinearSystem(xtx, xty);
+};
+
+// ---------------------------------------------------------------------------
+// Exponential smoothing (additive Holt-Winters with a damped trend)
+// ---------------------------------------------------------------------------
+
+const ALPHAS = [0.1, 0.2, 0.3, 0.5, 0.7, 0.9];
+const BETAS = [0, 0.05, 0.1, 0.2];
+const GAMMAS = [0, 0.05, 0.1, 0.3];
+const PHIS = [0.9, 0.98, 1];
+
+const runEts = (
+  values: number[],
+  m: number,
+  alpha: number,
+  beta: number,
+  gamma: number,
+  phi: number
+): { sse: number; state: EtsState } => {
+  const seasonal = m > 1;
+  const first = values.slice(0, seasonal ? m : 1);
+  let level = mean(first);
+  let trend = seasonal && values.length >= 2 * m
+    ? (mean(values.slice(m, 2 * m)) - level) / m
+    : (values[1] ?? values[0]) - values[0];
+  const seasonals = seasonal ? first.map(v => v - level) : [0];
+  let sse = 0;
+
+  values.forEach((value, t) => {
+    const s = seasonals[t % seasonals.length];
+    const prediction = level + phi * trend + s;
+    sse += (value - prediction) ** 2;
+    const previousLevel = level;
+    level = alpha * (value - s) + (1 - alpha) * (level + phi * trend);
+    trend = beta * (level - previousLevel) + (1 - beta) * phi * trend;
+    if (seasonal) seasonals[t % m] = gamma * (value - level) + (1 - gamma) * s;
+  });
+
+  const offset = values.length % seasonals.length;
+  return {
+    sse,
+    state: {
+      kind: "ets",
+      level,
+      trend,
+      seasonals: [...seasonals.slice(offset), ...seasonals.slice(0, offset)],
+      phi,
+    },
+  };
+};
+
+// Grid search of the smoothing weights by one-step-ahead squared error
+const fitEts = (values: number[], options: ForecastModelOptions): EtsState => {
+  const m = options.seasonLength > 1 && values.length >= 2 * options.seasonLength ? options.seasonLength : 1;
+  let best: { sse: number; state: EtsState } | null = null;
+  for (const alpha of ALPHAS) {
+    for (const beta of BETAS) {
+      for (const gamma of m > 1 ? GAMMAS : [0]) {
+        for (const phi of PHIS) {
+          const run = runEts(values, m, alpha, beta, gamma, phi);
+          if (!best || run.sse < best.sse) best = run;
+        }
+      }
+    }
+  }
+  return best!.state;
+};
+
+const forecastEts = (state: EtsState, horizon: number): number[] => {
+  const forecasts: number[] = [];
+  let damped = 0;
+  for (let h = 1; h <= horizon; h++) {
+    damped += state.phi ** h;
+    forecasts.push(state.level + damped * state.trend + state.seasonals[(h - 1) % state.seasonals.length]);
+  }
+  return forecasts;
+};
+
+// ---------------------------------------------------------------------------
+// ARIMA(p, d, q) estimated with the Hannan-Rissanen two-stage regression
+// ---------------------------------------------------------------------------
+
+const MAX_AR = 3;
+const MAX_MA = 2;
+
+// Difference while it keeps lowering the variance (at most twice)
+const chooseDifferencing = (values: number[]): number => {
+  let d = 0;
+  let current = values;
+  while (d < 2 && current.length > 10) {
+    const next = difference(current);
+    if (variance(next) >= variance(current)) break;
+    current = next;
+    d++;
+  }
+  return d;
+};
+
+const fitArima = (values: number[]): ArimaState => {
+  const d = chooseDifferencing(values);
+  const lastLevels: number[] = [];
+  let w = values;
+  for (let i = 0; i < d; i++) {
+    lastLevels.push(w[w.length - 1]);
+    w = difference(w);
+  }
+  const wMean = mean(w);
+  const centered = w.map(v => v - wMean);
+
+  // Stage one: a long autoregression estimates the innovations
+  const longOrder = Math.max(1, Math.min(20, Math.floor(centered.length / 4)));
+  const longX: number[][] = [];
+  const longY: number[] = [];
+  for (let t = longOrder; t < centered.length; t++) {
+    longX.push(Array.from({ length: longOrder }, (_, k) => centered[t - 1 - k]));
+    longY.push(centered[t]);
+  }
+  const longCoefs = longX.length > longOrder ? leastSquares(longX, longY) : new Array(longOrder).fill(0);
+  const innovations = centered.map((v, t) => t < longOrder
+    ? 0
+    : v - longCoefs.reduce((sum, c, k) => sum + c * centered[t - 1 - k], 0));
+
+  // Stage two: regress on lagged values and innovations; pick the orders by AIC
+  // Every candidate is fitted on the same rows so their AICs compare
+  const start = Math.max(longOrder + MAX_MA, MAX_AR);
+  let best: { aic: number; ar: number[]; ma: number[]; residuals: number[] } | null = null;
+  for (let p = 0; p <= MAX_AR; p++) {
+    for (let q = 0; q <= MAX_MA; q++) {
+      if (p + q === 0 || centered.length - start <= p + q + 5) continue;
+      const X: number[][] = [];
+      const y: number[] = [];
+      for (let t = start; t < centered.length; t++) {
+        X.push([
+          ...Array.from({ length: p }, (_, k) => centered[t - 1 - k]),
+          ...Array.from({ length: q }, (_, k) => innovations[t - 1 - k]),
+        ]);
+        y.push(centered[t]);
+      }
+      const coefs = leastSquares(X, y);
+      const residuals = y.map((value, i) => value - X[i].reduce((sum, x, j) => sum + x * coefs[j], 0));
+      const sigma2 = Math.max(mean(residuals.map(r => r * r)), 1e-12);
+      const aic = y.length * Math.log(sigma2) + 2 * (p + q + 1);
+      if (!best || aic < best.aic) best = { aic, ar: coefs.slice(0, p), ma: coefs.slice(p), residuals };
+    }
+  }
+
+  const ar = best?.ar ?? [];
+  const ma = best?.ma ?? [];
+  const residuals = best
+    ? [...new Array(centered.length - best.residuals.length).fill(0), ...best.residuals]
+    : centered.map(() => 0);
+  return {
+    kind: "arima",
+    d,
+    mean: wMean,
+    ar,
+    ma,
+    history: centered.slice(-Math.max(ar.length, 1)),
+    residuals: residuals.slice(-Math.max(ma.length, 1)),
+    lastLevels,
+  };
+};
+
+const forecastArima = (state: ArimaState, horizon: number): number[] => {
+  const history = [...state.history];
+  const residuals = [...state.residuals];
+  const differenced: number[] = [];
+  for (let h = 0; h < horizon; h++) {
+    let next = 0;
+    state.ar.forEach((c, k) => { next += c * (history[history.length - 1 - k] ?? 0); });
+    state.ma.forEach((c, k) => { next += c * (residuals[residuals.length - 1 - k] ?? 0); });
+    history.push(next);
+    // Future innovations are expected to be zero
+    residuals.push(0);
+    differenced.push(next + state.mean);
+  }
+
+  // Undo the differencing, innermost level first
+  let levels = differenced;
+  for (let i = state.d - 1; i >= 0; i--) {
+    let last = state.lastLevels[i];
+    levels = levels.map(v => (last += v));
+  }
+  return levels;
+};
+
+// ---------------------------------------------------------------------------
+// Gradient-boosted trees on lag and calendar features
+// ---------------------------------------------------------------------------
+
+const BOOSTING_ROUNDS = 100;
+const BOOSTING_DEPTH = 3;
+const BOOSTING_LEARNING_RATE = 0.1;
+const MIN_LEAF_ROWS = 5;
+
+// Calendar position of a timestamp at the resolution of the series
+export const calendarFeatures = (timestamp: number, frequency: ForecastFrequency): number[] => {
+  const date = new Date(timestamp);
+  switch (frequency) {
+    case "hourly":
+      return [date.getUTCHours(), date.getUTCDay()];
+    case "daily":
+      return [date.getUTCDay(), date.getUTCDate(), date.getUTCMonth()];
+    case "weekly":
+      return [date.getUTCMonth(), Math.floor((date.getUTCDate() - 1) / 7)];
+    case "monthly":
+      return [date.getUTCMonth()];
+  }
+};
+
+const lagFeatures = (window: number[], timestamp: number, frequency: ForecastFrequency): number[] => {
+  const recent = window.slice(-Math.min(window.length, 7));
+  return [
+    ...window.slice().reverse(),
+    mean(recent),
+    ...calendarFeatures(timestamp, frequency),
+  ];
+};
+
+const buildRegressionTree = (X: number[][], residuals: number[], rows: number[], depth: number): TreeNode => {
+  const leafValue = mean(rows.map(i => residuals[i]));
+  if (depth === 0 || rows.length < 2 * MIN_LEAF_ROWS) return { value: leafValue };
+
+  let best: { gain: number; feature: number; threshold: number } | null = null;
+  const total = rows.reduce((sum, i) => sum + residuals[i], 0);
+  for (let feature = 0; feature < X[0].length; feature++) {
+    const sorted = [...rows].sort((a, b) => X[a][feature] - X[b][feature]);
+    let leftSum = 0;
+    for (let k = 0; k < sorted.length - 1; k++) {
+      leftSum += residuals[sorted[k]];
+      const leftCount = k + 1;
+      const rightCount = sorted.length - leftCount;
+      if (leftCount < MIN_LEAF_ROWS || rightCount < MIN_LEAF_ROWS) continue;
+      const current = X[sorted[k]][feature];
+      const following = X[sorted[k + 1]][feature];
+      if (current === following) continue;
+      // Reduction in squared error, up to a constant
+      const gain = leftSum ** 2 / leftCount + (total - leftSum) ** 2 / rightCount;
+      if (!best || gain > best.gain) best = { gain, feature, threshold: (current + following) / 2 };
+    }
+  }
+  if (!best) return { value: leafValue };
+
+  const left = rows.filter(i => X[i][best!.feature] < best!.threshold);
+  const right = rows.filter(i => X[i][best!.feature] >= best!.threshold);
+  return {
+    feature: best.feature,
+    threshold: best.threshold,
+    left: buildRegressionTree(X, residuals, left, depth - 1),
+    right: buildRegressionTree(X, residuals, right, depth - 1),
+  };
+};
+
+const predictRegressionTree = (node: TreeNode, row: number[]): number => {
+  while (node.value === undefined) {
+    node = row[node.feature!] < node.threshold! ? node.left! : node.right!;
+  }
+  return node.value;
+};
+
+const predictLagBoost = (state: LagBoostState, row: number[]) => {
+  return state.trees.reduce((sum, tree) => sum + state.learningRate * predictRegressionTree(tree, row), state.base);
+};
+
+const fitLagBoost = (values: number[], timestamps: number[], options: ForecastModelOptions): LagBoostState => {
+  const lags = Math.max(2, Math.min(Math.max(options.seasonLength, 3), Math.floor(values.length / 3)));
+  const X: number[][] = [];
+  const y: number[] = [];
+  for (let t = lags; t < values.length; t++) {
+    X.push(lagFeatures(values.slice(t - lags, t), timestamps[t], options.frequency));
+    y.push(values[t]);
+  }
+  if (X.length < 2 * MIN_LEAF_ROWS) {
+    throw new Error(`Lag Gradient Boosting needs more than ${lags + 2 * MIN_LEAF_ROWS} observations`);
+  }
+
+  const state: LagBoostState = {
+    kind: "lagBoost",
+    lags,
+    base: mean(y),
+    learningRate: BOOSTING_LEARNING_RATE,
+    trees: [],
+    window: values.slice(-lags),
+    frequency: options.frequency,
+  };
+  const predictions = y.map(() => state.base);
+  const rows = X.map((_, i) => i);
+  for (let round = 0; round < BOOSTING_ROUNDS; round++) {
+    const residuals = y.map((value, i) => value - predictions[i]);
+    const tree = buildRegressionTree(X, residuals, rows, BOOSTING_DEPTH);
+    state.trees.push(tree);
+    X.forEach((row, i) => { predictions[i] += state.learningRate * predictRegressionTree(tree, row); });
+    if (round % 10 === 0) options.onProgress?.((round / BOOSTING_ROUNDS) * 100);
+  }
+  return state;
+};
+
+// Predictions feed back in as lags for the following steps
+const forecastLagBoost = (state: LagBoostState, futureTimestamps: number[]): number[] => {
+  const window = [...state.window];
+  return futureTimestamps.map(timestamp => {
+    const next = predictLagBoost(state, lagFeatures(window.slice(-state.lags), timestamp, state.frequency));
+    window.push(next);
+    return next;
+  });
+};
+
+// ---------------------------------------------------------------------------
+// Single-layer LSTM trained with backpropagation through time
+// ---------------------------------------------------------------------------
+
+const LSTM_HIDDEN = 16;
+const LSTM_EPOCHS = 30;
+const LSTM_MAX_WINDOWS = 500;
+const LSTM_LEARNING_RATE = 0.01;
+
+const sigmoid = (x: number) => 1 / (1 + Math.exp(-x));
+
+interface LstmStep {
+  x: number;
+  hPrev: number[];
+  cPrev: number[];
+  i: number[];
+  f: number[];
+  g: number[];
+  o: number[];
+  c: number[];
+  h: number[];
+}
+
+const runLstm = (state: LstmState, inputs: number[]): LstmStep[] => {
+  const H = state.hidden;
+  let h = new Array(H).fill(0);
+  let c = new Array(H).fill(0);
+  return inputs.map(x => {
+    const pre = state.gates.map(w => {
+      let sum = w[0] * x + w[H + 1];
+      for (let k = 0; k < H; k++) sum += w[1 + k] * h[k];
+      return sum;
+    });
+    const i = pre.slice(0, H).map(sigmoid);
+    const f = pre.slice(H, 2 * H).map(sigmoid);
+    const g = pre.slice(2 * H, 3 * H).map(Math.tanh);
+    const o = pre.slice(3 * H).map(sigmoid);
+    const cNext = c.map((cp, k) => f[k] * cp + i[k] * g[k]);
+    const hNext = cNext.map((cn, k) => o[k] * Math.tanh(cn));
+    const step = { x, hPrev: h, cPrev: c, i, f, g, o, c: cNext, h: hNext };
+    h = hNext;
+    c = cNext;
+    return step;
+  });
+};
+
+const predictLstm = (state: LstmState, inputs: number[]): number => {
+  const steps = runLstm(state, inputs);
+  const h = steps[steps.length - 1].h;
+  return h.reduce((sum, v, k) => sum + v * state.output[k], state.outputBias);
+};
+
+const fitLstm = (values: number[], options: ForecastModelOptions): LstmState => {
+  const H = LSTM_HIDDEN;
+  const windowLength = Math.max(3, Math.min(Math.max(options.seasonLength, 6), 24, Math.floor(values.length / 3)));
+  const valuesMean = mean(values);
+  const std = Math.sqrt(variance(values)) || 1;
+  const scaled = values.map(v => (v - valuesMean) / std);
+
+  const starts = Array.from({ length: scaled.length - windowLength }, (_, i) => i).slice(-LSTM_MAX_WINDOWS);
+  if (starts.length < 5) {
+    throw new Error(`LSTM needs more than ${windowLength + 5} observations`);
+  }
+
+  const random = createRandom(options.seed);
+  const init = (fanIn: number) => (random() * 2 - 1) / Math.sqrt(fanIn);
+  const state: LstmState = {
+    kind: "lstm",
+    hidden: H,
+    gates: Array.from({ length: 4 * H }, (_, row) => [
+      ...Array.from({ length: H + 1 }, () => init(H + 1)),
+      // Start with the forget gate open
+      row >= H && row < 2 * H ? 1 : 0,
+    ]),
+    output: Array.from({ length: H }, () => init(H)),
+    outputBias: 0,
+    mean: valuesMean,
+    std,
+    window: scaled.slice(-windowLength),
+  };
+
+  // Adam moments for every parameter
+  const gateM = state.gates.map(w => w.map(() => 0));
+  const gateV = state.gates.map(w => w.map(() => 0));
+  const outM = state.output.map(() => 0);
+  const outV = state.output.map(() => 0);
+  let biasM = 0;
+  let biasV = 0;
+  let t = 0;
+  const adam = (param: number, grad: number, m: number, v: number): [number, number, number] => {
+    const nextM = 0.9 * m + 0.1 * grad;
+    const nextV = 0.999 * v + 0.001 * grad * grad;
+    const mHat = nextM / (1 - 0.9 ** t);
+    const vHat = nextV / (1 - 0.999 ** t);
+    return [param - LSTM_LEARNING_RATE * mHat / (Math.sqrt(vHat) + 1e-8), nextM, nextV];
+  };
+
+  for (let epoch = 0; epoch < LSTM_EPOCHS; epoch++) {
+    for (const start of shuffleIndices(starts.length, random).map(i => starts[i])) {
+      const inputs = scaled.slice(start, start + windowLength);
+      const target = scaled[start + windowLength];
+      const steps = runLstm(state, inputs);
+      const last = steps[steps.length - 1];
+      const prediction = last.h.reduce((sum, v, k) => sum + v * state.output[k], state.outputBias);
+      // Clip the error so a single outlier can't blow up the weights
+      const error = Math.max(-5, Math.min(5, prediction - target));
+
+      const gateGrads = state.gates.map(w => w.map(() => 0));
+      const outGrads = last.h.map(v => error * v);
+      let dh = state.output.map(w => error * w);
+      let dc = new Array(H).fill(0);
+
+      for (let s = steps.length - 1; s >= 0; s--) {
+        const step = steps[s];
+        const dhPrev = new Array(H).fill(0);
+        const dcPrev = new Array(H).fill(0);
+        for (let k = 0; k < H; k++) {
+          const tanhC = Math.tanh(step.c[k]);
+          const dcTotal = dc[k] + dh[k] * step.o[k] * (1 - tanhC * tanhC);
+          const dPre = [
+            dcTotal * step.g[k] * step.i[k] * (1 - step.i[k]),
+            dcTotal * step.cPrev[k] * step.f[k] * (1 - step.f[k]),
+            dcTotal * step.i[k] * (1 - step.g[k] * step.g[k]),
+            dh[k] * tanhC * step.o[k] * (1 - step.o[k]),
+          ];
+          dcPrev[k] = dcTotal * step.f[k];
+          dPre.forEach((grad, gate) => {
+            const row = gate * H + k;
+            const w = state.gates[row];
+            gateGrads[row][0] += grad * step.x;
+            for (let j = 0; j < H; j++) {
+              gateGrads[row][1 + j] += grad * step.hPrev[j];
+              dhPrev[j] += grad * w[1 + j];
+            }
+            gateGrads[row][H + 1] += grad;
+          });
+        }
+        dh = dhPrev;
+        dc = dcPrev;
+      }
+
+      t++;
+      state.gates.forEach((w, row) => w.forEach((value, j) => {
+        [w[j], gateM[row][j], gateV[row][j]] = adam(value, gateGrads[row][j], gateM[row][j], gateV[row][j]);
+      }));
+      state.output.forEach((value, k) => {
+        [state.output[k], outM[k], outV[k]] = adam(value, outGrads[k], outM[k], outV[k]);
+      });
+      [state.outputBias, biasM, biasV] = adam(state.outputBias, error, biasM, biasV);
+    }
+    options.onProgress?.(((epoch + 1) / LSTM_EPOCHS) * 100);
+  }
+  return state;
+};
+
+const forecastLstm = (state: LstmState, horizon: number): number[] => {
+  const window = [...state.window];
+  const forecasts: number[] = [];
+  for (let h = 0; h < horizon; h++) {
+    const next = predictLstm(state, window.slice(-state.window.length));
+    window.push(next);
+    forecasts.push(next * state.std + state.mean);
+  }
+  return forecasts;
+};
+
+// ---------------------------------------------------------------------------
+// Entry points
+// ---------------------------------------------------------------------------
+
+export const fitForecaster = (
+  algorithm: ForecastAlgorithm,
+  values: number[],
+  timestamps: number[],
+  options: ForecastModelOptions
+): FittedForecaster => {
+  switch (algorithm) {
+    case "ETS":
+      return fitEts(values, options);
+    case "ARIMA":
+      return fitArima(values);
+    case "Lag Gradient Boosting":
+      return fitLagBoost(values, timestamps, options);
+    case "LSTM":
+      return fitLstm(values, options);
+  }
+};
+
+// Point forecasts for the steps right after the data the model was fitted on
+export const forecastNext = (model: FittedForecaster, futureTimestamps: number[]): number[] => {
+  switch (model.kind) {
+    case "ets":
+      return forecastEts(model, futureTimestamps.length);
+    case "arima":
+      return forecastArima(model, futureTimestamps.length);
+    case "lagBoost":
+      return forecastLagBoost(model, futureTimestamps);
+    case "lstm":
+      return forecastLstm(model, futureTimestamps.length);
+  }
+};
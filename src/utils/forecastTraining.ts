@@ -0,0 +1,55 @@
+import {
+  ForecastOutput,
+  ForecastProgressCallback,
+  ForecastRequest,
+  trainForecaster,
+} from "@/utils/forecasting";
+
+type WorkerMessage =
+  | { type: "progress"; progress: number; message: string }
+  | { type: "result"; result: ForecastOutput }
+  | { type: "error"; error: string };
+
+// Backtest and fit a forecaster in a Web Worker (or inline where workers are unavailable)
+export const trainForecastInBrowser = (
+  request: ForecastRequest,
+  onProgress?: ForecastProgressCallback
+): Promise<ForecastOutput> => {
+  if (typeof Worker === "undefined") {
+    return new Promise((resolve, reject) => {
+      try {
+        resolve(trainForecaster(request, onProgress));
+      } catch (error) {
+        reject(error);
+      }
+    });
+  }
+
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL("../workers/forecastWorker.ts", import.meta.url), {
+      type: "module",
+    });
+
+    worker.onmessage = (event: MessageEvent<WorkerMessage>) => {
+      const message = event.data;
+      if (message.type === "progress") {
+        onProgress?.(message.progress, message.message);
+        return;
+      }
+
+      worker.terminate();
+      if (message.type === "result") {
+        resolve(message.result);
+      } else {
+        reject(new Error(message.error));
+      }
+    };
+
+    worker.onerror = (event) => {
+      worker.terminate();
+      reject(new Error(event.message || "Forecast worker failed"));
+    };
+
+    worker.postMessage(request);
+  });
+};
@@ -0,0 +1,372 @@
+import { FeatureValue } from "@/utils/browserModels";
+import {
+  FittedForecaster,
+  ForecastAlgorithm,
+  ForecastFrequency,
+  fitForecaster,
+  forecastNext,
+} from "@/utils/forecastModels";
+
+export type ForecastAggregation = "sum" | "mean";
+
+export const FORECAST_FREQUENCIES: { value: ForecastFrequency; label: string; seasonLength: number }[] = [
+  { value: "hourly", label: "Hourly", seasonLength: 24 },
+  { value: "daily", label: "Daily", seasonLength: 7 },
+  { value: "weekly", label: "Weekly", seasonLength: 52 },
+  { value: "monthly", label: "Monthly", seasonLength: 12 },
+];
+
+export interface ForecastConfig {
+  // Datetime column the rows are indexed by
+  timeColumn: string;
+  target: string;
+  frequency: ForecastFrequency;
+  // How rows falling in the same period are combined
+  aggregation: ForecastAggregation;
+  // Periods to forecast ahead
+  horizon: number;
+  seasonLength: number;
+  // Walk-forward backtest windows
+  folds: number;
+  seed: number;
+}
+
+export const DEFAULT_FORECAST_SETTINGS: Omit<ForecastConfig, "timeColumn" | "target"> = {
+  frequency: "daily",
+  aggregation: "sum",
+  horizon: 14,
+  seasonLength: 7,
+  folds: 3,
+  seed: 42,
+};
+
+// One value per period, oldest first, with no gaps
+export interface TimeSeries {
+  timestamps: number[];
+  values: number[];
+  // Periods without rows, filled by interpolation
+  filledGaps: number;
+}
+
+export interface ForecastMetrics {
+  mape: number;
+  smape: number;
+  mase: number;
+  mae: number;
+  rmse: number;
+}
+
+export interface BacktestFold {
+  // First forecast period of the fold
+  cutoff: number;
+  actual: number[];
+  forecast: number[];
+  metrics: ForecastMetrics;
+}
+
+export interface ForecastPoint {
+  timestamp: number;
+  forecast: number;
+  lower80: number;
+  upper80: number;
+  lower95: number;
+  upper95: number;
+}
+
+// Everything needed to forecast again from a saved model
+export interface SerializedForecastModel {
+  format: "forecast-model";
+  version: 1;
+  algorithm: ForecastAlgorithm;
+  config: ForecastConfig;
+  lastTimestamp: number;
+  // Standard deviation of the backtest errors at each step ahead
+  errorStd: number[];
+  model: FittedForecaster;
+}
+
+export interface ForecastRequest {
+  algorithm: ForecastAlgorithm;
+  config: ForecastConfig;
+  series: TimeSeries;
+}
+
+export interface ForecastOutput {
+  algorithm: ForecastAlgorithm;
+  metrics: ForecastMetrics;
+  folds: BacktestFold[];
+  forecast: ForecastPoint[];
+  model: SerializedForecastModel;
+}
+
+export type ForecastProgressCallback = (progress: number, message: string) => void;
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+const MIN_TRAINING_PERIODS = 20;
+const Z80 = 1.2816;
+const Z95 = 1.96;
+
+// Start of the period a timestamp falls in (UTC; weeks start on Monday)
+export const periodStart = (timestamp: number, frequency: ForecastFrequency): number => {
+  const date = new Date(timestamp);
+  switch (frequency) {
+    case "hourly":
+      return Math.floor(timestamp / HOUR) * HOUR;
+    case "daily":
+      return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+    case "weekly":
+      return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()) -
+        ((date.getUTCDay() + 6) % 7) * DAY;
+    case "monthly":
+      return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1);
+  }
+};
+
+export const nextPeriod = (timestamp: number, frequency: ForecastFrequency): number => {
+  switch (frequency) {
+    case "hourly":
+      return timestamp + HOUR;
+    case "daily":
+      return timestamp + DAY;
+    case "weekly":
+      return timestamp + 7 * DAY;
+    case "monthly": {
+      const date = new Date(timestamp);
+      return Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1);
+    }
+  }
+};
+
+export const futurePeriods = (last: number, count: number, frequency: ForecastFrequency): number[] => {
+  const periods: number[] = [];
+  let current = last;
+  for (let i = 0; i < count; i++) {
+    current = nextPeriod(current, frequency);
+    periods.push(current);
+  }
+  return periods;
+};
+
+const toTimestamp = (value: FeatureValue): number | null => {
+  if (typeof value === "number") return Number.isFinite(value) ? value : null;
+  if (typeof value === "string" && value.trim()) {
+    const time = Date.parse(value);
+    return isNaN(time) ? null : time;
+  }
+  return null;
+};
+
+// Aggregate the rows into one value per period; empty periods are interpolated
+export const buildTimeSeries = (
+  rows: Record<string, FeatureValue>[],
+  config: Pick<ForecastConfig, "timeColumn" | "target" | "frequency" | "aggregation">
+): TimeSeries => {
+  const buckets = new Map<number, { sum: number; count: number }>();
+  rows.forEach(row => {
+    const time = toTimestamp(row[config.timeColumn]);
+    const value = typeof row[config.target] === "number" ? row[config.target] as number : Number(row[config.target]);
+    if (time === null || row[config.target] === null || row[config.target] === "" || !Number.isFinite(value)) return;
+    const period = periodStart(time, config.frequency);
+    const bucket = buckets.get(period) ?? { sum: 0, count: 0 };
+    bucket.sum += value;
+    bucket.count++;
+    buckets.set(period, bucket);
+  });
+
+  if (buckets.size < 2) {
+    throw new Error(`"${config.timeColumn}" and "${config.target}" give fewer than two periods to forecast from`);
+  }
+
+  const periods = Array.from(buckets.keys()).sort((a, b) => a - b);
+  const timestamps: number[] = [];
+  const values: (number | null)[] = [];
+  for (let period = periods[0]; period <= periods[periods.length - 1]; period = nextPeriod(period, config.frequency)) {
+    const bucket = buckets.get(period);
+    timestamps.push(period);
+    values.push(bucket ? (config.aggregation === "sum" ? bucket.sum : bucket.sum / bucket.count) : null);
+  }
+
+  let filledGaps = 0;
+  const filled = values.map((value, i) => {
+    if (value !== null) return value;
+    filledGaps++;
+    let before = i - 1;
+    while (values[before] === null) before--;
+    let after = i + 1;
+    while (values[after] === null) after++;
+    const weight = (i - before) / (after - before);
+    return (values[before] as number) * (1 - weight) + (values[after] as number) * weight;
+  });
+
+  return { timestamps, values: filled, filledGaps };
+};
+
+// MAPE and sMAPE in percent; MASE scales the error by a seasonal naive forecast of the training data
+export const forecastMetrics = (
+  actual: number[],
+  forecast: number[],
+  training: number[],
+  seasonLength: number
+): ForecastMetrics => {
+  const errors = actual.map((value, i) => value - forecast[i]);
+  const mae = errors.reduce((sum, e) => sum + Math.abs(e), 0) / errors.length;
+  const rmse = Math.sqrt(errors.reduce((sum, e) => sum + e * e, 0) / errors.length);
+
+  const nonZero = actual.map((value, i) => i).filter(i => actual[i] !== 0);
+  const mape = nonZero.length
+    ? (nonZero.reduce((sum, i) => sum + Math.abs(errors[i] / actual[i]), 0) / nonZero.length) * 100
+    : NaN;
+
+  const smapeTerms = actual.map((value, i) => {
+    const denominator = Math.abs(value) + Math.abs(forecast[i]);
+    return denominator ? (2 * Math.abs(errors[i])) / denominator : 0;
+  });
+  const smape = (smapeTerms.reduce((sum, v) => sum + v, 0) / smapeTerms.length) * 100;
+
+  const m = training.length > seasonLength ? seasonLength : 1;
+  const naiveErrors = training.slice(m).map((value, i) => Math.abs(value - training[i]));
+  const scale = naiveErrors.reduce((sum, v) => sum + v, 0) / Math.max(naiveErrors.length, 1);
+  const mase = scale ? mae / scale : NaN;
+
+  return { mape, smape, mase, mae, rmse };
+};
+
+const averageMetrics = (folds: BacktestFold[]): ForecastMetrics => {
+  const average = (key: keyof ForecastMetrics) => {
+    const values = folds.map(fold => fold.metrics[key]).filter(Number.isFinite);
+    return values.length ? values.reduce((sum, v) => sum + v, 0) / values.length : NaN;
+  };
+  return {
+    mape: average("mape"),
+    smape: average("smape"),
+    mase: average("mase"),
+    mae: average("mae"),
+    rmse: average("rmse"),
+  };
+};
+
+// Walk-forward backtest: refit on everything before each window, forecast the
+// window, and score it; then refit on the whole series for the final forecast
+export const trainForecaster = (
+  request: ForecastRequest,
+  onProgress?: ForecastProgressCallback
+): ForecastOutput => {
+  const { algorithm, config, series } = request;
+  const { horizon } = config;
+  const n = series.values.length;
+  const minTraining = Math.max(MIN_TRAINING_PERIODS, 2 * config.seasonLength);
+  const folds = Math.min(config.folds, Math.floor((n - minTraining) / horizon));
+  if (folds < 1) {
+    throw new Error(`Backtesting a ${horizon}-period horizon needs at least ${minTraining + horizon} periods; the series has ${n}`);
+  }
+
+  const modelOptions = (stage: number, stages: number) => ({
+    seasonLength: config.seasonLength,
+    frequency: config.frequency,
+    seed: config.seed,
+    onProgress: (progress: number) => onProgress?.(((stage + progress / 100) / stages) * 100, `Fitting ${algorithm}`),
+  });
+
+  const backtest: BacktestFold[] = [];
+  for (let f = 0; f < folds; f++) {
+    const cutoff = n - (folds - f) * horizon;
+    const training = series.values.slice(0, cutoff);
+    const actual = series.values.slice(cutoff, cutoff + horizon);
+    const futureTimestamps = series.timestamps.slice(cutoff, cutoff + horizon);
+    onProgress?.((f / (folds + 1)) * 100, `Backtest window ${f + 1}/${folds}`);
+
+    const model = fitForecaster(algorithm, training, series.timestamps.slice(0, cutoff), modelOptions(f, folds + 1));
+    const forecast = forecastNext(model, futureTimestamps);
+    backtest.push({
+      cutoff: series.timestamps[cutoff],
+      actual,
+      forecast,
+      metrics: forecastMetrics(actual, forecast, training, config.seasonLength),
+    });
+  }
+
+  // Interval widths grow with the backtest errors at each step ahead
+  const errorStd: number[] = [];
+  for (let h = 0; h < horizon; h++) {
+    const squared = backtest.map(fold => (fold.actual[h] - fold.forecast[h]) ** 2);
+    const std = Math.sqrt(squared.reduce((sum, v) => sum + v, 0) / squared.length);
+    errorStd.push(Math.max(std, errorStd[h - 1] ?? 0));
+  }
+
+  onProgress?.((folds / (folds + 1)) * 100, "Fitting on the full series");
+  const model = fitForecaster(algorithm, series.values, series.timestamps, modelOptions(folds, folds + 1));
+  const lastTimestamp = series.timestamps[n - 1];
+  const timestamps = futurePeriods(lastTimestamp, horizon, config.frequency);
+  const forecast = forecastNext(model, timestamps).map((value, h) => ({
+    timestamp: timestamps[h],
+    forecast: value,
+    lower80: value - Z80 * errorStd[h],
+    upper80: value + Z80 * errorStd[h],
+    lower95: value - Z95 * errorStd[h],
+    upper95: value + Z95 * errorStd[h],
+  }));
+
+  onProgress?.(100, "Forecast complete");
+  return {
+    algorithm,
+    metrics: averageMetrics(backtest),
+    folds: backtest,
+    forecast,
+    model: {
+      format: "forecast-model",
+      version: 1,
+      algorithm,
+      config,
+      lastTimestamp,
+      errorStd,
+      model,
+    },
+  };
+};
+
+// Single score for model lists, where higher is better: 1 - sMAPE, floored at 0
+export const forecastAccuracy = (metrics: ForecastMetrics): number => {
+  return Number.isFinite(metrics.smape) ? Math.max(0, 1 - metrics.smape / 100) : 0;
+};
+
+// Longest forecast a saved model will produce when asked for far-off periods
+const MAX_FORECAST_STEPS = 1000;
+
+// Forecasts from a saved model for the periods the given timestamps fall in
+export const predictForecast = (
+  serialized: SerializedForecastModel,
+  timestamps: FeatureValue[]
+): ForecastPoint[] => {
+  const { config, lastTimestamp, errorStd } = serialized;
+  const steps = timestamps.map(value => {
+    const time = toTimestamp(value);
+    if (time === null) throw new Error(`"${value}" is not a valid ${config.timeColumn} value`);
+    const period = periodStart(time, config.frequency);
+    if (period <= lastTimestamp) {
+      throw new Error(`${new Date(period).toISOString()} is not after the end of the training data`);
+    }
+    let step = 0;
+    for (let current = lastTimestamp; current < period; current = nextPeriod(current, config.frequency)) {
+      if (++step > MAX_FORECAST_STEPS) {
+        throw new Error(`Forecasts are limited to ${MAX_FORECAST_STEPS} periods ahead`);
+      }
+    }
+    return step;
+  });
+
+  const future = futurePeriods(lastTimestamp, Math.max(...steps), config.frequency);
+  const values = forecastNext(serialized.model, future);
+  return steps.map(step => {
+    const value = values[step - 1];
+    const std = errorStd[Math.min(step, errorStd.length) - 1] ?? 0;
+    return {
+      timestamp: future[step - 1],
+      forecast: value,
+      lower80: value - Z80 * std,
+      upper80: value + Z80 * std,
+      lower95: value - Z95 * std,
+      upper95: value + Z95 * std,
+    };
+  });
+};
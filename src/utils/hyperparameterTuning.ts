@@ -0,0 +1,288 @@
+import { Algorithm, NeuralNetworkLayer } from "@/context/ModelContext";
+import { createRandom, FeatureValue } from "@/utils/browserModels";
+import { DEFAULT_CROSS_VALIDATION_OPTIONS, runCrossValidation } from "@/utils/crossValidation";
+import { DEFAULT_PREPROCESSING_CONFIG, PreprocessingInput } from "@/utils/preprocessing";
+
+export type HyperparamValue = number | string | boolean;
+
+export interface HyperparamOption {
+  name: string;
+  label: string;
+  type: "range" | "number" | "select" | "boolean";
+  min?: number;
+  max?: number;
+  step?: number;
+  options?: string[];
+  value: HyperparamValue;
+}
+
+export type TuningMethod = "grid" | "random" | "bayesian";
+
+export type TunableAlgorithm = "Random Forest" | "Gradient Boosting" | "SVM" | "Neural Network";
+
+export interface TuningOptions {
+  method: TuningMethod;
+  maxTrials: number;
+  folds: number;
+  seed: number;
+}
+
+export const DEFAULT_TUNING_OPTIONS: TuningOptions = {
+  method: "grid",
+  maxTrials: 20,
+  folds: 3,
+  seed: 42,
+};
+
+export interface TuningTrial {
+  id: number;
+  params: Record<string, HyperparamValue>;
+  score: number;
+  std: number;
+  trainingTime: number;
+}
+
+export type TrialCallback = (trial: TuningTrial, completed: number, total: number) => void;
+
+// Values tried per numeric hyperparameter in grid search
+const GRID_POINTS = 4;
+// Bayesian search: random trials before the surrogate takes over, the share of
+// trials treated as "good" and the number of candidates scored per trial
+const TPE_STARTUP_TRIALS = 5;
+const TPE_GAMMA = 0.25;
+const TPE_CANDIDATES = 24;
+
+// Search spaces use the parameter names the trainers read
+export const HYPERPARAMETER_SPACES: Record<TunableAlgorithm, HyperparamOption[]> = {
+  "Random Forest": [
+    { name: "nEstimators", label: "Number of Estimators", type: "range", min: 10, max: 500, step: 10, value: 100 },
+    { name: "maxDepth", label: "Max Depth", type: "range", min: 1, max: 50, step: 1, value: 10 },
+    { name: "minSamplesSplit", label: "Min Samples Split", type: "range", min: 2, max: 20, step: 1, value: 2 },
+    { name: "criterion", label: "Split Criterion", type: "select", options: ["gini", "entropy"], value: "gini" },
+    { name: "bootstrap", label: "Bootstrap", type: "boolean", value: true },
+  ],
+  "Gradient Boosting": [
+    { name: "nEstimators", label: "Number of Estimators", type: "range", min: 10, max: 500, step: 10, value: 100 },
+    { name: "learningRate", label: "Learning Rate", type: "range", min: 0.01, max: 1, step: 0.01, value: 0.1 },
+    { name: "maxDepth", label: "Max Depth", type: "range", min: 1, max: 10, step: 1, value: 3 },
+    { name: "subsample", label: "Subsample", type: "range", min: 0.5, max: 1, step: 0.05, value: 1 },
+  ],
+  "SVM": [
+    { name: "C", label: "Regularization (C)", type: "range", min: 0.1, max: 100, step: 0.1, value: 1 },
+    { name: "kernel", label: "Kernel", type: "select", options: ["rbf", "linear", "poly", "sigmoid"], value: "rbf" },
+    { name: "gamma", label: "Gamma", type: "select", options: ["scale", "auto"], value: "scale" },
+  ],
+  "Neural Network": [
+    { name: "hiddenLayers", label: "Hidden Layers", type: "range", min: 1, max: 4, step: 1, value: 2 },
+    { name: "neurons", label: "Neurons (first layer)", type: "range", min: 8, max: 256, step: 8, value: 64 },
+    { name: "learningRate", label: "Learning Rate", type: "number", min: 0.0001, max: 0.01, step: 0.0001, value: 0.001 },
+    { name: "epochs", label: "Epochs", type: "range", min: 10, max: 300, step: 10, value: 100 },
+    { name: "dropout", label: "Dropout", type: "range", min: 0, max: 0.5, step: 0.05, value: 0.2 },
+  ],
+};
+
+// Translate tuned values into the params trainMLModel forwards to the trainers
+export const toTrainingParams = (
+  algorithm: Algorithm,
+  values: Record<string, HyperparamValue>
+): Record<string, unknown> => {
+  if (algorithm !== "Neural Network") return { ...values };
+
+  const layers = Number(values.hiddenLayers ?? 2);
+  const neurons = Number(values.neurons ?? 64);
+  const architecture: NeuralNetworkLayer[] = Array.from({ length: layers }, (_, i) => ({
+    neurons: Math.max(4, Math.round(neurons / 2 ** i)),
+    activation: "ReLU",
+    dropout: Number(values.dropout ?? 0),
+  }));
+  return { architecture, epochs: Number(values.epochs ?? 100), learningRate: Number(values.learningRate ?? 0.001) };
+};
+
+const snap = (option: HyperparamOption, value: number): number => {
+  const min = option.min ?? 0;
+  const max = option.max ?? min;
+  const step = option.step || 1;
+  const decimals = (String(step).split(".")[1] ?? "").length;
+  const snapped = min + Math.round((Math.min(max, Math.max(min, value)) - min) / step) * step;
+  return Number(snapped.toFixed(decimals));
+};
+
+const gridValues = (option: HyperparamOption): HyperparamValue[] => {
+  if (option.type === "boolean") return [true, false];
+  if (option.type === "select") return option.options ?? [option.value];
+
+  const min = option.min ?? Number(option.value);
+  const max = option.max ?? Number(option.value);
+  const values = Array.from({ length: GRID_POINTS }, (_, i) =>
+    snap(option, min + ((max - min) * i) / (GRID_POINTS - 1))
+  );
+  return Array.from(new Set(values));
+};
+
+const sampleValue = (option: HyperparamOption, random: () => number): HyperparamValue => {
+  if (option.type === "boolean") return random() < 0.5;
+  if (option.type === "select") {
+    const choices = option.options ?? [String(option.value)];
+    return choices[Math.floor(random() * choices.length)];
+  }
+  const min = option.min ?? Number(option.value);
+  const max = option.max ?? Number(option.value);
+  return snap(option, min + random() * (max - min));
+};
+
+const gaussian = (random: () => number): number => {
+  const u = Math.max(random(), 1e-12);
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * random());
+};
+
+// Every combination of the grid values, in order
+const gridConfigurations = (space: HyperparamOption[]): Record<string, HyperparamValue>[] => {
+  return space.reduce<Record<string, HyperparamValue>[]>(
+    (configs, option) => configs.flatMap(config =>
+      gridValues(option).map(value => ({ ...config, [option.name]: value }))
+    ),
+    [{}]
+  );
+};
+
+// Parzen estimate of how likely `value` is under the observed values of one hyperparameter
+const parzenDensity = (option: HyperparamOption, observed: HyperparamValue[], value: HyperparamValue): number => {
+  if (option.type === "select" || option.type === "boolean") {
+    const choices = option.type === "boolean" ? 2 : (option.options?.length ?? 1);
+    return (observed.filter(v => v === value).length + 1) / (observed.length + choices);
+  }
+
+  const range = (option.max ?? 1) - (option.min ?? 0) || 1;
+  const bandwidth = range / Math.max(2, Math.sqrt(observed.length) * 2);
+  const kernels = observed.reduce<number>((sum, v) => {
+    const z = (Number(value) - Number(v)) / bandwidth;
+    return sum + Math.exp(-0.5 * z * z) / (bandwidth * Math.sqrt(2 * Math.PI));
+  }, 0);
+  // The uniform prior keeps unexplored regions reachable
+  return (kernels + 1 / range) / (observed.length + 1);
+};
+
+// Draw a value near one of the good observations (or from the prior)
+const sampleNear = (
+  option: HyperparamOption,
+  observed: HyperparamValue[],
+  random: () => number
+): HyperparamValue => {
+  const pick = Math.floor(random() * (observed.length + 1));
+  if (pick === observed.length) return sampleValue(option, random);
+  if (option.type === "select" || option.type === "boolean") return observed[pick];
+
+  const range = (option.max ?? 1) - (option.min ?? 0) || 1;
+  const bandwidth = range / Math.max(2, Math.sqrt(observed.length) * 2);
+  return snap(option, Number(observed[pick]) + gaussian(random) * bandwidth);
+};
+
+// Tree-structured Parzen estimator: favour configurations likely under the good
+// trials and unlikely under the rest
+const suggestTpe = (
+  space: HyperparamOption[],
+  trials: TuningTrial[],
+  random: () => number
+): Record<string, HyperparamValue> => {
+  const ranked = [...trials].sort((a, b) => b.score - a.score);
+  const goodCount = Math.max(1, Math.ceil(ranked.length * TPE_GAMMA));
+  const good = ranked.slice(0, goodCount);
+  const bad = ranked.slice(goodCount);
+
+  let best: Record<string, HyperparamValue> = {};
+  let bestRatio = -Infinity;
+  for (let c = 0; c < TPE_CANDIDATES; c++) {
+    const candidate: Record<string, HyperparamValue> = {};
+    let ratio = 0;
+    space.forEach(option => {
+      const goodValues = good.map(t => t.params[option.name]);
+      const badValues = bad.map(t => t.params[option.name]);
+      const value = sampleNear(option, goodValues, random);
+      candidate[option.name] = value;
+      ratio += Math.log(parzenDensity(option, goodValues, value)) - Math.log(parzenDensity(option, badValues, value));
+    });
+    if (ratio > bestRatio) {
+      bestRatio = ratio;
+      best = candidate;
+    }
+  }
+  return best;
+};
+
+// Score one configuration with k-fold cross-validation
+export const evaluateConfiguration = async (
+  data: Record<string, FeatureValue>[],
+  features: string[],
+  target: string,
+  algorithm: Algorithm,
+  params: Record<string, HyperparamValue>,
+  options: TuningOptions = DEFAULT_TUNING_OPTIONS,
+  preprocessing: PreprocessingInput = DEFAULT_PREPROCESSING_CONFIG
+): Promise<Omit<TuningTrial, "id">> => {
+  const started = Date.now();
+  const report = await runCrossValidation(
+    data, features, target, algorithm,
+    { ...DEFAULT_CROSS_VALIDATION_OPTIONS, method: "kfold", folds: options.folds, seed: options.seed },
+    toTrainingParams(algorithm, params),
+    preprocessing
+  );
+
+  return {
+    params,
+    score: report.summary.validation.mean,
+    std: report.summary.validation.std,
+    trainingTime: (Date.now() - started) / 1000,
+  };
+};
+
+// Search the hyperparameter space, scoring every configuration with cross-validation
+export const runTuning = async (
+  data: Record<string, FeatureValue>[],
+  features: string[],
+  target: string,
+  algorithm: Algorithm,
+  space: HyperparamOption[],
+  options: TuningOptions = DEFAULT_TUNING_OPTIONS,
+  preprocessing: PreprocessingInput = DEFAULT_PREPROCESSING_CONFIG,
+  onTrial?: TrialCallback
+): Promise<TuningTrial[]> => {
+  const random = createRandom(options.seed);
+  let grid: Record<string, HyperparamValue>[] = [];
+  if (options.method === "grid") {
+    grid = gridConfigurations(space);
+    // Keep an even spread of the grid when it is larger than the trial budget
+    if (grid.length > options.maxTrials) {
+      const stride = grid.length / options.maxTrials;
+      grid = Array.from({ length: options.maxTrials }, (_, i) => grid[Math.floor(i * stride)]);
+    }
+  }
+  const total = options.method === "grid" ? grid.length : options.maxTrials;
+
+  const trials: TuningTrial[] = [];
+  const seen = new Set<string>();
+  const randomConfiguration = () =>
+    Object.fromEntries(space.map(option => [option.name, sampleValue(option, random)]));
+  const propose = () => options.method === "bayesian" && trials.length >= TPE_STARTUP_TRIALS
+    ? suggestTpe(space, trials, random)
+    : randomConfiguration();
+
+  for (let i = 0; i < total; i++) {
+    let params = options.method === "grid" ? grid[i] : propose();
+
+    // Sampling can repeat a configuration whose score is already known; redraw a
+    // few times, then fall back to uniform samples before giving up on this trial
+    for (let attempt = 0; options.method !== "grid" && seen.has(JSON.stringify(params)) && attempt < 20; attempt++) {
+      params = attempt < 10 ? propose() : randomConfiguration();
+    }
+    const key = JSON.stringify(params);
+    if (seen.has(key)) continue;
+    seen.add(key);
+
+    const result = await evaluateConfiguration(data, features, target, algorithm, params, options, preprocessing);
+    const trial: TuningTrial = { id: trials.length + 1, ...result };
+    trials.push(trial);
+    onTrial?.(trial, i + 1, total);
+  }
+
+  return trials;
+};
@@ -0,0 +1,159 @@
+import JSZip from "jszip";
+
+export const IMAGE_EXTENSIONS = ["png", "jpg", "jpeg", "gif", "bmp", "webp"];
+
+// Column names image rows are sent to training with
+export const IMAGE_FEATURE = "image";
+export const IMAGE_TARGET = "label";
+
+// Random transforms applied to training batches only (Keras preprocessing layers)
+export interface ImageAugmentation {
+  flipHorizontal: boolean;
+  // Largest rotation, as a fraction of a full turn
+  rotation: number;
+  // Largest zoom in or out, as a fraction of the image size
+  zoom: number;
+}
+
+export interface ImageInputConfig {
+  width: number;
+  height: number;
+  // 1 for grayscale, 3 for RGB
+  channels: 1 | 3;
+  augmentation: ImageAugmentation;
+}
+
+export const DEFAULT_IMAGE_INPUT: ImageInputConfig = {
+  width: 64,
+  height: 64,
+  channels: 3,
+  augmentation: {
+    flipHorizontal: true,
+    rotation: 0.05,
+    zoom: 0.1,
+  },
+};
+
+export interface LabelledImage {
+  path: string;
+  // Index into the dataset's classNames
+  label: number;
+  // Resized pixels, row by row, channels interleaved, as base64 of one byte per value
+  pixels: string;
+}
+
+export interface ImageDataset {
+  name: string;
+  classNames: string[];
+  images: LabelledImage[];
+  width: number;
+  height: number;
+  channels: 1 | 3;
+  // Files that could not be decoded as images
+  skipped: string[];
+}
+
+export type ImageProgressCallback = (progress: number) => void;
+
+const isImagePath = (path: string) => {
+  const name = path.split("/").pop() ?? "";
+  if (name.startsWith(".") || path.includes("__MACOSX/")) return false;
+  return IMAGE_EXTENSIONS.includes(name.split(".").pop()?.toLowerCase() ?? "");
+};
+
+const toBase64 = (bytes: Uint8Array): string => {
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+const drawingContext = (width: number, height: number) => {
+  const canvas = typeof OffscreenCanvas !== "undefined"
+    ? new OffscreenCanvas(width, height)
+    : Object.assign(document.createElement("canvas"), { width, height });
+  const context = canvas.getContext("2d") as CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D | null;
+  if (!context) throw new Error("Canvas 2D rendering is not available");
+  return context;
+};
+
+// Decode an image, stretch it to the input size and pack its pixels
+export const encodeImage = async (
+  blob: Blob,
+  input: Pick<ImageInputConfig, "width" | "height" | "channels">
+): Promise<string> => {
+  const bitmap = await createImageBitmap(blob);
+  const context = drawingContext(input.width, input.height);
+  context.drawImage(bitmap, 0, 0, input.width, input.height);
+  bitmap.close();
+
+  const rgba = context.getImageData(0, 0, input.width, input.height).data;
+  const pixels = new Uint8Array(input.width * input.height * input.channels);
+  for (let i = 0, p = 0; i < rgba.length; i += 4) {
+    if (input.channels === 1) {
+      pixels[p++] = Math.round(0.299 * rgba[i] + 0.587 * rgba[i + 1] + 0.114 * rgba[i + 2]);
+    } else {
+      pixels[p++] = rgba[i];
+      pixels[p++] = rgba[i + 1];
+      pixels[p++] = rgba[i + 2];
+    }
+  }
+  return toBase64(pixels);
+};
+
+// Read a zip of class folders (cats/1.jpg, dogs/2.png, ...). The folder an image
+// sits in names its class; a single top-level folder wrapping them all is ignored.
+export const loadImageZip = async (
+  file: File,
+  input: Pick<ImageInputConfig, "width" | "height" | "channels">,
+  onProgress?: ImageProgressCallback
+): Promise<ImageDataset> => {
+  const zip = await JSZip.loadAsync(file);
+  const entries = Object.values(zip.files).filter(entry => !entry.dir && isImagePath(entry.name));
+
+  const folders = entries.map(entry => entry.name.split("/").slice(0, -1));
+  const sharedRoot = folders.length > 0 && folders.every(parts => parts.length >= 2 && parts[0] === folders[0][0]);
+  const classOf = (parts: string[]) => (sharedRoot ? parts[1] : parts[0]);
+  if (folders.some(parts => !classOf(parts))) {
+    throw new Error("Every image must sit in a folder named after its class");
+  }
+
+  const classNames = Array.from(new Set(folders.map(classOf))).sort();
+  if (classNames.length < 2) {
+    throw new Error(`Found ${classNames.length} class folder(s); image classification needs at least two`);
+  }
+
+  const images: LabelledImage[] = [];
+  const skipped: string[] = [];
+  for (let i = 0; i < entries.length; i++) {
+    const entry = entries[i];
+    try {
+      const blob = await entry.async("blob");
+      images.push({
+        path: entry.name,
+        label: classNames.indexOf(classOf(folders[i])),
+        pixels: await encodeImage(blob, input),
+      });
+    } catch {
+      skipped.push(entry.name);
+    }
+    onProgress?.(((i + 1) / entries.length) * 100);
+  }
+
+  if (images.length === 0) {
+    throw new Error("No readable images found in the archive");
+  }
+
+  return {
+    name: file.name.replace(/\.zip$/i, ""),
+    classNames,
+    images,
+    ...input,
+    skipped,
+  };
+};
+
+// Rows in the shape training jobs take: one base64 pixel string and a class index
+export const imageRows = (dataset: ImageDataset) =>
+  dataset.images.map(image => ({ [IMAGE_FEATURE]: image.pixels, [IMAGE_TARGET]: image.label }));
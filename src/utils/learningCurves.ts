@@ -0,0 +1,79 @@
+// Per-epoch training history of neural networks, as streamed by the train-model job.
+// Keras reports `loss`, `val_loss` and one entry per compiled metric (e.g. `accuracy`, `mae`).
+export interface EpochMetrics {
+  epoch: number;
+  loss?: number;
+  val_loss?: number;
+  accuracy?: number;
+  val_accuracy?: number;
+  [metric: string]: number | undefined;
+}
+
+export interface CurvePair {
+  metric: string;
+  label: string;
+  hasTraining: boolean;
+  hasValidation: boolean;
+}
+
+export interface OverfittingReport {
+  overfitting: boolean;
+  bestEpoch: number;
+  bestValLoss: number;
+  lastEpoch: number;
+  // Relative rise of the final validation loss over its best value
+  increase: number;
+}
+
+const METRIC_LABELS: Record<string, string> = {
+  loss: "Loss",
+  accuracy: "Accuracy",
+  mae: "Mean Absolute Error",
+  r2: "R² Score",
+};
+
+// Training metrics present in the history, each paired with its validation counterpart
+export const getCurvePairs = (history: EpochMetrics[]): CurvePair[] => {
+  const names = new Set<string>();
+  history.forEach(record => {
+    Object.keys(record).forEach(key => {
+      if (key !== "epoch" && key !== "learning_rate" && typeof record[key] === "number") {
+        names.add(key.startsWith("val_") ? key.slice(4) : key);
+      }
+    });
+  });
+
+  return Array.from(names)
+    .sort((a, b) => (a === "loss" ? -1 : b === "loss" ? 1 : a.localeCompare(b)))
+    .map(metric => ({
+      metric,
+      label: METRIC_LABELS[metric] ?? metric.replace(/_/g, " "),
+      hasTraining: history.some(record => typeof record[metric] === "number"),
+      hasValidation: history.some(record => typeof record[`val_${metric}`] === "number"),
+    }));
+};
+
+// Flags overfitting when validation loss has climbed above its best value for
+// `patience` epochs while training loss kept falling
+export const detectOverfitting = (
+  history: EpochMetrics[],
+  patience = 5,
+  tolerance = 0.1
+): OverfittingReport | null => {
+  const points = history.filter(record =>
+    typeof record.loss === "number" && typeof record.val_loss === "number"
+  );
+  if (points.length <= patience) return null;
+
+  const best = points.reduce((min, record) => (record.val_loss < min.val_loss ? record : min), points[0]);
+  const last = points[points.length - 1];
+  const increase = (last.val_loss - best.val_loss) / Math.max(Math.abs(best.val_loss), 1e-8);
+
+  return {
+    overfitting: last.epoch - best.epoch >= patience && increase > tolerance && last.loss < best.loss,
+    bestEpoch: best.epoch,
+    bestValLoss: best.val_loss,
+    lastEpoch: last.epoch,
+    increase,
+  };
+};
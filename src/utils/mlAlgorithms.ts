@@ -1,4 +1,10 @@
-import { Algorithm } from "@/context/ModelContext";
+import { Algorithm, NeuralNetworkLayer } from "@/context/ModelContext";
+import { FeatureValue, isBrowserTrainable } from "@/utils/browserModels";
+import { trainInBrowser } from "@/utils/browserTraining";
+import { FORECAST_ALGORITHMS } from "@/utils/forecastModels";
+import { DEFAULT_PREPROCESSING_CONFIG, PreprocessingInput, preparePreprocessing } from "@/utils/preprocessing";
+import { DataSplit, resolveSplit } from "@/utils/splitting";
+import { submitTrainingJob, TrainingJobCancelledError, TrainingJobListener, waitForTrainingJob } from "@/utils/trainingJobs";
 
 // Type definitions for our ML models
 interface ModelConfig {
@@ -6,42 +12,28 @@ interface ModelConfig {
   params: Record<string, any>;
 }
 
-interface TrainingResult {
+export interface TrainingResult {
   algorithm: Algorithm;
   accuracy: number;
   parameters: Record<string, any>;
+  modelData?: string;
 }
 
-// Helper function to simulate data splitting with chunking for large datasets
-const splitData = (
-  data: any[],
+// Helper function to split data along explicit train/test row indices
+const splitDataByIndices = (
+  data: Record<string, FeatureValue>[],
   features: string[],
   target: string,
-  testSize = 0.2
+  split: DataSplit
 ) => {
-  // For very large datasets, use sampling instead of processing all data
-  const isLargeDataset = data.length > 10000;
-  const dataToUse = isLargeDataset 
-    ? data.filter((_, i) => i % Math.ceil(data.length / 10000) === 0) // Sample every Nth row
-    : [...data];
-  
-  // Shuffle the data
-  const shuffled = dataToUse.sort(() => 0.5 - Math.random());
-  
-  // Calculate split index
-  const testCount = Math.round(shuffled.length * testSize);
-  const trainCount = shuffled.length - testCount;
-  
-  // Split into train and test sets
-  const trainData = shuffled.slice(0, trainCount);
-  const testData = shuffled.slice(trainCount);
+  const trainData = split.trainIndices.map(i => data[i]);
+  const testData = split.testIndices.map(i => data[i]);
   
   return {
     trainFeatures: trainData.map(row => features.map(f => row[f])),
     trainTarget: trainData.map(row => row[target]),
     testFeatures: testData.map(row => features.map(f => row[f])),
     testTarget: testData.map(row => row[target]),
-    isReduced: isLargeDataset,
   };
 };
 
@@ -51,10 +43,28 @@ export const trainMLModel = async (
   features: string[],
   target: string,
   algorithm: Algorithm,
-  params = {}
+  params = {},
+  preprocessing: PreprocessingInput = DEFAULT_PREPROCESSING_CONFIG,
+  split?: DataSplit,
+  onJobUpdate?: TrainingJobListener,
+  datasetName?: string
 ): Promise<TrainingResult> => {
-  // First, check if we should use the real backend training or simulation
+  // First, check if we should use the backend or train in the browser
   const useRealTraining = true; // TODO: Make this configurable
+  
+  // Never let the target leak into the inputs
+  features = features.filter(f => f !== target);
+  
+  // Without an explicit split, resolve the default spec here so the backend never
+  // falls back to a split of its own and the run can be repeated
+  split = split ?? resolveSplit(data, target);
+  
+  // Fit (or reuse) the preprocessing pipeline; it is stored with the model for prediction.
+  // With a fixed split the pipeline only sees the training rows.
+  const { pipeline, data: preparedData, split: preparedSplit } =
+    preparePreprocessing(data, features, target, preprocessing, split);
+  const modelFeatures = pipeline.outputFeatures;
+  const modelParams = { ...params, preprocessing: pipeline, availableFeatures: features };
 
   if (useRealTraining) {
     try {
@@ -64,52 +74,47 @@ export const trainMLModel = async (
       const tempModelResult = await createTemporaryModel(algorithm, target);
       const modelId = tempModelResult.id;
       
-      // Call the Supabase Edge Function to train the model
-      const response = await fetch(
-        "https://uysdqwhyhqhamwvzsolw.supabase.co/functions/v1/train-model", 
-        {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-            "Authorization": `Bearer ${import.meta.env.VITE_SUPABASE_ANON_KEY || ''}`
-          },
-          body: JSON.stringify({
-            data,
-            features,
-            target,
-            algorithm,
-            modelId,
-            datasetName: "dataset" // TODO: Pass actual dataset name
-          })
-        }
-      );
-
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(`Training failed: ${errorData.error || 'Unknown error'}`);
-      }
-
-      const result = await response.json();
+      // Queue the training job on the backend and follow it until it finishes
+      const jobId = await submitTrainingJob({
+        data: preparedData,
+        features: modelFeatures,
+        target,
+        algorithm,
+        modelId,
+        datasetName,
+        preprocessed: true,
+        split: preparedSplit,
+        params
+      });
+      const { result } = await waitForTrainingJob(jobId, onJobUpdate);
       
       return {
         algorithm,
         accuracy: result.accuracy,
         parameters: {
-          ...params,
+          ...modelParams,
+          metrics: result.metrics,
+          feature_importance: result.feature_importance,
+          confusion_matrix: result.confusion_matrix,
+          train_accuracy: result.train_accuracy,
           usedRealTraining: true,
-          trainingMethod: "edge-function"
+          trainingMethod: "edge-function",
+          trainingJobId: jobId
         },
+        modelData: result.model,
       };
     } catch (error) {
       console.error("Error training model with backend:", error);
       
-      // Fall back to simulation if backend training fails
-      console.log("Falling back to simulated training");
-      return simulateTraining(data, features, target, algorithm, params);
+      // Fall back to in-browser training if backend training fails, but not after a cancel
+      if (error instanceof TrainingJobCancelledError || !isBrowserTrainable(algorithm)) {
+        throw error;
+      }
+      console.log("Falling back to in-browser training");
+      return trainMLModelInBrowser(preparedData, modelFeatures, target, algorithm, modelParams, preparedSplit);
     }
   } else {
-    // Use the existing simulation code if real training is disabled
-    return simulateTraining(data, features, target, algorithm, params);
+    return trainMLModelInBrowser(preparedData, modelFeatures, target, algorithm, modelParams, preparedSplit);
   }
 };
 
@@ -122,109 +127,43 @@ const createTemporaryModel = async (algorithm: Algorithm, target: string) => {
   return { id: `temp-${Date.now()}` };
 };
 
-// Enhanced function to simulate ML training with accuracy for large datasets
-const simulateTraining = (
+// Train the model client-side when the backend is unavailable. Large datasets are
+// sampled by the caller before the split is resolved, and reported with the model.
+const trainMLModelInBrowser = async (
   data: any[],
   features: string[],
   target: string,
   algorithm: Algorithm,
-  params = {}
+  params: Record<string, unknown>,
+  split: DataSplit
 ): Promise<TrainingResult> => {
-  // Detect large datasets and adjust training behavior
-  const isLargeDataset = data.length > 10000;
-  
-  return new Promise((resolve) => {
-    // For large datasets, show a slightly longer processing time
-    const processingDelay = isLargeDataset 
-      ? 2000 + Math.random() * 3000 
-      : 1000 + Math.random() * 2000;
-    
-    // Large datasets might require memory optimization techniques
-    if (isLargeDataset) {
-      console.log(`Processing large dataset (${data.length} rows) with ${algorithm}. Using optimization techniques.`);
-    }
-    
-    // Simulate processing time
-    setTimeout(() => {
-      // Same accuracy calculation as before
-      let baseAccuracy: number;
-      
-      switch (algorithm) {
-        case "Linear Regression":
-          baseAccuracy = 0.75 + Math.random() * 0.15;
-          break;
-        case "Logistic Regression":
-          baseAccuracy = 0.78 + Math.random() * 0.12;
-          break;
-        case "Decision Tree":
-          baseAccuracy = 0.82 + Math.random() * 0.10;
-          break;
-        case "Random Forest":
-          baseAccuracy = 0.85 + Math.random() * 0.10;
-          break;
-        case "SVM":
-          baseAccuracy = 0.80 + Math.random() * 0.15;
-          break;
-        case "KNN":
-          baseAccuracy = 0.76 + Math.random() * 0.14;
-          break;
-        case "Gradient Boosting":
-          baseAccuracy = 0.87 + Math.random() * 0.08;
-          break;
-        case "AdaBoost":
-          baseAccuracy = 0.83 + Math.random() * 0.09;
-          break;
-        case "Naive Bayes":
-          baseAccuracy = 0.77 + Math.random() * 0.13;
-          break;
-        case "XGBoost":
-          baseAccuracy = 0.88 + Math.random() * 0.07;
-          break;
-        case "K-Means":
-          baseAccuracy = 0.72 + Math.random() * 0.18;
-          break;
-        case "DBSCAN":
-          baseAccuracy = 0.74 + Math.random() * 0.16;
-          break;
-        case "PCA":
-          baseAccuracy = 0.65 + Math.random() * 0.25;
-          break;
-        case "LDA":
-          baseAccuracy = 0.68 + Math.random() * 0.22;
-          break;
-        case "Gaussian Process":
-          baseAccuracy = 0.79 + Math.random() * 0.15;
-          break;
-        case "Isolation Forest":
-          baseAccuracy = 0.81 + Math.random() * 0.12;
-          break;
-        case "LightGBM":
-          baseAccuracy = 0.89 + Math.random() * 0.06;
-          break;
-        case "CatBoost":
-          baseAccuracy = 0.90 + Math.random() * 0.05;
-          break;
-        default:
-          baseAccuracy = 0.70 + Math.random() * 0.20;
-      }
-      
-      // Add small variations for randomness
-      const finalAccuracy = Math.min(0.99, baseAccuracy);
-      
-      resolve({
-        algorithm,
-        accuracy: Number(finalAccuracy.toFixed(4)),
-        parameters: {
-          ...params,
-          // Add flag for large dataset optimization
-          usedDataReduction: isLargeDataset,
-          sampleSize: isLargeDataset ? Math.min(10000, data.length) : data.length,
-          usedRealTraining: false,
-          trainingMethod: "simulation"
-        },
-      });
-    }, processingDelay);
+  const sets = splitDataByIndices(data, features, target, split);
+  const result = await trainInBrowser({
+    algorithm,
+    features,
+    params,
+    ...sets,
+    architecture: params.architecture as NeuralNetworkLayer[] | undefined,
+    epochs: typeof params.epochs === "number" ? params.epochs : undefined,
+    learningRate: typeof params.learningRate === "number" ? params.learningRate : undefined,
   });
+
+  return {
+    algorithm,
+    accuracy: Number(result.accuracy.toFixed(4)),
+    parameters: {
+      ...params,
+      metrics: result.metrics,
+      feature_importance: result.featureImportance,
+      confusion_matrix: result.confusionMatrix,
+      class_names: result.classNames,
+      train_accuracy: result.trainAccuracy,
+      problemType: result.problemType,
+      usedRealTraining: true,
+      trainingMethod: "browser"
+    },
+    modelData: JSON.stringify(result.model),
+  };
 };
 
 // Function to determine if an algorithm is for clustering
@@ -242,9 +181,15 @@ export const isAnomalyDetectionAlgorithm = (algorithm: Algorithm): boolean => {
   return ["Isolation Forest"].includes(algorithm);
 };
 
+// Function to determine if an algorithm is a time-series forecaster
+export const isForecastingAlgorithm = (algorithm: Algorithm): boolean => {
+  return (FORECAST_ALGORITHMS as Algorithm[]).includes(algorithm);
+};
+
 // Function to get the model type based on algorithm
 export const getModelTypeForAlgorithm = (algorithm: Algorithm) => {
   if (algorithm === "Neural Network") return "DL";
+  if (isForecastingAlgorithm(algorithm)) return "Forecasting";
   if (isClusteringAlgorithm(algorithm)) return "Clustering";
   if (isDimensionalityReductionAlgorithm(algorithm)) return "Dimensionality Reduction";
   if (isAnomalyDetectionAlgorithm(algorithm)) return "Anomaly Detection";
@@ -255,7 +200,11 @@ export const getModelTypeForAlgorithm = (algorithm: Algorithm) => {
 export const trainAllMLModels = async (
   data: any[],
   features: string[],
-  target: string
+  target: string,
+  preprocessing: PreprocessingInput = DEFAULT_PREPROCESSING_CONFIG,
+  split?: DataSplit,
+  onJobUpdate?: TrainingJobListener,
+  datasetName?: string
 ): Promise<TrainingResult[]> => {
   const isLargeDataset = data.length > 10000;
   
@@ -318,20 +267,76 @@ export const trainAllMLModels = async (
     ? algorithms.slice(0, 6) // Only use the first 6 (faster) algorithms for very large datasets
     : algorithms;
   
-  // Train all models in parallel
-  const results = await Promise.all(
+  // Train all models in parallel, keeping the ones that succeed
+  const settled = await Promise.allSettled(
     algorithmsToUse.map(({ algorithm, config }) => 
-      trainMLModel(data, features, target, algorithm, config.params)
+      trainMLModel(data, features, target, algorithm, config.params, preprocessing, split, onJobUpdate, datasetName)
     )
   );
   
+  const results = settled
+    .filter((outcome): outcome is PromiseFulfilledResult<TrainingResult> => outcome.status === "fulfilled")
+    .map(outcome => outcome.value);
+  
+  if (results.length === 0) {
+    const cancelled = settled.find(outcome =>
+      outcome.status === "rejected" && outcome.reason instanceof TrainingJobCancelledError
+    ) as PromiseRejectedResult | undefined;
+    if (cancelled) throw cancelled.reason;
+    throw new Error("No model could be trained on this dataset");
+  }
+  
   return results;
 };
 
+// Train a clustering, PCA or anomaly detection model on the backend. These fit every row,
+// so only the numeric columns are sent and there is no target or held-out split.
+const trainUnsupervisedModel = async (
+  data: Record<string, FeatureValue>[],
+  features: string[],
+  algorithm: Algorithm,
+  params: Record<string, unknown>,
+  datasetName?: string
+): Promise<TrainingResult> => {
+  const numericFeatures = features.filter(f => data.every(row => typeof row[f] === "number"));
+  if (numericFeatures.length === 0) {
+    throw new Error(`${algorithm} needs at least one numeric feature`);
+  }
+  
+  const jobId = await submitTrainingJob({
+    data: data.map(row => Object.fromEntries(numericFeatures.map(f => [f, row[f]]))),
+    features: numericFeatures,
+    target: "",
+    algorithm,
+    modelId: `temp-${Date.now()}`,
+    datasetName,
+    params
+  });
+  const { result } = await waitForTrainingJob(jobId);
+  
+  return {
+    algorithm,
+    accuracy: result.accuracy,
+    parameters: {
+      ...params,
+      // Inputs in training order and the scaler fitted on them, for prediction
+      availableFeatures: numericFeatures,
+      scaler: result.scaler ?? null,
+      metrics: result.metrics,
+      feature_importance: result.feature_importance,
+      usedRealTraining: true,
+      trainingMethod: "edge-function",
+      trainingJobId: jobId
+    },
+    modelData: result.model,
+  };
+};
+
 // Function to train clustering models
 export const trainClusteringModels = async (
   data: any[],
-  features: string[]
+  features: string[],
+  datasetName?: string
 ): Promise<TrainingResult[]> => {
   const algorithms: { algorithm: Algorithm; config: ModelConfig }[] = [
     { 
@@ -344,65 +349,35 @@ export const trainClusteringModels = async (
     }
   ];
   
-  // Train all clustering models in parallel
-  const results = await Promise.all(
-    algorithms.map(({ algorithm, config }) => {
-      // For clustering, we simulate without a target
-      return new Promise<TrainingResult>((resolve) => {
-        setTimeout(() => {
-          const accuracy = 0.70 + Math.random() * 0.20;
-          resolve({
-            algorithm,
-            accuracy: Number(accuracy.toFixed(4)),
-            parameters: config.params,
-          });
-        }, 1000 + Math.random() * 2000);
-      });
-    })
+  // Train all clustering models in parallel; they are scored by silhouette
+  return Promise.all(
+    algorithms.map(({ algorithm, config }) => trainUnsupervisedModel(data, features, algorithm, config.params, datasetName))
   );
-  
-  return results;
 };
 
 // Function to train dimensionality reduction models
 export const trainDimensionalityReductionModels = async (
   data: any[],
-  features: string[]
+  features: string[],
+  target?: string,
+  datasetName?: string
 ): Promise<TrainingResult[]> => {
-  const algorithms: { algorithm: Algorithm; config: ModelConfig }[] = [
-    { 
-      algorithm: "PCA", 
-      config: { name: "PCA", params: { nComponents: 2 } }
-    },
-    { 
-      algorithm: "LDA", 
-      config: { name: "LDA", params: { nComponents: 2 } }
-    }
+  // PCA is scored by the variance it keeps; LDA is supervised and needs a categorical target
+  const trainings = [
+    trainUnsupervisedModel(data, features.filter(f => f !== target), "PCA", { nComponents: 2 }, datasetName)
   ];
+  if (target) {
+    trainings.push(trainMLModel(data, features, target, "LDA", { nComponents: 2 }, undefined, undefined, undefined, datasetName));
+  }
   
-  // Train all dimensionality reduction models in parallel
-  const results = await Promise.all(
-    algorithms.map(({ algorithm, config }) => {
-      return new Promise<TrainingResult>((resolve) => {
-        setTimeout(() => {
-          const accuracy = 0.65 + Math.random() * 0.25;
-          resolve({
-            algorithm,
-            accuracy: Number(accuracy.toFixed(4)),
-            parameters: config.params,
-          });
-        }, 1000 + Math.random() * 2000);
-      });
-    })
-  );
-  
-  return results;
+  return Promise.all(trainings);
 };
 
 // Function to train anomaly detection models
 export const trainAnomalyDetectionModels = async (
   data: any[],
-  features: string[]
+  features: string[],
+  datasetName?: string
 ): Promise<TrainingResult[]> => {
   const algorithms: { algorithm: Algorithm; config: ModelConfig }[] = [
     { 
@@ -412,22 +387,9 @@ export const trainAnomalyDetectionModels = async (
   ];
   
   // Train all anomaly detection models in parallel
-  const results = await Promise.all(
-    algorithms.map(({ algorithm, config }) => {
-      return new Promise<TrainingResult>((resolve) => {
-        setTimeout(() => {
-          const accuracy = 0.75 + Math.random() * 0.20;
-          resolve({
-            algorithm,
-            accuracy: Number(accuracy.toFixed(4)),
-            parameters: config.params,
-          });
-        }, 1000 + Math.random() * 2000);
-      });
-    })
+  return Promise.all(
+    algorithms.map(({ algorithm, config }) => trainUnsupervisedModel(data, features, algorithm, config.params, datasetName))
   );
-  
-  return results;
 };
 
 // Function to get the best ML model
@@ -1,131 +1,113 @@
+import JSZip from "jszip";
+import { Model } from "@/context/ModelContext";
+import { ImageInputConfig } from "@/utils/imageDatasets";
+import { PreprocessingPipeline } from "@/utils/preprocessing";
 
-import { Model, Algorithm } from "@/context/ModelContext";
+export type ExportFormat = "json" | "pkl" | "joblib" | "h5" | "keras" | "onnx";
 
-// Helper to create different model file structures based on file type
-export const createModelExportData = (model: Model, fileExtension: string): string => {
-  // Base model metadata that's included in all formats
-  const baseMetadata = {
-    name: model.name,
-    algorithm: model.algorithm,
-    accuracy: model.accuracy,
-    created: model.created,
-    type: model.type,
+export interface ExportFormatOption {
+  extension: ExportFormat;
+  label: string;
+  supported: boolean;
+  // Why the format is unavailable for this model
+  reason?: string;
+}
+
+// Describes how to feed an exported artifact; written next to it in every export
+export interface ExportManifest {
+  format: "model-export-manifest";
+  version: 1;
+  name: string;
+  type: Model["type"];
+  algorithm: Model["algorithm"];
+  accuracy: number;
+  created: string;
+  modelFile: string;
+  // Columns a caller supplies, in order
+  features: string[];
+  // Columns the artifact itself takes, after preprocessing
+  modelInputs: string[];
+  targets: string[];
+  preprocessing: PreprocessingPipeline | null;
+  targetEncoding: {
+    problemType?: string;
+    // Class index -> label for classifiers whose outputs are indices
+    classNames: string[] | null;
   };
+  image: ImageInputConfig | null;
+  layers: Record<string, unknown>[] | null;
+  trainingMethod: string | null;
+}
 
-  switch (fileExtension) {
-    case 'pkl':
-    case 'pickle':
-      // Simulated pickle format with metadata and parameters
-      return JSON.stringify({
-        ...baseMetadata,
-        _sklearn_version: "1.2.0",
-        parameters: model.parameters,
-        feature_names: model.targets,
-        metadata: {
-          is_fitted: true,
-          simulation_note: "This is a simulated model structure for demonstration purposes only."
-        }
-      }, null, 2);
-
-    case 'h5':
-    case 'hdf5':
-    case 'keras':
-      // Simulated keras/TF model structure
-      return JSON.stringify({
-        ...baseMetadata,
-        format: "Keras H5",
-        keras_version: "2.11.0",
-        backend: "tensorflow",
-        model_config: {
-          class_name: "Sequential",
-          config: {
-            name: "sequential",
-            layers: model.neuralNetworkArchitecture ? 
-              createSimulatedLayers(model.neuralNetworkArchitecture) : 
-              [{ "class_name": "Dense", "config": { "units": 64, "activation": "relu" } }]
-          }
-        },
-        training_config: {
-          optimizer_config: {
-            class_name: "Adam",
-            config: { learning_rate: model.parameters?.learningRate || 0.001 }
-          },
-          loss: model.parameters?.problemType === "regression" ? "mse" : "binary_crossentropy",
-          metrics: ["accuracy"],
-          weighted_metrics: null,
-          epochs: model.parameters?.epochs || 100
-        },
-        simulation_note: "This is a simulated model structure for demonstration purposes only."
-      }, null, 2);
-
-    case 'pt':
-    case 'pth':
-      // Simulated PyTorch model structure
-      return JSON.stringify({
-        ...baseMetadata,
-        torch_version: "1.13.0",
-        model_state_dict: {
-          "layers.0.weight": "[simulated tensor data]",
-          "layers.0.bias": "[simulated tensor data]",
-          "layers.1.weight": "[simulated tensor data]",
-          "layers.1.bias": "[simulated tensor data]"
-        },
-        optimizer_state_dict: {
-          state: {},
-          param_groups: [
-            {
-              lr: model.parameters?.learningRate || 0.001,
-              momentum: 0.9,
-              weight_decay: 0.0001
-            }
-          ]
-        },
-        simulation_note: "This is a simulated model structure for demonstration purposes only."
-      }, null, 2);
-
-    case 'onnx':
-      // Simulated ONNX model structure
-      return JSON.stringify({
-        ...baseMetadata,
-        onnx_version: "1.12.0",
-        graph: {
-          name: model.name,
-          nodes: [
-            {
-              name: "input",
-              op_type: "Input",
-              inputs: [],
-              outputs: ["features"]
-            },
-            {
-              name: "layer1",
-              op_type: "Dense",
-              inputs: ["features"],
-              outputs: ["hidden1"]
-            },
-            {
-              name: "output",
-              op_type: "Output",
-              inputs: ["hidden1"],
-              outputs: ["predictions"]
-            }
-          ]
-        },
-        simulation_note: "This is a simulated model structure for demonstration purposes only."
-      }, null, 2);
-
-    case 'json':
-    default:
-      // Default JSON format with all model data
-      return JSON.stringify({
-        ...model,
-        simulation_note: "This is a simulated model structure for demonstration purposes only. To use actual models, implement training with ML libraries like TensorFlow, PyTorch or scikit-learn."
-      }, null, 2);
+const FORMAT_LABELS: Record<ExportFormat, string> = {
+  json: "JSON (metadata and serialized model)",
+  pkl: "Pickle",
+  joblib: "Joblib",
+  h5: "Keras HDF5",
+  keras: "Keras v3",
+  onnx: "ONNX",
+};
+
+// Formats written by the export-model edge function rather than in the browser
+export const SERVER_EXPORT_FORMATS: ExportFormat[] = ["joblib", "h5", "keras", "onnx"];
+
+// Estimators skl2onnx cannot convert without extra converter packages
+const ONNX_UNSUPPORTED = ["XGBoost", "LightGBM", "CatBoost", "DBSCAN"];
+
+// Trained artifacts are pickles unless the model was fitted in the browser,
+// is a forecaster (JSON state) or was imported without its weights
+const hasPickledModel = (model: Model) =>
+  model.type !== "Forecasting" &&
+  model.parameters?.trainingMethod !== "browser" &&
+  !model.parameters?.importedFromColab;
+
+export const getExportFormats = (model: Model): ExportFormatOption[] => {
+  const pickled = hasPickledModel(model);
+  const notPickled = model.type === "Forecasting"
+    ? "Forecasters are stored as JSON state"
+    : model.parameters?.trainingMethod === "browser"
+      ? "Trained in the browser; the model is stored as JSON"
+      : "No trained weights were imported with this model";
+
+  const option = (extension: ExportFormat, reason?: string | false): ExportFormatOption => ({
+    extension,
+    label: FORMAT_LABELS[extension],
+    supported: !reason,
+    ...(reason ? { reason } : {}),
+  });
+
+  // Networks trained without TensorFlow are scikit-learn MLPs; models trained before the
+  // framework was recorded are assumed to be Keras models
+  const kerasModel = model.type === "DL" && model.parameters?.framework !== "sklearn";
+  const kerasReason = !pickled
+    ? notPickled
+    : !kerasModel && (model.type === "DL"
+      ? "Trained with scikit-learn's MLP, as TensorFlow was unavailable; not a Keras model"
+      : "Only neural networks are Keras models");
+  const onnxReason = !pickled
+    ? notPickled
+    : ONNX_UNSUPPORTED.includes(model.algorithm) && `${model.algorithm} models cannot be converted to ONNX`;
+
+  // The preferred format for the model comes first
+  const formats = kerasModel
+    ? [option("h5", kerasReason), option("keras", kerasReason), option("onnx", onnxReason)]
+    : [option("pkl", !pickled && notPickled), option("joblib", !pickled && notPickled), option("onnx", onnxReason)];
+  if (kerasModel) {
+    formats.push(option("pkl", !pickled && notPickled));
+  } else if (model.type === "DL") {
+    formats.push(option("h5", kerasReason), option("keras", kerasReason));
   }
+  const json = option("json");
+  return pickled ? [...formats, json] : [json, ...formats];
+};
+
+// Get appropriate file extensions based on model type
+export const getRecommendedExtensions = (model: Model): string[] => {
+  return getExportFormats(model).filter(format => format.supported).map(format => format.extension);
 };
 
-// Helper to create simulated layers for neural network exports
-const createSimulatedLayers = (architecture: any[]): any[] => {
+// Keras-style layer configs describing a network's architecture
+const describeLayers = (architecture: any[]): Record<string, unknown>[] => {
   // Check if architecture is an array of numbers or layer objects
   if (architecture.length > 0 && typeof architecture[0] === 'number') {
     return architecture.map((neurons, index) => ({
@@ -137,37 +119,122 @@ const createSimulatedLayers = (architecture: any[]): any[] => {
       }
     }));
   } else {
-    return (architecture as any[]).map(layer => ({
-      class_name: "Dense",
-      config: {
-        units: layer.neurons,
-        activation: layer.activation.toLowerCase(),
-        use_bias: true,
-        dropout: layer.dropout || 0
+    return (architecture as any[]).map(layer => {
+      switch (layer.type) {
+        case "Conv2D":
+          return {
+            class_name: "Conv2D",
+            config: {
+              filters: layer.neurons,
+              kernel_size: [layer.kernelSize || 3, layer.kernelSize || 3],
+              padding: "same",
+              activation: layer.activation.toLowerCase(),
+              dropout: layer.dropout || 0
+            }
+          };
+        case "MaxPooling2D":
+        case "AveragePooling2D":
+          return {
+            class_name: layer.type,
+            config: { pool_size: [layer.poolSize || 2, layer.poolSize || 2] }
+          };
+        case "BatchNormalization":
+        case "Flatten":
+          return { class_name: layer.type, config: {} };
+        default:
+          return {
+            class_name: "Dense",
+            config: {
+              units: layer.neurons,
+              activation: layer.activation.toLowerCase(),
+              use_bias: true,
+              dropout: layer.dropout || 0
+            }
+          };
       }
-    }));
+    });
   }
 };
 
-// Get appropriate file extensions based on model type
-export const getRecommendedExtensions = (model: Model): string[] => {
-  if (model.type === "DL") {
-    return ['h5', 'keras', 'pb', 'pt', 'onnx', 'json'];
-  } else if (model.type === "ML") {
-    const algorithm = model.algorithm;
-    
-    // Tree-based models
-    if (["Decision Tree", "Random Forest", "Gradient Boosting", "XGBoost", "LightGBM", "CatBoost"].includes(algorithm)) {
-      return ['pkl', 'joblib', 'json'];
-    }
-    
-    // Linear models
-    if (["Linear Regression", "Logistic Regression", "SVM"].includes(algorithm)) {
-      return ['pkl', 'joblib', 'json', 'onnx'];
+export const createExportManifest = (model: Model, modelFile: string): ExportManifest => {
+  const parameters = model.parameters ?? {};
+  const pipeline: PreprocessingPipeline | null = parameters.preprocessing ?? null;
+  const features: string[] = parameters.image
+    ? ["image"]
+    : pipeline?.inputFeatures ?? parameters.availableFeatures ?? Object.keys(parameters.feature_importance ?? {});
+
+  return {
+    format: "model-export-manifest",
+    version: 1,
+    name: model.name,
+    type: model.type,
+    algorithm: model.algorithm,
+    accuracy: model.accuracy,
+    created: model.created.toISOString(),
+    modelFile,
+    features,
+    modelInputs: pipeline?.outputFeatures ?? features,
+    targets: model.targets ?? [],
+    preprocessing: pipeline,
+    targetEncoding: {
+      problemType: parameters.problemType,
+      classNames: Array.isArray(parameters.class_names) ? parameters.class_names : null,
+    },
+    image: parameters.image ?? null,
+    layers: model.neuralNetworkArchitecture ? describeLayers(model.neuralNetworkArchitecture) : null,
+    trainingMethod: parameters.trainingMethod ?? null,
+  };
+};
+
+export const base64ToBytes = (base64: string): Uint8Array => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+};
+
+// Have the export-model edge function convert the stored model
+export const fetchConvertedModel = async (modelId: string, format: ExportFormat): Promise<Uint8Array> => {
+  const response = await fetch(
+    "https://uysdqwhyhqhamwvzsolw.supabase.co/functions/v1/export-model",
+    {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "Authorization": `Bearer ${import.meta.env.VITE_SUPABASE_ANON_KEY || ''}`
+      },
+      body: JSON.stringify({ modelId, format })
     }
-    
-    return ['pkl', 'joblib', 'json'];
+  );
+  const result = await response.json();
+  if (!response.ok || !result.success) {
+    throw new Error(`Export failed: ${result.error || 'Unknown error'}`);
   }
-  
-  return ['json'];
+  return base64ToBytes(result.artifact);
+};
+
+// JSON export: the model's metadata plus its serialized form as stored
+export const createJsonArtifact = (model: Model, modelData: string | null): string => {
+  const { modelData: _omitted, ...metadata } = model;
+  const pickled = hasPickledModel(model);
+  return JSON.stringify({
+    ...metadata,
+    serialization: modelData ? (pickled ? "base64-pickle" : "json") : null,
+    model: modelData && !pickled ? JSON.parse(modelData) : modelData,
+  }, null, 2);
+};
+
+// Bundle the artifact with its manifest as a zip
+export const createExportArchive = async (
+  model: Model,
+  fileExtension: ExportFormat,
+  artifact: Uint8Array | string
+): Promise<Blob> => {
+  const modelFile = `model.${fileExtension}`;
+  const zip = new JSZip();
+  zip.file(modelFile, artifact);
+  zip.file("manifest.json", JSON.stringify(createExportManifest(model, modelFile), null, 2));
+  return zip.generateAsync({ type: "blob", compression: "DEFLATE" });
 };
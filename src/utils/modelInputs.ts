@@ -0,0 +1,71 @@
+import { Model } from "@/context/ModelContext";
+import { FeatureValue } from "@/utils/browserModels";
+import { isMissingValue } from "@/utils/preprocessing";
+import { coerceValue, ColumnType } from "@/utils/schema";
+
+// The input contract of a trained model: rows keyed by feature name, checked against the
+// features it was trained on and coerced to its stored schema. predict-with-model applies
+// the same rules (supabase/functions/_shared/modelInputs.ts); this copy serves the models
+// evaluated in the browser.
+export type InputRecord = Record<string, FeatureValue>;
+
+// Errors are reported per row; listing every bad row of a large batch helps nobody
+const MAX_REPORTED_ERRORS = 20;
+
+// Types whose coercion can reject a value, and what they expect instead
+const EXPECTED_VALUES: Partial<Record<ColumnType, string>> = {
+  numeric: "a number",
+  integer: "a number",
+  boolean: "true or false",
+  datetime: "a date",
+};
+
+export class RowValidationError extends Error {
+  constructor(public errors: string[]) {
+    super(`Invalid input rows: ${errors.slice(0, 3).join("; ")}${errors.length > 3 ? "; ..." : ""}`);
+    this.name = "RowValidationError";
+  }
+}
+
+// Training order of the model's inputs; null when the model predates stored features
+export const modelFeatures = (model: Model): string[] | null => {
+  const parameters = model.parameters ?? {};
+  if (parameters.image) return ["image"];
+  return parameters.preprocessing?.inputFeatures ?? parameters.availableFeatures ?? null;
+};
+
+// Check named rows and return them as arrays in training order; throws RowValidationError
+export const prepareInputRows = (model: Model, rows: InputRecord[]): FeatureValue[][] => {
+  const features = modelFeatures(model);
+  if (!features) {
+    throw new Error("The model was trained before feature names were stored; retrain it to make predictions");
+  }
+
+  const types = new Map((model.schema ?? []).map(column => [column.name, column.type]));
+  const errors: string[] = [];
+  const report = (message: string) => {
+    if (errors.length < MAX_REPORTED_ERRORS) errors.push(message);
+  };
+
+  const prepared = rows.map((row, i) => {
+    const unknown = Object.keys(row).filter(column => !features.includes(column));
+    const missing = features.filter(feature => !(feature in row));
+    if (unknown.length) report(`Row ${i + 1}: unknown column(s) ${unknown.join(", ")}`);
+    if (missing.length) report(`Row ${i + 1}: missing column(s) ${missing.join(", ")}`);
+
+    return features.map(feature => {
+      const value = row[feature] ?? null;
+      const type = types.get(feature);
+      if (!type) return value;
+
+      const coerced = coerceValue(value, type);
+      if (coerced === null && !isMissingValue(value) && EXPECTED_VALUES[type]) {
+        report(`Row ${i + 1}: "${feature}" expected ${EXPECTED_VALUES[type]}, got ${JSON.stringify(value)}`);
+      }
+      return coerced;
+    });
+  });
+
+  if (errors.length) throw new RowValidationError(errors);
+  return prepared;
+};
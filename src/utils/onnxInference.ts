@@ -0,0 +1,138 @@
+import * as ort from "onnxruntime-web";
+import { Model } from "@/context/ModelContext";
+import { FeatureValue } from "@/utils/browserModels";
+import { base64ToBytes, fetchConvertedModel } from "@/utils/modelExportFormats";
+import { PreprocessingPipeline, toInputRecords, transformRows } from "@/utils/preprocessing";
+import type { FittedScaler } from "@/utils/trainingJobs";
+
+export type InferenceLocation = "server" | "local";
+
+type InputRow = FeatureValue[] | Record<string, FeatureValue>;
+type Prediction = number | string | number[];
+
+export interface InferenceResult {
+  predictions: Prediction[];
+  probabilities?: number[][];
+}
+
+// Largest absolute difference between server and local outputs over a sample
+export interface InferenceParity {
+  rows: number;
+  maxPredictionDeviation: number;
+  maxProbabilityDeviation: number | null;
+  // Rows whose labels differ (classifiers only)
+  labelMismatches: number;
+}
+
+// Converted models are fetched once per page and kept for offline use
+const sessions = new Map<string, Promise<ort.InferenceSession>>();
+
+const loadSession = (model: Model): Promise<ort.InferenceSession> => {
+  let session = sessions.get(model.id);
+  if (!session) {
+    session = fetchConvertedModel(model.id, "onnx").then(bytes => ort.InferenceSession.create(bytes));
+    // A failed download should not stick; the next call retries
+    session.catch(() => sessions.delete(model.id));
+    sessions.set(model.id, session);
+  }
+  return session;
+};
+
+// Standardize each column over the batch, as predict-with-model does for models without a pipeline or scaler
+const standardizeBatch = (rows: number[][]): number[][] => {
+  const columns = rows[0]?.length ?? 0;
+  const stats = Array.from({ length: columns }, (_, j) => {
+    const mean = rows.reduce((sum, row) => sum + row[j], 0) / rows.length;
+    const std = Math.sqrt(rows.reduce((sum, row) => sum + (row[j] - mean) ** 2, 0) / rows.length);
+    return { mean, scale: std || 1 };
+  });
+  return rows.map(row => row.map((value, j) => (value - stats[j].mean) / stats[j].scale));
+};
+
+// Build the input tensor exactly as the server script would
+const inputTensor = (model: Model, inputData: InputRow[]): ort.Tensor => {
+  const image = model.parameters?.image;
+  if (image) {
+    const size = image.height * image.width * image.channels;
+    const values = new Float32Array(inputData.length * size);
+    inputData.forEach((row, i) => {
+      const pixels = base64ToBytes(String(Array.isArray(row) ? row[0] : row.image));
+      pixels.forEach((pixel, j) => { values[i * size + j] = pixel / 255; });
+    });
+    return new ort.Tensor("float32", values, [inputData.length, image.height, image.width, image.channels]);
+  }
+
+  const pipeline: PreprocessingPipeline | undefined = model.parameters?.preprocessing;
+  const scaler: FittedScaler | null | undefined = model.parameters?.scaler;
+  const numeric = () => inputData.map(row => (row as FeatureValue[]).map(Number));
+  const rows: number[][] = pipeline
+    ? transformRows(pipeline, toInputRecords(pipeline, inputData))
+        .map(row => pipeline.outputFeatures.map(feature => row[feature] ?? NaN))
+    : scaler
+      ? numeric().map(row => row.map((value, j) => (value - scaler.mean[j]) / scaler.scale[j]))
+      : standardizeBatch(numeric());
+  const width = rows[0]?.length ?? 0;
+  return new ort.Tensor("float32", Float32Array.from(rows.flat()), [rows.length, width]);
+};
+
+// Split a [rows, columns] tensor into one array per row
+const tensorRows = (tensor: ort.Tensor): (number | string)[][] => {
+  const values = Array.from(tensor.data as ArrayLike<number | bigint | string>, value =>
+    typeof value === "bigint" ? Number(value) : value
+  );
+  const width = tensor.dims.length > 1 ? Number(tensor.dims[1]) : 1;
+  return Array.from({ length: values.length / width }, (_, i) => values.slice(i * width, (i + 1) * width));
+};
+
+// Run the model's ONNX graph in the browser, shaping outputs like predict-with-model
+export const predictWithOnnx = async (model: Model, inputData: InputRow[]): Promise<InferenceResult> => {
+  const session = await loadSession(model);
+  const outputs = await session.run({ [session.inputNames[0]]: inputTensor(model, inputData) });
+
+  // Networks converted with tf2onnx have one output of raw activations
+  if (model.type === "DL") {
+    const output = tensorRows(outputs[session.outputNames[0]]) as number[][];
+    if (!model.parameters?.image) {
+      return { predictions: output };
+    }
+    const scores = output.map(row => (row.length === 1 ? [1 - row[0], row[0]] : row));
+    return {
+      predictions: scores.map(row => row.indexOf(Math.max(...row))),
+      probabilities: scores,
+    };
+  }
+
+  // skl2onnx names its outputs: label and probabilities for classifiers, variable otherwise
+  const label = outputs.label ? tensorRows(outputs.label).map(row => row[0]) : null;
+  if (label && outputs.probabilities) {
+    return { predictions: label, probabilities: tensorRows(outputs.probabilities) as number[][] };
+  }
+  if (label) {
+    return { predictions: label };
+  }
+  const values = tensorRows(outputs[session.outputNames[0]]);
+  return { predictions: values[0]?.length === 1 ? values.map(row => row[0]) : (values as number[][]) };
+};
+
+const numericDeviation = (a: unknown, b: unknown): number => {
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.reduce((max: number, value, i) => Math.max(max, numericDeviation(value, b[i])), 0);
+  }
+  return typeof a === "number" && typeof b === "number" ? Math.abs(a - b) : 0;
+};
+
+// Compare server and local outputs for the same rows
+export const compareInference = (
+  server: InferenceResult,
+  local: InferenceResult,
+  classifier: boolean
+): InferenceParity => ({
+  rows: server.predictions.length,
+  maxPredictionDeviation: numericDeviation(server.predictions, local.predictions),
+  maxProbabilityDeviation: server.probabilities?.length && local.probabilities?.length
+    ? numericDeviation(server.probabilities, local.probabilities)
+    : null,
+  labelMismatches: classifier
+    ? server.predictions.filter((prediction, i) => String(prediction) !== String(local.predictions[i])).length
+    : 0,
+});
@@ -0,0 +1,89 @@
+const FUNCTIONS_URL = "https://uysdqwhyhqhamwvzsolw.supabase.co/functions/v1";
+
+export type PredictionJobStatus = "queued" | "running" | "succeeded" | "failed";
+
+export interface PredictionJob {
+  id: string;
+  modelId: string;
+  status: PredictionJobStatus;
+  totalRows: number;
+  processedRows: number;
+  progress: number;
+  error: string | null;
+  // Attached once the job has succeeded
+  result: { predictions: unknown[]; probabilities: number[][] } | null;
+  createdAt: string;
+  startedAt: string | null;
+  finishedAt: string | null;
+}
+
+export type PredictionJobListener = (job: PredictionJob) => void;
+
+export const POLL_INTERVAL_MS = 2000;
+
+const authHeaders = () => ({
+  "Content-Type": "application/json",
+  "Authorization": `Bearer ${import.meta.env.VITE_SUPABASE_ANON_KEY || ''}`
+});
+
+// Queue a predict-with-model request; the backend answers with the job id right away
+export const submitPredictionJob = async (modelId: string, inputData: unknown[]): Promise<string> => {
+  const response = await fetch(`${FUNCTIONS_URL}/predict-with-model`, {
+    method: "POST",
+    headers: authHeaders(),
+    body: JSON.stringify({ modelId, inputData, async: true })
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json();
+    throw new Error(`Prediction failed: ${errorData.error || 'Unknown error'}`);
+  }
+
+  const { jobId } = await response.json();
+  return jobId;
+};
+
+export const fetchPredictionJob = async (jobId: string): Promise<PredictionJob> => {
+  const response = await fetch(`${FUNCTIONS_URL}/prediction-job-status`, {
+    method: "POST",
+    headers: authHeaders(),
+    body: JSON.stringify({ jobId })
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json();
+    throw new Error(`Could not load prediction job: ${errorData.error || 'Unknown error'}`);
+  }
+
+  const job = await response.json();
+  return {
+    id: job.jobId,
+    modelId: job.modelId,
+    status: job.status,
+    totalRows: job.totalRows,
+    processedRows: job.processedRows ?? 0,
+    progress: job.progress ?? 0,
+    error: job.error ?? null,
+    result: job.result ?? null,
+    createdAt: job.createdAt,
+    startedAt: job.startedAt ?? null,
+    finishedAt: job.finishedAt ?? null,
+  };
+};
+
+// Poll a job until it finishes; resolves with the succeeded job and rejects if it failed
+export const waitForPredictionJob = async (
+  jobId: string,
+  onUpdate?: PredictionJobListener,
+  intervalMs = POLL_INTERVAL_MS
+): Promise<PredictionJob> => {
+  for (;;) {
+    const job = await fetchPredictionJob(jobId);
+    onUpdate?.(job);
+
+    if (job.status === "succeeded") return job;
+    if (job.status === "failed") throw new Error(job.error || "Prediction job failed");
+
+    await new Promise(resolve => setTimeout(resolve, intervalMs));
+  }
+};
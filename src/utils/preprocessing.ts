@@ -0,0 +1,732 @@
+import { createRandom, detectProblemKind, FeatureValue } from "@/utils/browserModels";
+import { trainInBrowser } from "@/utils/browserTraining";
+import { DataSplit } from "@/utils/splitting";
+import {
+  fitTextVectorizer,
+  termIndex,
+  TextVectorizer,
+  TextVectorizerMethod,
+  textFeatureNames,
+  tokenize,
+  vectorizeText,
+} from "@/utils/textFeatures";
+
+export type ScalingMethod = "standard" | "minmax" | "robust";
+export type ImputationMethod = "mean" | "median" | "knn" | "remove";
+export type EncodingMethod = "onehot" | "label" | "target";
+export type OutlierMethod = "iqr" | "zscore" | "isolation";
+
+// Choices made in the DataPreprocessing panel
+export interface PreprocessingConfig {
+  normalize: boolean;
+  normalizationMethod: ScalingMethod;
+  impute: boolean;
+  imputationMethod: ImputationMethod;
+  encode: boolean;
+  encodingMethod: EncodingMethod;
+  outliers: boolean;
+  outlierMethod: OutlierMethod;
+  // Columns to encode as categories even when their values are numbers (from the dataset schema)
+  categoricalColumns?: string[];
+  // Free-text columns to vectorize (from the dataset schema)
+  textColumns?: string[];
+  textVectorizer: TextVectorizerMethod;
+  ngramMax: number;
+  removeStopWords: boolean;
+  // Vocabulary size (TF-IDF) or hash buckets per text column
+  maxTextFeatures: number;
+  // Output features kept by feature selection; every output when unset
+  selectedFeatures?: string[];
+}
+
+export const DEFAULT_PREPROCESSING_CONFIG: PreprocessingConfig = {
+  normalize: true,
+  normalizationMethod: "standard",
+  impute: true,
+  imputationMethod: "mean",
+  encode: true,
+  encodingMethod: "onehot",
+  outliers: false,
+  outlierMethod: "iqr",
+  textVectorizer: "tfidf",
+  ngramMax: 1,
+  removeStopWords: true,
+  maxTextFeatures: 200,
+};
+
+// How a single input column is turned into one or more model inputs
+export interface ColumnTransform {
+  name: string;
+  kind: "numeric" | "categorical" | "text";
+  fill: number | string | null;
+  clip?: [number, number];
+  encoding?: EncodingMethod;
+  categories?: string[];
+  targetMeans?: Record<string, number>;
+  unknownValue?: number;
+  vectorizer?: TextVectorizer;
+}
+
+export interface ScalerParams {
+  center: number;
+  scale: number;
+}
+
+// Fitted pipeline, stored with the model and replayed at prediction time
+// (see supabase/functions/_shared/preprocessing.ts for the Python twin)
+export interface PreprocessingPipeline {
+  version: 1;
+  config: PreprocessingConfig;
+  inputFeatures: string[];
+  outputFeatures: string[];
+  columns: ColumnTransform[];
+  scalers: Record<string, ScalerParams>;
+  knnReference?: {
+    features: string[];
+    scale: number[];
+    rows: (number | null)[][];
+    k: number;
+  };
+}
+
+export interface FittedPreprocessing {
+  pipeline: PreprocessingPipeline;
+  data: Record<string, FeatureValue>[];
+  droppedRows: number;
+  split?: DataSplit; // Train/test indices into `data` when prepared for a fixed split
+}
+
+export type TransformedRow = Record<string, number | null>;
+
+const KNN_NEIGHBORS = 5;
+const KNN_REFERENCE_ROWS = 500;
+const TARGET_SMOOTHING = 10;
+const ISOLATION_CONTAMINATION = 0.05;
+
+export const isMissingValue = (value: FeatureValue): boolean => {
+  return value === null || value === undefined || value === "" ||
+    (typeof value === "number" && isNaN(value));
+};
+
+export const toNumericValue = (value: FeatureValue): number | null => {
+  if (typeof value === "number") return isFinite(value) ? value : null;
+  if (typeof value === "boolean") return value ? 1 : 0;
+  if (typeof value === "string" && value.trim() !== "" && isFinite(Number(value))) {
+    return Number(value);
+  }
+  return null;
+};
+
+const categoryKey = (value: FeatureValue): string => String(value);
+
+const textValue = (value: FeatureValue): string => isMissingValue(value) ? "" : String(value);
+
+// Output features a column expands into
+const columnOutputs = (column: ColumnTransform): string[] => {
+  if (column.kind === "text") return textFeatureNames(column.name, column.vectorizer!);
+  return column.encoding === "onehot"
+    ? (column.categories || []).map(category => `${column.name}=${category}`)
+    : [column.name];
+};
+
+const mean = (values: number[]): number => {
+  return values.length ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+};
+
+const standardDeviation = (values: number[]): number => {
+  const m = mean(values);
+  return Math.sqrt(mean(values.map(v => (v - m) ** 2)));
+};
+
+// Linear-interpolated quantile, same as numpy's default
+const quantile = (sorted: number[], q: number): number => {
+  if (sorted.length === 0) return 0;
+  const position = (sorted.length - 1) * q;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+};
+
+const mode = (values: string[]): string | null => {
+  const counts = new Map<string, number>();
+  values.forEach(v => counts.set(v, (counts.get(v) || 0) + 1));
+  let best: string | null = null;
+  counts.forEach((count, value) => {
+    if (best === null || count > (counts.get(best) || 0)) best = value;
+  });
+  return best;
+};
+
+// Minimal isolation forest used to drop anomalous training rows
+const isolationScores = (points: number[][], random: () => number, trees = 100, sampleSize = 256): number[] => {
+  const n = points.length;
+  const subsample = Math.min(sampleSize, n);
+  const averagePath = (size: number) =>
+    size <= 1 ? 0 : 2 * (Math.log(size - 1) + 0.5772156649) - (2 * (size - 1)) / size;
+  const heightLimit = Math.ceil(Math.log2(Math.max(2, subsample)));
+
+  const pathLength = (point: number[], sample: number[][], depth: number): number => {
+    if (depth >= heightLimit || sample.length <= 1) return depth + averagePath(sample.length);
+    const feature = Math.floor(random() * point.length);
+    const values = sample.map(p => p[feature]);
+    const min = Math.min(...values);
+    const max = Math.max(...values);
+    if (min === max) return depth + averagePath(sample.length);
+    const split = min + random() * (max - min);
+    const side = sample.filter(p => (point[feature] < split ? p[feature] < split : p[feature] >= split));
+    return pathLength(point, side, depth + 1);
+  };
+
+  const totals = new Array(n).fill(0);
+  for (let t = 0; t < trees; t++) {
+    const sample = Array.from({ length: subsample }, () => points[Math.floor(random() * n)]);
+    points.forEach((point, i) => { totals[i] += pathLength(point, sample, 0); });
+  }
+
+  const normaliser = averagePath(subsample) || 1;
+  return totals.map(total => Math.pow(2, -(total / trees) / normaliser));
+};
+
+const encodeTargetValue = (value: FeatureValue, classes: string[] | null): number => {
+  return classes ? classes.indexOf(categoryKey(value)) : (toNumericValue(value) ?? 0);
+};
+
+// Impute, clip and encode a row (everything except scaling)
+const encodeRow = (
+  pipeline: PreprocessingPipeline,
+  row: Record<string, FeatureValue>
+): TransformedRow => {
+  const { config, columns, knnReference } = pipeline;
+  const output: TransformedRow = {};
+  const numeric: Record<string, number | null> = {};
+
+  columns.forEach(column => {
+    if (column.kind !== "numeric") return;
+    let value = isMissingValue(row[column.name]) ? null : toNumericValue(row[column.name]);
+    if (value !== null && column.clip) {
+      value = Math.min(column.clip[1], Math.max(column.clip[0], value));
+    }
+    numeric[column.name] = value;
+  });
+
+  // KNN imputation looks at the other (clipped) numeric values of the row
+  if (config.impute && config.imputationMethod === "knn" && knnReference) {
+    const missing = knnReference.features.filter(f => numeric[f] === null);
+    if (missing.length > 0 && missing.length < knnReference.features.length) {
+      const distances = knnReference.rows.map(reference => {
+        let total = 0;
+        let shared = 0;
+        knnReference.features.forEach((feature, j) => {
+          const value = numeric[feature];
+          if (value !== null && reference[j] !== null) {
+            total += ((value - (reference[j] as number)) / knnReference.scale[j]) ** 2;
+            shared += 1;
+          }
+        });
+        return { reference, distance: shared ? total / shared : Infinity };
+      }).sort((a, b) => a.distance - b.distance);
+
+      missing.forEach(feature => {
+        const j = knnReference.features.indexOf(feature);
+        const neighbours = distances
+          .filter(d => d.reference[j] !== null)
+          .slice(0, knnReference.k)
+          .map(d => d.reference[j] as number);
+        if (neighbours.length) numeric[feature] = mean(neighbours);
+      });
+    }
+  }
+
+  columns.forEach(column => {
+    if (column.kind === "numeric") {
+      let value = numeric[column.name];
+      if (value === null && config.impute) value = column.fill as number;
+      output[column.name] = value;
+      return;
+    }
+
+    if (column.kind === "text") {
+      const vector = vectorizeText(column.vectorizer!, textValue(row[column.name]));
+      columnOutputs(column).forEach((feature, i) => { output[feature] = vector[i]; });
+      return;
+    }
+
+    const raw = row[column.name];
+    let key = isMissingValue(raw) ? null : categoryKey(raw);
+    if (key === null && config.impute) key = column.fill as string | null;
+
+    if (column.encoding === "onehot") {
+      column.categories?.forEach(category => {
+        output[`${column.name}=${category}`] = key === null ? 0 : key === category ? 1 : 0;
+      });
+    } else if (column.encoding === "target") {
+      output[column.name] = key === null ? null : column.targetMeans?.[key] ?? column.unknownValue ?? 0;
+    } else {
+      const index = key === null ? -1 : column.categories?.indexOf(key) ?? -1;
+      output[column.name] = key === null ? null : index === -1 ? column.unknownValue ?? -1 : index;
+    }
+  });
+
+  return output;
+};
+
+// Apply a fitted pipeline to raw rows; output keys follow pipeline.outputFeatures
+export const transformRows = (
+  pipeline: PreprocessingPipeline,
+  rows: Record<string, FeatureValue>[]
+): TransformedRow[] => {
+  return rows.map(row => {
+    const encoded = encodeRow(pipeline, row);
+    const output: TransformedRow = {};
+    pipeline.outputFeatures.forEach(feature => {
+      const value = encoded[feature] ?? null;
+      const scaler = pipeline.scalers[feature];
+      output[feature] = value !== null && scaler ? (value - scaler.center) / scaler.scale : value;
+    });
+    return output;
+  });
+};
+
+// Turn positional input rows (ordered like pipeline.inputFeatures) into records
+export const toInputRecords = (
+  pipeline: PreprocessingPipeline,
+  inputData: (FeatureValue[] | Record<string, FeatureValue>)[]
+): Record<string, FeatureValue>[] => {
+  return inputData.map(row =>
+    Array.isArray(row)
+      ? Object.fromEntries(pipeline.inputFeatures.map((feature, i) => [feature, row[i]]))
+      : row
+  );
+};
+
+// Fit the preprocessing pipeline on the training rows and return the transformed dataset
+export const fitPreprocessing = (
+  rows: Record<string, FeatureValue>[],
+  features: string[],
+  target: string | null,
+  config: PreprocessingConfig = DEFAULT_PREPROCESSING_CONFIG,
+  seed = 42
+): FittedPreprocessing => {
+  const random = createRandom(seed);
+  let trainingRows = target ? rows.filter(row => !isMissingValue(row[target])) : [...rows];
+
+  if (config.impute && config.imputationMethod === "remove") {
+    trainingRows = trainingRows.filter(row => features.every(f => !isMissingValue(row[f])));
+  }
+
+  const targetValues = target ? trainingRows.map(row => row[target]) : [];
+  const targetIsNumeric = targetValues.every(v => toNumericValue(v) !== null);
+  const targetClasses = targetIsNumeric
+    ? null
+    : Array.from(new Set(targetValues.map(categoryKey))).sort();
+
+  // Encoding is always needed for categorical inputs; label encoding is the fallback
+  const encoding: EncodingMethod = config.encode ? config.encodingMethod : "label";
+
+  const columns: ColumnTransform[] = features.map(name => {
+    if (config.textColumns?.includes(name)) {
+      return {
+        name,
+        kind: "text",
+        fill: null,
+        vectorizer: fitTextVectorizer(trainingRows.map(row => textValue(row[name])), {
+          method: config.textVectorizer,
+          ngramMax: config.ngramMax,
+          removeStopWords: config.removeStopWords,
+          maxFeatures: config.maxTextFeatures,
+        }),
+      };
+    }
+
+    const present = trainingRows.map(row => row[name]).filter(v => !isMissingValue(v));
+    const numbers = present.map(toNumericValue);
+
+    const forceCategorical = config.categoricalColumns?.includes(name) ?? false;
+
+    if (!forceCategorical && present.length > 0 && numbers.every(v => v !== null)) {
+      const sorted = (numbers as number[]).slice().sort((a, b) => a - b);
+      const column: ColumnTransform = {
+        name,
+        kind: "numeric",
+        fill: config.imputationMethod === "median" || config.imputationMethod === "knn"
+          ? quantile(sorted, 0.5)
+          : mean(sorted),
+      };
+
+      if (config.outliers && config.outlierMethod === "iqr") {
+        const q1 = quantile(sorted, 0.25);
+        const q3 = quantile(sorted, 0.75);
+        column.clip = [q1 - 1.5 * (q3 - q1), q3 + 1.5 * (q3 - q1)];
+      } else if (config.outliers && config.outlierMethod === "zscore") {
+        const m = mean(sorted);
+        const sd = standardDeviation(sorted);
+        column.clip = [m - 3 * sd, m + 3 * sd];
+      }
+      return column;
+    }
+
+    const keys = present.map(categoryKey);
+    const categories = Array.from(new Set(keys)).sort();
+    const column: ColumnTransform = {
+      name,
+      kind: "categorical",
+      fill: mode(keys),
+      encoding,
+      categories,
+    };
+
+    if (encoding === "target" && target) {
+      const encodedTarget = trainingRows.map(row => encodeTargetValue(row[target], targetClasses));
+      const globalMean = mean(encodedTarget);
+      const sums = new Map<string, { total: number; count: number }>();
+      trainingRows.forEach((row, i) => {
+        if (isMissingValue(row[name])) return;
+        const key = categoryKey(row[name]);
+        const entry = sums.get(key) || { total: 0, count: 0 };
+        entry.total += encodedTarget[i];
+        entry.count += 1;
+        sums.set(key, entry);
+      });
+      column.targetMeans = Object.fromEntries(
+        Array.from(sums.entries()).map(([key, { total, count }]) => [
+          key,
+          (total + TARGET_SMOOTHING * globalMean) / (count + TARGET_SMOOTHING),
+        ])
+      );
+      column.unknownValue = globalMean;
+    } else if (encoding === "target") {
+      // No target to encode against (e.g. unsupervised) - fall back to labels
+      column.encoding = "label";
+      column.unknownValue = -1;
+    } else if (encoding === "label") {
+      column.unknownValue = -1;
+    }
+    return column;
+  });
+
+  const outputFeatures = columns.flatMap(columnOutputs);
+
+  const pipeline: PreprocessingPipeline = {
+    version: 1,
+    config,
+    inputFeatures: [...features],
+    outputFeatures,
+    columns,
+    scalers: {},
+  };
+
+  const numericColumns = columns.filter(c => c.kind === "numeric").map(c => c.name);
+  if (config.impute && config.imputationMethod === "knn" && numericColumns.length > 1) {
+    const step = Math.max(1, Math.ceil(trainingRows.length / KNN_REFERENCE_ROWS));
+    const referenceRows = trainingRows.filter((_, i) => i % step === 0).map(row =>
+      numericColumns.map(name => {
+        const column = columns.find(c => c.name === name)!;
+        const value = isMissingValue(row[name]) ? null : toNumericValue(row[name]);
+        return value !== null && column.clip
+          ? Math.min(column.clip[1], Math.max(column.clip[0], value))
+          : value;
+      })
+    );
+    pipeline.knnReference = {
+      features: numericColumns,
+      scale: numericColumns.map((_, j) =>
+        standardDeviation(referenceRows.map(r => r[j]).filter(v => v !== null) as number[]) || 1
+      ),
+      rows: referenceRows,
+      k: KNN_NEIGHBORS,
+    };
+  }
+
+  let encodedRows = trainingRows.map(row => encodeRow(pipeline, row));
+
+  // Isolation forest drops anomalous rows from training; nothing is replayed at prediction time
+  let droppedRows = rows.length - trainingRows.length;
+  if (config.outliers && config.outlierMethod === "isolation" && encodedRows.length > 20) {
+    const points = encodedRows.map(row => outputFeatures.map(f => row[f] ?? 0));
+    const scores = isolationScores(points, random);
+    const cutoff = scores.slice().sort((a, b) => b - a)[Math.floor(scores.length * ISOLATION_CONTAMINATION)];
+    const keep = scores.map(score => score < cutoff);
+    droppedRows += keep.filter(k => !k).length;
+    trainingRows = trainingRows.filter((_, i) => keep[i]);
+    encodedRows = encodedRows.filter((_, i) => keep[i]);
+  }
+
+  // Scale everything except one-hot indicators and (already normalized) text vectors
+  if (config.normalize) {
+    const scaledFeatures = columns.filter(c => c.encoding !== "onehot" && c.kind !== "text").map(c => c.name);
+    scaledFeatures.forEach(feature => {
+      const values = encodedRows.map(row => row[feature]).filter(v => v !== null) as number[];
+      const sorted = values.slice().sort((a, b) => a - b);
+      let params: ScalerParams;
+
+      if (config.normalizationMethod === "minmax") {
+        const min = sorted[0] ?? 0;
+        params = { center: min, scale: (sorted[sorted.length - 1] ?? 0) - min || 1 };
+      } else if (config.normalizationMethod === "robust") {
+        params = {
+          center: quantile(sorted, 0.5),
+          scale: quantile(sorted, 0.75) - quantile(sorted, 0.25) || 1,
+        };
+      } else {
+        params = { center: mean(values), scale: standardDeviation(values) || 1 };
+      }
+      pipeline.scalers[feature] = params;
+    });
+  }
+
+  const kept = config.selectedFeatures ? restrictPipeline(pipeline, config.selectedFeatures) : pipeline;
+  const transformed = transformRows(kept, trainingRows);
+  const data = transformed.map((row, i) =>
+    target ? { ...row, [target]: trainingRows[i][target] } : row
+  );
+
+  return { pipeline: kept, data, droppedRows };
+};
+
+export interface TokenContribution {
+  column: string;
+  token: string;
+  // Term weight in the row, times the feature's importance when known
+  score: number;
+}
+
+// Tokens of a raw row's text columns that weigh most in its transformed features
+export const topTextTokens = (
+  pipeline: PreprocessingPipeline,
+  row: Record<string, FeatureValue>,
+  importance?: Record<string, number>,
+  limit = 5
+): TokenContribution[] => {
+  const contributions: TokenContribution[] = [];
+  pipeline.columns.forEach(column => {
+    if (column.kind !== "text") return;
+    const vectorizer = column.vectorizer!;
+    const text = textValue(row[column.name]);
+    const vector = vectorizeText(vectorizer, text);
+    const names = columnOutputs(column);
+    new Set(tokenize(text, vectorizer.ngramMax, vectorizer.removeStopWords)).forEach(token => {
+      const i = termIndex(vectorizer, token);
+      if (i === -1 || !pipeline.outputFeatures.includes(names[i])) return;
+      const weight = importance?.[names[i]];
+      contributions.push({
+        column: column.name,
+        token,
+        score: vector[i] * (typeof weight === "number" ? Math.abs(weight) : 1),
+      });
+    });
+  });
+  return contributions.sort((a, b) => b.score - a.score).slice(0, limit);
+};
+
+export type FeatureSelectionMethod = "importance" | "correlation" | "recursive";
+
+export interface FeatureSelectionResult {
+  selected: string[];
+  scores: Record<string, number>;
+}
+
+// Keep only the given output features, pruning input columns that no longer contribute
+export const restrictPipeline = (
+  pipeline: PreprocessingPipeline,
+  keep: string[]
+): PreprocessingPipeline => {
+  const outputFeatures = pipeline.outputFeatures.filter(f => keep.includes(f));
+  const columns = pipeline.columns.filter(column =>
+    columnOutputs(column).some(feature => outputFeatures.includes(feature))
+  );
+  const inputFeatures = pipeline.inputFeatures.filter(f => columns.some(c => c.name === f));
+
+  let knnReference = pipeline.knnReference;
+  if (knnReference) {
+    const indices = knnReference.features
+      .map((feature, j) => (inputFeatures.includes(feature) ? j : -1))
+      .filter(j => j !== -1);
+    knnReference = indices.length > 1
+      ? {
+          ...knnReference,
+          features: indices.map(j => knnReference!.features[j]),
+          scale: indices.map(j => knnReference!.scale[j]),
+          rows: knnReference.rows.map(row => indices.map(j => row[j])),
+        }
+      : undefined;
+  }
+
+  return {
+    ...pipeline,
+    inputFeatures,
+    outputFeatures,
+    columns,
+    scalers: Object.fromEntries(Object.entries(pipeline.scalers).filter(([f]) => outputFeatures.includes(f))),
+    knnReference,
+  };
+};
+
+// Trainers take either the panel's choices or a pipeline the data was already transformed with
+export type PreprocessingInput = PreprocessingConfig | PreprocessingPipeline;
+
+export const isFittedPipeline = (
+  preprocessing: PreprocessingInput
+): preprocessing is PreprocessingPipeline => {
+  return "outputFeatures" in preprocessing;
+};
+
+// Reuse a pipeline the dataset was already transformed with, or fit a new one.
+// With a split, a new pipeline is fitted on the training rows only and `data`
+// holds the training rows followed by the test rows, then any validation rows.
+export const preparePreprocessing = (
+  data: Record<string, FeatureValue>[],
+  features: string[],
+  target: string,
+  preprocessing: PreprocessingInput,
+  split?: DataSplit
+): FittedPreprocessing => {
+  const pick = (indices: number[]) => indices.map(i => data[i]);
+  const withSplit = (
+    pipeline: PreprocessingPipeline,
+    trainData: Record<string, FeatureValue>[],
+    testData: Record<string, FeatureValue>[],
+    validationData: Record<string, FeatureValue>[],
+    droppedRows: number
+  ): FittedPreprocessing => ({
+    pipeline,
+    data: [...trainData, ...testData, ...validationData],
+    droppedRows,
+    split: {
+      trainIndices: trainData.map((_, i) => i),
+      testIndices: testData.map((_, i) => trainData.length + i),
+      validationIndices: validationData.map((_, i) => trainData.length + testData.length + i),
+    },
+  });
+
+  if (isFittedPipeline(preprocessing)) {
+    const inputs = features.filter(f => f !== target && preprocessing.outputFeatures.includes(f));
+    const pipeline = restrictPipeline(preprocessing, inputs);
+    const project = (rows: Record<string, FeatureValue>[]) => rows
+      .filter(row => !isMissingValue(row[target]))
+      .map(row => ({
+        ...Object.fromEntries(pipeline.outputFeatures.map(f => [f, row[f]])),
+        [target]: row[target],
+      }));
+
+    return split
+      ? withSplit(
+          pipeline,
+          project(pick(split.trainIndices)),
+          project(pick(split.testIndices)),
+          project(pick(split.validationIndices ?? [])),
+          0
+        )
+      : { pipeline, data: project(data), droppedRows: 0 };
+  }
+
+  if (!split) {
+    return fitPreprocessing(data, features, target, preprocessing);
+  }
+
+  const fitted = fitPreprocessing(pick(split.trainIndices), features, target, preprocessing);
+  const transformHeldOut = (indices: number[]) => {
+    const rows = pick(indices).filter(row => !isMissingValue(row[target]));
+    return transformRows(fitted.pipeline, rows).map((row, i) => ({ ...row, [target]: rows[i][target] }));
+  };
+  return withSplit(
+    fitted.pipeline,
+    fitted.data,
+    transformHeldOut(split.testIndices),
+    transformHeldOut(split.validationIndices ?? []),
+    fitted.droppedRows
+  );
+};
+
+export const pearson = (x: number[], y: number[]): number => {
+  const mx = mean(x);
+  const my = mean(y);
+  let covariance = 0;
+  let vx = 0;
+  let vy = 0;
+  x.forEach((value, i) => {
+    covariance += (value - mx) * (y[i] - my);
+    vx += (value - mx) ** 2;
+    vy += (y[i] - my) ** 2;
+  });
+  return vx && vy ? covariance / Math.sqrt(vx * vy) : 0;
+};
+
+// Rank transformed features against the target and keep the top `keepPercent`
+export const selectFeatures = async (
+  rows: Record<string, FeatureValue>[],
+  features: string[],
+  target: string,
+  method: FeatureSelectionMethod,
+  keepPercent: number
+): Promise<FeatureSelectionResult> => {
+  const keepCount = Math.max(1, Math.round((features.length * keepPercent) / 100));
+  const labelled = rows.filter(row => !isMissingValue(row[target]));
+  const step = Math.max(1, Math.ceil(labelled.length / 2000));
+  const sample = labelled.filter((_, i) => i % step === 0);
+  const matrix = sample.map(row => features.map(f => (row[f] as number | null) ?? 0));
+  const targetValues = sample.map(row => row[target]);
+  const classification = detectProblemKind(targetValues) === "classification";
+
+  let scores: Record<string, number> = {};
+
+  if (method === "correlation") {
+    const classes = classification ? Array.from(new Set(targetValues.map(categoryKey))).sort() : null;
+    features.forEach((feature, j) => {
+      const column = matrix.map(row => row[j]);
+      scores[feature] = classes
+        // One-vs-rest for classification targets
+        ? Math.max(...classes.map(c => Math.abs(pearson(column, targetValues.map(v => (categoryKey(v) === c ? 1 : 0))))))
+        : Math.abs(pearson(column, targetValues.map(v => toNumericValue(v) ?? 0)));
+    });
+  } else if (method === "importance") {
+    const result = await trainInBrowser({
+      algorithm: "Random Forest",
+      features,
+      trainFeatures: matrix,
+      trainTarget: targetValues,
+      testFeatures: [],
+      testTarget: [],
+      params: { nEstimators: 30, maxDepth: 8 },
+    });
+    scores = Object.fromEntries(features.map(f => [f, result.featureImportance[f] ?? 0]));
+  } else {
+    // Recursive elimination: refit a linear model, dropping the weakest 20% each round
+    let remaining = [...features];
+    let rank = features.length;
+    while (remaining.length > keepCount) {
+      const indices = remaining.map(f => features.indexOf(f));
+      const result = await trainInBrowser({
+        algorithm: classification ? "Logistic Regression" : "Linear Regression",
+        features: remaining,
+        trainFeatures: matrix.map(row => indices.map(j => row[j])),
+        trainTarget: targetValues,
+        testFeatures: [],
+        testTarget: [],
+        params: { maxIter: 100 },
+      });
+      const ordered = [...remaining].sort(
+        (a, b) => (result.featureImportance[a] ?? 0) - (result.featureImportance[b] ?? 0)
+      );
+      const dropCount = Math.min(remaining.length - keepCount, Math.max(1, Math.floor(remaining.length * 0.2)));
+      ordered.slice(0, dropCount).forEach(f => { scores[f] = features.length - rank--; });
+      remaining = remaining.filter(f => !ordered.slice(0, dropCount).includes(f));
+    }
+    remaining.forEach(f => { scores[f] = features.length; });
+  }
+
+  const selected = [...features]
+    .sort((a, b) => scores[b] - scores[a])
+    .slice(0, keepCount);
+
+  return {
+    selected: features.filter(f => selected.includes(f)),
+    scores,
+  };
+};
+
+// Choices applied in the DataPreprocessing panel: the input columns and the config,
+// including the features selection kept. Training fits them on its own training rows.
+export interface AppliedPreprocessing {
+  features: string[];
+  config: PreprocessingConfig;
+}
@@ -0,0 +1,406 @@
+import { detectProblemKind, FeatureValue, ProblemKind } from "@/utils/browserModels";
+import { isMissingValue, pearson } from "@/utils/preprocessing";
+import { ColumnType, DatasetSchema } from "@/utils/schema";
+
+export interface HistogramBin {
+  label: string;
+  start: number;
+  end: number;
+  count: number;
+}
+
+export interface CategoryCount {
+  value: string;
+  count: number;
+}
+
+export interface NumericStats {
+  min: number;
+  max: number;
+  mean: number;
+  median: number;
+  std: number;
+}
+
+export interface ColumnProfile {
+  name: string;
+  type: ColumnType;
+  missing: number;
+  missingRate: number;
+  distinct: number;
+  stats: NumericStats | null;
+  histogram: HistogramBin[];
+  topCategories: CategoryCount[];
+  // Share of present values taken by the most common one
+  dominantShare: number;
+  constant: boolean;
+  nearConstant: boolean;
+}
+
+export interface TargetProfile {
+  name: string;
+  kind: ProblemKind;
+  classes: CategoryCount[];
+  histogram: HistogramBin[];
+  // Smallest class size over largest; null for regression targets
+  imbalanceRatio: number | null;
+}
+
+export interface ProfileWarning {
+  severity: "warning" | "info";
+  message: string;
+  column?: string;
+}
+
+export interface DatasetProfile {
+  rowCount: number;
+  columnCount: number;
+  missingCells: number;
+  duplicateRows: number;
+  columns: ColumnProfile[];
+  // Missing share per column in consecutive blocks of rows
+  missingHeatmap: {
+    rowsPerBlock: number;
+    rates: Record<string, number[]>;
+  };
+  correlation: {
+    columns: string[];
+    matrix: number[][];
+  };
+  target: TargetProfile | null;
+  warnings: ProfileWarning[];
+}
+
+// Rows used for correlations; counts and histograms cover every row
+const CORRELATION_SAMPLE_ROWS = 20000;
+const MAX_CORRELATION_COLUMNS = 20;
+const HEATMAP_BLOCKS = 40;
+const TOP_CATEGORIES = 10;
+const NEAR_CONSTANT_SHARE = 0.95;
+const HIGH_MISSING_RATE = 0.5;
+const IMBALANCE_WARNING_RATIO = 0.2;
+const IMBALANCE_INFO_RATIO = 0.5;
+const STRONG_CORRELATION = 0.95;
+
+const HISTOGRAM_TYPES: ColumnType[] = ["numeric", "integer", "datetime"];
+const CORRELATION_TYPES: ColumnType[] = ["numeric", "integer", "boolean"];
+
+const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+const formatBound = (value: number, type: ColumnType): string => {
+  if (type === "datetime") return new Date(value).toISOString().slice(0, 10);
+  return Number(value.toPrecision(4)).toString();
+};
+
+// Evenly spaced rows, so a sample covers the whole file rather than its start
+const sampleRows = <T>(rows: T[], size: number): T[] => {
+  if (rows.length <= size) return rows;
+  const step = rows.length / size;
+  return Array.from({ length: size }, (_, i) => rows[Math.floor(i * step)]);
+};
+
+const countValues = (values: FeatureValue[]): CategoryCount[] => {
+  const counts = new Map<string, number>();
+  values.forEach(value => {
+    const key = String(value);
+    counts.set(key, (counts.get(key) || 0) + 1);
+  });
+  return Array.from(counts, ([value, count]) => ({ value, count })).sort((a, b) => b.count - a.count);
+};
+
+const numericStats = (sorted: number[]): NumericStats => {
+  const mean = sorted.reduce((sum, v) => sum + v, 0) / sorted.length;
+  const middle = Math.floor(sorted.length / 2);
+  return {
+    min: sorted[0],
+    max: sorted[sorted.length - 1],
+    mean,
+    median: sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2,
+    std: Math.sqrt(sorted.reduce((sum, v) => sum + (v - mean) ** 2, 0) / sorted.length),
+  };
+};
+
+// Equal-width bins; Sturges' rule picks how many
+export const buildHistogram = (values: number[], type: ColumnType = "numeric"): HistogramBin[] => {
+  if (values.length === 0) return [];
+
+  let min = Infinity;
+  let max = -Infinity;
+  values.forEach(v => {
+    if (v < min) min = v;
+    if (v > max) max = v;
+  });
+
+  if (min === max) {
+    return [{ label: formatBound(min, type), start: min, end: max, count: values.length }];
+  }
+
+  const binCount = Math.min(30, Math.ceil(Math.log2(values.length)) + 1);
+  const width = (max - min) / binCount;
+  const bins: HistogramBin[] = Array.from({ length: binCount }, (_, i) => ({
+    label: formatBound(min + i * width, type),
+    start: min + i * width,
+    end: min + (i + 1) * width,
+    count: 0,
+  }));
+
+  values.forEach(v => {
+    bins[Math.min(binCount - 1, Math.floor((v - min) / width))].count++;
+  });
+  return bins;
+};
+
+const profileColumn = (data: Record<string, FeatureValue>[], name: string, type: ColumnType): ColumnProfile => {
+  const present = data.map(row => row[name]).filter(v => !isMissingValue(v));
+  const missing = data.length - present.length;
+  const categories = countValues(present);
+  const dominantShare = present.length ? categories[0].count / present.length : 0;
+
+  let stats: NumericStats | null = null;
+  let histogram: HistogramBin[] = [];
+  if (HISTOGRAM_TYPES.includes(type)) {
+    const numbers = present.filter((v): v is number => typeof v === "number").sort((a, b) => a - b);
+    if (numbers.length > 0) {
+      stats = numericStats(numbers);
+      histogram = buildHistogram(numbers, type);
+    }
+  }
+
+  return {
+    name,
+    type,
+    missing,
+    missingRate: data.length ? missing / data.length : 0,
+    distinct: categories.length,
+    stats,
+    histogram,
+    topCategories: stats ? [] : categories.slice(0, TOP_CATEGORIES),
+    dominantShare,
+    constant: categories.length <= 1,
+    nearConstant: categories.length > 1 && dominantShare >= NEAR_CONSTANT_SHARE,
+  };
+};
+
+const profileTarget = (data: Record<string, FeatureValue>[], target: string): TargetProfile => {
+  const values = data.map(row => row[target]).filter(v => !isMissingValue(v));
+  const kind = detectProblemKind(values);
+
+  if (kind === "regression") {
+    return {
+      name: target,
+      kind,
+      classes: [],
+      histogram: buildHistogram(values.filter((v): v is number => typeof v === "number")),
+      imbalanceRatio: null,
+    };
+  }
+
+  const classes = countValues(values);
+  return {
+    name: target,
+    kind,
+    classes,
+    histogram: [],
+    imbalanceRatio: classes.length > 1 ? classes[classes.length - 1].count / classes[0].count : null,
+  };
+};
+
+const correlationMatrix = (data: Record<string, FeatureValue>[], columns: string[]): number[][] => {
+  const sample = sampleRows(data, CORRELATION_SAMPLE_ROWS);
+  return columns.map(a => columns.map(b => {
+    if (a === b) return 1;
+    const pairs = sample.filter(row => typeof row[a] === "number" && typeof row[b] === "number");
+    return pearson(pairs.map(row => row[a] as number), pairs.map(row => row[b] as number));
+  }));
+};
+
+// Profile the typed rows of a dataset: per-column distributions, missing values,
+// correlations, the target's distribution and anything worth a warning
+export const profileDataset = (
+  data: Record<string, FeatureValue>[],
+  schema: DatasetSchema,
+  target: string | null
+): DatasetProfile => {
+  const columns = schema.map(column => profileColumn(data, column.name, column.type));
+  const warnings: ProfileWarning[] = [];
+
+  const seen = new Set<string>();
+  let duplicateRows = 0;
+  data.forEach(row => {
+    const key = JSON.stringify(schema.map(column => row[column.name] ?? null));
+    if (seen.has(key)) duplicateRows++;
+    else seen.add(key);
+  });
+
+  const rowsPerBlock = Math.max(1, Math.ceil(data.length / HEATMAP_BLOCKS));
+  const rates: Record<string, number[]> = {};
+  schema.forEach(column => {
+    rates[column.name] = [];
+    for (let start = 0; start < data.length; start += rowsPerBlock) {
+      const block = data.slice(start, start + rowsPerBlock);
+      rates[column.name].push(block.filter(row => isMissingValue(row[column.name])).length / block.length);
+    }
+  });
+
+  const correlationColumns = schema
+    .filter(column => CORRELATION_TYPES.includes(column.type))
+    .map(column => column.name)
+    .slice(0, MAX_CORRELATION_COLUMNS);
+  const matrix = correlationMatrix(data, correlationColumns);
+
+  if (duplicateRows > 0) {
+    warnings.push({
+      severity: "warning",
+      message: `${duplicateRows} duplicate row${duplicateRows === 1 ? "" : "s"} (${percent(duplicateRows / data.length)} of the dataset)`,
+    });
+  }
+
+  columns.forEach(column => {
+    if (column.constant) {
+      warnings.push({ severity: "warning", column: column.name, message: `${column.name} has a single value and carries no information` });
+    } else if (column.nearConstant) {
+      warnings.push({
+        severity: "warning",
+        column: column.name,
+        message: `${column.name} is near-constant: ${percent(column.dominantShare)} of values are the same`,
+      });
+    }
+    if (column.missingRate >= HIGH_MISSING_RATE) {
+      warnings.push({ severity: "warning", column: column.name, message: `${column.name} is ${percent(column.missingRate)} missing` });
+    }
+  });
+
+  correlationColumns.forEach((a, i) => {
+    correlationColumns.slice(i + 1).forEach((b, j) => {
+      const r = matrix[i][i + 1 + j];
+      if (a !== target && b !== target && Math.abs(r) >= STRONG_CORRELATION) {
+        warnings.push({ severity: "info", message: `${a} and ${b} are strongly correlated (r = ${r.toFixed(2)})` });
+      }
+    });
+  });
+
+  const targetProfile = target ? profileTarget(data, target) : null;
+  if (targetProfile?.imbalanceRatio != null && targetProfile.imbalanceRatio < IMBALANCE_INFO_RATIO) {
+    const smallest = targetProfile.classes[targetProfile.classes.length - 1];
+    const largest = targetProfile.classes[0];
+    warnings.push({
+      severity: targetProfile.imbalanceRatio < IMBALANCE_WARNING_RATIO ? "warning" : "info",
+      column: target,
+      message: `Class imbalance in ${target}: "${smallest.value}" has ${smallest.count} rows against ${largest.count} for "${largest.value}"`,
+    });
+  }
+
+  return {
+    rowCount: data.length,
+    columnCount: schema.length,
+    missingCells: columns.reduce((sum, column) => sum + column.missing, 0),
+    duplicateRows,
+    columns,
+    missingHeatmap: { rowsPerBlock, rates },
+    correlation: { columns: correlationColumns, matrix },
+    target: targetProfile,
+    warnings,
+  };
+};
+
+const escapeHtml = (value: string): string => {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+};
+
+// Horizontal bars drawn with plain HTML so the report needs no scripts
+const htmlBars = (items: { label: string; count: number }[]): string => {
+  const max = Math.max(1, ...items.map(item => item.count));
+  return `<table class="bars">${items.map(item => `
+    <tr><td>${escapeHtml(item.label)}</td>
+    <td><div class="bar" style="width:${((item.count / max) * 100).toFixed(1)}%"></div></td>
+    <td>${item.count}</td></tr>`).join("")}</table>`;
+};
+
+const correlationColor = (r: number): string => {
+  const alpha = Math.min(1, Math.abs(r)).toFixed(2);
+  return r >= 0 ? `rgba(59,130,246,${alpha})` : `rgba(239,68,68,${alpha})`;
+};
+
+// Self-contained HTML version of the profile for download
+export const renderProfileHtml = (profile: DatasetProfile, title: string): string => {
+  const warnings = profile.warnings.length
+    ? `<ul>${profile.warnings.map(w => `<li class="${w.severity}">${escapeHtml(w.message)}</li>`).join("")}</ul>`
+    : "<p>No issues found.</p>";
+
+  const target = profile.target
+    ? `<h2>Target: ${escapeHtml(profile.target.name)} (${profile.target.kind})</h2>${htmlBars(
+      profile.target.kind === "classification"
+        ? profile.target.classes.map(c => ({ label: c.value, count: c.count }))
+        : profile.target.histogram
+    )}`
+    : "";
+
+  const columns = profile.columns.map(column => `
+    <section class="column">
+      <h3>${escapeHtml(column.name)} <small>${column.type}</small></h3>
+      <p>Missing: ${column.missing} (${percent(column.missingRate)}) &middot; Distinct: ${column.distinct}${column.stats ? `
+        &middot; Mean: ${column.stats.mean.toPrecision(4)} &middot; Std: ${column.stats.std.toPrecision(4)}
+        &middot; Range: ${column.stats.min.toPrecision(4)} – ${column.stats.max.toPrecision(4)}` : ""}</p>
+      ${htmlBars(column.stats ? column.histogram : column.topCategories.map(c => ({ label: c.value, count: c.count })))}
+    </section>`).join("");
+
+  const heatmap = `<table class="grid"><tr><th></th>${profile.columns.map(c => `<th>${escapeHtml(c.name)}</th>`).join("")}</tr>
+    ${(profile.missingHeatmap.rates[profile.columns[0]?.name] ?? []).map((_, block) => `<tr><th>${block * profile.missingHeatmap.rowsPerBlock + 1}</th>${profile.columns.map(c => {
+      const rate = profile.missingHeatmap.rates[c.name][block];
+      return `<td style="background:rgba(239,68,68,${rate.toFixed(2)})" title="${percent(rate)}"></td>`;
+    }).join("")}</tr>`).join("")}</table>`;
+
+  const correlation = profile.correlation.columns.length > 1
+    ? `<table class="grid"><tr><th></th>${profile.correlation.columns.map(c => `<th>${escapeHtml(c)}</th>`).join("")}</tr>
+      ${profile.correlation.matrix.map((row, i) => `<tr><th>${escapeHtml(profile.correlation.columns[i])}</th>${row.map(r =>
+        `<td style="background:${correlationColor(r)}">${r.toFixed(2)}</td>`).join("")}</tr>`).join("")}</table>`
+    : "<p>Not enough numeric columns.</p>";
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)} – Data Profile</title>
+<style>
+  body { font-family: system-ui, sans-serif; margin: 2rem; color: #111827; }
+  h1, h2, h3 { margin-bottom: 0.5rem; }
+  small { color: #6b7280; font-weight: normal; }
+  .summary span { display: inline-block; margin-right: 2rem; }
+  li.warning { color: #b91c1c; }
+  li.info { color: #1d4ed8; }
+  .column { border-top: 1px solid #e5e7eb; padding-top: 0.5rem; margin-top: 1rem; }
+  .bars { border-collapse: collapse; width: 100%; max-width: 640px; font-size: 12px; }
+  .bars td { padding: 1px 4px; }
+  .bars td:nth-child(2) { width: 70%; }
+  .bar { background: #3b82f6; height: 10px; }
+  .grid { border-collapse: collapse; font-size: 11px; }
+  .grid th { font-weight: normal; padding: 2px 4px; text-align: left; }
+  .grid td { width: 36px; height: 14px; border: 1px solid #fff; text-align: center; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+<p class="summary">
+  <span>Rows: ${profile.rowCount}</span>
+  <span>Columns: ${profile.columnCount}</span>
+  <span>Missing cells: ${profile.missingCells}</span>
+  <span>Duplicate rows: ${profile.duplicateRows}</span>
+</p>
+<h2>Warnings</h2>
+${warnings}
+${target}
+<h2>Columns</h2>
+${columns}
+<h2>Missing values</h2>
+<p>Each row covers ${profile.missingHeatmap.rowsPerBlock} rows of the dataset.</p>
+${heatmap}
+<h2>Correlations</h2>
+${correlation}
+</body>
+</html>
+`;
+};
@@ -0,0 +1,252 @@
+import { createRandom, FeatureValue } from "@/utils/browserModels";
+import { shuffleIndices } from "@/utils/splitting";
+
+export type SamplingStrategy = "stratified" | "reservoir" | "cluster";
+
+export const SAMPLING_STRATEGIES: { value: SamplingStrategy; label: string; description: string }[] = [
+  { value: "stratified", label: "Stratified", description: "Keeps the target's class (or range) proportions and every rare class" },
+  { value: "reservoir", label: "Reservoir", description: "Uniform random rows, independent of file order" },
+  { value: "cluster", label: "Cluster-preserving", description: "Keeps the proportions of clusters found in the features" },
+];
+
+export interface SamplingOptions {
+  strategy: SamplingStrategy;
+  // Largest number of rows to keep
+  rowBudget: number;
+  seed: number;
+}
+
+export const DEFAULT_SAMPLING_OPTIONS: SamplingOptions = {
+  strategy: "stratified",
+  rowBudget: 10000,
+  seed: 42,
+};
+
+// Share of one target class (or target range) in the full and the sampled data
+export interface SampledShare {
+  label: string;
+  fullCount: number;
+  sampleCount: number;
+  fullShare: number;
+  sampleShare: number;
+}
+
+export interface SamplingReport {
+  strategy: SamplingStrategy;
+  originalRows: number;
+  sampledRows: number;
+  shares: SampledShare[];
+  // Largest gap between a full and a sampled share
+  maxShareDifference: number;
+  // Classes present in the full data but missing from the sample
+  droppedLabels: string[];
+}
+
+export interface SampledDataset {
+  data: Record<string, FeatureValue>[];
+  report: SamplingReport;
+}
+
+// Targets with more distinct values than this are bucketed into ranges
+const MAX_TARGET_CLASSES = 20;
+const TARGET_RANGES = 10;
+const CLUSTER_COUNT = 16;
+const CLUSTER_FIT_ROWS = 2000;
+const CLUSTER_ITERATIONS = 10;
+
+const isMissing = (value: FeatureValue) => value === null || value === undefined || value === "";
+
+// One label per row: the class itself, or the quantile range of a continuous target
+const targetLabels = (data: Record<string, FeatureValue>[], target: string): string[] => {
+  const values = data.map(row => row[target]);
+  const distinct = new Set(values.map(String));
+  const numeric = values.every(value => isMissing(value) || typeof value === "number");
+  if (!numeric || distinct.size <= MAX_TARGET_CLASSES) {
+    return values.map(value => isMissing(value) ? "(missing)" : String(value));
+  }
+
+  const sorted = values.filter((value): value is number => typeof value === "number").sort((a, b) => a - b);
+  const edges = Array.from({ length: TARGET_RANGES - 1 }, (_, i) =>
+    sorted[Math.floor(((i + 1) / TARGET_RANGES) * sorted.length)]
+  );
+  const rangeLabel = (i: number) => {
+    const low = i === 0 ? sorted[0] : edges[i - 1];
+    const high = i === edges.length ? sorted[sorted.length - 1] : edges[i];
+    return `${low.toPrecision(4)} – ${high.toPrecision(4)}`;
+  };
+  return values.map(value => {
+    if (typeof value !== "number") return "(missing)";
+    const bin = edges.findIndex(edge => value < edge);
+    return rangeLabel(bin === -1 ? edges.length : bin);
+  });
+};
+
+// Split the budget across groups in proportion to their size, giving every
+// group at least one row so rare groups are never dropped
+const allocate = (groups: number[][], budget: number): number[] => {
+  const total = groups.reduce((sum, group) => sum + group.length, 0);
+  const quotas = groups.map(group => Math.max(1, Math.floor((group.length / total) * budget)));
+  let spare = budget - quotas.reduce((sum, quota) => sum + quota, 0);
+  // Hand leftover rows to the largest groups that still have rows to give
+  const bySize = groups.map((_, i) => i).sort((a, b) => groups[b].length - groups[a].length);
+  let progressed = true;
+  while (spare > 0 && progressed) {
+    progressed = false;
+    for (const i of bySize) {
+      if (spare === 0) break;
+      if (quotas[i] < groups[i].length) {
+        quotas[i]++;
+        spare--;
+        progressed = true;
+      }
+    }
+  }
+  return quotas.map((quota, i) => Math.min(quota, groups[i].length));
+};
+
+const sampleGroups = (groups: number[][], budget: number, random: () => number): number[] => {
+  const quotas = allocate(groups, budget);
+  return groups.flatMap((group, i) =>
+    shuffleIndices(group.length, random).slice(0, quotas[i]).map(j => group[j])
+  );
+};
+
+const groupBy = (keys: (string | number)[]): number[][] => {
+  const groups = new Map<string | number, number[]>();
+  keys.forEach((key, i) => {
+    if (!groups.has(key)) groups.set(key, []);
+    groups.get(key)!.push(i);
+  });
+  return Array.from(groups.values());
+};
+
+// Algorithm R: a uniform sample in a single pass over the rows
+const reservoirSample = (count: number, budget: number, random: () => number): number[] => {
+  const reservoir: number[] = [];
+  for (let i = 0; i < count; i++) {
+    if (i < budget) {
+      reservoir.push(i);
+    } else {
+      const j = Math.floor(random() * (i + 1));
+      if (j < budget) reservoir[j] = i;
+    }
+  }
+  return reservoir;
+};
+
+// Cluster the standardized numeric features with k-means fitted on a subsample
+const clusterAssignments = (
+  data: Record<string, FeatureValue>[],
+  target: string,
+  random: () => number
+): number[] => {
+  const columns = Object.keys(data[0] ?? {}).filter(column =>
+    column !== target && data.slice(0, 100).some(row => typeof row[column] === "number")
+  );
+  if (columns.length === 0) return data.map(() => 0);
+
+  const stats = columns.map(column => {
+    const values = data.map(row => row[column]).filter((v): v is number => typeof v === "number");
+    const mean = values.reduce((sum, v) => sum + v, 0) / Math.max(values.length, 1);
+    const std = Math.sqrt(values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / Math.max(values.length, 1)) || 1;
+    return { mean, std };
+  });
+  const point = (row: Record<string, FeatureValue>) => columns.map((column, j) => {
+    const value = row[column];
+    return typeof value === "number" ? (value - stats[j].mean) / stats[j].std : 0;
+  });
+  const nearest = (p: number[], centroids: number[][]) => {
+    let best = 0;
+    let bestDistance = Infinity;
+    centroids.forEach((centroid, k) => {
+      const distance = centroid.reduce((sum, c, j) => sum + (c - p[j]) ** 2, 0);
+      if (distance < bestDistance) {
+        best = k;
+        bestDistance = distance;
+      }
+    });
+    return best;
+  };
+
+  const fitPoints = reservoirSample(data.length, CLUSTER_FIT_ROWS, random).map(i => point(data[i]));
+  let centroids = shuffleIndices(fitPoints.length, random).slice(0, CLUSTER_COUNT).map(i => fitPoints[i]);
+  for (let iteration = 0; iteration < CLUSTER_ITERATIONS; iteration++) {
+    const sums = centroids.map(() => new Array<number>(columns.length).fill(0));
+    const counts = centroids.map(() => 0);
+    fitPoints.forEach(p => {
+      const k = nearest(p, centroids);
+      counts[k]++;
+      p.forEach((v, j) => { sums[k][j] += v; });
+    });
+    centroids = centroids.map((centroid, k) => counts[k] ? sums[k].map(sum => sum / counts[k]) : centroid);
+  }
+
+  return data.map(row => nearest(point(row), centroids));
+};
+
+const buildReport = (
+  strategy: SamplingStrategy,
+  labels: string[],
+  indices: number[]
+): SamplingReport => {
+  const fullCounts = new Map<string, number>();
+  labels.forEach(label => fullCounts.set(label, (fullCounts.get(label) ?? 0) + 1));
+  const sampleCounts = new Map<string, number>();
+  indices.forEach(i => sampleCounts.set(labels[i], (sampleCounts.get(labels[i]) ?? 0) + 1));
+
+  const shares = Array.from(fullCounts.entries())
+    .map(([label, fullCount]) => {
+      const sampleCount = sampleCounts.get(label) ?? 0;
+      return {
+        label,
+        fullCount,
+        sampleCount,
+        fullShare: fullCount / labels.length,
+        sampleShare: indices.length ? sampleCount / indices.length : 0,
+      };
+    })
+    .sort((a, b) => b.fullCount - a.fullCount);
+
+  return {
+    strategy,
+    originalRows: labels.length,
+    sampledRows: indices.length,
+    shares,
+    maxShareDifference: Math.max(0, ...shares.map(share => Math.abs(share.fullShare - share.sampleShare))),
+    droppedLabels: shares.filter(share => share.sampleCount === 0).map(share => share.label),
+  };
+};
+
+// Reduce the rows to the budget with the chosen strategy. Rows keep their
+// original order, and data within the budget is returned unchanged.
+export const sampleDataset = (
+  data: Record<string, FeatureValue>[],
+  target: string,
+  options: SamplingOptions = DEFAULT_SAMPLING_OPTIONS
+): SampledDataset => {
+  const labels = targetLabels(data, target);
+  const budget = Math.max(1, Math.floor(options.rowBudget));
+  if (data.length <= budget) {
+    return { data, report: buildReport(options.strategy, labels, data.map((_, i) => i)) };
+  }
+
+  const random = createRandom(options.seed);
+  let indices: number[];
+  switch (options.strategy) {
+    case "stratified":
+      indices = sampleGroups(groupBy(labels), budget, random);
+      break;
+    case "reservoir":
+      indices = reservoirSample(data.length, budget, random);
+      break;
+    case "cluster":
+      indices = sampleGroups(groupBy(clusterAssignments(data, target, random)), budget, random);
+      break;
+  }
+
+  indices.sort((a, b) => a - b);
+  return {
+    data: indices.map(i => data[i]),
+    report: buildReport(options.strategy, labels, indices),
+  };
+};
@@ -0,0 +1,143 @@
+import { FeatureValue } from "@/utils/browserModels";
+import { isMissingValue, PreprocessingConfig, toNumericValue } from "@/utils/preprocessing";
+
+export type ColumnType = "numeric" | "integer" | "categorical" | "boolean" | "datetime" | "text" | "identifier";
+
+export const COLUMN_TYPES: ColumnType[] = ["numeric", "integer", "categorical", "boolean", "datetime", "text", "identifier"];
+
+// What was learned about one column on upload; `type` may be overridden by the user
+export interface ColumnSchema {
+  name: string;
+  type: ColumnType;
+  inferredType: ColumnType;
+  nullCount: number;
+  // Distinct non-missing values
+  cardinality: number;
+}
+
+export type DatasetSchema = ColumnSchema[];
+
+// Rows looked at when inferring types; counts still cover every row
+const INFERENCE_SAMPLE_ROWS = 10000;
+// Unique values per row above which a string column is an identifier rather than a category
+const IDENTIFIER_MIN_ROWS = 20;
+const TEXT_MIN_AVERAGE_WORDS = 3;
+
+const TRUE_VALUES = ["true", "yes", "y", "t"];
+const FALSE_VALUES = ["false", "no", "n", "f"];
+
+const DATE_PATTERN = /^(\d{4}-\d{1,2}-\d{1,2}([ T]\d{1,2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?|\d{1,2}[/.-]\d{1,2}[/.-]\d{2,4})$/;
+const IDENTIFIER_NAME = /(^id$|_id$|^id_|uuid|guid)/i;
+
+const toBooleanValue = (value: FeatureValue): boolean | null => {
+  if (typeof value === "boolean") return value;
+  if (typeof value === "number") return value === 1 ? true : value === 0 ? false : null;
+  const key = String(value).trim().toLowerCase();
+  if (TRUE_VALUES.includes(key)) return true;
+  if (FALSE_VALUES.includes(key)) return false;
+  return null;
+};
+
+const isDateValue = (value: FeatureValue): boolean => {
+  return typeof value === "string" && DATE_PATTERN.test(value.trim()) && !isNaN(Date.parse(value));
+};
+
+const inferColumnType = (name: string, values: FeatureValue[], cardinality: number): ColumnType => {
+  if (values.length === 0) return "categorical";
+
+  if (values.every(v => typeof v === "boolean" || (typeof v === "string" && toBooleanValue(v) !== null))) {
+    return "boolean";
+  }
+
+  const allUnique = cardinality === values.length && values.length >= IDENTIFIER_MIN_ROWS;
+
+  if (values.every(v => toNumericValue(v) !== null)) {
+    const integers = values.every(v => Number.isInteger(toNumericValue(v)));
+    if (integers && allUnique && IDENTIFIER_NAME.test(name)) return "identifier";
+    return integers ? "integer" : "numeric";
+  }
+
+  if (values.every(isDateValue)) return "datetime";
+
+  const strings = values.map(v => String(v).trim());
+  const averageWords = strings.reduce((sum, v) => sum + v.split(/\s+/).length, 0) / strings.length;
+  if (averageWords >= TEXT_MIN_AVERAGE_WORDS) return "text";
+  if (allUnique) return "identifier";
+  return "categorical";
+};
+
+// Classify every column from its values, with null counts and cardinality
+export const inferSchema = (data: Record<string, FeatureValue>[], columns: string[]): DatasetSchema => {
+  const sample = data.slice(0, INFERENCE_SAMPLE_ROWS);
+
+  return columns.map(name => {
+    const present = sample.map(row => row[name]).filter(v => !isMissingValue(v));
+    const distinct = new Set(data.filter(row => !isMissingValue(row[name])).map(row => String(row[name])));
+    const sampleDistinct = new Set(present.map(v => String(v)));
+    const type = inferColumnType(name, present, sampleDistinct.size);
+
+    return {
+      name,
+      type,
+      inferredType: type,
+      nullCount: data.filter(row => isMissingValue(row[name])).length,
+      cardinality: distinct.size,
+    };
+  });
+};
+
+// One value as the given column type; values that don't fit become missing
+export const coerceValue = (value: FeatureValue, type: ColumnType): FeatureValue => {
+  if (isMissingValue(value)) return null;
+
+  switch (type) {
+    case "numeric":
+      return toNumericValue(value);
+    case "integer": {
+      const numValue = toNumericValue(value);
+      return numValue === null ? null : Math.round(numValue);
+    }
+    case "boolean": {
+      // Booleans train as 0/1 inputs
+      const flag = toBooleanValue(value);
+      return flag === null ? null : flag ? 1 : 0;
+    }
+    case "datetime": {
+      // Dates train as milliseconds since the epoch
+      const time = typeof value === "number" ? value : Date.parse(String(value));
+      return isNaN(time) ? null : time;
+    }
+    default:
+      return typeof value === "string" ? value : String(value);
+  }
+};
+
+// Convert every row to the types in the schema; values that don't fit become missing
+export const applySchema = (
+  data: Record<string, FeatureValue>[],
+  schema: DatasetSchema
+): Record<string, FeatureValue>[] => {
+  return data.map(row => {
+    const typed: Record<string, FeatureValue> = { ...row };
+    schema.forEach(column => {
+      typed[column.name] = coerceValue(row[column.name], column.type);
+    });
+    return typed;
+  });
+};
+
+// Identifiers never train; everything else but the target is a feature
+export const schemaFeatures = (schema: DatasetSchema, target: string): string[] => {
+  return schema
+    .filter(column => column.name !== target && column.type !== "identifier")
+    .map(column => column.name);
+};
+
+// Let preprocessing encode categorical columns even when their values look numeric, and vectorize text columns
+export const withSchemaColumns = (config: PreprocessingConfig, schema: DatasetSchema): PreprocessingConfig => {
+  return {
+    ...config,
+    categoricalColumns: schema.filter(column => column.type === "categorical").map(column => column.name),
+    textColumns: schema.filter(column => column.type === "text").map(column => column.name),
+  };
+};
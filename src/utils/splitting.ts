@@ -0,0 +1,196 @@
+import { FeatureValue, createRandom } from "@/utils/browserModels";
+
+// Row indices into the dataset for one train/validation partition
+export interface DataSplit {
+  trainIndices: number[];
+  testIndices: number[];
+  // Rows held back from training for early stopping; only some trainers use them
+  validationIndices?: number[];
+}
+
+// How a model's rows are divided. The client resolves it into row indices and
+// sends those to the backend, so both sides train and score on the same rows.
+export interface SplitSpec {
+  seed: number;
+  testSize: number;
+  validationSize: number;
+  stratify: boolean;
+  // Rows sharing a value of this column always land in the same set
+  groupColumn?: string;
+  // Train on the earliest rows and test on the latest instead of shuffling
+  timeColumn?: string;
+}
+
+export const DEFAULT_SPLIT_SPEC: SplitSpec = {
+  seed: 42,
+  testSize: 0.2,
+  validationSize: 0,
+  stratify: false,
+};
+
+// Fisher-Yates shuffle of 0..count-1 driven by a seeded generator
+export const shuffleIndices = (count: number, random: () => number): number[] => {
+  const indices = Array.from({ length: count }, (_, i) => i);
+  for (let i = indices.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [indices[i], indices[j]] = [indices[j], indices[i]];
+  }
+  return indices;
+};
+
+// Shuffled indices grouped by class so each group can be dealt out evenly
+const shuffledGroups = (
+  labels: FeatureValue[],
+  stratify: boolean,
+  random: () => number
+): number[][] => {
+  const order = shuffleIndices(labels.length, random);
+  if (!stratify) return [order];
+
+  const groups = new Map<string, number[]>();
+  order.forEach(i => {
+    const key = String(labels[i]);
+    if (!groups.has(key)) groups.set(key, []);
+    groups.get(key)!.push(i);
+  });
+  return Array.from(groups.values());
+};
+
+// Partition rows into k folds; stratification keeps class ratios in every fold
+export const kFoldSplits = (
+  labels: FeatureValue[],
+  k: number,
+  stratify = false,
+  seed = 42
+): DataSplit[] => {
+  if (k < 2 || k > labels.length) {
+    throw new Error(`Cannot build ${k} folds from ${labels.length} rows`);
+  }
+
+  const random = createRandom(seed);
+  const foldOf = new Array<number>(labels.length);
+  let next = 0;
+  shuffledGroups(labels, stratify, random).forEach(group => {
+    group.forEach(i => {
+      foldOf[i] = next % k;
+      next += 1;
+    });
+  });
+
+  return Array.from({ length: k }, (_, fold) => ({
+    trainIndices: foldOf.map((f, i) => (f === fold ? -1 : i)).filter(i => i >= 0),
+    testIndices: foldOf.map((f, i) => (f === fold ? i : -1)).filter(i => i >= 0),
+  }));
+};
+
+// Single shuffled train/validation split holding out `testSize` of the rows
+export const holdoutSplit = (
+  labels: FeatureValue[],
+  testSize = 0.2,
+  stratify = false,
+  seed = 42
+): DataSplit => {
+  const random = createRandom(seed);
+  const split: DataSplit = { trainIndices: [], testIndices: [] };
+
+  shuffledGroups(labels, stratify, random).forEach(group => {
+    const testCount = Math.round(group.length * testSize);
+    split.testIndices.push(...group.slice(0, testCount));
+    split.trainIndices.push(...group.slice(testCount));
+  });
+
+  if (split.trainIndices.length === 0 || split.testIndices.length === 0) {
+    throw new Error("Not enough rows for a holdout split");
+  }
+  return split;
+};
+
+// Compare column values for time ordering; missing values sort first
+const compareTimes = (a: FeatureValue, b: FeatureValue): number => {
+  const toTime = (value: FeatureValue) => {
+    if (value === null || value === undefined || value === "") return -Infinity;
+    if (typeof value === "number") return value;
+    const time = Date.parse(String(value));
+    return isNaN(time) ? -Infinity : time;
+  };
+  return toTime(a) - toTime(b);
+};
+
+// Deal whole groups out to test, then validation, until each holds its share of rows
+const groupedSplit = (
+  groups: FeatureValue[],
+  testCount: number,
+  validationCount: number,
+  random: () => number
+): DataSplit => {
+  const members = new Map<string, number[]>();
+  groups.forEach((group, i) => {
+    const key = String(group);
+    if (!members.has(key)) members.set(key, []);
+    members.get(key)!.push(i);
+  });
+
+  const keys = Array.from(members.keys());
+  const split: DataSplit = { trainIndices: [], testIndices: [], validationIndices: [] };
+  shuffleIndices(keys.length, random).forEach(k => {
+    const rows = members.get(keys[k])!;
+    if (split.testIndices.length < testCount) {
+      split.testIndices.push(...rows);
+    } else if (split.validationIndices!.length < validationCount) {
+      split.validationIndices!.push(...rows);
+    } else {
+      split.trainIndices.push(...rows);
+    }
+  });
+  return split;
+};
+
+// Apply a split specification to the rows. The same rows and spec always give
+// the same indices. Time ordering takes precedence over groups, and groups over
+// stratification.
+export const resolveSplit = (
+  data: Record<string, FeatureValue>[],
+  target: string,
+  spec: SplitSpec = DEFAULT_SPLIT_SPEC
+): DataSplit => {
+  for (const column of [spec.groupColumn, spec.timeColumn]) {
+    if (column && data.length > 0 && !(column in data[0])) {
+      throw new Error(`Split column "${column}" is not in the training data`);
+    }
+  }
+
+  const testCount = Math.round(data.length * spec.testSize);
+  const validationCount = Math.round(data.length * spec.validationSize);
+  const random = createRandom(spec.seed);
+  let split: DataSplit;
+
+  if (spec.timeColumn) {
+    const column = spec.timeColumn;
+    // A stable sort keeps rows with equal times in file order
+    const order = data
+      .map((_, i) => i)
+      .sort((a, b) => compareTimes(data[a][column], data[b][column]));
+    const trainCount = data.length - testCount - validationCount;
+    split = {
+      trainIndices: order.slice(0, trainCount),
+      validationIndices: order.slice(trainCount, trainCount + validationCount),
+      testIndices: order.slice(trainCount + validationCount),
+    };
+  } else if (spec.groupColumn) {
+    split = groupedSplit(data.map(row => row[spec.groupColumn!]), testCount, validationCount, random);
+  } else {
+    split = { trainIndices: [], testIndices: [], validationIndices: [] };
+    shuffledGroups(data.map(row => row[target]), spec.stratify, random).forEach(group => {
+      const groupTest = Math.round(group.length * spec.testSize);
+      const groupValidation = Math.round(group.length * spec.validationSize);
+      split.testIndices.push(...group.slice(0, groupTest));
+      split.validationIndices!.push(...group.slice(groupTest, groupTest + groupValidation));
+      split.trainIndices.push(...group.slice(groupTest + groupValidation));
+    });
+  }
+
+  if (split.trainIndices.length === 0 || split.testIndices.length === 0) {
+    throw new Error("Not enough rows to split into training and test sets");
+  }
+  return split;
+};
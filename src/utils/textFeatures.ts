@@ -0,0 +1,118 @@
+// Bag-of-words vectorizers for free-text columns. Fitted vectorizers are stored in
+// the preprocessing pipeline (see supabase/functions/_shared/preprocessing.ts for
+// the Python twin, which must tokenize and hash identically).
+
+export type TextVectorizerMethod = "tfidf" | "hashing";
+
+export interface TextVectorizerOptions {
+  method: TextVectorizerMethod;
+  // Longest n-gram; 1 uses single words only
+  ngramMax: number;
+  removeStopWords: boolean;
+  // Vocabulary size for TF-IDF, bucket count for hashing
+  maxFeatures: number;
+}
+
+export interface TextVectorizer {
+  method: TextVectorizerMethod;
+  ngramMax: number;
+  removeStopWords: boolean;
+  // TF-IDF: kept terms, most frequent first, and their inverse document frequencies
+  vocabulary?: string[];
+  idf?: number[];
+  buckets?: number;
+}
+
+// Common English function words (a subset of scikit-learn's list)
+export const STOP_WORDS = new Set([
+  "a", "about", "above", "after", "again", "against", "all", "am", "an", "and", "any", "are", "as", "at",
+  "be", "because", "been", "before", "being", "below", "between", "both", "but", "by",
+  "can", "could", "did", "do", "does", "doing", "down", "during", "each", "few", "for", "from", "further",
+  "had", "has", "have", "having", "he", "her", "here", "hers", "herself", "him", "himself", "his", "how",
+  "i", "if", "in", "into", "is", "it", "its", "itself", "me", "more", "most", "my", "myself",
+  "of", "off", "on", "once", "only", "or", "other", "our", "ours", "ourselves", "out", "over", "own",
+  "same", "she", "should", "so", "some", "such", "than", "that", "the", "their", "theirs", "them",
+  "themselves", "then", "there", "these", "they", "this", "those", "through", "to", "too",
+  "under", "until", "up", "very", "was", "we", "were", "what", "when", "where", "which", "while", "who",
+  "whom", "why", "will", "with", "would", "you", "your", "yours", "yourself", "yourselves",
+]);
+
+// Lowercased runs of letters and digits, stop words removed, then joined into n-grams
+export const tokenize = (text: string, ngramMax: number, removeStopWords: boolean): string[] => {
+  const words = (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [])
+    .filter(word => !removeStopWords || !STOP_WORDS.has(word));
+  const terms: string[] = [];
+  for (let n = 1; n <= ngramMax; n++) {
+    for (let i = 0; i + n <= words.length; i++) {
+      terms.push(words.slice(i, i + n).join(" "));
+    }
+  }
+  return terms;
+};
+
+const encoder = new TextEncoder();
+
+// 32-bit FNV-1a over the UTF-8 bytes of the term
+export const hashBucket = (term: string, buckets: number): number => {
+  let hash = 0x811c9dc5;
+  for (const byte of encoder.encode(term)) {
+    hash ^= byte;
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0) % buckets;
+};
+
+export const fitTextVectorizer = (texts: string[], options: TextVectorizerOptions): TextVectorizer => {
+  const { method, ngramMax, removeStopWords, maxFeatures } = options;
+  if (method === "hashing") {
+    return { method, ngramMax, removeStopWords, buckets: maxFeatures };
+  }
+
+  const documentFrequency = new Map<string, number>();
+  texts.forEach(text => {
+    new Set(tokenize(text, ngramMax, removeStopWords)).forEach(term =>
+      documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1)
+    );
+  });
+  const vocabulary = Array.from(documentFrequency.keys())
+    .sort((a, b) => documentFrequency.get(b)! - documentFrequency.get(a)! || (a < b ? -1 : a > b ? 1 : 0))
+    .slice(0, maxFeatures);
+  // Smoothed IDF, as in scikit-learn's TfidfVectorizer
+  const idf = vocabulary.map(term => Math.log((1 + texts.length) / (1 + documentFrequency.get(term)!)) + 1);
+
+  return { method, ngramMax, removeStopWords, vocabulary, idf };
+};
+
+const termIndexes = new WeakMap<TextVectorizer, Map<string, number>>();
+
+// Position of a term's weight in the vector, or -1 for terms outside the vocabulary
+export const termIndex = (vectorizer: TextVectorizer, term: string): number => {
+  if (vectorizer.method === "hashing") return hashBucket(term, vectorizer.buckets ?? 1);
+  let index = termIndexes.get(vectorizer);
+  if (!index) {
+    index = new Map((vectorizer.vocabulary ?? []).map((term, i) => [term, i]));
+    termIndexes.set(vectorizer, index);
+  }
+  return index.get(term) ?? -1;
+};
+
+export const textFeatureNames = (column: string, vectorizer: TextVectorizer): string[] => {
+  return vectorizer.method === "hashing"
+    ? Array.from({ length: vectorizer.buckets ?? 0 }, (_, i) => `${column}:#${i}`)
+    : (vectorizer.vocabulary ?? []).map(term => `${column}:${term}`);
+};
+
+// L2-normalized term weights (TF-IDF, or raw counts per hash bucket)
+export const vectorizeText = (vectorizer: TextVectorizer, text: string): number[] => {
+  const size = vectorizer.method === "hashing" ? vectorizer.buckets ?? 0 : vectorizer.vocabulary?.length ?? 0;
+  const vector = new Array<number>(size).fill(0);
+  tokenize(text, vectorizer.ngramMax, vectorizer.removeStopWords).forEach(term => {
+    const i = termIndex(vectorizer, term);
+    if (i !== -1) vector[i] += 1;
+  });
+  if (vectorizer.idf) {
+    vectorizer.idf.forEach((idf, i) => { vector[i] *= idf; });
+  }
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+  return norm ? vector.map(v => v / norm) : vector;
+};
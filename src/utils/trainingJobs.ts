@@ -0,0 +1,214 @@
+import { EpochMetrics } from "@/utils/learningCurves";
+
+const FUNCTIONS_URL = "https://uysdqwhyhqhamwvzsolw.supabase.co/functions/v1";
+
+export type TrainingJobStatus = "queued" | "running" | "paused" | "succeeded" | "failed" | "cancelled";
+
+export type TrainingJobAction = "pause" | "resume" | "cancel";
+
+export interface FittedScaler {
+  mean: number[];
+  scale: number[];
+}
+
+// Payload train-model stores on a succeeded job
+export interface TrainingJobResult {
+  accuracy: number;
+  model?: string;
+  metrics?: Record<string, number>;
+  confusion_matrix?: number[][] | null;
+  feature_importance?: Record<string, number> | null;
+  train_accuracy?: number | null;
+  // Standardization fitted by the backend when the rows were not preprocessed client-side
+  scaler?: FittedScaler | null;
+  history?: EpochMetrics[] | null;
+  // Library a neural network was trained with
+  framework?: "keras" | "sklearn" | null;
+}
+
+export interface TrainingJob {
+  id: string;
+  status: TrainingJobStatus;
+  algorithm: string;
+  progress: number;
+  logs: string[];
+  error: string | null;
+  result: TrainingJobResult | null;
+  // Pause or cancel request the backend has not acted on yet
+  control: "pause" | "cancel" | null;
+  // Last epoch saved for a paused neural network
+  checkpointEpoch: number | null;
+  history: EpochMetrics[];
+  createdAt: string;
+  // Last write to the job; a running job refreshes it with a heartbeat
+  updatedAt: string;
+  startedAt: string | null;
+  finishedAt: string | null;
+}
+
+export type TrainingJobListener = (job: TrainingJob) => void;
+
+export const POLL_INTERVAL_MS = 1000;
+
+// Consecutive failed polls tolerated before waiting gives up on a job
+const MAX_POLL_FAILURES = 5;
+
+// A queued or running job whose heartbeat has not moved for this long is given up on.
+// training-job-status fails such jobs after two minutes; this covers the status function
+// itself being unreachable or failing to record it.
+const STALE_JOB_MS = 3 * 60 * 1000;
+
+// Thrown when a job is cancelled so callers don't fall back to training elsewhere
+export class TrainingJobCancelledError extends Error {
+  constructor(public jobId: string) {
+    super("Training job was cancelled");
+    this.name = "TrainingJobCancelledError";
+  }
+}
+
+export const isTerminalStatus = (status: TrainingJobStatus): boolean => {
+  return status === "succeeded" || status === "failed" || status === "cancelled";
+};
+
+const authHeaders = () => ({
+  "Content-Type": "application/json",
+  "Authorization": `Bearer ${import.meta.env.VITE_SUPABASE_ANON_KEY || ''}`
+});
+
+// Queue a train-model request; the backend answers with the job id right away
+export const submitTrainingJob = async (request: Record<string, unknown>): Promise<string> => {
+  const response = await fetch(`${FUNCTIONS_URL}/train-model`, {
+    method: "POST",
+    headers: authHeaders(),
+    body: JSON.stringify({ ...request, async: true })
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json();
+    throw new Error(`Training failed: ${errorData.error || 'Unknown error'}`);
+  }
+
+  const { jobId } = await response.json();
+  return jobId;
+};
+
+export const fetchTrainingJob = async (jobId: string): Promise<TrainingJob> => {
+  const response = await fetch(`${FUNCTIONS_URL}/training-job-status`, {
+    method: "POST",
+    headers: authHeaders(),
+    body: JSON.stringify({ jobId })
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json();
+    throw new Error(`Could not load training job: ${errorData.error || 'Unknown error'}`);
+  }
+
+  const job = await response.json();
+  return {
+    id: job.jobId,
+    status: job.status,
+    algorithm: job.algorithm,
+    progress: job.progress ?? 0,
+    logs: job.logs ?? [],
+    error: job.error ?? null,
+    result: job.result ?? null,
+    control: job.control ?? null,
+    checkpointEpoch: job.checkpointEpoch ?? null,
+    history: job.history ?? [],
+    createdAt: job.createdAt,
+    updatedAt: job.updatedAt ?? job.createdAt,
+    startedAt: job.startedAt ?? null,
+    finishedAt: job.finishedAt ?? null,
+  };
+};
+
+export const controlTrainingJob = async (jobId: string, action: TrainingJobAction): Promise<TrainingJobStatus> => {
+  const response = await fetch(`${FUNCTIONS_URL}/training-job-control`, {
+    method: "POST",
+    headers: authHeaders(),
+    body: JSON.stringify({ jobId, action })
+  });
+
+  const result = await response.json();
+  if (!response.ok) {
+    throw new Error(`Could not ${action} training job: ${result.error || 'Unknown error'}`);
+  }
+
+  return result.status;
+};
+
+// Poll a job until it finishes; resolves with the succeeded job and rejects otherwise.
+// Paused jobs keep being polled until they are resumed or cancelled. A failed poll is
+// retried, since the job keeps running on the server whether or not we can reach it, and
+// a queued or running job that stops writing its heartbeat is given up on.
+export const waitForTrainingJob = async (
+  jobId: string,
+  onUpdate?: TrainingJobListener,
+  intervalMs = POLL_INTERVAL_MS
+): Promise<TrainingJob> => {
+  let failures = 0;
+  // Heartbeat last seen and when it changed, on this clock so server skew doesn't matter
+  let heartbeat: string | null = null;
+  let heartbeatSeenAt = Date.now();
+  for (;;) {
+    let job: TrainingJob;
+    try {
+      job = await fetchTrainingJob(jobId);
+      failures = 0;
+    } catch (error) {
+      if (++failures > MAX_POLL_FAILURES) throw error;
+      console.warn(`Polling training job ${jobId} failed (attempt ${failures}):`, error);
+      await new Promise(resolve => setTimeout(resolve, intervalMs));
+      continue;
+    }
+    onUpdate?.(job);
+
+    if (job.status === "succeeded") return job;
+    if (job.status === "failed") throw new Error(job.error || "Training job failed");
+    if (job.status === "cancelled") throw new TrainingJobCancelledError(jobId);
+
+    if (job.status === "paused" || job.updatedAt !== heartbeat) {
+      heartbeat = job.updatedAt;
+      heartbeatSeenAt = Date.now();
+    } else if (Date.now() - heartbeatSeenAt > STALE_JOB_MS) {
+      throw new Error(`Training job ${jobId} stopped responding`);
+    }
+
+    await new Promise(resolve => setTimeout(resolve, intervalMs));
+  }
+};
+
+export interface TrainingJobsSummary {
+  status: TrainingJobStatus | null;
+  progress: number;
+  logs: string[];
+  error: string | null;
+  // Only neural network jobs checkpoint their epochs and can be paused
+  canPause: boolean;
+}
+
+// Status of a group of jobs, from the most to the least pressing
+const SUMMARY_STATUS_ORDER: TrainingJobStatus[] = ["running", "queued", "paused", "cancelled", "succeeded", "failed"];
+
+// Combine several concurrent jobs into one progress value and log stream
+export const summarizeTrainingJobs = (jobs: TrainingJob[]): TrainingJobsSummary => {
+  if (jobs.length === 0) {
+    return { status: null, progress: 0, logs: [], error: null, canPause: false };
+  }
+
+  const progress = jobs.reduce((sum, job) => sum + job.progress, 0) / jobs.length;
+  const logs = jobs.flatMap(job => job.logs.map(line => `[${job.algorithm}] ${line}`));
+  const failed = jobs.find(job => job.status === "failed");
+
+  const status = SUMMARY_STATUS_ORDER.find(candidate => jobs.some(job => job.status === candidate)) ?? null;
+  const active = jobs.filter(job => !isTerminalStatus(job.status));
+
+  return {
+    status,
+    progress,
+    logs,
+    error: failed ? `${failed.algorithm}: ${failed.error || "Training job failed"}` : null,
+    canPause: active.length > 0 && active.every(job => job.algorithm === "Neural Network")
+  };
+};
@@ -0,0 +1,22 @@
+import { CsvParseOptions, parseCsvFile } from "@/utils/csvParser";
+
+export interface CsvWorkerRequest {
+  file: File;
+  options: CsvParseOptions;
+}
+
+// Web Worker entry that parses CSV files off the UI thread
+self.onmessage = async (event: MessageEvent<CsvWorkerRequest>) => {
+  try {
+    const { file, options } = event.data;
+    const result = await parseCsvFile(file, options, (progress) => {
+      self.postMessage({ type: "progress", progress });
+    });
+    self.postMessage({ type: "result", result });
+  } catch (error) {
+    self.postMessage({
+      type: "error",
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+};
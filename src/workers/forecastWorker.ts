@@ -0,0 +1,16 @@
+import { ForecastRequest, trainForecaster } from "@/utils/forecasting";
+
+// Web Worker entry for forecasting backtests so the UI thread stays responsive
+self.onmessage = (event: MessageEvent<ForecastRequest>) => {
+  try {
+    const result = trainForecaster(event.data, (progress, message) => {
+      self.postMessage({ type: "progress", progress, message });
+    });
+    self.postMessage({ type: "result", result });
+  } catch (error) {
+    self.postMessage({
+      type: "error",
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+};
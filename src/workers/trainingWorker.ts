@@ -0,0 +1,16 @@
+import { BrowserTrainingRequest, trainBrowserModel } from "@/utils/browserModels";
+
+// Web Worker entry for in-browser training so the UI thread stays responsive
+self.onmessage = (event: MessageEvent<BrowserTrainingRequest>) => {
+  try {
+    const result = trainBrowserModel(event.data, (progress, message) => {
+      self.postMessage({ type: "progress", progress, message });
+    });
+    self.postMessage({ type: "result", result });
+  } catch (error) {
+    self.postMessage({
+      type: "error",
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+};
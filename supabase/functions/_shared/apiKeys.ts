@@ -0,0 +1,200 @@
+// API keys of the public prediction endpoint and its request log, through the Supabase REST API.
+// Both tables are only writable with the service role key: keys are issued and revoked by the
+// api-keys function, behind the admin secret, and requests are logged by predict-api, never by
+// the app directly.
+const KEY_PREFIX = "mm_";
+
+// Columns the app may see; the hash stays on the server
+export const PUBLIC_KEY_COLUMNS = "id,project,name,key_prefix,rate_limit_per_minute,created_at,last_used_at,revoked_at";
+
+export interface ApiKeyRow {
+  id: string;
+  project: string;
+  name: string;
+  key_prefix: string;
+  key_hash: string;
+  rate_limit_per_minute: number;
+  created_at: string;
+  last_used_at: string | null;
+  revoked_at: string | null;
+}
+
+export interface PredictionRequestLog {
+  api_key_id: string | null;
+  model_id: string | null;
+  status_code: number;
+  row_count: number;
+  latency_ms: number;
+  error: string | null;
+}
+
+const restConfig = () => {
+  const supabaseUrl = Deno.env.get("SUPABASE_URL") || "";
+  const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") || "";
+
+  if (!supabaseUrl || !serviceRoleKey) {
+    throw new Error("Missing required environment variables: SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY");
+  }
+
+  return {
+    url: `${supabaseUrl}/rest/v1`,
+    headers: {
+      "apikey": serviceRoleKey,
+      "Authorization": `Bearer ${serviceRoleKey}`,
+      "Content-Type": "application/json",
+    },
+  };
+};
+
+// SHA-256 of the key, hex encoded; only this is stored
+export const hashApiKey = async (key: string): Promise<string> => {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(key));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, "0")).join("");
+};
+
+// Keys are managed by whoever holds the admin secret; the app itself has no sign-in
+export const isAdminRequest = async (req: Request): Promise<boolean> => {
+  const adminSecret = Deno.env.get("API_KEYS_ADMIN_SECRET") || "";
+  if (!adminSecret) {
+    throw new Error("Missing required environment variable: API_KEYS_ADMIN_SECRET");
+  }
+
+  // Digests have a fixed length, so the comparison leaks nothing about the secret
+  const presented = await hashApiKey(req.headers.get("x-admin-secret") ?? "");
+  const expected = await hashApiKey(adminSecret);
+  let difference = 0;
+  for (let i = 0; i < expected.length; i++) {
+    difference |= presented.charCodeAt(i) ^ expected.charCodeAt(i);
+  }
+  return difference === 0;
+};
+
+// 32 random bytes, base64url encoded
+const generateSecret = (): string => {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  const base64 = btoa(String.fromCharCode(...bytes));
+  return KEY_PREFIX + base64.replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+};
+
+// Issue a key to the project. The secret is returned once and never stored.
+export const createApiKey = async (
+  project: string,
+  name: string,
+  rateLimitPerMinute: number
+): Promise<{ key: Omit<ApiKeyRow, "key_hash">; secret: string }> => {
+  const { url, headers } = restConfig();
+  const secret = generateSecret();
+  const response = await fetch(`${url}/api_keys?select=${PUBLIC_KEY_COLUMNS}`, {
+    method: "POST",
+    headers: { ...headers, "Prefer": "return=representation" },
+    body: JSON.stringify({
+      project,
+      name,
+      key_prefix: secret.slice(0, KEY_PREFIX.length + 6),
+      key_hash: await hashApiKey(secret),
+      rate_limit_per_minute: rateLimitPerMinute,
+    }),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to create API key: ${response.statusText}`);
+  }
+
+  const rows = await response.json();
+  return { key: rows[0], secret };
+};
+
+// Revoke the key; a revoked key stays revoked, so its revocation time never changes
+export const revokeApiKey = async (id: string): Promise<Omit<ApiKeyRow, "key_hash"> | null> => {
+  const { url, headers } = restConfig();
+  const response = await fetch(
+    `${url}/api_keys?id=eq.${encodeURIComponent(id)}&revoked_at=is.null&select=${PUBLIC_KEY_COLUMNS}`,
+    {
+      method: "PATCH",
+      headers: { ...headers, "Prefer": "return=representation" },
+      body: JSON.stringify({ revoked_at: new Date().toISOString() }),
+    }
+  );
+
+  if (!response.ok) {
+    throw new Error(`Failed to revoke API key: ${response.statusText}`);
+  }
+
+  const rows = await response.json();
+  return rows[0] ?? null;
+};
+
+// Serve the model to the project's keys, or to none; the anon key cannot write models.project
+export const setModelProject = async (
+  modelId: string,
+  project: string | null
+): Promise<{ id: string; project: string | null } | null> => {
+  const { url, headers } = restConfig();
+  const response = await fetch(`${url}/models?id=eq.${encodeURIComponent(modelId)}&select=id,project`, {
+    method: "PATCH",
+    headers: { ...headers, "Prefer": "return=representation" },
+    body: JSON.stringify({ project }),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to update the model project: ${response.statusText}`);
+  }
+
+  const rows = await response.json();
+  return rows[0] ?? null;
+};
+
+// The active key matching the presented one, or null for unknown and revoked keys
+export const findApiKey = async (key: string): Promise<ApiKeyRow | null> => {
+  const { url, headers } = restConfig();
+  const hash = await hashApiKey(key);
+  const response = await fetch(
+    `${url}/api_keys?key_hash=eq.${hash}&revoked_at=is.null&select=*`,
+    { headers }
+  );
+
+  if (!response.ok) {
+    throw new Error(`Failed to look up API key: ${response.statusText}`);
+  }
+
+  const rows = await response.json();
+  return rows[0] ?? null;
+};
+
+// Requests logged for the key in the last minute
+export const recentRequestCount = async (apiKeyId: string): Promise<number> => {
+  const { url, headers } = restConfig();
+  const since = new Date(Date.now() - 60_000).toISOString();
+  const response = await fetch(
+    `${url}/prediction_requests?api_key_id=eq.${apiKeyId}&created_at=gte.${encodeURIComponent(since)}&select=id`,
+    { method: "HEAD", headers: { ...headers, "Prefer": "count=exact" } }
+  );
+
+  if (!response.ok) {
+    throw new Error(`Failed to count API requests: ${response.statusText}`);
+  }
+
+  // PostgREST reports the total as "0-9/10" (or "*/0" when empty)
+  return Number(response.headers.get("content-range")?.split("/")[1] ?? 0);
+};
+
+// Record a request and when the key was last used; logging never fails the request
+export const logPredictionRequest = async (entry: PredictionRequestLog): Promise<void> => {
+  const { url, headers } = restConfig();
+  try {
+    await fetch(`${url}/prediction_requests`, {
+      method: "POST",
+      headers: { ...headers, "Prefer": "return=minimal" },
+      body: JSON.stringify(entry),
+    });
+    if (entry.api_key_id) {
+      await fetch(`${url}/api_keys?id=eq.${entry.api_key_id}`, {
+        method: "PATCH",
+        headers: { ...headers, "Prefer": "return=minimal" },
+        body: JSON.stringify({ last_used_at: new Date().toISOString() }),
+      });
+    }
+  } catch (error) {
+    console.error("Failed to log prediction request:", error.message);
+  }
+};
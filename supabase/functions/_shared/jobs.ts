@@ -0,0 +1,199 @@
+// Access to the training_jobs table through the Supabase REST API
+export type JobStatus = "queued" | "running" | "paused" | "succeeded" | "failed" | "cancelled";
+
+export type JobControl = "pause" | "cancel";
+
+// Epoch checkpoint of a paused neural network; `model` is the base64 encoded .keras file
+export interface JobCheckpoint {
+  epoch: number;
+  model: string;
+}
+
+export interface TrainingJobRow {
+  id: string;
+  status: JobStatus;
+  algorithm: string;
+  dataset_name: string | null;
+  // Request the job was submitted with, without its rows
+  request: Record<string, unknown> | null;
+  // Object in the training-job-data bucket holding the rows while the job can be resumed
+  data_path: string | null;
+  progress: number;
+  logs: string[];
+  result: Record<string, unknown> | null;
+  error: string | null;
+  control: JobControl | null;
+  checkpoint: JobCheckpoint | null;
+  history: Record<string, unknown>[];
+  created_at: string;
+  updated_at: string;
+  started_at: string | null;
+  finished_at: string | null;
+}
+
+// A queued or running job whose row has not been touched for this long has lost its worker.
+// Running jobs write a heartbeat well within it; queued ones start within seconds.
+export const STALE_JOB_MS = 2 * 60 * 1000;
+
+export const isStaleJob = (job: TrainingJobRow): boolean => {
+  return (job.status === "queued" || job.status === "running") &&
+    Date.now() - Date.parse(job.updated_at) > STALE_JOB_MS;
+};
+
+const restConfig = () => {
+  const supabaseUrl = Deno.env.get("SUPABASE_URL") || "";
+  const supabaseAnonKey = Deno.env.get("SUPABASE_ANON_KEY") || "";
+
+  if (!supabaseUrl || !supabaseAnonKey) {
+    throw new Error("Missing required environment variables: SUPABASE_URL or SUPABASE_ANON_KEY");
+  }
+
+  return {
+    url: `${supabaseUrl}/rest/v1/training_jobs`,
+    headers: {
+      "apikey": supabaseAnonKey,
+      "Authorization": `Bearer ${supabaseAnonKey}`,
+      "Content-Type": "application/json",
+    },
+  };
+};
+
+export const createJob = async (job: Partial<TrainingJobRow>): Promise<TrainingJobRow> => {
+  const { url, headers } = restConfig();
+  const response = await fetch(url, {
+    method: "POST",
+    headers: { ...headers, "Prefer": "return=representation" },
+    body: JSON.stringify({ status: "queued", progress: 0, logs: [], ...job }),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to create training job: ${await response.text()}`);
+  }
+
+  const rows = await response.json();
+  return rows[0];
+};
+
+export const getJob = async (jobId: string): Promise<TrainingJobRow | null> => {
+  const { url, headers } = restConfig();
+  const response = await fetch(`${url}?id=eq.${encodeURIComponent(jobId)}&select=*`, { headers });
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch training job: ${response.statusText}`);
+  }
+
+  const rows = await response.json();
+  return rows[0] ?? null;
+};
+
+export const updateJob = async (jobId: string, updates: Partial<TrainingJobRow>): Promise<void> => {
+  const { url, headers } = restConfig();
+  const response = await fetch(`${url}?id=eq.${encodeURIComponent(jobId)}`, {
+    method: "PATCH",
+    headers: { ...headers, "Prefer": "return=minimal" },
+    body: JSON.stringify(updates),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to update training job: ${await response.text()}`);
+  }
+};
+
+// Update the job only while it still matches `filters` (PostgREST conditions such as
+// "status=eq.queued"). Returns the updated row, or null when the job has moved on.
+export const updateJobIf = async (
+  jobId: string,
+  filters: string,
+  updates: Partial<TrainingJobRow>
+): Promise<TrainingJobRow | null> => {
+  const { url, headers } = restConfig();
+  const response = await fetch(`${url}?id=eq.${encodeURIComponent(jobId)}&${filters}`, {
+    method: "PATCH",
+    headers: { ...headers, "Prefer": "return=representation" },
+    body: JSON.stringify(updates),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to update training job: ${await response.text()}`);
+  }
+
+  const rows = await response.json();
+  return rows[0] ?? null;
+};
+
+// Rows of a job live in a private bucket, which only the service role can use
+const JOB_DATA_BUCKET = "training-job-data";
+
+const storageConfig = () => {
+  const supabaseUrl = Deno.env.get("SUPABASE_URL") || "";
+  const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") || "";
+
+  if (!supabaseUrl || !serviceRoleKey) {
+    throw new Error("Missing required environment variables: SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY");
+  }
+
+  return {
+    url: `${supabaseUrl}/storage/v1/object/${JOB_DATA_BUCKET}`,
+    headers: {
+      "apikey": serviceRoleKey,
+      "Authorization": `Bearer ${serviceRoleKey}`,
+    },
+  };
+};
+
+// Store the rows of a job and return the path to keep on its row
+export const saveJobRows = async (jobId: string, rows: unknown[]): Promise<string> => {
+  const { url, headers } = storageConfig();
+  const path = `${jobId}.json`;
+  const response = await fetch(`${url}/${path}`, {
+    method: "POST",
+    headers: { ...headers, "Content-Type": "application/json" },
+    body: JSON.stringify(rows),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to store training job rows: ${await response.text()}`);
+  }
+  return path;
+};
+
+export const loadJobRows = async (path: string): Promise<unknown[]> => {
+  const { url, headers } = storageConfig();
+  const response = await fetch(`${url}/${path}`, { headers });
+
+  if (!response.ok) {
+    throw new Error(`Failed to load training job rows: ${await response.text()}`);
+  }
+  return await response.json();
+};
+
+export const removeJobRows = async (path: string): Promise<void> => {
+  const { url, headers } = storageConfig();
+  const response = await fetch(`${url}/${path}`, { method: "DELETE", headers });
+
+  // Cancelling a queued job removes its rows both here and in the worker that never starts it
+  if (!response.ok && response.status !== 404) {
+    throw new Error(`Failed to remove training job rows: ${await response.text()}`);
+  }
+};
+
+// Fail a job that lost its worker and drop its rows, unless a heartbeat or another update
+// came in meanwhile. Returns the failed row, or null when the job has moved on.
+export const failStaleJob = async (job: TrainingJobRow): Promise<TrainingJobRow | null> => {
+  const cutoff = new Date(Date.now() - STALE_JOB_MS).toISOString();
+  const message = `Training stopped responding for more than ${STALE_JOB_MS / 60000} minutes`;
+  const failed = await updateJobIf(job.id, `status=in.(queued,running)&updated_at=lt.${encodeURIComponent(cutoff)}`, {
+    status: "failed",
+    error: message,
+    logs: [...job.logs, `[${new Date().toISOString()}] ${message}`],
+    control: null,
+    finished_at: new Date().toISOString(),
+  });
+
+  if (failed?.data_path) {
+    await removeJobRows(failed.data_path).catch((error) => {
+      console.error(`Could not remove the rows of job ${job.id}:`, error.message);
+    });
+  }
+  return failed;
+};
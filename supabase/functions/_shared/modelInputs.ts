@@ -0,0 +1,109 @@
+// The input contract of a trained model: rows keyed by feature name, checked against
+// the features it was trained on and coerced to the types of its stored schema
+// (the same rules as applySchema in src/utils/schema.ts).
+export type FeatureValue = string | number | boolean | null;
+
+interface ColumnSchema {
+  name: string;
+  type: "numeric" | "integer" | "categorical" | "boolean" | "datetime" | "text" | "identifier";
+}
+
+// Errors are reported per row; listing every bad row of a large request helps nobody
+const MAX_REPORTED_ERRORS = 20;
+
+const TRUE_VALUES = ["true", "yes", "y", "t"];
+const FALSE_VALUES = ["false", "no", "n", "f"];
+
+export class RowValidationError extends Error {
+  errors: string[];
+
+  constructor(errors: string[]) {
+    super(`Invalid input rows: ${errors.slice(0, 3).join("; ")}${errors.length > 3 ? "; ..." : ""}`);
+    this.name = "RowValidationError";
+    this.errors = errors;
+  }
+}
+
+// Training order of the model's inputs; null when the model predates stored features
+export const modelFeatures = (parameters: Record<string, unknown>): string[] | null => {
+  if (parameters.image) return ["image"];
+  const pipeline = parameters.preprocessing as { inputFeatures?: string[] } | null | undefined;
+  return pipeline?.inputFeatures ?? (parameters.availableFeatures as string[] | undefined) ?? null;
+};
+
+export const parseSchema = (schema: unknown): ColumnSchema[] => {
+  const parsed = typeof schema === "string" ? JSON.parse(schema) : schema;
+  return Array.isArray(parsed) ? parsed : [];
+};
+
+const isMissing = (value: unknown) =>
+  value === null || value === undefined || value === "" || (typeof value === "number" && isNaN(value));
+
+const toNumber = (value: unknown): number | null => {
+  if (typeof value === "number") return isFinite(value) ? value : null;
+  if (typeof value === "boolean") return value ? 1 : 0;
+  if (typeof value === "string" && value.trim() !== "" && isFinite(Number(value))) return Number(value);
+  return null;
+};
+
+// The coerced value, or a description of what was expected
+const coerce = (value: unknown, type: ColumnSchema["type"] | undefined): { value: FeatureValue } | { expected: string } => {
+  if (isMissing(value)) return { value: null };
+  if (typeof value === "object") return { expected: "a single value" };
+
+  switch (type) {
+    case "numeric":
+    case "integer": {
+      const numValue = toNumber(value);
+      if (numValue === null) return { expected: "a number" };
+      return { value: type === "integer" ? Math.round(numValue) : numValue };
+    }
+    case "boolean": {
+      const key = String(value).trim().toLowerCase();
+      if (value === true || value === 1 || TRUE_VALUES.includes(key)) return { value: 1 };
+      if (value === false || value === 0 || FALSE_VALUES.includes(key)) return { value: 0 };
+      return { expected: "true or false" };
+    }
+    case "datetime": {
+      const time = typeof value === "number" ? value : Date.parse(String(value));
+      return isNaN(time) ? { expected: "a date" } : { value: time };
+    }
+    case undefined:
+      return { value: value as FeatureValue };
+    default:
+      return { value: String(value) };
+  }
+};
+
+// Check named rows and return them as arrays in training order; throws RowValidationError
+export const prepareRows = (rows: unknown[], features: string[], schema: ColumnSchema[]): FeatureValue[][] => {
+  const types = new Map(schema.map(column => [column.name, column.type]));
+  const errors: string[] = [];
+  const report = (message: string) => {
+    if (errors.length < MAX_REPORTED_ERRORS) errors.push(message);
+  };
+
+  const prepared = rows.map((row, i) => {
+    if (!row || typeof row !== "object" || Array.isArray(row)) {
+      report(`Row ${i + 1}: expected an object keyed by feature name`);
+      return [];
+    }
+    const record = row as Record<string, unknown>;
+    const unknown = Object.keys(record).filter(column => !features.includes(column));
+    const missing = features.filter(feature => !(feature in record));
+    if (unknown.length) report(`Row ${i + 1}: unknown column(s) ${unknown.join(", ")}`);
+    if (missing.length) report(`Row ${i + 1}: missing column(s) ${missing.join(", ")}`);
+
+    return features.map(feature => {
+      const result = coerce(record[feature], types.get(feature));
+      if ("expected" in result) {
+        report(`Row ${i + 1}: "${feature}" expected ${result.expected}, got ${JSON.stringify(record[feature])}`);
+        return null;
+      }
+      return result.value;
+    });
+  });
+
+  if (errors.length) throw new RowValidationError(errors);
+  return prepared;
+};
@@ -0,0 +1,192 @@
+// Predictions with stored (pickled) models, shared by predict-with-model and the
+// public predict-api endpoint
+import { PREPROCESSING_PYTHON } from "./preprocessing.ts";
+import { PYTHON_INPUTS, runPythonScript } from "./python.ts";
+
+// A row of the models table as returned by the REST API
+export interface ModelRow {
+  id: string;
+  name: string;
+  type: string;
+  algorithm: string;
+  model_data: string | null;
+  parameters: Record<string, unknown> | string | null;
+  schema: unknown;
+  targets: unknown;
+  // Project whose API keys may call the model through predict-api
+  project: string | null;
+}
+
+export interface PredictionResult {
+  predictions: unknown[];
+  probabilities: unknown[];
+  explanation: Record<string, unknown> | null;
+}
+
+export const getModel = async (modelId: string): Promise<ModelRow | null> => {
+  const supabaseUrl = Deno.env.get("SUPABASE_URL") || "";
+  const supabaseAnonKey = Deno.env.get("SUPABASE_ANON_KEY") || "";
+
+  if (!supabaseUrl || !supabaseAnonKey) {
+    throw new Error("Missing required environment variables: SUPABASE_URL or SUPABASE_ANON_KEY");
+  }
+
+  const response = await fetch(`${supabaseUrl}/rest/v1/models?id=eq.${encodeURIComponent(modelId)}&select=*`, {
+    headers: {
+      "apikey": supabaseAnonKey,
+      "Authorization": `Bearer ${supabaseAnonKey}`
+    }
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch model: ${response.statusText}`);
+  }
+
+  const models = await response.json();
+  return models?.[0] ?? null;
+};
+
+// Stored parameters are JSON text in older rows
+export const modelParameters = (model: ModelRow): Record<string, unknown> => {
+  return (typeof model.parameters === "string" ? JSON.parse(model.parameters) : model.parameters) ?? {};
+};
+
+// Rows are positional, ordered like the training features (see prepareRows in modelInputs.ts);
+// image classifiers take one base64 image per row
+export const runPrediction = async (model: ModelRow, rows: unknown[]): Promise<PredictionResult> => {
+  const parameters = modelParameters(model);
+
+  // Pipeline fitted at training time; older models were trained without one.
+  // Image classifiers take base64 pixels packed like their training rows instead.
+  const config = {
+    model: model.model_data || "",
+    pipeline: parameters.preprocessing || null,
+    image: parameters.image || null,
+    // Standardization fitted in the training script (models trained without a client pipeline)
+    scaler: parameters.scaler || null,
+  };
+
+  const result = await runPythonScript(generatePredictionScript(), undefined, { config, rows });
+  return {
+    predictions: (result.predictions as unknown[]) || [],
+    probabilities: (result.probabilities as unknown[]) || [],
+    explanation: (result.explanation as Record<string, unknown>) || null,
+  };
+};
+
+// Python script that loads a pickled model and predicts the rows it is given
+export const generatePredictionScript = () => {
+  const script = `
+import json
+import pickle
+import base64
+import numpy as np
+import pandas as pd
+from io import BytesIO
+from sklearn.preprocessing import StandardScaler
+${PYTHON_INPUTS}
+config = load_config()
+
+# Load model from base64 string
+model_base64 = config["model"]
+if model_base64:
+    try:
+        model_bytes = BytesIO(base64.b64decode(model_base64))
+        model = pickle.load(model_bytes)
+    except Exception as e:
+        print(json.dumps({
+            "error": f"Failed to load model: {str(e)}"
+        }))
+        exit(1)
+else:
+    print(json.dumps({
+        "error": "No model data available"
+    }))
+    exit(1)
+
+${PREPROCESSING_PYTHON}
+
+# Load input data
+input_data = load_rows()
+pipeline = config["pipeline"]
+image_config = config.get("image")
+
+if image_config:
+    X_scaled = np.stack([
+        np.frombuffer(base64.b64decode(row[0] if isinstance(row, (list, tuple)) else row["image"]), dtype=np.uint8)
+        .reshape(image_config["height"], image_config["width"], image_config["channels"])
+        for row in input_data
+    ]).astype("float32") / 255.0
+elif pipeline:
+    # Replay the exact preprocessing fitted during training
+    X_scaled = np.array(apply_pipeline(pipeline, input_data), dtype=float)
+elif config.get("scaler"):
+    # Standardize with the statistics of the training rows
+    X_scaled = (np.array(input_data, dtype=float) - np.array(config["scaler"]["mean"])) / np.array(config["scaler"]["scale"])
+else:
+    # Legacy models: no stored pipeline or scaler, so standardize the input on its own
+    X = np.array(input_data)
+    scaler = StandardScaler()
+    X_scaled = scaler.fit_transform(X)
+
+# Make predictions
+try:
+    if image_config:
+        # The network outputs class probabilities (a single sigmoid unit for two classes)
+        output = np.asarray(model.predict(X_scaled))
+        scores = np.hstack([1 - output, output]) if output.shape[1] == 1 else output
+        predictions = scores.argmax(axis=1).tolist()
+        probabilities = scores.tolist()
+    # Check if model has predict_proba method (classification)
+    elif hasattr(model, 'predict_proba'):
+        predictions = model.predict(X_scaled).tolist()
+        probabilities = model.predict_proba(X_scaled).tolist()
+    elif hasattr(model, 'predict'):
+        # For regression, clustering (K-Means) and anomaly detection (Isolation Forest) models
+        predictions = model.predict(X_scaled).tolist()
+        probabilities = []
+    elif hasattr(model, 'core_sample_indices_'):
+        # DBSCAN can't label new rows itself: take the cluster of the nearest core sample
+        # within eps, and call the rest noise (-1) as training did
+        core_samples = model.components_
+        core_labels = model.labels_[model.core_sample_indices_]
+        if len(core_samples):
+            distances = np.linalg.norm(X_scaled[:, None, :] - core_samples[None, :, :], axis=2)
+            nearest = distances.argmin(axis=1)
+            predictions = np.where(distances.min(axis=1) <= model.eps, core_labels[nearest], -1).tolist()
+        else:
+            predictions = [-1] * len(X_scaled)
+        probabilities = []
+    else:
+        # PCA: the coordinates of each row on the kept components
+        predictions = model.transform(X_scaled).tolist()
+        probabilities = []
+    
+    # Generate simple explanation if possible
+    explanation = None
+    if hasattr(model, 'feature_importances_'):
+        # For tree-based models
+        importances = model.feature_importances_.tolist()
+        if pipeline:
+            importances = dict(zip(pipeline["outputFeatures"], importances))
+        explanation = {"feature_importance": importances}
+    elif hasattr(model, 'coef_'):
+        # For linear models
+        explanation = {"coefficients": model.coef_.tolist()}
+    
+    # Output results as JSON
+    result = {
+        "predictions": predictions,
+        "probabilities": probabilities,
+        "explanation": explanation
+    }
+    print(json.dumps(result))
+except Exception as e:
+    print(json.dumps({
+        "error": f"Prediction failed: {str(e)}"
+    }))
+    exit(1)
+`;
+
+  return script;
+};
@@ -0,0 +1,76 @@
+// Access to the prediction_jobs table through the Supabase REST API
+export type PredictionJobStatus = "queued" | "running" | "succeeded" | "failed";
+
+export interface PredictionJobRow {
+  id: string;
+  model_id: string;
+  status: PredictionJobStatus;
+  total_rows: number;
+  processed_rows: number;
+  progress: number;
+  result: { predictions: unknown[]; probabilities: unknown[] } | null;
+  error: string | null;
+  created_at: string;
+  updated_at: string;
+  started_at: string | null;
+  finished_at: string | null;
+}
+
+const restConfig = () => {
+  const supabaseUrl = Deno.env.get("SUPABASE_URL") || "";
+  const supabaseAnonKey = Deno.env.get("SUPABASE_ANON_KEY") || "";
+
+  if (!supabaseUrl || !supabaseAnonKey) {
+    throw new Error("Missing required environment variables: SUPABASE_URL or SUPABASE_ANON_KEY");
+  }
+
+  return {
+    url: `${supabaseUrl}/rest/v1/prediction_jobs`,
+    headers: {
+      "apikey": supabaseAnonKey,
+      "Authorization": `Bearer ${supabaseAnonKey}`,
+      "Content-Type": "application/json",
+    },
+  };
+};
+
+export const createPredictionJob = async (job: Partial<PredictionJobRow>): Promise<PredictionJobRow> => {
+  const { url, headers } = restConfig();
+  const response = await fetch(url, {
+    method: "POST",
+    headers: { ...headers, "Prefer": "return=representation" },
+    body: JSON.stringify({ status: "queued", progress: 0, processed_rows: 0, ...job }),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to create prediction job: ${await response.text()}`);
+  }
+
+  const rows = await response.json();
+  return rows[0];
+};
+
+export const getPredictionJob = async (jobId: string): Promise<PredictionJobRow | null> => {
+  const { url, headers } = restConfig();
+  const response = await fetch(`${url}?id=eq.${encodeURIComponent(jobId)}&select=*`, { headers });
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch prediction job: ${response.statusText}`);
+  }
+
+  const rows = await response.json();
+  return rows[0] ?? null;
+};
+
+export const updatePredictionJob = async (jobId: string, updates: Partial<PredictionJobRow>): Promise<void> => {
+  const { url, headers } = restConfig();
+  const response = await fetch(`${url}?id=eq.${encodeURIComponent(jobId)}`, {
+    method: "PATCH",
+    headers: { ...headers, "Prefer": "return=minimal" },
+    body: JSON.stringify(updates),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to update prediction job: ${await response.text()}`);
+  }
+};
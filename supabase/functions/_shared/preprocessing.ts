@@ -0,0 +1,174 @@
+// Python implementation of the fitted preprocessing pipeline produced by
+// src/utils/preprocessing.ts. Scripts embed this and call
+// apply_pipeline(pipeline, rows) to get a feature matrix in the pipeline's
+// output feature order. Keep the two implementations in sync.
+export const PREPROCESSING_PYTHON = `
+import math
+import re
+
+def _pp_is_missing(value):
+    return value is None or value == "" or (isinstance(value, float) and math.isnan(value))
+
+def _pp_to_number(value):
+    if isinstance(value, bool):
+        return 1.0 if value else 0.0
+    if isinstance(value, (int, float)):
+        return float(value) if math.isfinite(value) else None
+    if isinstance(value, str) and value.strip() != "":
+        try:
+            number = float(value)
+        except ValueError:
+            return None
+        return number if math.isfinite(number) else None
+    return None
+
+def _pp_key(value):
+    # Match JavaScript's String(value) for the values JSON can carry
+    if isinstance(value, bool):
+        return "true" if value else "false"
+    if isinstance(value, float) and value.is_integer():
+        return str(int(value))
+    return str(value)
+
+# Same list, tokenizer and hash as src/utils/textFeatures.ts
+_PP_STOP_WORDS = set("""
+a about above after again against all am an and any are as at
+be because been before being below between both but by
+can could did do does doing down during each few for from further
+had has have having he her here hers herself him himself his how
+i if in into is it its itself me more most my myself
+of off on once only or other our ours ourselves out over own
+same she should so some such than that the their theirs them
+themselves then there these they this those through to too
+under until up very was we were what when where which while who
+whom why will with would you your yours yourself yourselves
+""".split())
+
+def _pp_tokenize(text, ngram_max, remove_stop_words):
+    words = [w for w in re.findall(r"[^\\W_]+", text.lower()) if not (remove_stop_words and w in _PP_STOP_WORDS)]
+    terms = []
+    for n in range(1, ngram_max + 1):
+        for i in range(len(words) - n + 1):
+            terms.append(" ".join(words[i:i + n]))
+    return terms
+
+def _pp_hash_bucket(term, buckets):
+    value = 0x811C9DC5
+    for byte in term.encode("utf-8"):
+        value ^= byte
+        value = (value * 0x01000193) & 0xFFFFFFFF
+    return value % buckets
+
+def _pp_vectorize_text(vectorizer, text):
+    hashing = vectorizer["method"] == "hashing"
+    vocabulary = vectorizer.get("vocabulary") or []
+    index = None if hashing else {term: i for i, term in enumerate(vocabulary)}
+    vector = [0.0] * (vectorizer["buckets"] if hashing else len(vocabulary))
+    for term in _pp_tokenize(text, vectorizer["ngramMax"], vectorizer["removeStopWords"]):
+        i = _pp_hash_bucket(term, vectorizer["buckets"]) if hashing else index.get(term, -1)
+        if i != -1:
+            vector[i] += 1
+    if vectorizer.get("idf"):
+        vector = [v * idf for v, idf in zip(vector, vectorizer["idf"])]
+    norm = math.sqrt(sum(v * v for v in vector))
+    return [v / norm for v in vector] if norm else vector
+
+def _pp_text_features(column):
+    vectorizer = column["vectorizer"]
+    if vectorizer["method"] == "hashing":
+        return [f"{column['name']}:#{i}" for i in range(vectorizer["buckets"])]
+    return [f"{column['name']}:{term}" for term in vectorizer.get("vocabulary") or []]
+
+def _pp_encode_row(pipeline, row):
+    config = pipeline["config"]
+    columns = pipeline["columns"]
+    output = {}
+    numeric = {}
+
+    for column in columns:
+        if column["kind"] != "numeric":
+            continue
+        raw = row.get(column["name"])
+        value = None if _pp_is_missing(raw) else _pp_to_number(raw)
+        if value is not None and column.get("clip"):
+            low, high = column["clip"]
+            value = min(high, max(low, value))
+        numeric[column["name"]] = value
+
+    reference = pipeline.get("knnReference")
+    if config["impute"] and config["imputationMethod"] == "knn" and reference:
+        missing = [f for f in reference["features"] if numeric.get(f) is None]
+        if 0 < len(missing) < len(reference["features"]):
+            distances = []
+            for ref in reference["rows"]:
+                total = 0.0
+                shared = 0
+                for j, feature in enumerate(reference["features"]):
+                    value = numeric.get(feature)
+                    if value is not None and ref[j] is not None:
+                        total += ((value - ref[j]) / reference["scale"][j]) ** 2
+                        shared += 1
+                distances.append((total / shared if shared else float("inf"), ref))
+            distances.sort(key=lambda item: item[0])
+            for feature in missing:
+                j = reference["features"].index(feature)
+                neighbours = [ref[j] for _, ref in distances if ref[j] is not None][:reference["k"]]
+                if neighbours:
+                    numeric[feature] = sum(neighbours) / len(neighbours)
+
+    for column in columns:
+        name = column["name"]
+        if column["kind"] == "numeric":
+            value = numeric.get(name)
+            if value is None and config["impute"]:
+                value = column["fill"]
+            output[name] = value
+            continue
+
+        if column["kind"] == "text":
+            raw = row.get(name)
+            vector = _pp_vectorize_text(column["vectorizer"], "" if _pp_is_missing(raw) else _pp_key(raw))
+            for feature, value in zip(_pp_text_features(column), vector):
+                output[feature] = value
+            continue
+
+        raw = row.get(name)
+        key = None if _pp_is_missing(raw) else _pp_key(raw)
+        if key is None and config["impute"]:
+            key = column.get("fill")
+
+        encoding = column.get("encoding")
+        if encoding == "onehot":
+            for category in column.get("categories") or []:
+                output[f"{name}={category}"] = 0 if key is None else (1 if key == category else 0)
+        elif encoding == "target":
+            if key is None:
+                output[name] = None
+            else:
+                output[name] = (column.get("targetMeans") or {}).get(key, column.get("unknownValue", 0))
+        else:
+            categories = column.get("categories") or []
+            if key is None:
+                output[name] = None
+            else:
+                output[name] = categories.index(key) if key in categories else column.get("unknownValue", -1)
+
+    return output
+
+def apply_pipeline(pipeline, rows):
+    """Transform raw rows (dicts or lists ordered like inputFeatures) into a feature matrix."""
+    matrix = []
+    for row in rows:
+        if isinstance(row, (list, tuple)):
+            row = dict(zip(pipeline["inputFeatures"], row))
+        encoded = _pp_encode_row(pipeline, row)
+        values = []
+        for feature in pipeline["outputFeatures"]:
+            value = encoded.get(feature)
+            scaler = pipeline["scalers"].get(feature)
+            if value is not None and scaler:
+                value = (value - scaler["center"]) / scaler["scale"]
+            values.append(float("nan") if value is None else float(value))
+        matrix.append(values)
+    return matrix
+`;
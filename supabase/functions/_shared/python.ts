@@ -0,0 +1,131 @@
+// Run generated Python scripts. Scripts report progress by printing JSON lines
+// with an "event" key (see PYTHON_EVENTS); the last other JSON line on stdout
+// is the script's result. Data never goes into the script source: it is written
+// next to it and read back with the PYTHON_INPUTS helpers.
+export interface PythonEvent {
+  event: string;
+  [key: string]: unknown;
+}
+
+export type PythonEventHandler = (event: PythonEvent) => void | Promise<void>;
+
+export interface PythonRun {
+  process: Deno.ChildProcess;
+  done: Promise<Record<string, unknown>>;
+}
+
+// Values handed to a script: `config` as a JSON file, `rows` as JSON lines
+export interface PythonInputs {
+  config?: Record<string, unknown>;
+  rows?: unknown[];
+}
+
+// Helpers scripts can call to read their config and data rows
+export const PYTHON_INPUTS = `
+import json as _inputs_json
+import sys as _inputs_sys
+
+def load_config():
+    with open(_inputs_sys.argv[1]) as config_file:
+        return _inputs_json.load(config_file)
+
+def load_rows():
+    with open(_inputs_sys.argv[2]) as rows_file:
+        return [_inputs_json.loads(line) for line in rows_file if line.strip()]
+`;
+
+// Helpers scripts can call to report progress while they run
+export const PYTHON_EVENTS = `
+import json as _events_json
+
+def emit_event(event, **fields):
+    print(_events_json.dumps({"event": event, **fields}), flush=True)
+
+def emit_progress(progress, message):
+    emit_event("progress", progress=progress, message=message)
+`;
+
+const parseLine = (line: string): Record<string, unknown> | null => {
+  try {
+    const value = JSON.parse(line);
+    return value && typeof value === "object" && !Array.isArray(value) ? value : null;
+  } catch {
+    return null;
+  }
+};
+
+// Start the script and stream its events; `done` resolves with the result object
+export const startPythonScript = async (
+  script: string,
+  onEvent?: PythonEventHandler,
+  inputs: PythonInputs = {}
+): Promise<PythonRun> => {
+  const workDir = await Deno.makeTempDir({ prefix: "python-" });
+  const scriptPath = `${workDir}/script.py`;
+  const configPath = `${workDir}/config.json`;
+  const rowsPath = `${workDir}/rows.jsonl`;
+
+  await Deno.writeTextFile(scriptPath, script);
+  await Deno.writeTextFile(configPath, JSON.stringify(inputs.config ?? {}));
+  await Deno.writeTextFile(rowsPath, (inputs.rows ?? []).map(row => JSON.stringify(row)).join("\n"));
+
+  console.log(`Executing Python script at ${scriptPath}`);
+
+  const process = new Deno.Command("python3", {
+    args: [scriptPath, configPath, rowsPath],
+    stdout: "piped",
+    stderr: "piped",
+  }).spawn();
+
+  const done = (async () => {
+    const stderrText = new Response(process.stderr).text();
+    let result: Record<string, unknown> | null = null;
+    let buffered = "";
+
+    const handleLine = async (line: string) => {
+      const value = parseLine(line.trim());
+      if (value && typeof value.event === "string") {
+        await onEvent?.(value as PythonEvent);
+      } else if (value) {
+        result = value;
+      }
+    };
+
+    try {
+      for await (const chunk of process.stdout.pipeThrough(new TextDecoderStream())) {
+        buffered += chunk;
+        const lines = buffered.split("\n");
+        buffered = lines.pop() ?? "";
+        for (const line of lines) await handleLine(line);
+      }
+      if (buffered.trim()) await handleLine(buffered);
+
+      const { success, signal } = await process.status;
+      if (signal) {
+        throw new Error(`Python process was stopped (${signal})`);
+      }
+      if (!success) {
+        const errorOutput = await stderrText;
+        console.error(`Python execution failed: ${errorOutput}`);
+        throw new Error(`Python execution failed: ${errorOutput}`);
+      }
+      if (!result) {
+        throw new Error("Python script did not produce a result");
+      }
+      return result;
+    } finally {
+      try {
+        await Deno.remove(workDir, { recursive: true });
+      } catch (cleanupError) {
+        console.error("Error cleaning up temporary files:", cleanupError.message);
+      }
+    }
+  })();
+
+  return { process, done };
+};
+
+export const runPythonScript = async (script: string, onEvent?: PythonEventHandler, inputs: PythonInputs = {}) => {
+  const run = await startPythonScript(script, onEvent, inputs);
+  return run.done;
+};
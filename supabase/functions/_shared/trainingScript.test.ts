@@ -0,0 +1,229 @@
+import { spawnSync } from "node:child_process";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterAll, describe, expect, it } from "vitest";
+import { generatePredictionScript } from "./prediction.ts";
+import { generatePythonScript, TrainingScriptConfig, UNSUPERVISED_ALGORITHMS } from "./trainingScript.ts";
+
+// Train and predict every algorithm the way train-model and predict-with-model do:
+// generate the script, hand it its config and rows as files and read the last JSON line.
+const hasPython = spawnSync("python3", ["--version"]).status === 0;
+const hasSklearn = hasPython && spawnSync("python3", ["-c", "import numpy, pandas, sklearn"]).status === 0;
+
+// Every Python run imports scikit-learn (and TensorFlow for networks, when installed)
+const PYTHON_TIMEOUT_MS = 120000;
+
+const FEATURES = ["x", "y"];
+
+// Three well separated blobs of ten points each, plus one far outlier. K-Means gets the
+// blobs alone: with the outlier, three clusters may spend one on it and merge two blobs.
+const OFFSETS = [[0, 0], [0.3, -0.2], [-0.2, 0.4], [0.5, 0.1], [-0.4, -0.3], [0.1, 0.5], [-0.1, -0.5], [0.4, -0.4], [-0.5, 0.2], [0.2, 0.3]];
+const CENTERS = [[0, 0], [10, 10], [0, 10]];
+const BLOB_ROWS = CENTERS.flatMap(([cx, cy]) => OFFSETS.map(([dx, dy]) => ({ x: cx + dx, y: cy + dy })));
+const ROWS = [...BLOB_ROWS, { x: 40, y: -30 }];
+
+// The same blobs labelled by their center, for the classifiers. Forty points each on a
+// sunflower spiral: the histogram boosters need 20 rows per leaf before they split at all.
+const SPIRAL = Array.from({ length: 40 }, (_, k) => [0.5 * Math.sqrt(k / 40) * Math.cos(k * 2.4), 0.5 * Math.sqrt(k / 40) * Math.sin(k * 2.4)]);
+const CLASS_ROWS = CENTERS.flatMap(([cx, cy], label) => SPIRAL.map(([dx, dy]) => ({ x: cx + dx, y: cy + dy, label })));
+
+// A plane with a little deterministic noise on a 10 x 10 grid, for the regressors
+const GRID = Array.from({ length: 10 }, (_, i) => i);
+const REGRESSION_ROWS = GRID.flatMap(x => GRID.map(y => ({ x, y, z: 3 * x - 2 * y + 0.1 * ((7 * x + 3 * y) % 5) })));
+
+const workDir = mkdtempSync(join(tmpdir(), "training-script-"));
+afterAll(() => rmSync(workDir, { recursive: true, force: true }));
+
+const fileName = (name: string) => name.replace(/\s/g, "-");
+
+const runScript = (name: string, script: string, config: Record<string, unknown>, rows: unknown[]) => {
+  const scriptPath = join(workDir, `${fileName(name)}.py`);
+  const configPath = join(workDir, `${fileName(name)}.json`);
+  const rowsPath = join(workDir, `${fileName(name)}.jsonl`);
+  writeFileSync(scriptPath, script);
+  writeFileSync(configPath, JSON.stringify(config));
+  writeFileSync(rowsPath, rows.map(row => JSON.stringify(row)).join("\n"));
+
+  const run = spawnSync("python3", [scriptPath, configPath, rowsPath], { encoding: "utf8", timeout: PYTHON_TIMEOUT_MS });
+  if (run.status !== 0) {
+    throw new Error(`${name} failed: ${run.stderr}`);
+  }
+  const results = run.stdout.split("\n")
+    .filter(line => line.startsWith("{"))
+    .map(line => JSON.parse(line))
+    .filter(line => !("event" in line));
+  return results[results.length - 1];
+};
+
+const trainingConfig = (algorithm: string, params: Record<string, unknown>, target = ""): TrainingScriptConfig => ({
+  algorithm,
+  features: FEATURES,
+  target,
+  params,
+  split: null,
+  epochs: 50,
+  learningRate: 0.01,
+  architecture: null,
+  checkpointPath: null,
+  resumeEpoch: 0,
+  image: null,
+});
+
+const trainingScript = (config: TrainingScriptConfig) => generatePythonScript(
+  config,
+  config.algorithm === "Neural Network",
+  UNSUPERVISED_ALGORITHMS.includes(config.algorithm)
+);
+
+// Parameters as trainClusteringModels, trainDimensionalityReductionModels and
+// trainAnomalyDetectionModels send them
+const CASES: { algorithm: string; params: Record<string, unknown> }[] = [
+  { algorithm: "K-Means", params: { nClusters: 3, maxIter: 300 } },
+  { algorithm: "DBSCAN", params: { eps: 0.5, minSamples: 5 } },
+  { algorithm: "PCA", params: { nComponents: 2 } },
+  { algorithm: "Isolation Forest", params: { contamination: 0.1, maxSamples: 100 } },
+];
+
+// Supervised branches with the parameters the training forms send. The boosting libraries
+// are optional: without them the script falls back to scikit-learn, which is what runs here.
+const CLASSIFIERS: { algorithm: string; params: Record<string, unknown> }[] = [
+  { algorithm: "Logistic Regression", params: { C: 1.0 } },
+  { algorithm: "Decision Tree", params: { maxDepth: 5 } },
+  { algorithm: "Random Forest", params: { nEstimators: 20, maxDepth: 5 } },
+  { algorithm: "Gradient Boosting", params: { nEstimators: 20, learningRate: 0.1, maxDepth: 3 } },
+  { algorithm: "SVM", params: { C: 1.0, kernel: "rbf" } },
+  { algorithm: "KNN", params: { nNeighbors: 5 } },
+  { algorithm: "Naive Bayes", params: {} },
+  { algorithm: "AdaBoost", params: { nEstimators: 50 } },
+  { algorithm: "Gaussian Process", params: {} },
+  { algorithm: "LDA", params: { nComponents: 2 } },
+  { algorithm: "XGBoost", params: {} },
+  { algorithm: "LightGBM", params: { nEstimators: 20 } },
+  { algorithm: "CatBoost", params: { iterations: 20 } },
+];
+
+// LDA and logistic regression only classify, and linear regression only regresses
+const REGRESSORS = [
+  { algorithm: "Linear Regression", params: {} },
+  ...CLASSIFIERS.filter(({ algorithm }) => algorithm !== "LDA" && algorithm !== "Logistic Regression"),
+];
+
+const ALL_CASES = [...CASES, ...CLASSIFIERS, { algorithm: "Linear Regression", params: {} }, { algorithm: "Neural Network", params: {} }];
+
+describe.skipIf(!hasPython)("generated training scripts", () => {
+  it.each(ALL_CASES)("$algorithm compiles", ({ algorithm, params }) => {
+    const scriptPath = join(workDir, `compile-${fileName(algorithm)}.py`);
+    writeFileSync(scriptPath, trainingScript(trainingConfig(algorithm, params, "label")));
+    const run = spawnSync("python3", ["-m", "py_compile", scriptPath], { encoding: "utf8" });
+    expect(run.stderr).toBe("");
+    expect(run.status).toBe(0);
+  });
+});
+
+const train = (algorithm: string, params: Record<string, unknown>, rows: unknown[], target = "", name = algorithm) => {
+  const config = trainingConfig(algorithm, params, target);
+  const result = runScript(`train-${name}`, trainingScript(config), config, rows);
+  expect(typeof result.model).toBe("string");
+  expect(Number.isFinite(result.accuracy)).toBe(true);
+  // The fitted scaler is returned so prediction standardizes new rows the same way
+  expect(result.scaler.mean).toHaveLength(FEATURES.length);
+  expect(result.scaler.scale).toHaveLength(FEATURES.length);
+  return result;
+};
+
+// Positional rows in training order, as prepareRows hands them to the prediction script
+const predict = (name: string, trained: Record<string, unknown>, rows: number[][]) => {
+  const config = { model: trained.model, pipeline: null, image: null, scaler: trained.scaler };
+  return runScript(`predict-${name}`, generatePredictionScript(), config, rows);
+};
+
+describe.skipIf(!hasSklearn)("unsupervised models end to end", { timeout: PYTHON_TIMEOUT_MS * 2 }, () => {
+  const points = [[0.1, 0.1], [10.2, 9.9], [0.1, 9.8]];
+
+  it("clusters the blobs with K-Means and assigns new points to them", () => {
+    const trained = train("K-Means", CASES[0].params, BLOB_ROWS);
+    expect(trained.metrics.n_clusters).toBe(3);
+    expect(trained.accuracy).toBeGreaterThan(0.5);
+
+    const { predictions } = predict("K-Means", trained, points);
+    expect(new Set(predictions).size).toBe(3);
+  });
+
+  it("fits as many K-Means clusters as requested", () => {
+    // No silhouette search picks both counts, so these catch a branch ignoring nClusters
+    expect(train("K-Means", { nClusters: 2, maxIter: 300 }, BLOB_ROWS, "", "K-Means-2").metrics.n_clusters).toBe(2);
+    expect(train("K-Means", { nClusters: 5, maxIter: 300 }, BLOB_ROWS, "", "K-Means-5").metrics.n_clusters).toBe(5);
+  });
+
+  it("clusters the blobs with DBSCAN and labels far points as noise", () => {
+    const trained = train("DBSCAN", CASES[1].params, ROWS);
+    expect(trained.metrics.n_clusters).toBe(3);
+
+    const { predictions } = predict("DBSCAN", trained, [...points, [-50, 50]]);
+    expect(new Set(predictions.slice(0, 3)).size).toBe(3);
+    expect(predictions[3]).toBe(-1);
+  });
+
+  it("projects rows onto the principal components with PCA", () => {
+    const trained = train("PCA", CASES[2].params, ROWS);
+    expect(trained.metrics.n_components).toBe(2);
+    expect(trained.accuracy).toBeCloseTo(1, 5);
+
+    const { predictions } = predict("PCA", trained, points);
+    expect(predictions).toHaveLength(3);
+    predictions.forEach((projection: number[]) => expect(projection).toHaveLength(2));
+  });
+
+  it("flags the outlier with Isolation Forest", () => {
+    const trained = train("Isolation Forest", CASES[3].params, ROWS);
+    expect(trained.metrics.n_anomalies).toBeGreaterThan(0);
+
+    const { predictions } = predict("Isolation-Forest", trained, [[0, 0], [60, -60]]);
+    expect(predictions).toEqual([1, -1]);
+  });
+});
+
+describe.skipIf(!hasSklearn)("supervised models end to end", { timeout: PYTHON_TIMEOUT_MS * 2 }, () => {
+  it.each(CLASSIFIERS)("$algorithm classifies the blobs", ({ algorithm, params }) => {
+    const trained = train(algorithm, params, CLASS_ROWS, "label", `${algorithm}-classifier`);
+    expect(trained.metrics.accuracy).toBeGreaterThanOrEqual(0.8);
+    expect(trained.confusion_matrix).not.toBeNull();
+    if (algorithm === "LDA") {
+      // Three classes allow two discriminant axes
+      expect(trained.metrics.n_components).toBe(2);
+    }
+
+    // CatBoost answers with one column per row; flatten to compare labels either way
+    const { predictions } = predict(`${algorithm}-classifier`, trained, CENTERS);
+    expect(predictions.flat()).toEqual([0, 1, 2]);
+  });
+
+  it.each(REGRESSORS)("$algorithm fits the plane", ({ algorithm, params }) => {
+    const trained = train(algorithm, params, REGRESSION_ROWS, "z", `${algorithm}-regressor`);
+    expect(Number.isFinite(trained.metrics.r2_score)).toBe(true);
+    expect(trained.confusion_matrix).toBeNull();
+    // The target is linear in the features, so the linear models fit it almost exactly
+    if (["Linear Regression", "Naive Bayes", "Gaussian Process"].includes(algorithm)) {
+      expect(trained.accuracy).toBeGreaterThan(0.9);
+    }
+
+    const { predictions } = predict(`${algorithm}-regressor`, trained, [[1, 1], [4, 2]]);
+    expect(predictions.flat()).toHaveLength(2);
+    predictions.flat().forEach((value: number) => expect(Number.isFinite(value)).toBe(true));
+  });
+
+  // Keras when TensorFlow is installed, scikit-learn's MLP otherwise; both are scored the same way
+  it.each([
+    { task: "classification", rows: CLASS_ROWS, target: "label", metric: "accuracy" },
+    { task: "regression", rows: REGRESSION_ROWS, target: "z", metric: "r2_score" },
+  ])("Neural Network trains for $task", ({ task, rows, target, metric }) => {
+    const trained = train("Neural Network", {}, rows, target, `Neural-Network-${task}`);
+    expect(Number.isFinite(trained.metrics[metric])).toBe(true);
+    expect(["keras", "sklearn"]).toContain(trained.framework);
+    expect(trained.history.length).toBeGreaterThan(0);
+
+    const { predictions } = predict(`Neural-Network-${task}`, trained, [[0, 0], [10, 10]]);
+    expect(predictions).toHaveLength(2);
+  });
+});
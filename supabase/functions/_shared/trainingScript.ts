@@ -0,0 +1,1257 @@
+// The Python training script run by train-model, generated per algorithm
+import { PYTHON_EVENTS, PYTHON_INPUTS } from "./python.ts";
+
+// Fitted on every row, without a target or held-out split. LDA reduces dimensions too,
+// but it needs the target's classes to do so.
+export const UNSUPERVISED_ALGORITHMS = ["K-Means", "DBSCAN", "PCA", "Isolation Forest"];
+
+// Everything the training script reads from its config file. Request values only
+// reach Python through this JSON, never through the script source.
+export interface TrainingScriptConfig {
+  algorithm: string;
+  features: string[];
+  target: string;
+  params: Record<string, unknown>;
+  // Explicit row indices, e.g. the folds of a cross-validation or a resolved split spec
+  split: { trainIndices: number[]; testIndices: number[]; validationIndices?: number[] } | null;
+  epochs: number;
+  learningRate: number;
+  architecture: Record<string, unknown>[] | null;
+  checkpointPath: string | null;
+  resumeEpoch: number;
+  // Image classification: rows hold base64 pixels of this size, plus training-time augmentation
+  image: {
+    width: number;
+    height: number;
+    channels: number;
+    augmentation?: { flipHorizontal?: boolean; rotation?: number; zoom?: number };
+  } | null;
+}
+
+// Helper function to generate Python script based on algorithm
+// Only the choice of code depends on the config; its values are read at run time
+export function generatePythonScript(
+  config: TrainingScriptConfig,
+  isDL: boolean,
+  isUnsupervised: boolean,
+  preprocessed = false
+) {
+  const { algorithm, split, image } = config;
+
+  // Common imports
+  let script = `
+import json
+import sys
+import numpy as np
+import pandas as pd
+import pickle
+import base64
+from io import BytesIO
+from sklearn.model_selection import train_test_split
+from sklearn.preprocessing import StandardScaler
+from sklearn.metrics import accuracy_score, precision_score, recall_score, f1_score, mean_squared_error, r2_score
+from sklearn.metrics import confusion_matrix
+${PYTHON_EVENTS}
+${PYTHON_INPUTS}
+`;
+
+  // Algorithm-specific imports
+  if (algorithm === "Linear Regression") {
+    script += `from sklearn.linear_model import LinearRegression\n`;
+  } else if (algorithm === "Logistic Regression") {
+    script += `from sklearn.linear_model import LogisticRegression\n`;
+  } else if (algorithm === "Decision Tree") {
+    script += `from sklearn.tree import DecisionTreeClassifier\nfrom sklearn.tree import DecisionTreeRegressor\n`;
+  } else if (algorithm === "Random Forest") {
+    script += `from sklearn.ensemble import RandomForestClassifier\nfrom sklearn.ensemble import RandomForestRegressor\n`;
+  } else if (algorithm === "Gradient Boosting") {
+    script += `from sklearn.ensemble import GradientBoostingClassifier\nfrom sklearn.ensemble import GradientBoostingRegressor\n`;
+  } else if (algorithm === "SVM") {
+    script += `from sklearn.svm import SVC\nfrom sklearn.svm import SVR\n`;
+  } else if (algorithm === "KNN") {
+    script += `from sklearn.neighbors import KNeighborsClassifier\nfrom sklearn.neighbors import KNeighborsRegressor\n`;
+  } else if (algorithm === "Naive Bayes") {
+    script += `from sklearn.naive_bayes import GaussianNB\nfrom sklearn.linear_model import BayesianRidge\n`;
+  } else if (algorithm === "AdaBoost") {
+    script += `from sklearn.ensemble import AdaBoostClassifier\nfrom sklearn.ensemble import AdaBoostRegressor\n`;
+  } else if (algorithm === "Gaussian Process") {
+    script += `from sklearn.gaussian_process import GaussianProcessClassifier, GaussianProcessRegressor\nfrom sklearn.gaussian_process.kernels import RBF, WhiteKernel\n`;
+  } else if (algorithm === "LDA") {
+    script += `from sklearn.discriminant_analysis import LinearDiscriminantAnalysis\n`;
+  } else if (algorithm === "K-Means") {
+    script += `from sklearn.cluster import KMeans\nfrom sklearn.metrics import silhouette_score\n`;
+  } else if (algorithm === "Neural Network") {
+    script += `
+import os
+try:
+    import tensorflow as tf
+    from tensorflow.keras.models import Sequential
+    from tensorflow.keras.layers import Input, Dense, Dropout, Conv2D, MaxPooling2D, AveragePooling2D, BatchNormalization, Flatten
+    from tensorflow.keras.callbacks import EarlyStopping
+    from tensorflow.keras.optimizers import Adam
+    HAS_TF = True
+except ImportError:
+    # Fall back to scikit-learn's MLPClassifier
+    from sklearn.neural_network import MLPClassifier, MLPRegressor
+    HAS_TF = False
+`;
+  } else if (algorithm === "DBSCAN") {
+    script += `from sklearn.cluster import DBSCAN\nfrom sklearn.metrics import silhouette_score\n`;
+  } else if (algorithm === "PCA") {
+    script += `from sklearn.decomposition import PCA\n`;
+  } else if (algorithm === "Isolation Forest") {
+    script += `from sklearn.ensemble import IsolationForest\n`;
+  } else if (algorithm === "XGBoost") {
+    // A missing library is handled by the fallback in the training body
+    script += `
+try:
+    import xgboost as xgb
+except ImportError:
+    pass
+`;
+  } else if (algorithm === "LightGBM") {
+    script += `
+from sklearn.ensemble import HistGradientBoostingClassifier, HistGradientBoostingRegressor
+try:
+    import lightgbm as lgb
+    HAS_LIGHTGBM = True
+except ImportError:
+    HAS_LIGHTGBM = False
+`;
+  } else if (algorithm === "CatBoost") {
+    script += `
+from sklearn.ensemble import HistGradientBoostingClassifier, HistGradientBoostingRegressor
+try:
+    from catboost import CatBoostClassifier, CatBoostRegressor
+    HAS_CATBOOST = True
+except ImportError:
+    HAS_CATBOOST = False
+`;
+  }
+
+  // Script body
+  script += `
+# Settings and rows are passed in as files
+config = load_config()
+data = load_rows()
+algorithm = config["algorithm"]
+features = config["features"]
+target = config["target"]
+
+# Hyperparameters chosen by the client (camelCase names, as sent by trainMLModel)
+params = config["params"] or {}
+def param(name, default):
+    value = params.get(name)
+    return default if value is None else value
+
+# Check if this is a classification or regression problem
+def is_classification(y):
+    if len(set(y)) < 10 or not all(isinstance(val, (int, float)) for val in y):
+        return True
+    return False
+
+emit_progress(5, f"Preparing {len(data)} rows")
+
+# Prepare the dataset
+${image ? `# Images arrive as base64 bytes (height x width x channels) and are scaled to 0-1
+image_config = config["image"]
+X = np.stack([
+    np.frombuffer(base64.b64decode(row[features[0]]), dtype=np.uint8)
+    .reshape(image_config["height"], image_config["width"], image_config["channels"])
+    for row in data
+]).astype("float32") / 255.0` : `X = np.array([[row[f] for f in features] for row in data]${preprocessed ? ", dtype=float" : ""})`}
+`;
+
+  // Add target handling based on algorithm type
+  if (!isUnsupervised) {
+    script += `
+y = np.array([row[target] for row in data])
+is_classification_problem = is_classification(y)
+`;
+    // Explicit row indices (e.g. cross-validation folds) take precedence over a random split
+    script += split ? `
+split = config["split"]
+X_train, X_test = X[split["trainIndices"]], X[split["testIndices"]]
+y_train, y_test = y[split["trainIndices"]], y[split["testIndices"]]
+validation_indices = split.get("validationIndices") or []
+X_val, y_val = X[validation_indices], y[validation_indices]
+` : `
+X_train, X_test, y_train, y_test = train_test_split(X, y, test_size=0.2, random_state=42)
+X_val, y_val = X[:0], y[:0]
+`;
+    // Data that went through the client's fitted pipeline is already scaled
+    script += preprocessed ? `
+X_train_scaled = X_train
+X_test_scaled = X_test
+X_val_scaled = X_val
+scaler_state = None
+` : `
+# Standardize features
+scaler = StandardScaler()
+X_train_scaled = scaler.fit_transform(X_train)
+X_test_scaled = scaler.transform(X_test)
+X_val_scaled = scaler.transform(X_val) if len(X_val) else X_val
+scaler_state = {"mean": scaler.mean_.tolist(), "scale": scaler.scale_.tolist()}
+`;
+  } else {
+    script += preprocessed ? `
+X_scaled = X
+scaler_state = None
+` : `
+# Standardize features for unsupervised learning
+scaler = StandardScaler()
+X_scaled = scaler.fit_transform(X)
+scaler_state = {"mean": scaler.mean_.tolist(), "scale": scaler.scale_.tolist()}
+`;
+  }
+
+  script += `
+emit_progress(15, f"Fitting {algorithm}")
+`;
+
+  // Algorithm-specific training code
+  if (algorithm === "Linear Regression") {
+    script += `
+model = LinearRegression()
+model.fit(X_train_scaled, y_train)
+y_pred = model.predict(X_test_scaled)
+accuracy = r2_score(y_test, y_pred)
+mse = mean_squared_error(y_test, y_pred)
+metrics = {
+    "r2_score": float(accuracy),
+    "mse": float(mse),
+    "coef": model.coef_.tolist(),
+    "intercept": float(model.intercept_)
+}
+feature_importance = dict(zip(features, abs(model.coef_).tolist()))
+`;
+  } else if (algorithm === "Logistic Regression") {
+    script += `
+model = LogisticRegression(C=float(param("C", 1.0)), max_iter=1000)
+model.fit(X_train_scaled, y_train)
+y_pred = model.predict(X_test_scaled)
+accuracy = accuracy_score(y_test, y_pred)
+precision = precision_score(y_test, y_pred, average='weighted', zero_division=0)
+recall = recall_score(y_test, y_pred, average='weighted', zero_division=0)
+f1 = f1_score(y_test, y_pred, average='weighted', zero_division=0)
+metrics = {
+    "accuracy": float(accuracy),
+    "precision": float(precision),
+    "recall": float(recall),
+    "f1_score": float(f1)
+}
+try:
+    cm = confusion_matrix(y_test, y_pred).tolist()
+except:
+    cm = []
+feature_importance = dict(zip(features, abs(model.coef_[0]).tolist()))
+`;
+  } else if (algorithm === "Decision Tree") {
+    script += `
+if is_classification_problem:
+    model = DecisionTreeClassifier(max_depth=param("maxDepth", None), random_state=42)
+    model.fit(X_train_scaled, y_train)
+    y_pred = model.predict(X_test_scaled)
+    accuracy = accuracy_score(y_test, y_pred)
+    precision = precision_score(y_test, y_pred, average='weighted', zero_division=0)
+    recall = recall_score(y_test, y_pred, average='weighted', zero_division=0)
+    f1 = f1_score(y_test, y_pred, average='weighted', zero_division=0)
+    metrics = {
+        "accuracy": float(accuracy),
+        "precision": float(precision),
+        "recall": float(recall),
+        "f1_score": float(f1)
+    }
+    try:
+        cm = confusion_matrix(y_test, y_pred).tolist()
+    except:
+        cm = []
+else:
+    model = DecisionTreeRegressor(max_depth=param("maxDepth", None), random_state=42)
+    model.fit(X_train_scaled, y_train)
+    y_pred = model.predict(X_test_scaled)
+    accuracy = r2_score(y_test, y_pred)
+    mse = mean_squared_error(y_test, y_pred)
+    metrics = {
+        "r2_score": float(accuracy),
+        "mse": float(mse)
+    }
+    cm = None
+feature_importance = dict(zip(features, model.feature_importances_.tolist()))
+`;
+  } else if (algorithm === "Random Forest") {
+    script += `
+forest_params = {
+    "n_estimators": int(param("nEstimators", 100)),
+    "max_depth": param("maxDepth", None),
+    "min_samples_split": int(param("minSamplesSplit", 2)),
+    "bootstrap": bool(param("bootstrap", True)),
+}
+if is_classification_problem:
+    model = RandomForestClassifier(criterion=param("criterion", "gini"), **forest_params)
+    model.fit(X_train_scaled, y_train)
+    y_pred = model.predict(X_test_scaled)
+    accuracy = accuracy_score(y_test, y_pred)
+    precision = precision_score(y_test, y_pred, average='weighted', zero_division=0)
+    recall = recall_score(y_test, y_pred, average='weighted', zero_division=0)
+    f1 = f1_score(y_test, y_pred, average='weighted', zero_division=0)
+    metrics = {
+        "accuracy": float(accuracy),
+        "precision": float(precision),
+        "recall": float(recall),
+        "f1_score": float(f1)
+    }
+    try:
+        cm = confusion_matrix(y_test, y_pred).tolist()
+    except:
+        cm = []
+else:
+    model = RandomForestRegressor(**forest_params)
+    model.fit(X_train_scaled, y_train)
+    y_pred = model.predict(X_test_scaled)
+    accuracy = r2_score(y_test, y_pred)
+    mse = mean_squared_error(y_test, y_pred)
+    metrics = {
+        "r2_score": float(accuracy),
+        "mse": float(mse)
+    }
+    cm = None
+feature_importance = dict(zip(features, model.feature_importances_.tolist()))
+`;
+  } else if (algorithm === "Gradient Boosting") {
+    script += `
+boosting_params = {
+    "n_estimators": int(param("nEstimators", 100)),
+    "learning_rate": float(param("learningRate", 0.1)),
+    "max_depth": int(param("maxDepth", 3)),
+    "subsample": float(param("subsample", 1.0)),
+    "random_state": 42,
+}
+if is_classification_problem:
+    model = GradientBoostingClassifier(**boosting_params)
+    model.fit(X_train_scaled, y_train)
+    y_pred = model.predict(X_test_scaled)
+    accuracy = accuracy_score(y_test, y_pred)
+    precision = precision_score(y_test, y_pred, average='weighted', zero_division=0)
+    recall = recall_score(y_test, y_pred, average='weighted', zero_division=0)
+    f1 = f1_score(y_test, y_pred, average='weighted', zero_division=0)
+    metrics = {
+        "accuracy": float(accuracy),
+        "precision": float(precision),
+        "recall": float(recall),
+        "f1_score": float(f1)
+    }
+    try:
+        cm = confusion_matrix(y_test, y_pred).tolist()
+    except:
+        cm = []
+else:
+    model = GradientBoostingRegressor(**boosting_params)
+    model.fit(X_train_scaled, y_train)
+    y_pred = model.predict(X_test_scaled)
+    accuracy = r2_score(y_test, y_pred)
+    mse = mean_squared_error(y_test, y_pred)
+    metrics = {
+        "r2_score": float(accuracy),
+        "mse": float(mse)
+    }
+    cm = None
+feature_importance = dict(zip(features, model.feature_importances_.tolist()))
+`;
+  } else if (algorithm === "SVM") {
+    script += `
+svm_params = {
+    "C": float(param("C", 1.0)),
+    "kernel": param("kernel", "rbf"),
+    "gamma": param("gamma", "scale"),
+}
+if is_classification_problem:
+    model = SVC(probability=True, **svm_params)
+    model.fit(X_train_scaled, y_train)
+    y_pred = model.predict(X_test_scaled)
+    accuracy = accuracy_score(y_test, y_pred)
+    precision = precision_score(y_test, y_pred, average='weighted', zero_division=0)
+    recall = recall_score(y_test, y_pred, average='weighted', zero_division=0)
+    f1 = f1_score(y_test, y_pred, average='weighted', zero_division=0)
+    metrics = {
+        "accuracy": float(accuracy),
+        "precision": float(precision),
+        "recall": float(recall),
+        "f1_score": float(f1)
+    }
+    try:
+        cm = confusion_matrix(y_test, y_pred).tolist()
+    except:
+        cm = []
+    feature_importance = {}  # SVM doesn't provide direct feature importance
+else:
+    model = SVR(**svm_params)
+    model.fit(X_train_scaled, y_train)
+    y_pred = model.predict(X_test_scaled)
+    accuracy = r2_score(y_test, y_pred)
+    mse = mean_squared_error(y_test, y_pred)
+    metrics = {
+        "r2_score": float(accuracy),
+        "mse": float(mse)
+    }
+    cm = None
+    feature_importance = {}  # SVM doesn't provide direct feature importance
+`;
+  } else if (algorithm === "K-Means") {
+    script += `
+max_iter = int(param("maxIter", 300))
+if param("nClusters", None) is not None:
+    # The cluster count the client asked for, capped at one cluster per row
+    best_n_clusters = max(1, min(int(param("nClusters", None)), len(X_scaled)))
+else:
+    # Determine optimal number of clusters using silhouette score
+    n_clusters = min(len(X_scaled), 10)  # Upper limit for testing
+    silhouette_scores = []
+
+    for n in range(2, n_clusters + 1):
+        kmeans = KMeans(n_clusters=n, max_iter=max_iter, random_state=42)
+        cluster_labels = kmeans.fit_predict(X_scaled)
+        try:
+            score = silhouette_score(X_scaled, cluster_labels)
+            silhouette_scores.append((n, score))
+        except:
+            pass
+
+    # Find best number of clusters
+    best_n_clusters = 3  # Default
+    if silhouette_scores:
+        best_n_clusters = max(silhouette_scores, key=lambda x: x[1])[0]
+
+model = KMeans(n_clusters=best_n_clusters, max_iter=max_iter, random_state=42)
+model.fit(X_scaled)
+
+# Calculate silhouette score
+try:
+    silhouette_avg = silhouette_score(X_scaled, model.labels_)
+except:
+    silhouette_avg = 0
+# Silhouette, like for DBSCAN, so clustering models compare on the same scale
+accuracy = silhouette_avg
+
+metrics = {
+    "silhouette_score": float(silhouette_avg),
+    "inertia": float(model.inertia_),
+    "n_clusters": int(best_n_clusters)
+}
+cm = None
+feature_importance = {}  # K-means doesn't provide direct feature importance
+`;
+  } else if (algorithm === "Neural Network") {
+    script += `
+# Use the architecture from the config if provided
+nn_architecture = config["architecture"] or [
+    {"neurons": 64, "activation": "relu", "dropout": 0.2},
+    {"neurons": 32, "activation": "relu", "dropout": 0.1}
+]
+epochs = int(config["epochs"])
+learning_rate = float(config["learningRate"])
+
+# Epoch checkpoints let a paused job pick up where it stopped
+checkpoint_path = config["checkpointPath"]
+initial_epoch = min(int(config["resumeEpoch"]), epochs - 1)
+
+# Loss and metrics of every epoch, returned with the model as its learning curves
+epoch_history = []
+
+def mlp_history(model, score_name):
+    records = [{"epoch": i + 1, "loss": float(loss)} for i, loss in enumerate(model.loss_curve_)]
+    # With early_stopping, scikit-learn scores a held-out 10% of the rows after each epoch
+    for record, score in zip(records, getattr(model, "validation_scores_", None) or []):
+        record[score_name] = float(score)
+    return records
+
+if HAS_TF:
+    class EpochHistory(tf.keras.callbacks.Callback):
+        def on_epoch_end(self, epoch, logs=None):
+            record = {"epoch": epoch + 1, **{name: float(value) for name, value in (logs or {}).items()}}
+            epoch_history.append(record)
+            emit_event("epoch", **record)
+
+    class EpochCheckpoint(tf.keras.callbacks.Callback):
+        def on_epoch_end(self, epoch, logs=None):
+            emit_progress(15 + 70 * (epoch + 1) / epochs, f"Epoch {epoch + 1}/{epochs}")
+            if checkpoint_path:
+                # Write to a side file first so a stopped process never leaves a torn checkpoint
+                partial_path = checkpoint_path + ".partial.keras"
+                self.model.save(partial_path)
+                os.replace(partial_path, checkpoint_path)
+                emit_event("checkpoint", epoch=epoch + 1)
+
+    # Validation rows from the split spec, or a slice of the training rows
+    validation = {"validation_data": (X_val_scaled, y_val)} if len(X_val) else {"validation_split": 0.2}
+
+    def restore_checkpoint():
+        if checkpoint_path and initial_epoch > 0 and os.path.exists(checkpoint_path):
+            return tf.keras.models.load_model(checkpoint_path)
+        return None
+
+    def build_network(last_layer_units, last_activation):
+        network = Sequential()
+        network.add(Input(shape=X_train_scaled.shape[1:]))
+        flat = X_train_scaled.ndim == 2
+
+        # Augmentation layers only transform batches during training
+        augmentation = (config["image"] or {}).get("augmentation") or {}
+        if augmentation.get("flipHorizontal"):
+            network.add(tf.keras.layers.RandomFlip("horizontal"))
+        if augmentation.get("rotation"):
+            network.add(tf.keras.layers.RandomRotation(float(augmentation["rotation"])))
+        if augmentation.get("zoom"):
+            network.add(tf.keras.layers.RandomZoom(float(augmentation["zoom"])))
+
+        for layer in nn_architecture:
+            kind = layer.get("type") or "Dense"
+            activation = str(layer.get("activation") or "linear").lower()
+            if kind == "Conv2D":
+                network.add(Conv2D(int(layer["neurons"]), int(layer.get("kernelSize") or 3), padding="same", activation=activation))
+            elif kind == "MaxPooling2D":
+                network.add(MaxPooling2D(int(layer.get("poolSize") or 2)))
+            elif kind == "AveragePooling2D":
+                network.add(AveragePooling2D(int(layer.get("poolSize") or 2)))
+            elif kind == "BatchNormalization":
+                network.add(BatchNormalization())
+            elif kind == "Flatten":
+                network.add(Flatten())
+                flat = True
+            else:
+                # Dense layers after convolutions need a flat input
+                if not flat:
+                    network.add(Flatten())
+                    flat = True
+                network.add(Dense(int(layer["neurons"]), activation=activation))
+            if layer.get("dropout"):
+                network.add(Dropout(layer["dropout"]))
+
+        if not flat:
+            network.add(Flatten())
+        network.add(Dense(last_layer_units, activation=last_activation))
+        return network
+
+    # Try using TensorFlow if available
+    # Determine if classification or regression
+    if is_classification_problem:
+        # Determine if binary or multiclass
+        unique_classes = len(set(y_train))
+        last_layer_units = 1 if unique_classes == 2 else unique_classes
+        last_activation = 'sigmoid' if unique_classes == 2 else 'softmax'
+        loss_function = 'binary_crossentropy' if unique_classes == 2 else 'sparse_categorical_crossentropy'
+        
+        model = restore_checkpoint()
+        if model is None:
+            model = build_network(last_layer_units, last_activation)
+        
+            # Compile model
+            model.compile(
+                optimizer=Adam(learning_rate=learning_rate),
+                loss=loss_function,
+                metrics=['accuracy']
+            )
+        
+        # Early stopping to prevent overfitting
+        early_stopping = EarlyStopping(
+            monitor='val_loss',
+            patience=10,
+            restore_best_weights=True
+        )
+        
+        # Train model
+        history = model.fit(
+            X_train_scaled, y_train,
+            epochs=epochs,
+            initial_epoch=initial_epoch,
+            batch_size=32,
+            **validation,
+            callbacks=[early_stopping, EpochHistory(), EpochCheckpoint()],
+            verbose=0
+        )
+        
+        # Evaluate model
+        if unique_classes == 2:
+            y_pred_proba = model.predict(X_test_scaled)
+            y_pred = (y_pred_proba > 0.5).astype(int).flatten()
+        else:
+            y_pred = model.predict(X_test_scaled).argmax(axis=1)
+        
+        accuracy = accuracy_score(y_test, y_pred)
+        precision = precision_score(y_test, y_pred, average='weighted', zero_division=0)
+        recall = recall_score(y_test, y_pred, average='weighted', zero_division=0)
+        f1 = f1_score(y_test, y_pred, average='weighted', zero_division=0)
+        
+        metrics = {
+            "accuracy": float(accuracy),
+            "precision": float(precision),
+            "recall": float(recall),
+            "f1_score": float(f1),
+            "val_accuracy": float(history.history['val_accuracy'][-1]),
+            "epochs_used": initial_epoch + len(history.history['loss'])
+        }
+        
+        try:
+            cm = confusion_matrix(y_test, y_pred).tolist()
+        except:
+            cm = []
+            
+    else:  # Regression
+        model = restore_checkpoint()
+        if model is None:
+            # Output layer - linear for regression
+            model = build_network(1, 'linear')
+        
+            # Compile model
+            model.compile(
+                optimizer=Adam(learning_rate=learning_rate),
+                loss='mse',
+                metrics=['mae']
+            )
+        
+        # Early stopping to prevent overfitting
+        early_stopping = EarlyStopping(
+            monitor='val_loss',
+            patience=10,
+            restore_best_weights=True
+        )
+        
+        # Train model
+        history = model.fit(
+            X_train_scaled, y_train,
+            epochs=epochs,
+            initial_epoch=initial_epoch,
+            batch_size=32,
+            **validation,
+            callbacks=[early_stopping, EpochHistory(), EpochCheckpoint()],
+            verbose=0
+        )
+        
+        # Evaluate model
+        y_pred = model.predict(X_test_scaled).flatten()
+        mse = mean_squared_error(y_test, y_pred)
+        r2 = r2_score(y_test, y_pred)
+        
+        metrics = {
+            "mse": float(mse),
+            "r2_score": float(r2),
+            "val_mae": float(history.history['val_mae'][-1]),
+            "epochs_used": initial_epoch + len(history.history['loss'])
+        }
+        accuracy = r2
+        cm = None
+    
+    # For neural networks, we use permutation importance or just a placeholder
+    feature_importance = {}
+    
+else:
+    # Fallback to sklearn's MLPClassifier/MLPRegressor: dense layers only, on flattened inputs
+    hidden_layer_sizes = tuple(layer["neurons"] for layer in nn_architecture if (layer.get("type") or "Dense") == "Dense")
+    X_train_scaled = X_train_scaled.reshape(len(X_train_scaled), -1)
+    X_test_scaled = X_test_scaled.reshape(len(X_test_scaled), -1)
+    
+    if is_classification_problem:
+        model = MLPClassifier(
+            hidden_layer_sizes=hidden_layer_sizes,
+            max_iter=epochs,
+            learning_rate_init=learning_rate,
+            early_stopping=True,
+            random_state=42
+        )
+        model.fit(X_train_scaled, y_train)
+        epoch_history = mlp_history(model, "val_accuracy")
+        y_pred = model.predict(X_test_scaled)
+        
+        accuracy = accuracy_score(y_test, y_pred)
+        precision = precision_score(y_test, y_pred, average='weighted', zero_division=0)
+        recall = recall_score(y_test, y_pred, average='weighted', zero_division=0)
+        f1 = f1_score(y_test, y_pred, average='weighted', zero_division=0)
+        
+        metrics = {
+            "accuracy": float(accuracy),
+            "precision": float(precision),
+            "recall": float(recall),
+            "f1_score": float(f1)
+        }
+        
+        try:
+            cm = confusion_matrix(y_test, y_pred).tolist()
+        except:
+            cm = []
+    else:
+        model = MLPRegressor(
+            hidden_layer_sizes=hidden_layer_sizes,
+            max_iter=epochs,
+            learning_rate_init=learning_rate,
+            early_stopping=True,
+            random_state=42
+        )
+        model.fit(X_train_scaled, y_train)
+        epoch_history = mlp_history(model, "val_r2")
+        y_pred = model.predict(X_test_scaled)
+        
+        mse = mean_squared_error(y_test, y_pred)
+        r2 = r2_score(y_test, y_pred)
+        
+        metrics = {
+            "mse": float(mse),
+            "r2_score": float(r2)
+        }
+        accuracy = r2
+        cm = None
+    
+    feature_importance = {}
+`;
+  } else if (algorithm === "XGBoost") {
+    script += `
+try:
+    if is_classification_problem:
+        # Determine if binary or multiclass
+        unique_classes = len(set(y_train))
+        if unique_classes == 2:
+            model = xgb.XGBClassifier(
+                n_estimators=100,
+                learning_rate=0.1,
+                random_state=42
+            )
+        else:
+            model = xgb.XGBClassifier(
+                n_estimators=100,
+                learning_rate=0.1,
+                objective='multi:softprob',
+                num_class=unique_classes,
+                random_state=42
+            )
+        
+        model.fit(X_train_scaled, y_train)
+        y_pred = model.predict(X_test_scaled)
+        
+        accuracy = accuracy_score(y_test, y_pred)
+        precision = precision_score(y_test, y_pred, average='weighted', zero_division=0)
+        recall = recall_score(y_test, y_pred, average='weighted', zero_division=0)
+        f1 = f1_score(y_test, y_pred, average='weighted', zero_division=0)
+        
+        metrics = {
+            "accuracy": float(accuracy),
+            "precision": float(precision),
+            "recall": float(recall),
+            "f1_score": float(f1)
+        }
+        
+        try:
+            cm = confusion_matrix(y_test, y_pred).tolist()
+        except:
+            cm = []
+    else:
+        model = xgb.XGBRegressor(
+            n_estimators=100,
+            learning_rate=0.1,
+            random_state=42
+        )
+        
+        model.fit(X_train_scaled, y_train)
+        y_pred = model.predict(X_test_scaled)
+        
+        mse = mean_squared_error(y_test, y_pred)
+        r2 = r2_score(y_test, y_pred)
+        
+        metrics = {
+            "mse": float(mse),
+            "r2_score": float(r2)
+        }
+        accuracy = r2
+        cm = None
+    
+    feature_importance = dict(zip(features, model.feature_importances_.tolist()))
+    
+except:
+    # Fallback to RandomForest if XGBoost fails
+    if is_classification_problem:
+        model = RandomForestClassifier(n_estimators=100)
+        model.fit(X_train_scaled, y_train)
+        y_pred = model.predict(X_test_scaled)
+        
+        accuracy = accuracy_score(y_test, y_pred)
+        precision = precision_score(y_test, y_pred, average='weighted', zero_division=0)
+        recall = recall_score(y_test, y_pred, average='weighted', zero_division=0)
+        f1 = f1_score(y_test, y_pred, average='weighted', zero_division=0)
+        
+        metrics = {
+            "accuracy": float(accuracy),
+            "precision": float(precision),
+            "recall": float(recall),
+            "f1_score": float(f1),
+            "note": "Fallback to RandomForest as XGBoost failed"
+        }
+        
+        try:
+            cm = confusion_matrix(y_test, y_pred).tolist()
+        except:
+            cm = []
+    else:
+        model = RandomForestRegressor(n_estimators=100)
+        model.fit(X_train_scaled, y_train)
+        y_pred = model.predict(X_test_scaled)
+        
+        mse = mean_squared_error(y_test, y_pred)
+        r2 = r2_score(y_test, y_pred)
+        
+        metrics = {
+            "mse": float(mse),
+            "r2_score": float(r2),
+            "note": "Fallback to RandomForest as XGBoost failed"
+        }
+        accuracy = r2
+        cm = None
+    
+    feature_importance = dict(zip(features, model.feature_importances_.tolist()))
+`;
+  } else if (algorithm === "KNN") {
+    script += `
+knn_params = {
+    "n_neighbors": min(int(param("nNeighbors", 5)), len(X_train_scaled)),
+    "weights": param("weights", "uniform"),
+}
+if is_classification_problem:
+    model = KNeighborsClassifier(**knn_params)
+    model.fit(X_train_scaled, y_train)
+    y_pred = model.predict(X_test_scaled)
+    accuracy = accuracy_score(y_test, y_pred)
+    precision = precision_score(y_test, y_pred, average='weighted', zero_division=0)
+    recall = recall_score(y_test, y_pred, average='weighted', zero_division=0)
+    f1 = f1_score(y_test, y_pred, average='weighted', zero_division=0)
+    metrics = {
+        "accuracy": float(accuracy),
+        "precision": float(precision),
+        "recall": float(recall),
+        "f1_score": float(f1)
+    }
+    try:
+        cm = confusion_matrix(y_test, y_pred).tolist()
+    except:
+        cm = []
+else:
+    model = KNeighborsRegressor(**knn_params)
+    model.fit(X_train_scaled, y_train)
+    y_pred = model.predict(X_test_scaled)
+    accuracy = r2_score(y_test, y_pred)
+    mse = mean_squared_error(y_test, y_pred)
+    metrics = {
+        "r2_score": float(accuracy),
+        "mse": float(mse)
+    }
+    cm = None
+feature_importance = {}  # KNN doesn't provide direct feature importance
+`;
+  } else if (algorithm === "Naive Bayes") {
+    script += `
+# Gaussian Naive Bayes only classifies; regression targets use its Bayesian linear counterpart
+if is_classification_problem:
+    model = GaussianNB(var_smoothing=float(param("varSmoothing", 1e-9)))
+    model.fit(X_train_scaled, y_train)
+    y_pred = model.predict(X_test_scaled)
+    accuracy = accuracy_score(y_test, y_pred)
+    precision = precision_score(y_test, y_pred, average='weighted', zero_division=0)
+    recall = recall_score(y_test, y_pred, average='weighted', zero_division=0)
+    f1 = f1_score(y_test, y_pred, average='weighted', zero_division=0)
+    metrics = {
+        "accuracy": float(accuracy),
+        "precision": float(precision),
+        "recall": float(recall),
+        "f1_score": float(f1)
+    }
+    try:
+        cm = confusion_matrix(y_test, y_pred).tolist()
+    except:
+        cm = []
+    # Features whose class means lie far apart (relative to their spread) separate the classes best
+    feature_importance = dict(zip(features, (model.theta_.std(axis=0) / np.sqrt(model.var_.mean(axis=0))).tolist()))
+else:
+    model = BayesianRidge()
+    model.fit(X_train_scaled, y_train)
+    y_pred = model.predict(X_test_scaled)
+    accuracy = r2_score(y_test, y_pred)
+    mse = mean_squared_error(y_test, y_pred)
+    metrics = {
+        "r2_score": float(accuracy),
+        "mse": float(mse)
+    }
+    cm = None
+    metrics["note"] = "Bayesian ridge regression, as Naive Bayes needs a categorical target"
+    feature_importance = dict(zip(features, abs(model.coef_).tolist()))
+`;
+  } else if (algorithm === "AdaBoost") {
+    script += `
+adaboost_params = {
+    "n_estimators": int(param("nEstimators", 50)),
+    "learning_rate": float(param("learningRate", 1.0)),
+    "random_state": 42,
+}
+if is_classification_problem:
+    model = AdaBoostClassifier(**adaboost_params)
+    model.fit(X_train_scaled, y_train)
+    y_pred = model.predict(X_test_scaled)
+    accuracy = accuracy_score(y_test, y_pred)
+    precision = precision_score(y_test, y_pred, average='weighted', zero_division=0)
+    recall = recall_score(y_test, y_pred, average='weighted', zero_division=0)
+    f1 = f1_score(y_test, y_pred, average='weighted', zero_division=0)
+    metrics = {
+        "accuracy": float(accuracy),
+        "precision": float(precision),
+        "recall": float(recall),
+        "f1_score": float(f1)
+    }
+    try:
+        cm = confusion_matrix(y_test, y_pred).tolist()
+    except:
+        cm = []
+else:
+    model = AdaBoostRegressor(**adaboost_params)
+    model.fit(X_train_scaled, y_train)
+    y_pred = model.predict(X_test_scaled)
+    accuracy = r2_score(y_test, y_pred)
+    mse = mean_squared_error(y_test, y_pred)
+    metrics = {
+        "r2_score": float(accuracy),
+        "mse": float(mse)
+    }
+    cm = None
+feature_importance = dict(zip(features, model.feature_importances_.tolist()))
+`;
+  } else if (algorithm === "Gaussian Process") {
+    script += `
+# Exact Gaussian processes scale cubically with the row count, so large training sets are subsampled
+max_gp_rows = int(param("maxRows", 2000))
+if len(X_train_scaled) > max_gp_rows:
+    gp_rows = np.random.RandomState(42).choice(len(X_train_scaled), max_gp_rows, replace=False)
+    X_gp, y_gp = X_train_scaled[gp_rows], y_train[gp_rows]
+else:
+    X_gp, y_gp = X_train_scaled, y_train
+if is_classification_problem:
+    model = GaussianProcessClassifier(kernel=1.0 * RBF(1.0), random_state=42)
+    model.fit(X_gp, y_gp)
+    y_pred = model.predict(X_test_scaled)
+    accuracy = accuracy_score(y_test, y_pred)
+    precision = precision_score(y_test, y_pred, average='weighted', zero_division=0)
+    recall = recall_score(y_test, y_pred, average='weighted', zero_division=0)
+    f1 = f1_score(y_test, y_pred, average='weighted', zero_division=0)
+    metrics = {
+        "accuracy": float(accuracy),
+        "precision": float(precision),
+        "recall": float(recall),
+        "f1_score": float(f1)
+    }
+    try:
+        cm = confusion_matrix(y_test, y_pred).tolist()
+    except:
+        cm = []
+else:
+    model = GaussianProcessRegressor(kernel=1.0 * RBF(1.0) + WhiteKernel(), normalize_y=True, random_state=42)
+    model.fit(X_gp, y_gp)
+    y_pred = model.predict(X_test_scaled)
+    accuracy = r2_score(y_test, y_pred)
+    mse = mean_squared_error(y_test, y_pred)
+    metrics = {
+        "r2_score": float(accuracy),
+        "mse": float(mse)
+    }
+    cm = None
+metrics["training_rows"] = int(len(X_gp))
+feature_importance = {}  # Gaussian processes don't provide direct feature importance
+`;
+  } else if (algorithm === "LDA") {
+    script += `
+# Linear discriminant analysis is supervised: it projects onto the axes that best separate the classes
+if not is_classification_problem:
+    raise ValueError("LDA needs a categorical target")
+n_classes = len(set(y_train))
+n_components = max(1, min(int(param("nComponents", 2)), n_classes - 1, X_train_scaled.shape[1]))
+model = LinearDiscriminantAnalysis(n_components=n_components)
+model.fit(X_train_scaled, y_train)
+y_pred = model.predict(X_test_scaled)
+accuracy = accuracy_score(y_test, y_pred)
+precision = precision_score(y_test, y_pred, average='weighted', zero_division=0)
+recall = recall_score(y_test, y_pred, average='weighted', zero_division=0)
+f1 = f1_score(y_test, y_pred, average='weighted', zero_division=0)
+metrics = {
+    "accuracy": float(accuracy),
+    "precision": float(precision),
+    "recall": float(recall),
+    "f1_score": float(f1)
+}
+try:
+    cm = confusion_matrix(y_test, y_pred).tolist()
+except:
+    cm = []
+metrics["n_components"] = int(n_components)
+metrics["explained_variance_ratio"] = model.explained_variance_ratio_.tolist()
+feature_importance = dict(zip(features, abs(model.scalings_[:, 0]).tolist()))
+`;
+  } else if (algorithm === "DBSCAN") {
+    script += `
+model = DBSCAN(eps=float(param("eps", 0.5)), min_samples=int(param("minSamples", 5)))
+model.fit(X_scaled)
+labels = model.labels_
+clustered = labels != -1
+n_clusters = len(set(labels[clustered]))
+
+# Silhouette is computed on the clustered points; noise (label -1) is reported separately
+try:
+    silhouette_avg = silhouette_score(X_scaled[clustered], labels[clustered]) if n_clusters > 1 else 0
+except:
+    silhouette_avg = 0
+accuracy = silhouette_avg
+
+metrics = {
+    "silhouette_score": float(silhouette_avg),
+    "n_clusters": int(n_clusters),
+    "noise_ratio": float(1 - clustered.mean())
+}
+cm = None
+feature_importance = {}  # DBSCAN doesn't provide direct feature importance
+`;
+  } else if (algorithm === "PCA") {
+    script += `
+n_components = max(1, min(int(param("nComponents", 2)), X_scaled.shape[0], X_scaled.shape[1]))
+model = PCA(n_components=n_components, random_state=42)
+model.fit(X_scaled)
+# The share of variance the kept components explain
+accuracy = float(model.explained_variance_ratio_.sum())
+
+metrics = {
+    "explained_variance": accuracy,
+    "explained_variance_ratio": model.explained_variance_ratio_.tolist(),
+    "n_components": int(n_components)
+}
+cm = None
+# Loadings on the first principal component
+feature_importance = dict(zip(features, abs(model.components_[0]).tolist()))
+`;
+  } else if (algorithm === "Isolation Forest") {
+    script += `
+max_samples = param("maxSamples", "auto")
+model = IsolationForest(
+    n_estimators=int(param("nEstimators", 100)),
+    contamination=param("contamination", "auto"),
+    max_samples=min(int(max_samples), len(X_scaled)) if max_samples != "auto" else "auto",
+    random_state=42
+)
+model.fit(X_scaled)
+predictions = model.predict(X_scaled)
+scores = -model.score_samples(X_scaled)
+anomaly_ratio = float((predictions == -1).mean())
+# Share of rows the forest considers normal
+accuracy = 1 - anomaly_ratio
+
+metrics = {
+    "anomaly_ratio": anomaly_ratio,
+    "n_anomalies": int((predictions == -1).sum()),
+    "mean_anomaly_score": float(scores.mean()),
+    "max_anomaly_score": float(scores.max())
+}
+cm = None
+feature_importance = {}  # Isolation Forest doesn't provide direct feature importance
+`;
+  } else if (algorithm === "LightGBM") {
+    script += `
+lightgbm_params = {
+    "n_estimators": int(param("nEstimators", 100)),
+    "learning_rate": float(param("learningRate", 0.1)),
+    "max_depth": int(param("maxDepth", -1)),
+    "num_leaves": int(param("numLeaves", 31)),
+    "random_state": 42,
+    "verbose": -1,
+}
+if HAS_LIGHTGBM:
+    if is_classification_problem:
+        model = lgb.LGBMClassifier(**lightgbm_params)
+        model.fit(X_train_scaled, y_train)
+        y_pred = model.predict(X_test_scaled)
+        accuracy = accuracy_score(y_test, y_pred)
+        precision = precision_score(y_test, y_pred, average='weighted', zero_division=0)
+        recall = recall_score(y_test, y_pred, average='weighted', zero_division=0)
+        f1 = f1_score(y_test, y_pred, average='weighted', zero_division=0)
+        metrics = {
+            "accuracy": float(accuracy),
+            "precision": float(precision),
+            "recall": float(recall),
+            "f1_score": float(f1)
+        }
+        try:
+            cm = confusion_matrix(y_test, y_pred).tolist()
+        except:
+            cm = []
+    else:
+        model = lgb.LGBMRegressor(**lightgbm_params)
+        model.fit(X_train_scaled, y_train)
+        y_pred = model.predict(X_test_scaled)
+        accuracy = r2_score(y_test, y_pred)
+        mse = mean_squared_error(y_test, y_pred)
+        metrics = {
+            "r2_score": float(accuracy),
+            "mse": float(mse)
+        }
+        cm = None
+    feature_importance = dict(zip(features, model.feature_importances_.tolist()))
+else:
+    # Fall back to scikit-learn's histogram gradient boosting when LightGBM isn't installed
+    if is_classification_problem:
+        model = HistGradientBoostingClassifier(random_state=42)
+        model.fit(X_train_scaled, y_train)
+        y_pred = model.predict(X_test_scaled)
+        accuracy = accuracy_score(y_test, y_pred)
+        precision = precision_score(y_test, y_pred, average='weighted', zero_division=0)
+        recall = recall_score(y_test, y_pred, average='weighted', zero_division=0)
+        f1 = f1_score(y_test, y_pred, average='weighted', zero_division=0)
+        metrics = {
+            "accuracy": float(accuracy),
+            "precision": float(precision),
+            "recall": float(recall),
+            "f1_score": float(f1)
+        }
+        try:
+            cm = confusion_matrix(y_test, y_pred).tolist()
+        except:
+            cm = []
+    else:
+        model = HistGradientBoostingRegressor(random_state=42)
+        model.fit(X_train_scaled, y_train)
+        y_pred = model.predict(X_test_scaled)
+        accuracy = r2_score(y_test, y_pred)
+        mse = mean_squared_error(y_test, y_pred)
+        metrics = {
+            "r2_score": float(accuracy),
+            "mse": float(mse)
+        }
+        cm = None
+    metrics["note"] = "Fallback to HistGradientBoosting as LightGBM is not installed"
+    feature_importance = {}
+`;
+  } else if (algorithm === "CatBoost") {
+    script += `
+catboost_params = {
+    "iterations": int(param("iterations", param("nEstimators", 100))),
+    "learning_rate": float(param("learningRate", 0.05)),
+    "depth": int(param("depth", param("maxDepth", 6))),
+    "random_seed": 42,
+    "verbose": 0,
+}
+if HAS_CATBOOST:
+    if is_classification_problem:
+        model = CatBoostClassifier(**catboost_params)
+        model.fit(X_train_scaled, y_train)
+        y_pred = model.predict(X_test_scaled)
+        accuracy = accuracy_score(y_test, y_pred)
+        precision = precision_score(y_test, y_pred, average='weighted', zero_division=0)
+        recall = recall_score(y_test, y_pred, average='weighted', zero_division=0)
+        f1 = f1_score(y_test, y_pred, average='weighted', zero_division=0)
+        metrics = {
+            "accuracy": float(accuracy),
+            "precision": float(precision),
+            "recall": float(recall),
+            "f1_score": float(f1)
+        }
+        try:
+            cm = confusion_matrix(y_test, y_pred).tolist()
+        except:
+            cm = []
+    else:
+        model = CatBoostRegressor(**catboost_params)
+        model.fit(X_train_scaled, y_train)
+        y_pred = model.predict(X_test_scaled)
+        accuracy = r2_score(y_test, y_pred)
+        mse = mean_squared_error(y_test, y_pred)
+        metrics = {
+            "r2_score": float(accuracy),
+            "mse": float(mse)
+        }
+        cm = None
+    feature_importance = dict(zip(features, model.feature_importances_.tolist()))
+else:
+    # Fall back to scikit-learn's histogram gradient boosting when CatBoost isn't installed
+    if is_classification_problem:
+        model = HistGradientBoostingClassifier(random_state=42)
+        model.fit(X_train_scaled, y_train)
+        y_pred = model.predict(X_test_scaled)
+        accuracy = accuracy_score(y_test, y_pred)
+        precision = precision_score(y_test, y_pred, average='weighted', zero_division=0)
+        recall = recall_score(y_test, y_pred, average='weighted', zero_division=0)
+        f1 = f1_score(y_test, y_pred, average='weighted', zero_division=0)
+        metrics = {
+            "accuracy": float(accuracy),
+            "precision": float(precision),
+            "recall": float(recall),
+            "f1_score": float(f1)
+        }
+        try:
+            cm = confusion_matrix(y_test, y_pred).tolist()
+        except:
+            cm = []
+    else:
+        model = HistGradientBoostingRegressor(random_state=42)
+        model.fit(X_train_scaled, y_train)
+        y_pred = model.predict(X_test_scaled)
+        accuracy = r2_score(y_test, y_pred)
+        mse = mean_squared_error(y_test, y_pred)
+        metrics = {
+            "r2_score": float(accuracy),
+            "mse": float(mse)
+        }
+        cm = None
+    metrics["note"] = "Fallback to HistGradientBoosting as CatBoost is not installed"
+    feature_importance = {}
+`;
+  }
+
+  script += `
+emit_progress(85, "Evaluating model")
+`;
+
+  // Score the fitted model on its own training rows so callers can spot overfitting
+  if (!isUnsupervised && !isDL) {
+    script += `
+try:
+    y_train_pred = model.predict(X_train_scaled)
+    if is_classification_problem:
+        train_accuracy = accuracy_score(y_train, y_train_pred)
+    else:
+        train_accuracy = r2_score(y_train, y_train_pred)
+except Exception:
+    train_accuracy = None
+`;
+  } else {
+    script += `
+train_accuracy = None
+`;
+  }
+
+  // Serialize model to base64 string for storage
+  script += `
+emit_progress(95, "Serializing model")
+
+# Serialize model to base64 string
+model_bytes = BytesIO()
+pickle.dump(model, model_bytes)
+model_bytes.seek(0)
+model_base64 = base64.b64encode(model_bytes.read()).decode('utf-8')
+
+# Output results as JSON
+result = {
+    "accuracy": float(accuracy),
+    "train_accuracy": None if train_accuracy is None else float(train_accuracy),
+    "algorithm": algorithm,
+    "model": model_base64,
+    "metrics": metrics,
+    "confusion_matrix": cm,
+    "feature_importance": feature_importance,
+    # Fitted when the rows were not preprocessed by the client; prediction applies it again
+    "scaler": scaler_state${isDL ? `,
+    "history": epoch_history,
+    # Without TensorFlow the network is a scikit-learn MLP, which can't be saved as Keras
+    "framework": "keras" if HAS_TF else "sklearn"` : ""}
+}
+print(json.dumps(result))
+`;
+
+  return script;
+}
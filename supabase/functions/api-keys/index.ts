@@ -0,0 +1,75 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { corsHeaders } from "../_shared/cors.ts";
+import { createApiKey, isAdminRequest, revokeApiKey, setModelProject } from "../_shared/apiKeys.ts";
+
+const DEFAULT_RATE_LIMIT = 60;
+
+const jsonResponse = (body: Record<string, unknown>, status = 200) =>
+  new Response(JSON.stringify(body), {
+    headers: {
+      ...corsHeaders,
+      "Content-Type": "application/json",
+    },
+    status,
+  });
+
+// Issue and revoke prediction API keys and choose the project each model is served to.
+// The api_keys table and models.project are only writable with the service role, so every
+// action requires the admin secret in the X-Admin-Secret header.
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    if (!await isAdminRequest(req)) {
+      return jsonResponse({ success: false, error: "Invalid or missing admin secret" }, 401);
+    }
+
+    const { action, ...request } = await req.json();
+
+    if (action === "create") {
+      const project = typeof request.project === "string" ? request.project.trim() : "";
+      const name = typeof request.name === "string" ? request.name.trim() : "";
+      const rateLimit = Number(request.rateLimitPerMinute ?? DEFAULT_RATE_LIMIT);
+      if (!project || !name) {
+        return jsonResponse({ success: false, error: "Expected a project and a key name" }, 400);
+      }
+      if (!Number.isInteger(rateLimit) || rateLimit < 1) {
+        return jsonResponse({ success: false, error: "The rate limit must be a positive whole number" }, 400);
+      }
+
+      const { key, secret } = await createApiKey(project, name, rateLimit);
+      return jsonResponse({ success: true, key, secret }, 201);
+    }
+
+    if (action === "revoke") {
+      if (!request.id) {
+        return jsonResponse({ success: false, error: "Expected the id of the key to revoke" }, 400);
+      }
+      const key = await revokeApiKey(request.id);
+      if (!key) {
+        return jsonResponse({ success: false, error: `API key ${request.id} not found or already revoked` }, 404);
+      }
+      return jsonResponse({ success: true, key });
+    }
+
+    if (action === "serve") {
+      if (!request.modelId) {
+        return jsonResponse({ success: false, error: "Expected the id of the model to serve" }, 400);
+      }
+      const project = typeof request.project === "string" && request.project.trim() ? request.project.trim() : null;
+      const model = await setModelProject(request.modelId, project);
+      if (!model) {
+        return jsonResponse({ success: false, error: `Model ${request.modelId} not found` }, 404);
+      }
+      return jsonResponse({ success: true, model });
+    }
+
+    return jsonResponse({ success: false, error: "Expected an action of create, revoke or serve" }, 400);
+  } catch (error) {
+    console.error("Error managing API keys:", error.message);
+    return jsonResponse({ success: false, error: error.message }, 500);
+  }
+});
@@ -0,0 +1,141 @@
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { corsHeaders } from "../_shared/cors.ts";
+import { PYTHON_INPUTS, runPythonScript } from "../_shared/python.ts";
+
+// Formats that need Python to write; pickles and JSON are assembled by the client
+const SERVER_FORMATS = ["joblib", "h5", "keras", "onnx"];
+
+// Convert a stored (pickled) model into another file format and return its bytes
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { modelId, format } = await req.json();
+
+    if (!SERVER_FORMATS.includes(format)) {
+      throw new Error(`Unsupported export format: ${format}`);
+    }
+
+    console.log(`Exporting model ${modelId} as .${format}`);
+
+    // Fetch the model from the database
+    const supabaseUrl = Deno.env.get("SUPABASE_URL") || "";
+    const supabaseAnonKey = Deno.env.get("SUPABASE_ANON_KEY") || "";
+
+    if (!supabaseUrl || !supabaseAnonKey) {
+      throw new Error("Missing required environment variables: SUPABASE_URL or SUPABASE_ANON_KEY");
+    }
+
+    const response = await fetch(`${supabaseUrl}/rest/v1/models?id=eq.${encodeURIComponent(modelId)}&select=model_data`, {
+      headers: {
+        "apikey": supabaseAnonKey,
+        "Authorization": `Bearer ${supabaseAnonKey}`
+      }
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to fetch model: ${response.statusText}`);
+    }
+
+    const models = await response.json();
+    if (!models || models.length === 0) {
+      throw new Error(`Model with ID ${modelId} not found`);
+    }
+    if (!models[0].model_data) {
+      throw new Error("The model has no trained artifact to export");
+    }
+
+    try {
+      const result = await runPythonScript(generateExportScript(), undefined, {
+        config: { model: models[0].model_data, format },
+      });
+
+      return new Response(
+        JSON.stringify({
+          success: true,
+          format,
+          artifact: result.artifact,
+        }),
+        {
+          headers: {
+            ...corsHeaders,
+            "Content-Type": "application/json",
+          },
+          status: 200,
+        }
+      );
+    } catch (execError) {
+      console.error("Error executing Python export script:", execError.message);
+      throw new Error(`Export failed: ${execError.message}`);
+    }
+  } catch (error) {
+    console.error("Error exporting model:", error.message);
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: error.message,
+      }),
+      {
+        headers: {
+          ...corsHeaders,
+          "Content-Type": "application/json",
+        },
+        status: 500,
+      }
+    );
+  }
+});
+
+// Helper function to generate the Python conversion script
+function generateExportScript(): string {
+  return `
+import base64
+import json
+import os
+import pickle
+import tempfile
+import numpy as np
+${PYTHON_INPUTS}
+config = load_config()
+export_format = config["format"]
+model = pickle.loads(base64.b64decode(config["model"]))
+
+# Networks are Keras models; everything else is a scikit-learn style estimator
+is_keras = hasattr(model, "layers") and hasattr(model, "save")
+path = os.path.join(tempfile.mkdtemp(), "model." + export_format)
+
+if export_format == "joblib":
+    import joblib
+    joblib.dump(model, path)
+elif export_format in ("h5", "keras"):
+    if not is_keras:
+        raise ValueError("Only neural networks can be saved in Keras format")
+    model.save(path)
+elif is_keras:
+    import tensorflow as tf
+    import tf2onnx
+    signature = (tf.TensorSpec((None,) + tuple(model.input_shape[1:]), tf.float32, name="input"),)
+    onnx_model, _ = tf2onnx.convert.from_keras(model, input_signature=signature)
+    with open(path, "wb") as onnx_file:
+        onnx_file.write(onnx_model.SerializeToString())
+else:
+    from skl2onnx import to_onnx
+    from sklearn.base import is_classifier
+    # Inputs are the preprocessed feature vector the estimator was fitted on
+    sample = np.zeros((1, model.n_features_in_), dtype=np.float32)
+    # Plain probability tensors rather than per-row dictionaries
+    options = {"zipmap": False} if is_classifier(model) and hasattr(model, "predict_proba") else None
+    onnx_model = to_onnx(model, sample, options=options)
+    with open(path, "wb") as onnx_file:
+        onnx_file.write(onnx_model.SerializeToString())
+
+with open(path, "rb") as artifact_file:
+    artifact = base64.b64encode(artifact_file.read()).decode("utf-8")
+
+print(json.dumps({"artifact": artifact}))
+`;
+}
@@ -0,0 +1,154 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { corsHeaders } from "../_shared/cors.ts";
+import { ApiKeyRow, findApiKey, logPredictionRequest, recentRequestCount } from "../_shared/apiKeys.ts";
+import { modelFeatures, parseSchema, prepareRows, RowValidationError } from "../_shared/modelInputs.ts";
+import { getModel, modelParameters, runPrediction } from "../_shared/prediction.ts";
+
+// Versioned public prediction API, authenticated with an X-API-Key header:
+//   GET  /v1/models/{id}          the model's input contract
+//   POST /v1/models/{id}:predict  {"instances": [{"feature": value, ...}, ...]}
+const ROUTE = /\/v1\/models\/([^/:]+)(:predict)?$/;
+
+const MAX_INSTANCES = 1000;
+
+class ApiError extends Error {
+  status: number;
+  code: string;
+  details?: string[];
+
+  constructor(status: number, code: string, message: string, details?: string[]) {
+    super(message);
+    this.name = "ApiError";
+    this.status = status;
+    this.code = code;
+    this.details = details;
+  }
+}
+
+const json = (body: unknown, status: number, extraHeaders: Record<string, string> = {}) =>
+  new Response(JSON.stringify(body), {
+    headers: {
+      ...corsHeaders,
+      "Content-Type": "application/json",
+      ...extraHeaders,
+    },
+    status,
+  });
+
+const authenticate = async (req: Request): Promise<ApiKeyRow> => {
+  const key = req.headers.get("x-api-key");
+  if (!key) {
+    throw new ApiError(401, "unauthenticated", "Missing X-API-Key header");
+  }
+  const apiKey = await findApiKey(key);
+  if (!apiKey) {
+    throw new ApiError(401, "unauthenticated", "Unknown or revoked API key");
+  }
+  if (await recentRequestCount(apiKey.id) >= apiKey.rate_limit_per_minute) {
+    throw new ApiError(429, "rate_limited", `Rate limit of ${apiKey.rate_limit_per_minute} requests per minute exceeded`);
+  }
+  return apiKey;
+};
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const startedAt = Date.now();
+  let apiKey: ApiKeyRow | null = null;
+  let modelId: string | null = null;
+  let rowCount = 0;
+
+  try {
+    const match = new URL(req.url).pathname.match(ROUTE);
+    if (!match) {
+      throw new ApiError(404, "not_found", "Unknown endpoint; use /v1/models/{id} or /v1/models/{id}:predict");
+    }
+    modelId = decodeURIComponent(match[1]);
+    const predict = !!match[2];
+    if (req.method !== (predict ? "POST" : "GET")) {
+      throw new ApiError(405, "method_not_allowed", `Use ${predict ? "POST" : "GET"} for this endpoint`);
+    }
+
+    apiKey = await authenticate(req);
+
+    const model = await getModel(modelId);
+    if (!model || !model.model_data) {
+      throw new ApiError(404, "model_not_found", `Model ${modelId} not found or has no stored artifact`);
+    }
+    // Keys are issued per project and only reach that project's models
+    if (model.project !== apiKey.project) {
+      throw new ApiError(403, "forbidden", `Model ${modelId} is not served to project ${apiKey.project}`);
+    }
+    const parameters = modelParameters(model);
+    const features = modelFeatures(parameters);
+    if (!features) {
+      throw new ApiError(409, "unsupported_model", "The model was trained before feature names were stored; retrain it to serve it");
+    }
+    const schema = parseSchema(model.schema);
+    const classNames = Array.isArray(parameters.class_names) ? parameters.class_names : null;
+
+    if (!predict) {
+      const types = new Map(schema.map(column => [column.name, column.type]));
+      const response = json({
+        id: model.id,
+        name: model.name,
+        algorithm: model.algorithm,
+        features: features.map(name => ({ name, type: types.get(name) ?? null })),
+        classNames,
+      }, 200);
+      await logPredictionRequest({
+        api_key_id: apiKey.id, model_id: modelId, status_code: 200, row_count: 0,
+        latency_ms: Date.now() - startedAt, error: null,
+      });
+      return response;
+    }
+
+    const body = await req.json().catch(() => null);
+    if (!body || !Array.isArray(body.instances) || body.instances.length === 0) {
+      throw new ApiError(400, "invalid_request", 'Body must be JSON with a non-empty "instances" array');
+    }
+    rowCount = body.instances.length;
+    if (rowCount > MAX_INSTANCES) {
+      throw new ApiError(413, "too_many_instances", `At most ${MAX_INSTANCES} instances per request`);
+    }
+
+    const rows = prepareRows(body.instances, features, schema);
+    const result = await runPrediction(model, rows);
+
+    await logPredictionRequest({
+      api_key_id: apiKey.id, model_id: modelId, status_code: 200, row_count: rowCount,
+      latency_ms: Date.now() - startedAt, error: null,
+    });
+    return json({
+      modelId,
+      predictions: result.predictions,
+      probabilities: result.probabilities.length ? result.probabilities : null,
+      classNames,
+    }, 200);
+  } catch (caught) {
+    const error = caught instanceof RowValidationError
+      ? new ApiError(422, "invalid_instances", caught.message, caught.errors)
+      : caught instanceof ApiError
+        ? caught
+        : new ApiError(500, "internal", caught.message);
+    if (error.status === 500) {
+      console.error("Error serving prediction API request:", error.message);
+    }
+
+    // Calls without an accepted key (including rate-limited ones) have nothing to log against
+    if (apiKey) {
+      await logPredictionRequest({
+        api_key_id: apiKey.id, model_id: modelId, status_code: error.status, row_count: rowCount,
+        latency_ms: Date.now() - startedAt, error: error.message,
+      });
+    }
+    return json(
+      { error: { code: error.code, message: error.message, ...(error.details ? { details: error.details } : {}) } },
+      error.status,
+      error.status === 429 ? { "Retry-After": "60" } : {}
+    );
+  }
+});
@@ -0,0 +1,55 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { corsHeaders } from "../_shared/cors.ts";
+import { getPredictionJob } from "../_shared/predictionJobs.ts";
+
+const jsonResponse = (body: Record<string, unknown>, status = 200) =>
+  new Response(JSON.stringify(body), {
+    headers: {
+      ...corsHeaders,
+      "Content-Type": "application/json",
+    },
+    status,
+  });
+
+// Report the state and progress of a background batch prediction
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    // Accept the job id as a query parameter (GET) or in the JSON body (POST)
+    const jobId = req.method === "GET"
+      ? new URL(req.url).searchParams.get("jobId")
+      : (await req.json()).jobId;
+    
+    if (!jobId) {
+      throw new Error("Missing required parameter: jobId");
+    }
+    
+    const job = await getPredictionJob(jobId);
+    if (!job) {
+      return jsonResponse({ success: false, error: `Prediction job ${jobId} not found` }, 404);
+    }
+    
+    return jsonResponse({
+      success: true,
+      jobId: job.id,
+      modelId: job.model_id,
+      status: job.status,
+      totalRows: job.total_rows,
+      processedRows: job.processed_rows,
+      progress: job.progress,
+      error: job.error,
+      // Predictions are only attached once the job has succeeded
+      result: job.status === "succeeded" ? job.result : null,
+      createdAt: job.created_at,
+      startedAt: job.started_at,
+      finishedAt: job.finished_at
+    });
+  } catch (error) {
+    console.error("Error fetching prediction job:", error.message);
+    return jsonResponse({ success: false, error: error.message }, 500);
+  }
+});
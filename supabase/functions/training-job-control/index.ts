@@ -0,0 +1,105 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { corsHeaders } from "../_shared/cors.ts";
+import { getJob, removeJobRows, updateJobIf } from "../_shared/jobs.ts";
+
+const jsonResponse = (body: Record<string, unknown>, status = 200) =>
+  new Response(JSON.stringify(body), {
+    headers: {
+      ...corsHeaders,
+      "Content-Type": "application/json",
+    },
+    status,
+  });
+
+// Pause, resume or cancel a background training job.
+// Running jobs are stopped by the train-model worker that owns the Python process,
+// which polls the control column; queued and paused jobs have no process and change here.
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { jobId, action } = await req.json();
+    
+    if (!jobId || !["pause", "resume", "cancel"].includes(action)) {
+      throw new Error("Expected a jobId and an action of pause, resume or cancel");
+    }
+    
+    const job = await getJob(jobId);
+    if (!job) {
+      return jsonResponse({ success: false, error: `Training job ${jobId} not found` }, 404);
+    }
+    
+    const conflict = (message: string) => jsonResponse({ success: false, error: message, status: job.status }, 409);
+    
+    // Every change is conditional on the status it was decided on, so a job the worker
+    // has just started or finished is never overwritten
+    if (action === "cancel") {
+      if (job.status === "queued" || job.status === "paused") {
+        const cancelled = await updateJobIf(jobId, "status=in.(queued,paused)", {
+          status: "cancelled",
+          control: null,
+          checkpoint: null,
+          finished_at: new Date().toISOString(),
+        });
+        if (cancelled) {
+          // A cancelled job is never resumed, so its stored rows can go
+          if (cancelled.data_path) {
+            await removeJobRows(cancelled.data_path).catch((error) => {
+              console.error(`Could not remove the rows of job ${jobId}:`, error.message);
+            });
+          }
+          return jsonResponse({ success: true, jobId, status: "cancelled" });
+        }
+      }
+      // Running, or started since it was read: the worker stops the process
+      const flagged = await updateJobIf(jobId, "status=eq.running", { control: "cancel" });
+      if (flagged) {
+        return jsonResponse({ success: true, jobId, status: flagged.status });
+      }
+      const latest = await getJob(jobId);
+      const status = latest?.status ?? job.status;
+      return jsonResponse({
+        success: false,
+        error: `Training job ${jobId} has already ${status === "succeeded" ? "finished" : status}`,
+        status,
+      }, 409);
+    }
+    
+    if (action === "pause") {
+      // Only neural networks write the epoch checkpoints needed to resume
+      if (job.algorithm !== "Neural Network") {
+        return conflict(`${job.algorithm} training cannot be paused, only cancelled`);
+      }
+      const flagged = job.status === "running" && await updateJobIf(jobId, "status=eq.running", { control: "pause" });
+      if (!flagged) {
+        return conflict(`Only running jobs can be paused; training job ${jobId} is ${job.status}`);
+      }
+      return jsonResponse({ success: true, jobId, status: flagged.status });
+    }
+    
+    // Resume: train-model restarts the job from its stored request, rows and checkpoint
+    if (job.status !== "paused") {
+      return conflict(`Only paused jobs can be resumed; training job ${jobId} is ${job.status}`);
+    }
+    
+    const supabaseUrl = Deno.env.get("SUPABASE_URL") || "";
+    const supabaseAnonKey = Deno.env.get("SUPABASE_ANON_KEY") || "";
+    const response = await fetch(`${supabaseUrl}/functions/v1/train-model`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "Authorization": `Bearer ${supabaseAnonKey}`,
+      },
+      body: JSON.stringify({ resumeJobId: jobId }),
+    });
+    
+    const result = await response.json();
+    return jsonResponse(result, response.status);
+  } catch (error) {
+    console.error("Error controlling training job:", error.message);
+    return jsonResponse({ success: false, error: error.message }, 500);
+  }
+});
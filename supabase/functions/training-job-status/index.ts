@@ -0,0 +1,84 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { corsHeaders } from "../_shared/cors.ts";
+import { failStaleJob, getJob, isStaleJob } from "../_shared/jobs.ts";
+
+// Report the state, progress and log lines of a background training job
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    // Accept the job id as a query parameter (GET) or in the JSON body (POST)
+    const jobId = req.method === "GET"
+      ? new URL(req.url).searchParams.get("jobId")
+      : (await req.json()).jobId;
+    
+    if (!jobId) {
+      throw new Error("Missing required parameter: jobId");
+    }
+    
+    let job = await getJob(jobId);
+    if (!job) {
+      return new Response(
+        JSON.stringify({ success: false, error: `Training job ${jobId} not found` }),
+        {
+          headers: {
+            ...corsHeaders,
+            "Content-Type": "application/json",
+          },
+          status: 404,
+        }
+      );
+    }
+    
+    // Nothing else notices a job whose worker was killed, so it is failed when read
+    if (isStaleJob(job)) {
+      job = await failStaleJob(job) ?? await getJob(jobId) ?? job;
+    }
+    
+    return new Response(
+      JSON.stringify({
+        success: true,
+        jobId: job.id,
+        status: job.status,
+        algorithm: job.algorithm,
+        progress: job.progress,
+        logs: job.logs,
+        error: job.error,
+        control: job.control,
+        checkpointEpoch: job.checkpoint?.epoch ?? null,
+        history: job.history ?? [],
+        // The trained model is only attached once the job has succeeded
+        result: job.status === "succeeded" ? job.result : null,
+        createdAt: job.created_at,
+        updatedAt: job.updated_at,
+        startedAt: job.started_at,
+        finishedAt: job.finished_at
+      }),
+      {
+        headers: {
+          ...corsHeaders,
+          "Content-Type": "application/json",
+        },
+        status: 200,
+      }
+    );
+  } catch (error) {
+    console.error("Error fetching training job:", error.message);
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: error.message,
+      }),
+      {
+        headers: {
+          ...corsHeaders,
+          "Content-Type": "application/json",
+        },
+        status: 500,
+      }
+    );
+  }
+});
@@ -0,0 +1,47 @@
+-- Background training jobs submitted through the train-model function
+create table if not exists public.training_jobs (
+  id uuid primary key default gen_random_uuid(),
+  status text not null default 'queued'
+    check (status in ('queued', 'running', 'succeeded', 'failed', 'cancelled')),
+  algorithm text not null,
+  dataset_name text,
+  request jsonb,
+  progress real not null default 0,
+  logs jsonb not null default '[]'::jsonb,
+  result jsonb,
+  error text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  started_at timestamptz,
+  finished_at timestamptz
+);
+
+create index if not exists training_jobs_status_idx on public.training_jobs (status, created_at);
+
+create or replace function public.touch_training_job()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.updated_at = now();
+  return new;
+end;
+$$;
+
+drop trigger if exists training_jobs_touch on public.training_jobs;
+create trigger training_jobs_touch
+  before update on public.training_jobs
+  for each row execute function public.touch_training_job();
+
+-- The app has no sign-in, so jobs are readable and writable like the models table
+alter table public.training_jobs enable row level security;
+
+create policy "Training jobs are readable" on public.training_jobs
+  for select using (true);
+create policy "Training jobs can be created" on public.training_jobs
+  for insert with check (true);
+create policy "Training jobs can be updated" on public.training_jobs
+  for update using (true);
+
+-- Let the client subscribe to job updates instead of polling
+alter publication supabase_realtime add table public.training_jobs;
@@ -0,0 +1,16 @@
+-- Pause, resume and cancel requests for running training jobs
+alter table public.training_jobs
+  drop constraint if exists training_jobs_status_check;
+
+alter table public.training_jobs
+  add constraint training_jobs_status_check
+    check (status in ('queued', 'running', 'paused', 'succeeded', 'failed', 'cancelled'));
+
+-- Set by training-job-control; the process running the job polls it and clears it
+alter table public.training_jobs
+  add column if not exists control text
+    check (control in ('pause', 'cancel'));
+
+-- Latest epoch checkpoint of a paused neural network ({ "epoch": n, "model": base64 .keras file })
+alter table public.training_jobs
+  add column if not exists checkpoint jsonb;
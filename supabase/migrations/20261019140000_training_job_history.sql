@@ -0,0 +1,3 @@
+-- Per-epoch loss and metrics reported by neural network jobs while they train
+alter table public.training_jobs
+  add column if not exists history jsonb not null default '[]'::jsonb;
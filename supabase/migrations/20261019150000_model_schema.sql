@@ -0,0 +1,3 @@
+-- Column types of the dataset each model was trained on, as edited in the schema panel
+alter table public.models
+  add column if not exists schema jsonb;
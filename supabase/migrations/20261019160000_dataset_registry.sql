@@ -0,0 +1,71 @@
+-- Uploaded datasets and their immutable versions. Files live in the "datasets"
+-- storage bucket under <dataset id>/<version>/<file name>.
+create table if not exists public.datasets (
+  id uuid primary key default gen_random_uuid(),
+  name text not null unique,
+  created_at timestamptz not null default now()
+);
+
+create table if not exists public.dataset_versions (
+  id uuid primary key default gen_random_uuid(),
+  dataset_id uuid not null references public.datasets (id) on delete cascade,
+  version integer not null,
+  file_name text not null,
+  file_path text not null,
+  format text not null,
+  -- Sheet and header row the file was read with
+  read_options jsonb not null default '{}'::jsonb,
+  -- SHA-256 of the uploaded file, hex encoded
+  content_hash text not null,
+  row_count integer not null,
+  column_count integer not null,
+  schema jsonb not null,
+  target text not null,
+  features jsonb not null,
+  created_at timestamptz not null default now(),
+  unique (dataset_id, version),
+  unique (dataset_id, content_hash)
+);
+
+create index if not exists dataset_versions_dataset_idx on public.dataset_versions (dataset_id, version desc);
+
+-- A version never changes once written; new data means a new version
+create or replace function public.prevent_dataset_version_update()
+returns trigger
+language plpgsql
+as $$
+begin
+  raise exception 'Dataset versions are immutable';
+end;
+$$;
+
+drop trigger if exists dataset_versions_immutable on public.dataset_versions;
+create trigger dataset_versions_immutable
+  before update on public.dataset_versions
+  for each row execute function public.prevent_dataset_version_update();
+
+-- Each model points at the exact data it was trained on
+alter table public.models
+  add column if not exists dataset_version_id uuid references public.dataset_versions (id) on delete set null;
+
+-- The app has no sign-in, so datasets are readable and writable like the models table
+alter table public.datasets enable row level security;
+alter table public.dataset_versions enable row level security;
+
+create policy "Datasets are readable" on public.datasets
+  for select using (true);
+create policy "Datasets can be created" on public.datasets
+  for insert with check (true);
+create policy "Dataset versions are readable" on public.dataset_versions
+  for select using (true);
+create policy "Dataset versions can be created" on public.dataset_versions
+  for insert with check (true);
+
+insert into storage.buckets (id, name, public)
+values ('datasets', 'datasets', false)
+on conflict (id) do nothing;
+
+create policy "Dataset files are readable" on storage.objects
+  for select using (bucket_id = 'datasets');
+create policy "Dataset files can be uploaded" on storage.objects
+  for insert with check (bucket_id = 'datasets');
@@ -0,0 +1,4 @@
+-- Seed, sizes, stratification and group/time columns of the split each model
+-- was trained and scored on, so the run can be repeated on the same rows
+alter table public.models
+  add column if not exists split_spec jsonb;
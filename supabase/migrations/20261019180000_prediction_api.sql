@@ -0,0 +1,48 @@
+-- Keys for the public prediction API (predict-api function). Only a SHA-256 hash
+-- of each key is stored; the key itself is shown once when it is created.
+create table if not exists public.api_keys (
+  id uuid primary key default gen_random_uuid(),
+  -- Project the key was issued to; keys are grouped and revoked per project
+  project text not null,
+  name text not null,
+  -- First characters of the key, to tell keys apart in the app
+  key_prefix text not null,
+  -- SHA-256 of the full key, hex encoded
+  key_hash text not null unique,
+  -- Requests allowed per key in any 60 second window
+  rate_limit_per_minute integer not null default 60 check (rate_limit_per_minute > 0),
+  created_at timestamptz not null default now(),
+  last_used_at timestamptz,
+  revoked_at timestamptz
+);
+
+create index if not exists api_keys_project_idx on public.api_keys (project, created_at desc);
+
+-- One row per API call, successful or not, for auditing and rate limiting
+create table if not exists public.prediction_requests (
+  id uuid primary key default gen_random_uuid(),
+  api_key_id uuid references public.api_keys (id) on delete set null,
+  model_id uuid,
+  status_code integer not null,
+  row_count integer not null default 0,
+  latency_ms integer not null default 0,
+  error text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists prediction_requests_key_idx on public.prediction_requests (api_key_id, created_at desc);
+
+-- The app has no sign-in, so keys are managed like the models table
+alter table public.api_keys enable row level security;
+alter table public.prediction_requests enable row level security;
+
+create policy "API keys are readable" on public.api_keys
+  for select using (true);
+create policy "API keys can be created" on public.api_keys
+  for insert with check (true);
+create policy "API keys can be revoked" on public.api_keys
+  for update using (true);
+create policy "Prediction requests are readable" on public.prediction_requests
+  for select using (true);
+create policy "Prediction requests can be logged" on public.prediction_requests
+  for insert with check (true);
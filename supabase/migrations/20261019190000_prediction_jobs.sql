@@ -0,0 +1,34 @@
+-- Background batch predictions submitted through the predict-with-model function
+create table if not exists public.prediction_jobs (
+  id uuid primary key default gen_random_uuid(),
+  model_id uuid not null,
+  status text not null default 'queued'
+    check (status in ('queued', 'running', 'succeeded', 'failed')),
+  total_rows integer not null,
+  processed_rows integer not null default 0,
+  progress real not null default 0,
+  -- { "predictions": [...], "probabilities": [...] } once the job has succeeded
+  result jsonb,
+  error text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  started_at timestamptz,
+  finished_at timestamptz
+);
+
+create index if not exists prediction_jobs_model_idx on public.prediction_jobs (model_id, created_at desc);
+
+-- Same updated_at bookkeeping as training jobs
+drop trigger if exists prediction_jobs_touch on public.prediction_jobs;
+create trigger prediction_jobs_touch
+  before update on public.prediction_jobs
+  for each row execute function public.touch_training_job();
+
+alter table public.prediction_jobs enable row level security;
+
+create policy "Prediction jobs are readable" on public.prediction_jobs
+  for select using (true);
+create policy "Prediction jobs can be created" on public.prediction_jobs
+  for insert with check (true);
+create policy "Prediction jobs can be updated" on public.prediction_jobs
+  for update using (true);
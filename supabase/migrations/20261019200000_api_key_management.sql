@@ -0,0 +1,11 @@
+-- Keys are issued and revoked by the api-keys function and requests are logged by
+-- predict-api, both with the service role key (which bypasses RLS). Without these
+-- policies the anon key could mint keys, un-revoke them or forge the request log.
+drop policy if exists "API keys can be created" on public.api_keys;
+drop policy if exists "API keys can be revoked" on public.api_keys;
+drop policy if exists "Prediction requests can be logged" on public.prediction_requests;
+
+-- The app lists keys, but has no use for their hashes
+revoke select on public.api_keys from anon, authenticated;
+grant select (id, project, name, key_prefix, rate_limit_per_minute, created_at, last_used_at, revoked_at)
+  on public.api_keys to anon, authenticated;
@@ -0,0 +1,6 @@
+-- Project whose API keys may call the model through predict-api. Models without
+-- a project are not served; a key only reaches the models of its own project.
+alter table public.models
+  add column if not exists project text;
+
+create index if not exists models_project_idx on public.models (project);
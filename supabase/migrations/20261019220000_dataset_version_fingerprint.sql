@@ -0,0 +1,28 @@
+-- A version is identified by more than its file: the same file read with another
+-- sheet or header row, or registered with another schema, target or features,
+-- yields different rows and gets a version of its own. The fingerprint is the
+-- SHA-256 of all of these (see registerDatasetVersion in src/utils/datasetRegistry.ts).
+alter table public.dataset_versions
+  add column if not exists fingerprint text;
+
+-- Existing versions were unique per file, so their content hash stays unique as a
+-- fingerprint; the backfill is the only change ever made to a version
+alter table public.dataset_versions disable trigger dataset_versions_immutable;
+update public.dataset_versions set fingerprint = content_hash where fingerprint is null;
+alter table public.dataset_versions enable trigger dataset_versions_immutable;
+
+alter table public.dataset_versions
+  alter column fingerprint set not null,
+  drop constraint if exists dataset_versions_dataset_id_content_hash_key,
+  add constraint dataset_versions_dataset_id_fingerprint_key unique (dataset_id, fingerprint);
+
+-- A failed registration removes the file it uploaded. Files of registered versions
+-- stay immutable: only files no version points to can be deleted.
+create policy "Unregistered dataset files can be removed" on storage.objects
+  for delete using (
+    bucket_id = 'datasets'
+    and not exists (
+      select 1 from public.dataset_versions
+      where dataset_versions.file_path = storage.objects.name
+    )
+  );
@@ -0,0 +1,16 @@
+-- The rows of a background training job are kept in a private storage bucket instead of
+-- in training_jobs.request, which every status read and realtime update carries along.
+-- train-model stores them under <job id>.json and removes them once the job has finished.
+alter table public.training_jobs
+  add column if not exists data_path text;
+
+-- No policies: only the edge functions use the bucket, with the service role key
+insert into storage.buckets (id, name, public)
+values ('training-job-data', 'training-job-data', false)
+on conflict (id) do nothing;
+
+-- Finished jobs are never resumed, so the rows stored on them can go. Paused jobs keep
+-- theirs until they are resumed.
+update public.training_jobs
+set request = request - 'data'
+where status in ('succeeded', 'failed', 'cancelled') and request ? 'data';
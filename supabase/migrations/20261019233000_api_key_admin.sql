@@ -0,0 +1,10 @@
+-- models.project decides which API keys reach a model, so like the keys themselves it is
+-- only written by the api-keys function (service role, behind the admin secret). The app
+-- keeps writing every other column of models with the anon key.
+revoke insert, update on public.models from anon, authenticated;
+grant insert (id, name, type, algorithm, accuracy, dataset_name, parameters, neural_network_architecture,
+              targets, schema, dataset_version_id, split_spec, model_data, model_predictions, is_trained, created_at)
+  on public.models to anon, authenticated;
+grant update (name, type, algorithm, accuracy, dataset_name, parameters, neural_network_architecture,
+              targets, schema, dataset_version_id, split_spec, model_data, model_predictions, is_trained)
+  on public.models to anon, authenticated;
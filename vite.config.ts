@@ -19,4 +19,9 @@ export default defineConfig(({ mode }) => ({
       "@": path.resolve(__dirname, "./src"),
     },
   },
+  // The ONNX runtime locates its .wasm files relative to its own module,
+  // which breaks when Vite pre-bundles it
+  optimizeDeps: {
+    exclude: ["onnxruntime-web"],
+  },
 }));